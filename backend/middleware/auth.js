@@ -1,3 +1,4 @@
+const crypto = require('crypto');
 const jwt = require('jsonwebtoken');
 const { PrismaClient } = require('@prisma/client');
 
@@ -16,11 +17,25 @@ const authenticateToken = async (req, res, next) => {
 
   try {
     const decoded = jwt.verify(token, process.env.JWT_SECRET);
+
+    // Tokens issued for one purpose, such as photo links, are not logins
+    if (decoded.purpose) {
+      return res.status(403).json({
+        error: 'Invalid token',
+        message: 'Token verification failed'
+      });
+    }
     
     // Verify user still exists and is active
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
-      select: { id: true, username: true, name: true, role: true }
+      select: {
+        id: true,
+        username: true,
+        name: true,
+        role: true,
+        outlets: { select: { outletId: true } }
+      }
     });
 
     if (!user) {
@@ -30,7 +45,11 @@ const authenticateToken = async (req, res, next) => {
       });
     }
 
-    req.user = user;
+    const { outlets, ...userFields } = user;
+    req.user = {
+      ...userFields,
+      outletIds: outlets.map(assignment => assignment.outletId)
+    };
     next();
   } catch (error) {
     if (error.name === 'TokenExpiredError') {
@@ -67,8 +86,43 @@ const requireUser = (req, res, next) => {
   next();
 };
 
+// Admins may act on any outlet; users only on outlets they are assigned to
+const canAccessOutlet = (user, outletId) => {
+  if (!outletId || user.role === 'ADMIN') {
+    return true;
+  }
+  return user.outletIds.includes(outletId);
+};
+
+// Photo links in stock exports open without a login, so each one carries a
+// token that is only valid for that photo. They are signed with their own
+// secret, derived from JWT_SECRET unless PHOTO_LINK_SECRET is set, so a
+// shared link never verifies as a login token.
+const PHOTO_LINK_TTL_DAYS = parseInt(process.env.STOCK_EXPORT_LINK_TTL_DAYS || '7', 10);
+
+const getPhotoLinkSecret = () => process.env.PHOTO_LINK_SECRET
+  || crypto.createHmac('sha256', process.env.JWT_SECRET).update('photo-link').digest('hex');
+
+const signPhotoLinkToken = (photoId) => jwt.sign(
+  { photoId, purpose: 'photo-link' },
+  getPhotoLinkSecret(),
+  { expiresIn: `${PHOTO_LINK_TTL_DAYS}d` }
+);
+
+const verifyPhotoLinkToken = (token, photoId) => {
+  try {
+    const decoded = jwt.verify(token, getPhotoLinkSecret());
+    return decoded.purpose === 'photo-link' && decoded.photoId === photoId;
+  } catch (error) {
+    return false;
+  }
+};
+
 module.exports = {
   authenticateToken,
+  canAccessOutlet,
   requireAdmin,
-  requireUser
+  requireUser,
+  signPhotoLinkToken,
+  verifyPhotoLinkToken
 };
@@ -1,6 +1,17 @@
+const { OlseraError } = require('../services/olseraErrors');
+
 const errorHandler = (err, req, res, next) => {
   console.error('Error:', err);
 
+  // Olsera integration errors
+  if (err instanceof OlseraError) {
+    return res.status(err.statusCode).json({
+      error: 'Olsera Error',
+      code: err.code,
+      message: err.message
+    });
+  }
+
   // Prisma errors
   if (err.code === 'P2002') {
     return res.status(400).json({
@@ -0,0 +1,301 @@
+/**
+ * Local stand-in for the Olsera Open API, for developing and testing the
+ * stock workflow offline. Serves the token and list endpoints from JSON
+ * fixtures, with pagination, token expiry and refresh like the real API.
+ * Stock opnames are kept in memory and deduplicated by reference number.
+ *
+ *   npm run mock:olsera            replay fixtures
+ *   npm run mock:olsera -- --record   proxy to Olsera and save responses
+ *
+ * Point the backend at it with
+ *   OLSERA_BASE_URL=http://localhost:5100/api/open-api/v1
+ */
+const express = require('express');
+const axios = require('axios');
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+require('dotenv').config({ path: path.join(__dirname, '../../.env') });
+
+const PORT = process.env.MOCK_OLSERA_PORT || 5100;
+const BASE_PATH = '/api/open-api/v1';
+const FIXTURES_DIR = path.resolve(process.env.MOCK_OLSERA_FIXTURES_DIR || path.join(__dirname, 'fixtures'));
+const TOKEN_TTL = parseInt(process.env.MOCK_OLSERA_TOKEN_TTL || '86400', 10);
+const REFRESH_TOKEN_TTL = parseInt(process.env.MOCK_OLSERA_REFRESH_TOKEN_TTL || '2592000', 10);
+const DEFAULT_PER_PAGE = 15;
+const RECORD = process.argv.includes('--record') || process.env.MOCK_OLSERA_RECORD === 'true';
+const UPSTREAM_URL = process.env.MOCK_OLSERA_UPSTREAM_URL || 'https://api-open.olsera.co.id/api/open-api/v1';
+const STOCK_OPNAME_PATH = process.env.OLSERA_STOCK_OPNAME_PATH || '/en/inventory/stockopname';
+
+// List endpoints and the fixture directory each one replays from
+const LIST_ENDPOINTS = {
+  '/en/inventory/stockmovement': 'stockmovement',
+  '/en/product': 'product'
+};
+
+// Issued tokens and when they expire (ms since epoch)
+const accessTokens = new Map();
+const refreshTokens = new Map();
+
+// Stock opnames by ref_no, and how many upcoming API requests should fail
+const stockOpnames = new Map();
+let failures = { count: 0, status: 503 };
+
+const issueTokens = () => {
+  const accessToken = crypto.randomBytes(32).toString('hex');
+  const refreshToken = crypto.randomBytes(32).toString('hex');
+  accessTokens.set(accessToken, Date.now() + TOKEN_TTL * 1000);
+  refreshTokens.set(refreshToken, Date.now() + REFRESH_TOKEN_TTL * 1000);
+
+  return {
+    token_type: 'Bearer',
+    expires_in: TOKEN_TTL,
+    access_token: accessToken,
+    refresh_token: refreshToken,
+    expires_refresh_token: REFRESH_TOKEN_TTL
+  };
+};
+
+const isValid = (tokens, token) => {
+  const expiresAt = tokens.get(token);
+  return Boolean(expiresAt && expiresAt > Date.now());
+};
+
+/**
+ * Fixture file for a list request: date-ranged requests get their own file
+ * (e.g. stockmovement/2025-09-21_2025-09-21.json), anything else uses
+ * default.json
+ */
+const fixturePath = (name, query) => {
+  const file = query.start_date && query.end_date
+    ? `${query.start_date}_${query.end_date}.json`
+    : 'default.json';
+  return path.join(FIXTURES_DIR, name, file);
+};
+
+const readFixture = (file) => {
+  if (!fs.existsSync(file)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(file, 'utf8'));
+};
+
+/**
+ * Rows to replay for a list request. Without a product fixture the product
+ * list is derived from the stock movement rows.
+ */
+const loadRows = (name, query) => {
+  const fixture = readFixture(fixturePath(name, query))
+    || readFixture(path.join(FIXTURES_DIR, name, 'default.json'));
+  if (fixture) {
+    return fixture.data || [];
+  }
+
+  if (name === 'product') {
+    const movements = loadRows('stockmovement', {});
+    const products = new Map();
+    for (const row of movements) {
+      products.set(`${row.product_id}:${row.product_variant_id || ''}`, {
+        id: row.product_id,
+        name: row.product_name,
+        product_group_name: row.product_group_name,
+        sku: row.product_sku,
+        product_variant_id: row.product_variant_id,
+        product_variant_name: row.product_variant_name,
+        product_variant_sku: row.product_variant_sku
+      });
+    }
+    return [...products.values()];
+  }
+
+  return [];
+};
+
+/**
+ * Wrap one page of rows in Olsera's paginated response envelope
+ */
+const paginate = (req, rows) => {
+  const perPage = Math.max(1, parseInt(req.query.per_page, 10) || DEFAULT_PER_PAGE);
+  const lastPage = Math.max(1, Math.ceil(rows.length / perPage));
+  const currentPage = Math.min(Math.max(1, parseInt(req.query.page, 10) || 1), lastPage);
+  const start = (currentPage - 1) * perPage;
+  const data = rows.slice(start, start + perPage);
+  const url = `${req.protocol}://${req.get('host')}${req.baseUrl}${req.path}`;
+  const pageUrl = (page) => `${url}?page=${page}`;
+
+  return {
+    data,
+    links: {
+      first: pageUrl(1),
+      last: pageUrl(lastPage),
+      prev: currentPage > 1 ? pageUrl(currentPage - 1) : null,
+      next: currentPage < lastPage ? pageUrl(currentPage + 1) : null
+    },
+    meta: {
+      current_page: currentPage,
+      from: data.length ? start + 1 : null,
+      last_page: lastPage,
+      path: url,
+      per_page: perPage,
+      to: data.length ? start + data.length : null,
+      total: rows.length
+    },
+    status: 200,
+    error: 0
+  };
+};
+
+/**
+ * Save an upstream list response. The first page replaces the fixture and
+ * later pages append to it, so a full paginated fetch leaves every row in
+ * one file.
+ */
+const recordPage = (name, query, body) => {
+  const file = fixturePath(name, query);
+  const page = parseInt(query.page, 10) || 1;
+  const existing = page > 1 ? readFixture(file) : null;
+  const data = [...(existing?.data || []), ...(body.data || [])];
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify({ data }, null, 2));
+  console.log(`Recorded ${body.data?.length || 0} rows (page ${page}) to ${path.relative(FIXTURES_DIR, file)}`);
+};
+
+const app = express();
+const router = express.Router();
+
+app.use(express.json());
+
+// Testing aid: expire every issued access token so the next call gets a 401
+app.post('/__mock/expire-tokens', (req, res) => {
+  accessTokens.clear();
+  res.json({ message: 'Access tokens expired' });
+});
+
+// Testing aid: fail the next `count` API requests (token requests excluded)
+app.post('/__mock/fail-next', (req, res) => {
+  failures = {
+    count: parseInt(req.body.count, 10) || 1,
+    status: parseInt(req.body.status, 10) || 503
+  };
+  res.json({ message: `Next ${failures.count} request(s) will fail with ${failures.status}` });
+});
+
+if (RECORD) {
+  // Recording must never adjust live stock
+  router.post(STOCK_OPNAME_PATH, (req, res) => {
+    res.status(403).json({ message: 'Stock opnames are not forwarded in record mode' });
+  });
+
+  // Forward everything upstream; tokens pass through but are never recorded
+  router.use(async (req, res) => {
+    try {
+      const response = await axios({
+        method: req.method,
+        url: `${UPSTREAM_URL}${req.path}`,
+        params: req.query,
+        data: req.body,
+        headers: {
+          Accept: 'application/json',
+          ...(req.headers.authorization ? { Authorization: req.headers.authorization } : {})
+        },
+        validateStatus: () => true
+      });
+
+      const name = LIST_ENDPOINTS[req.path];
+      if (name && req.method === 'GET' && response.status === 200) {
+        recordPage(name, req.query, response.data);
+      }
+
+      res.status(response.status).json(response.data);
+    } catch (error) {
+      console.error('Upstream request failed:', error.message);
+      res.status(502).json({ message: 'Upstream request failed' });
+    }
+  });
+} else {
+  // POST /id/token - secret_key and refresh_token grants
+  router.post('/id/token', (req, res) => {
+    const { grant_type: grantType, app_id: appId, secret_key: secretKey, refresh_token: refreshToken } = req.body;
+
+    if (grantType === 'refresh_token') {
+      if (!isValid(refreshTokens, refreshToken)) {
+        return res.status(401).json({ message: 'Invalid refresh token' });
+      }
+      refreshTokens.delete(refreshToken);
+      return res.json(issueTokens());
+    }
+
+    if (grantType !== 'secret_key' || !appId || !secretKey) {
+      return res.status(400).json({ message: 'Invalid grant' });
+    }
+
+    // Any credentials are accepted unless the mock is given its own pair
+    if (process.env.MOCK_OLSERA_APP_ID
+      && (appId !== process.env.MOCK_OLSERA_APP_ID || secretKey !== process.env.MOCK_OLSERA_SECRET_KEY)) {
+      return res.status(401).json({ message: 'Invalid app_id or secret_key' });
+    }
+
+    res.json(issueTokens());
+  });
+
+  router.use((req, res, next) => {
+    const token = req.headers.authorization?.replace(/^Bearer\s+/i, '');
+    if (!isValid(accessTokens, token)) {
+      return res.status(401).json({ message: 'Unauthenticated.' });
+    }
+    next();
+  });
+
+  router.use((req, res, next) => {
+    if (failures.count > 0) {
+      failures.count--;
+      return res.status(failures.status).json({ message: 'Simulated failure' });
+    }
+    next();
+  });
+
+  for (const [endpoint, name] of Object.entries(LIST_ENDPOINTS)) {
+    router.get(endpoint, (req, res) => {
+      res.json(paginate(req, loadRows(name, req.query)));
+    });
+  }
+
+  router.get(STOCK_OPNAME_PATH, (req, res) => {
+    res.json(paginate(req, [...stockOpnames.values()]));
+  });
+
+  // A repeated ref_no returns the opname already made instead of a new one
+  router.post(STOCK_OPNAME_PATH, (req, res) => {
+    const { ref_no: refNo, date, items } = req.body;
+    if (!refNo || !date || !Array.isArray(items) || items.length === 0) {
+      return res.status(422).json({ message: 'ref_no, date and items are required' });
+    }
+
+    const existing = stockOpnames.get(refNo);
+    if (existing) {
+      return res.json({ data: existing, status: 200, error: 0 });
+    }
+
+    const opname = {
+      id: stockOpnames.size + 1,
+      ref_no: refNo,
+      date,
+      store_id: req.body.store_id || null,
+      note: req.body.note || null,
+      items,
+      created_at: new Date().toISOString()
+    };
+    stockOpnames.set(refNo, opname);
+    console.log(`Stock opname ${refNo}: ${items.map(item => `${item.product_id}=${item.qty}`).join(', ')}`);
+    res.status(201).json({ data: opname, status: 201, error: 0 });
+  });
+}
+
+app.use(BASE_PATH, router);
+
+app.listen(PORT, () => {
+  console.log(`Mock Olsera API ${RECORD ? `recording from ${UPSTREAM_URL}` : 'replaying fixtures'} on http://localhost:${PORT}${BASE_PATH}`);
+  console.log(`Fixtures: ${FIXTURES_DIR}`);
+});
@@ -1,11 +1,15 @@
 const { PrismaClient } = require('@prisma/client');
 const bcrypt = require('bcryptjs');
+const reportTypeService = require('../services/reportTypeService');
 
 const prisma = new PrismaClient();
 
 async function main() {
   console.log('🌱 Starting database seed...');
 
+  await reportTypeService.ensureBuiltInTypes();
+  console.log('✅ Built-in report types created');
+
   // Create admin user
   const adminPassword = await bcrypt.hash('Admin123!', 12);
   const admin = await prisma.user.upsert({
@@ -36,6 +40,25 @@ async function main() {
 
   console.log('✅ Test user created:', user.username);
 
+  // Create default outlet and assign the test user to it
+  const outlet = await prisma.outlet.upsert({
+    where: { code: 'SEPIO' },
+    update: {},
+    create: {
+      code: 'SEPIO',
+      name: 'Sepio',
+      olseraStoreId: '284378'
+    }
+  });
+
+  await prisma.userOutlet.upsert({
+    where: { userId_outletId: { userId: user.id, outletId: outlet.id } },
+    update: {},
+    create: { userId: user.id, outletId: outlet.id }
+  });
+
+  console.log('✅ Outlet created:', outlet.name);
+
   // Create photo categories
   const photoCategories = [
     // Opening report categories
@@ -58,7 +81,11 @@ async function main() {
     // Stock report categories
     { code: 'STOCK_OPENING', name: 'Opening Stock', description: 'Opening inventory count', reportType: 'STOCK', minRequired: 1, maxAllowed: 2, order: 1 },
     { code: 'STOCK_CLOSING', name: 'Closing Stock', description: 'Closing inventory count', reportType: 'STOCK', minRequired: 1, maxAllowed: 2, order: 2 },
-    { code: 'STOCK_DOCUMENTS', name: 'Documents', description: 'Receipts and documentation', reportType: 'STOCK', minRequired: 0, maxAllowed: 3, order: 3 }
+    { code: 'STOCK_DOCUMENTS', name: 'Documents', description: 'Receipts and documentation', reportType: 'STOCK', minRequired: 0, maxAllowed: 3, order: 3 },
+
+    // Receiving report categories
+    { code: 'RECEIVING_DELIVERY_NOTE', name: 'Delivery Note', description: 'Supplier delivery note or invoice', reportType: 'RECEIVING', minRequired: 1, maxAllowed: 3, order: 1 },
+    { code: 'RECEIVING_GOODS', name: 'Goods', description: 'Delivered goods and any damage', reportType: 'RECEIVING', minRequired: 0, maxAllowed: 5, order: 2 }
   ];
 
   for (const category of photoCategories) {
@@ -110,6 +137,15 @@ async function main() {
 
   console.log('✅ Checklist templates created');
 
+  // Raw materials are counted in daily stock reports by default
+  await prisma.productGroup.upsert({
+    where: { name: 'Bahan Baku' },
+    update: {},
+    create: { name: 'Bahan Baku', counted: true }
+  });
+
+  console.log('✅ Product groups created');
+
   // Create sample reports
   const sampleReports = [
     {
@@ -118,6 +154,7 @@ async function main() {
       description: 'Daily opening procedures completed',
       status: 'SUBMITTED',
       userId: user.id,
+      outletId: outlet.id,
       submittedAt: new Date(Date.now() - 2 * 24 * 60 * 60 * 1000) // 2 days ago
     },
     {
@@ -126,6 +163,7 @@ async function main() {
       description: 'Daily closing procedures completed',
       status: 'SUBMITTED',
       userId: user.id,
+      outletId: outlet.id,
       submittedAt: new Date(Date.now() - 1 * 24 * 60 * 60 * 1000) // 1 day ago
     },
     {
@@ -134,6 +172,7 @@ async function main() {
       description: 'Cash register is not functioning properly, needs immediate attention',
       status: 'SUBMITTED',
       userId: user.id,
+      outletId: outlet.id,
       submittedAt: new Date(Date.now() - 6 * 60 * 60 * 1000) // 6 hours ago
     },
     {
@@ -141,7 +180,8 @@ async function main() {
       title: 'Daily Stock Count',
       description: 'Regular inventory count for the day',
       status: 'DRAFT',
-      userId: user.id
+      userId: user.id,
+      outletId: outlet.id
     }
   ];
 
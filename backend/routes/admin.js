@@ -3,6 +3,15 @@ const Joi = require('joi');
 const bcrypt = require('bcryptjs');
 const { PrismaClient } = require('@prisma/client');
 const { requireAdmin } = require('../middleware/auth');
+const { OLSERA_BASE_URL, resetOlseraClient } = require('../services/olseraApiClient');
+const productService = require('../services/productService');
+const stockService = require('../services/stockService');
+const stockScheduler = require('../services/stockScheduler');
+const stockExportService = require('../services/stockExportService');
+const recipeService = require('../services/recipeService');
+const reportTypeService = require('../services/reportTypeService');
+const reportFieldService = require('../services/reportFieldService');
+const { buildShelfLabelSheet } = require('../services/shelfLabels');
 
 const prisma = new PrismaClient();
 const router = express.Router();
@@ -18,16 +27,102 @@ const createUserSchema = Joi.object({
     .messages({
       'string.pattern.base': 'Password must contain at least one lowercase letter, one uppercase letter, one number, and one special character'
     }),
-  role: Joi.string().valid('USER', 'ADMIN').default('USER')
+  role: Joi.string().valid('USER', 'ADMIN').default('USER'),
+  outletIds: Joi.array().items(Joi.string()).default([])
 });
 
 const updateUserSchema = Joi.object({
   name: Joi.string().min(2).max(100).optional(),
-  role: Joi.string().valid('USER', 'ADMIN').optional()
+  role: Joi.string().valid('USER', 'ADMIN').optional(),
+  outletIds: Joi.array().items(Joi.string()).optional()
 });
 
+const olseraCredentialsSchema = Joi.object({
+  appId: Joi.string().min(1).max(200).required(),
+  secretKey: Joi.string().min(1).max(200).required()
+});
+
+const createOutletSchema = Joi.object({
+  code: Joi.string().min(1).max(50).required(),
+  name: Joi.string().min(1).max(100).required(),
+  address: Joi.string().max(500).allow(''),
+  olseraStoreId: Joi.string().max(50).allow('', null),
+  olseraCredentials: olseraCredentialsSchema.allow(null).optional(),
+  blindCount: Joi.boolean().default(false),
+  blindSecondCount: Joi.boolean().default(false),
+  active: Joi.boolean().default(true)
+});
+
+const updateOutletSchema = Joi.object({
+  name: Joi.string().min(1).max(100).optional(),
+  address: Joi.string().max(500).allow('').optional(),
+  olseraStoreId: Joi.string().max(50).allow('', null).optional(),
+  olseraCredentials: olseraCredentialsSchema.allow(null).optional(),
+  blindCount: Joi.boolean().optional(),
+  blindSecondCount: Joi.boolean().optional(),
+  active: Joi.boolean().optional()
+});
+
+const outletSelect = {
+  id: true,
+  code: true,
+  name: true,
+  address: true,
+  olseraStoreId: true,
+  blindCount: true,
+  blindSecondCount: true,
+  active: true,
+  createdAt: true,
+  updatedAt: true,
+  apiCredentials: {
+    where: { provider: 'olsera' },
+    select: { id: true, appId: true, active: true, tokenExpiry: true }
+  },
+  _count: {
+    select: { users: true, reports: true }
+  }
+};
+
+const userOutletsSelect = {
+  outlets: {
+    select: {
+      outlet: {
+        select: { id: true, code: true, name: true }
+      }
+    }
+  }
+};
+
+// Flatten the user-outlet join rows into a plain outlets array
+const formatUserOutlets = (user) => ({
+  ...user,
+  outlets: (user.outlets || []).map(assignment => assignment.outlet)
+});
+
+// Replace or remove the Olsera credentials stored for an outlet
+const saveOutletCredentials = async (outletId, credentials) => {
+  await prisma.apiCredentials.deleteMany({
+    where: { provider: 'olsera', outletId }
+  });
+
+  if (credentials) {
+    await prisma.apiCredentials.create({
+      data: {
+        provider: 'olsera',
+        outletId,
+        appId: credentials.appId,
+        secretKey: credentials.secretKey,
+        baseUrl: OLSERA_BASE_URL,
+        active: true
+      }
+    });
+  }
+
+  resetOlseraClient(outletId);
+};
+
 const createChecklistSchema = Joi.object({
-  type: Joi.string().valid('OPENING', 'CLOSING').required(),
+  type: Joi.string().max(30).required(),
   title: Joi.string().min(1).max(200).required(),
   order: Joi.number().integer().min(0).default(0),
   required: Joi.boolean().default(false)
@@ -39,84 +134,1106 @@ const updateChecklistSchema = Joi.object({
   required: Joi.boolean().optional()
 });
 
-const createPhotoCategorySchema = Joi.object({
-  code: Joi.string().min(1).max(50).required(),
-  name: Joi.string().min(1).max(100).required(),
-  description: Joi.string().max(500).allow(''),
-  reportType: Joi.string().valid('OPENING', 'CLOSING', 'PROBLEM', 'STOCK').required(),
-  minRequired: Joi.number().integer().min(0).default(0),
-  maxAllowed: Joi.number().integer().min(1).max(20).default(10),
-  order: Joi.number().integer().min(0).default(0),
-  active: Joi.boolean().default(true)
-});
+const createPhotoCategorySchema = Joi.object({
+  code: Joi.string().min(1).max(50).required(),
+  name: Joi.string().min(1).max(100).required(),
+  description: Joi.string().max(500).allow(''),
+  reportType: Joi.string().max(30).required(),
+  minRequired: Joi.number().integer().min(0).default(0),
+  maxAllowed: Joi.number().integer().min(1).max(20).default(10),
+  order: Joi.number().integer().min(0).default(0),
+  active: Joi.boolean().default(true)
+});
+
+const updatePhotoCategorySchema = Joi.object({
+  name: Joi.string().min(1).max(100).optional(),
+  description: Joi.string().max(500).allow('').optional(),
+  minRequired: Joi.number().integer().min(0).optional(),
+  maxAllowed: Joi.number().integer().min(1).max(20).optional(),
+  order: Joi.number().integer().min(0).optional(),
+  active: Joi.boolean().optional()
+});
+
+const reportTypeFields = {
+  name: Joi.string().trim().min(1).max(100),
+  description: Joi.string().max(200).allow('', null),
+  icon: Joi.string().max(50),
+  color: Joi.string().valid('accent', 'green', 'orange', 'red', 'blue', 'purple', 'yellow'),
+  workflow: Joi.string().valid(...reportTypeService.workflows),
+  checklist: Joi.boolean(),
+  photos: Joi.boolean(),
+  requireChecklist: Joi.boolean(),
+  requireDescription: Joi.boolean(),
+  resolvable: Joi.boolean(),
+  active: Joi.boolean(),
+  displayOrder: Joi.number().integer().min(0)
+};
+
+const createReportTypeSchema = Joi.object({
+  ...reportTypeFields,
+  code: Joi.string().trim().uppercase().max(30).pattern(/^[A-Z][A-Z0-9_]*$/).required()
+    .messages({
+      'string.pattern.base': 'Code must start with a letter and contain only letters, numbers and underscores'
+    }),
+  name: reportTypeFields.name.required()
+});
+
+const updateReportTypeSchema = Joi.object(reportTypeFields);
+
+const reportFieldFields = {
+  label: Joi.string().trim().min(1).max(100),
+  required: Joi.boolean(),
+  helpText: Joi.string().max(200).allow('', null),
+  options: Joi.array().items(Joi.string().trim().min(1).max(100)).max(50).unique(),
+  min: Joi.number().allow(null),
+  max: Joi.number().allow(null),
+  unit: Joi.string().trim().max(20).allow('', null),
+  displayOrder: Joi.number().integer().min(0),
+  active: Joi.boolean()
+};
+
+const createReportFieldSchema = Joi.object({
+  ...reportFieldFields,
+  key: Joi.string().trim().max(40).pattern(/^[a-z][a-zA-Z0-9_]*$/).required()
+    .messages({
+      'string.pattern.base': 'Key must start with a lowercase letter and contain only letters, numbers and underscores'
+    }),
+  label: reportFieldFields.label.required(),
+  fieldType: Joi.string().valid(...reportFieldService.fieldTypes).required()
+});
+
+const updateReportFieldSchema = Joi.object(reportFieldFields);
+
+const updateProductSchema = Joi.object({
+  unit: Joi.string().min(1).max(20).optional(),
+  barcode: Joi.string().trim().max(64).allow(null).optional(),
+  cost: Joi.number().min(0).allow(null).optional(),
+  toleranceAmount: Joi.number().min(0).allow(null).optional(),
+  tolerancePercent: Joi.number().min(0).max(100).allow(null).optional(),
+  active: Joi.boolean().optional(),
+  countOverride: Joi.boolean().allow(null).optional(),
+  zoneId: Joi.string().allow(null).optional(),
+  displayOrder: Joi.number().integer().min(0).optional(),
+  // Replaces the product's entry units when given
+  units: Joi.array().items(Joi.object({
+    unit: Joi.string().trim().min(1).max(20).required(),
+    factor: Joi.number().greater(0).required()
+  })).unique('unit').optional()
+});
+
+const productLabelsQuerySchema = Joi.object({
+  // Comma-separated product ids; otherwise all counted products
+  ids: Joi.string().optional(),
+  zoneId: Joi.string().optional(),
+  groupId: Joi.string().optional()
+});
+
+const productInclude = {
+  group: true,
+  zone: true,
+  units: { orderBy: { factor: 'asc' } }
+};
+
+const updateProductGroupSchema = Joi.object({
+  counted: Joi.boolean().optional(),
+  displayOrder: Joi.number().integer().min(0).optional()
+});
+
+const createStorageZoneSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  displayOrder: Joi.number().integer().min(0).optional(),
+  active: Joi.boolean().optional()
+});
+
+const updateStorageZoneSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).optional(),
+  displayOrder: Joi.number().integer().min(0).optional(),
+  active: Joi.boolean().optional()
+});
+
+const createContainerSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  tareWeight: Joi.number().min(0).required(),
+  tareUnit: Joi.string().trim().min(1).max(20).required(),
+  productId: Joi.string().allow(null).optional(),
+  active: Joi.boolean().optional()
+});
+
+const updateContainerSchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).optional(),
+  tareWeight: Joi.number().min(0).optional(),
+  tareUnit: Joi.string().trim().min(1).max(20).optional(),
+  productId: Joi.string().allow(null).optional(),
+  active: Joi.boolean().optional()
+});
+
+const stockAnalyticsQuerySchema = Joi.object({
+  from: Joi.date().optional(),
+  to: Joi.date().optional(),
+  outletId: Joi.string().optional(),
+  limit: Joi.number().integer().min(1).max(100).default(10)
+});
+
+const scheduleRunsQuerySchema = Joi.object({
+  outletId: Joi.string().optional(),
+  status: Joi.string().valid('SUCCESS', 'FAILED', 'SKIPPED').optional(),
+  limit: Joi.number().integer().min(1).max(200).default(50)
+});
+
+const varianceTrendsQuerySchema = Joi.object({
+  from: Joi.date().optional(),
+  to: Joi.date().optional(),
+  outletId: Joi.string().optional(),
+  granularity: Joi.string().valid('day', 'week', 'month').default('day'),
+  window: Joi.number().integer().min(1).max(90).default(7)
+});
+
+const varianceHistoryQuerySchema = Joi.object({
+  from: Joi.date().optional(),
+  to: Joi.date().optional(),
+  outletId: Joi.string().optional(),
+  productId: Joi.string().required(),
+  variantId: Joi.string().allow('', null).optional()
+});
+
+const stockExportQuerySchema = Joi.object({
+  from: Joi.date().optional(),
+  to: Joi.date().optional(),
+  outletId: Joi.string().optional(),
+  groupId: Joi.string().optional(),
+  format: Joi.string().valid('csv', 'xlsx').default('csv')
+});
+
+const syncProductsSchema = Joi.object({
+  outletId: Joi.string().allow(null).optional()
+});
+
+const recipeIngredientsSchema = Joi.array().items(Joi.object({
+  ingredientId: Joi.string().required(),
+  quantity: Joi.number().greater(0).required()
+})).min(1).unique('ingredientId');
+
+const createRecipeSchema = Joi.object({
+  productId: Joi.string().required(),
+  notes: Joi.string().trim().max(500).allow('', null).optional(),
+  active: Joi.boolean().optional(),
+  ingredients: recipeIngredientsSchema.required()
+});
+
+const updateRecipeSchema = Joi.object({
+  productId: Joi.string().optional(),
+  notes: Joi.string().trim().max(500).allow('', null).optional(),
+  active: Joi.boolean().optional(),
+  ingredients: recipeIngredientsSchema.optional()
+});
+
+// USER MANAGEMENT
+
+// GET /api/admin/users - List all users
+router.get('/users', async (req, res, next) => {
+  try {
+    const { page = 1, limit = 20, search, role } = req.query;
+
+    const where = {};
+    if (search) {
+      where.OR = [
+        { username: { contains: search, mode: 'insensitive' } },
+        { name: { contains: search, mode: 'insensitive' } }
+      ];
+    }
+    if (role) where.role = role;
+
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+    const take = parseInt(limit);
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: {
+          id: true,
+          username: true,
+          name: true,
+          role: true,
+          lastLogin: true,
+          createdAt: true,
+          ...userOutletsSelect,
+          _count: {
+            select: { reports: true }
+          }
+        },
+        orderBy: { createdAt: 'desc' },
+        skip,
+        take
+      }),
+      prisma.user.count({ where })
+    ]);
+
+    res.json({
+      users: users.map(formatUserOutlets),
+      pagination: {
+        page: parseInt(page),
+        limit: parseInt(limit),
+        total,
+        pages: Math.ceil(total / parseInt(limit))
+      }
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/admin/users - Create new user
+router.post('/users', async (req, res, next) => {
+  try {
+    const { error, value } = createUserSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const { username, name, password, role, outletIds } = value;
+
+    // Check if user already exists
+    const existingUser = await prisma.user.findUnique({
+      where: { username }
+    });
+
+    if (existingUser) {
+      return res.status(400).json({
+        error: 'User Exists',
+        message: 'Username already taken'
+      });
+    }
+
+    // Hash password
+    const saltRounds = 12;
+    const passwordHash = await bcrypt.hash(password, saltRounds);
+
+    // Create user
+    const user = await prisma.user.create({
+      data: {
+        username,
+        name,
+        passwordHash,
+        role,
+        outlets: {
+          create: outletIds.map(outletId => ({ outletId }))
+        }
+      },
+      select: {
+        id: true,
+        username: true,
+        name: true,
+        role: true,
+        createdAt: true,
+        ...userOutletsSelect
+      }
+    });
+
+    res.status(201).json(formatUserOutlets(user));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/admin/users/:id - Update user
+router.patch('/users/:id', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = updateUserSchema.validate(req.body);
+    
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const { outletIds, ...userData } = value;
+    const data = { ...userData };
+
+    // Replace outlet assignments when a new list is provided
+    if (outletIds) {
+      data.outlets = {
+        deleteMany: {},
+        create: outletIds.map(outletId => ({ outletId }))
+      };
+    }
+
+    const user = await prisma.user.update({
+      where: { id },
+      data,
+      select: {
+        id: true,
+        username: true,
+        name: true,
+        role: true,
+        lastLogin: true,
+        createdAt: true,
+        updatedAt: true,
+        ...userOutletsSelect
+      }
+    });
+
+    res.json(formatUserOutlets(user));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/admin/users/:id - Delete user
+router.delete('/users/:id', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    // Prevent deleting own account
+    if (id === req.user.id) {
+      return res.status(400).json({
+        error: 'Invalid Operation',
+        message: 'Cannot delete your own account'
+      });
+    }
+
+    await prisma.user.delete({
+      where: { id }
+    });
+
+    res.json({ message: 'User deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// OUTLET MANAGEMENT
+
+// GET /api/admin/outlets - List outlets
+router.get('/outlets', async (req, res, next) => {
+  try {
+    const outlets = await prisma.outlet.findMany({
+      select: outletSelect,
+      orderBy: { name: 'asc' }
+    });
+
+    res.json(outlets);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/admin/outlets - Create outlet
+router.post('/outlets', async (req, res, next) => {
+  try {
+    const { error, value } = createOutletSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const { olseraCredentials, olseraStoreId, ...outletData } = value;
+
+    const created = await prisma.outlet.create({
+      data: {
+        ...outletData,
+        olseraStoreId: olseraStoreId || null
+      }
+    });
+
+    if (olseraCredentials) {
+      await saveOutletCredentials(created.id, olseraCredentials);
+    }
+
+    const outlet = await prisma.outlet.findUnique({
+      where: { id: created.id },
+      select: outletSelect
+    });
+
+    res.status(201).json(outlet);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/admin/outlets/:id - Update outlet
+router.patch('/outlets/:id', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = updateOutletSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const { olseraCredentials, ...outletData } = value;
+    if (outletData.olseraStoreId !== undefined) {
+      outletData.olseraStoreId = outletData.olseraStoreId || null;
+    }
+
+    await prisma.outlet.update({
+      where: { id },
+      data: outletData
+    });
+
+    // null removes the outlet's own credentials, undefined leaves them untouched
+    if (olseraCredentials !== undefined) {
+      await saveOutletCredentials(id, olseraCredentials);
+    } else {
+      resetOlseraClient(id);
+    }
+
+    const outlet = await prisma.outlet.findUnique({
+      where: { id },
+      select: outletSelect
+    });
+
+    res.json(outlet);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/admin/outlets/:id - Delete outlet
+router.delete('/outlets/:id', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+
+    const reportCount = await prisma.report.count({
+      where: { outletId: id }
+    });
+
+    if (reportCount > 0) {
+      return res.status(400).json({
+        error: 'Invalid Operation',
+        message: 'Outlet has reports. Deactivate it instead of deleting.'
+      });
+    }
+
+    await prisma.outlet.delete({
+      where: { id }
+    });
+    resetOlseraClient(id);
+
+    res.json({ message: 'Outlet deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PRODUCT CATALOG
+
+// GET /api/admin/products - List catalog products
+router.get('/products', async (req, res, next) => {
+  try {
+    const { search, groupId, counted } = req.query;
+
+    const where = {};
+    if (groupId) where.groupId = groupId === 'none' ? null : groupId;
+    if (search) {
+      where.OR = [
+        { name: { contains: search } },
+        { sku: { contains: search } }
+      ];
+    }
+
+    const products = await prisma.product.findMany({
+      where,
+      include: productInclude,
+      orderBy: [
+        { displayOrder: 'asc' },
+        { name: 'asc' }
+      ]
+    });
+
+    const withCounted = products.map(product => ({
+      ...product,
+      counted: productService.isCounted(product)
+    }));
+
+    res.json(counted === undefined
+      ? withCounted
+      : withCounted.filter(product => product.counted === (counted === 'true')));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/admin/products/sync - Sync catalog from Olsera
+router.post('/products/sync', async (req, res, next) => {
+  try {
+    const { error, value } = syncProductsSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    let outlet = null;
+    if (value.outletId) {
+      outlet = await prisma.outlet.findUnique({ where: { id: value.outletId } });
+      if (!outlet) {
+        return res.status(404).json({
+          error: 'Not Found',
+          message: 'Outlet not found'
+        });
+      }
+    }
+
+    const result = await productService.syncFromOlsera(outlet);
+
+    res.json({
+      message: 'Products synced successfully',
+      ...result
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/admin/products/labels - Printable QR shelf labels in walking order
+router.get('/products/labels', async (req, res, next) => {
+  try {
+    const { error, value } = productLabelsQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const where = { active: true };
+    if (value.ids) where.id = { in: value.ids.split(',') };
+    if (value.zoneId) where.zoneId = value.zoneId === 'none' ? null : value.zoneId;
+    if (value.groupId) where.groupId = value.groupId === 'none' ? null : value.groupId;
+
+    const products = await prisma.product.findMany({
+      where,
+      include: { group: true, zone: true },
+      orderBy: [
+        { displayOrder: 'asc' },
+        { name: 'asc' }
+      ]
+    });
+
+    // Products without an active zone come last, as in stock counts
+    const zoneOrder = (product) => (product.zone?.active ? product.zone.displayOrder : Number.MAX_SAFE_INTEGER);
+    const labelled = (value.ids ? products : products.filter(product => productService.isCounted(product)))
+      .sort((a, b) => zoneOrder(a) - zoneOrder(b) || (a.zone?.name || '').localeCompare(b.zone?.name || ''));
+    if (labelled.length === 0) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'No products to print labels for'
+      });
+    }
+
+    res.type('text/html; charset=utf-8');
+    res.send(buildShelfLabelSheet(labelled));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/admin/products/:id - Update catalog product
+router.patch('/products/:id', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = updateProductSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const { units, ...data } = value;
+    const current = await prisma.product.findUnique({ where: { id } });
+
+    // A changed cost is the admin's from now on; clearing it hands the cost
+    // back to Olsera syncs
+    if (current && data.cost !== undefined && data.cost !== current.cost) {
+      data.costManual = data.cost !== null;
+    }
+
+    if (units) {
+      const baseUnit = data.unit || current?.unit;
+      if (units.some(entryUnit => entryUnit.unit === baseUnit)) {
+        return res.status(400).json({
+          error: 'Validation Error',
+          message: `${baseUnit} is the base unit and cannot also be an entry unit`
+        });
+      }
+    }
+
+    const product = await prisma.$transaction(async (tx) => {
+      if (units) {
+        await tx.productUnit.deleteMany({
+          where: { productId: id }
+        });
+        await tx.productUnit.createMany({
+          data: units.map(({ unit, factor }) => ({ productId: id, unit, factor }))
+        });
+      }
+      return tx.product.update({
+        where: { id },
+        data,
+        include: productInclude
+      });
+    });
+
+    res.json({
+      ...product,
+      counted: productService.isCounted(product)
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/admin/product-groups - List product groups
+router.get('/product-groups', async (req, res, next) => {
+  try {
+    const groups = await prisma.productGroup.findMany({
+      include: {
+        _count: {
+          select: { products: true }
+        }
+      },
+      orderBy: [
+        { displayOrder: 'asc' },
+        { name: 'asc' }
+      ]
+    });
+
+    res.json(groups);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/admin/product-groups/:id - Update product group
+router.patch('/product-groups/:id', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = updateProductGroupSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const group = await prisma.productGroup.update({
+      where: { id },
+      data: value,
+      include: {
+        _count: {
+          select: { products: true }
+        }
+      }
+    });
+
+    res.json(group);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// STORAGE ZONES
+
+// GET /api/admin/storage-zones - List storage zones in walking order
+router.get('/storage-zones', async (req, res, next) => {
+  try {
+    const zones = await prisma.storageZone.findMany({
+      include: {
+        _count: {
+          select: { products: true }
+        }
+      },
+      orderBy: [
+        { displayOrder: 'asc' },
+        { name: 'asc' }
+      ]
+    });
+
+    res.json(zones);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/admin/storage-zones - Create storage zone
+router.post('/storage-zones', async (req, res, next) => {
+  try {
+    const { error, value } = createStorageZoneSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const zone = await prisma.storageZone.create({
+      data: value,
+      include: {
+        _count: {
+          select: { products: true }
+        }
+      }
+    });
+
+    res.status(201).json(zone);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/admin/storage-zones/:id - Update storage zone
+router.patch('/storage-zones/:id', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = updateStorageZoneSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const zone = await prisma.storageZone.update({
+      where: { id },
+      data: value,
+      include: {
+        _count: {
+          select: { products: true }
+        }
+      }
+    });
+
+    res.json(zone);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/admin/storage-zones/:id - Delete storage zone; its products become unassigned
+router.delete('/storage-zones/:id', async (req, res, next) => {
+  try {
+    await prisma.storageZone.delete({
+      where: { id: req.params.id }
+    });
+
+    res.json({ message: 'Storage zone deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// CONTAINERS
+
+const containerInclude = {
+  product: {
+    select: { id: true, name: true, variantName: true, unit: true }
+  }
+};
+
+// GET /api/admin/containers - List weighing containers; shared ones first
+router.get('/containers', async (req, res, next) => {
+  try {
+    const containers = await prisma.container.findMany({
+      include: containerInclude,
+      orderBy: [
+        { productId: 'asc' },
+        { name: 'asc' }
+      ]
+    });
+
+    res.json(containers);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/admin/containers - Create weighing container
+router.post('/containers', async (req, res, next) => {
+  try {
+    const { error, value } = createContainerSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const container = await prisma.container.create({
+      data: value,
+      include: containerInclude
+    });
+
+    res.status(201).json(container);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/admin/containers/:id - Update weighing container
+router.patch('/containers/:id', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = updateContainerSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const container = await prisma.container.update({
+      where: { id },
+      data: value,
+      include: containerInclude
+    });
+
+    res.json(container);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/admin/containers/:id - Delete weighing container; past counts keep its name and tare
+router.delete('/containers/:id', async (req, res, next) => {
+  try {
+    await prisma.container.delete({
+      where: { id: req.params.id }
+    });
+
+    res.json({ message: 'Container deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// RECIPES
+
+// GET /api/admin/recipes - List recipes with their ingredients
+router.get('/recipes', async (req, res, next) => {
+  try {
+    res.json(await recipeService.listRecipes());
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/admin/recipes - Create recipe for a menu product
+router.post('/recipes', async (req, res, next) => {
+  try {
+    const { error, value } = createRecipeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const validationError = await recipeService.getValidationError(value.productId, value.ingredients);
+    if (validationError) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: validationError
+      });
+    }
+
+    const recipe = await recipeService.createRecipe({
+      ...value,
+      notes: value.notes || null
+    });
+
+    res.status(201).json(recipe);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/admin/recipes/:id - Update recipe
+router.patch('/recipes/:id', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = updateRecipeSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const recipe = await recipeService.getRecipe(id);
+    if (!recipe) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Recipe not found'
+      });
+    }
+
+    const validationError = await recipeService.getValidationError(
+      value.productId || recipe.productId,
+      value.ingredients || recipe.ingredients
+    );
+    if (validationError) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: validationError
+      });
+    }
+
+    res.json(await recipeService.updateRecipe(id, {
+      ...value,
+      ...(value.notes !== undefined && { notes: value.notes || null })
+    }));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/admin/recipes/:id - Delete recipe
+router.delete('/recipes/:id', async (req, res, next) => {
+  try {
+    await recipeService.deleteRecipe(req.params.id);
+    res.json({ message: 'Recipe deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// REPORT TYPE MANAGEMENT
+
+// GET /api/admin/report-types - List all report types with their custom fields, inactive included
+router.get('/report-types', async (req, res, next) => {
+  try {
+    res.json(await reportTypeService.listReportTypes());
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/admin/report-types - Create report type
+router.post('/report-types', async (req, res, next) => {
+  try {
+    const { error, value } = createReportTypeSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const reportType = await prisma.reportType.create({
+      data: value
+    });
+
+    res.status(201).json(reportType);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/admin/report-types/:id - Update report type; the code is fixed
+// and built-in types keep their workflow
+router.patch('/report-types/:id', async (req, res, next) => {
+  try {
+    const { id } = req.params;
+    const { error, value } = updateReportTypeSchema.validate(req.body);
+
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const existing = await prisma.reportType.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Report type not found'
+      });
+    }
+
+    if (existing.builtIn && value.workflow && value.workflow !== existing.workflow) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'The workflow of a built-in report type cannot be changed'
+      });
+    }
 
-const updatePhotoCategorySchema = Joi.object({
-  name: Joi.string().min(1).max(100).optional(),
-  description: Joi.string().max(500).allow('').optional(),
-  minRequired: Joi.number().integer().min(0).optional(),
-  maxAllowed: Joi.number().integer().min(1).max(20).optional(),
-  order: Joi.number().integer().min(0).optional(),
-  active: Joi.boolean().optional()
-});
+    const reportType = await prisma.reportType.update({
+      where: { id },
+      data: value
+    });
 
-// USER MANAGEMENT
+    res.json(reportType);
+  } catch (error) {
+    next(error);
+  }
+});
 
-// GET /api/admin/users - List all users
-router.get('/users', async (req, res, next) => {
+// DELETE /api/admin/report-types/:id - Delete an unused custom report type;
+// deactivate it instead once reports use it
+router.delete('/report-types/:id', async (req, res, next) => {
   try {
-    const { page = 1, limit = 20, search, role } = req.query;
+    const { id } = req.params;
 
-    const where = {};
-    if (search) {
-      where.OR = [
-        { username: { contains: search, mode: 'insensitive' } },
-        { name: { contains: search, mode: 'insensitive' } }
-      ];
+    const reportType = await prisma.reportType.findUnique({ where: { id } });
+    if (!reportType) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Report type not found'
+      });
     }
-    if (role) where.role = role;
 
-    const skip = (parseInt(page) - 1) * parseInt(limit);
-    const take = parseInt(limit);
+    if (reportType.builtIn) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Built-in report types cannot be deleted; deactivate them instead'
+      });
+    }
 
-    const [users, total] = await Promise.all([
-      prisma.user.findMany({
-        where,
-        select: {
-          id: true,
-          username: true,
-          name: true,
-          role: true,
-          lastLogin: true,
-          createdAt: true,
-          _count: {
-            select: { reports: true }
-          }
-        },
-        orderBy: { createdAt: 'desc' },
-        skip,
-        take
-      }),
-      prisma.user.count({ where })
+    const [reports, checklists, photoCategories] = await Promise.all([
+      prisma.report.count({ where: { type: reportType.code } }),
+      prisma.checklistTemplate.count({ where: { type: reportType.code } }),
+      prisma.photoCategory.count({ where: { reportType: reportType.code } })
     ]);
 
-    res.json({
-      users,
-      pagination: {
-        page: parseInt(page),
-        limit: parseInt(limit),
-        total,
-        pages: Math.ceil(total / parseInt(limit))
-      }
+    if (reports + checklists + photoCategories > 0) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Report type is in use by reports, checklists or photo categories; deactivate it instead'
+      });
+    }
+
+    await prisma.reportType.delete({
+      where: { id }
     });
+
+    res.json({ message: 'Report type deleted successfully' });
   } catch (error) {
     next(error);
   }
 });
 
-// POST /api/admin/users - Create new user
-router.post('/users', async (req, res, next) => {
+// POST /api/admin/report-types/:id/fields - Add custom field to a report type
+router.post('/report-types/:id/fields', async (req, res, next) => {
   try {
-    const { error, value } = createUserSchema.validate(req.body);
+    const { error, value } = createReportFieldSchema.validate(req.body);
     if (error) {
       return res.status(400).json({
         error: 'Validation Error',
@@ -124,53 +1241,43 @@ router.post('/users', async (req, res, next) => {
       });
     }
 
-    const { username, name, password, role } = value;
+    const reportType = await prisma.reportType.findUnique({ where: { id: req.params.id } });
+    if (!reportType) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Report type not found'
+      });
+    }
 
-    // Check if user already exists
-    const existingUser = await prisma.user.findUnique({
-      where: { username }
-    });
+    const data = {
+      ...value,
+      reportTypeId: reportType.id,
+      options: value.options ? JSON.stringify(value.options) : null
+    };
 
-    if (existingUser) {
+    const definitionError = reportFieldService.getDefinitionError(data);
+    if (definitionError) {
       return res.status(400).json({
-        error: 'User Exists',
-        message: 'Username already taken'
+        error: 'Validation Error',
+        message: definitionError
       });
     }
 
-    // Hash password
-    const saltRounds = 12;
-    const passwordHash = await bcrypt.hash(password, saltRounds);
-
-    // Create user
-    const user = await prisma.user.create({
-      data: {
-        username,
-        name,
-        passwordHash,
-        role
-      },
-      select: {
-        id: true,
-        username: true,
-        name: true,
-        role: true,
-        createdAt: true
-      }
-    });
+    const field = await prisma.reportField.create({ data });
 
-    res.status(201).json(user);
+    res.status(201).json(reportFieldService.serializeField(field));
   } catch (error) {
     next(error);
   }
 });
 
-// PATCH /api/admin/users/:id - Update user
-router.patch('/users/:id', async (req, res, next) => {
+// PATCH /api/admin/report-fields/:id - Update custom field; key and type are
+// fixed so stored values keep their meaning
+router.patch('/report-fields/:id', async (req, res, next) => {
   try {
     const { id } = req.params;
-    const { error, value } = updateUserSchema.validate(req.body);
-    
+    const { error, value } = updateReportFieldSchema.validate(req.body);
+
     if (error) {
       return res.status(400).json({
         error: 'Validation Error',
@@ -178,44 +1285,47 @@ router.patch('/users/:id', async (req, res, next) => {
       });
     }
 
-    const user = await prisma.user.update({
+    const existing = await prisma.reportField.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Report field not found'
+      });
+    }
+
+    const data = { ...value };
+    if (value.options) {
+      data.options = JSON.stringify(value.options);
+    }
+
+    const definitionError = reportFieldService.getDefinitionError({ ...existing, ...data });
+    if (definitionError) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: definitionError
+      });
+    }
+
+    const field = await prisma.reportField.update({
       where: { id },
-      data: value,
-      select: {
-        id: true,
-        username: true,
-        name: true,
-        role: true,
-        lastLogin: true,
-        createdAt: true,
-        updatedAt: true
-      }
+      data
     });
 
-    res.json(user);
+    res.json(reportFieldService.serializeField(field));
   } catch (error) {
     next(error);
   }
 });
 
-// DELETE /api/admin/users/:id - Delete user
-router.delete('/users/:id', async (req, res, next) => {
+// DELETE /api/admin/report-fields/:id - Delete custom field; values already
+// stored on reports stay in their metadata
+router.delete('/report-fields/:id', async (req, res, next) => {
   try {
-    const { id } = req.params;
-
-    // Prevent deleting own account
-    if (id === req.user.id) {
-      return res.status(400).json({
-        error: 'Invalid Operation',
-        message: 'Cannot delete your own account'
-      });
-    }
-
-    await prisma.user.delete({
-      where: { id }
+    await prisma.reportField.delete({
+      where: { id: req.params.id }
     });
 
-    res.json({ message: 'User deleted successfully' });
+    res.json({ message: 'Report field deleted successfully' });
   } catch (error) {
     next(error);
   }
@@ -256,6 +1366,14 @@ router.post('/checklists', async (req, res, next) => {
       });
     }
 
+    const reportType = await reportTypeService.getReportType(value.type);
+    if (!reportType?.checklist) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Report type does not use checklists'
+      });
+    }
+
     const checklist = await prisma.checklistTemplate.create({
       data: value
     });
@@ -369,6 +1487,13 @@ router.post('/photo-categories', async (req, res, next) => {
       });
     }
 
+    if (!await reportTypeService.getReportType(value.reportType)) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Invalid report type'
+      });
+    }
+
     const category = await prisma.photoCategory.create({
       data: value
     });
@@ -450,7 +1575,12 @@ router.put('/settings', async (req, res, next) => {
       refreshTokenDays: Joi.number().integer().min(1).max(30).optional(),
       enableNotifications: Joi.boolean().optional(),
       enableAutoBackup: Joi.boolean().optional(),
-      backupFrequency: Joi.string().valid('hourly', 'daily', 'weekly', 'monthly').optional()
+      backupFrequency: Joi.string().valid('hourly', 'daily', 'weekly', 'monthly').optional(),
+      stockScheduleEnabled: Joi.boolean().optional(),
+      stockScheduleTime: Joi.string().pattern(/^([01]\d|2[0-3]):[0-5]\d$/).optional()
+        .messages({ 'string.pattern.base': 'stockScheduleTime must be a time in HH:mm format' }),
+      stockCatchUpDays: Joi.number().integer().min(0).max(14).optional(),
+      olseraPushEnabled: Joi.boolean().optional()
     });
 
     const { error, value } = settingsSchema.validate(req.body);
@@ -483,14 +1613,187 @@ router.put('/settings', async (req, res, next) => {
   }
 });
 
+// STOCK SCHEDULE
+
+// GET /api/admin/stock/schedule/runs - Scheduled stock report run log
+router.get('/stock/schedule/runs', async (req, res, next) => {
+  try {
+    const { error, value } = scheduleRunsQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const where = {};
+    if (value.outletId) where.outletId = value.outletId;
+    if (value.status) where.status = value.status;
+
+    const runs = await prisma.stockScheduleRun.findMany({
+      where,
+      include: {
+        outlet: { select: { id: true, code: true, name: true } },
+        report: { select: { id: true, title: true, status: true } }
+      },
+      orderBy: { startedAt: 'desc' },
+      take: value.limit
+    });
+
+    res.json(runs);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/admin/stock/schedule/run - Create today's stock reports now
+router.post('/stock/schedule/run', async (req, res, next) => {
+  try {
+    const runs = await stockScheduler.tick({ force: true });
+
+    res.json({
+      message: runs.length > 0
+        ? `${runs.length} outlet run(s) recorded`
+        : 'Stock reports are already up to date',
+      runs
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// STOCK ANALYTICS
+
+// Default analytics range: the last 30 days up to now
+const resolveAnalyticsRange = ({ from, to }) => {
+  const rangeTo = to ? new Date(to) : new Date();
+  rangeTo.setHours(23, 59, 59, 999);
+  const rangeFrom = from ? new Date(from) : new Date(rangeTo.getTime() - 29 * 24 * 60 * 60 * 1000);
+  rangeFrom.setHours(0, 0, 0, 0);
+  return { from: rangeFrom, to: rangeTo };
+};
+
+// GET /api/admin/stock/top-losses - Rank products by variance loss value
+router.get('/stock/top-losses', async (req, res, next) => {
+  try {
+    const { error, value } = stockAnalyticsQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const { from, to } = resolveAnalyticsRange(value);
+    const products = await stockService.getTopLossProducts({
+      from,
+      to,
+      outletId: value.outletId,
+      limit: value.limit
+    });
+
+    res.json({ from, to, products });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/admin/stock/variance-trends - Variance per product per period
+router.get('/stock/variance-trends', async (req, res, next) => {
+  try {
+    const { error, value } = varianceTrendsQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const { from, to } = resolveAnalyticsRange(value);
+    const trends = await stockService.getVarianceTrends({
+      from,
+      to,
+      outletId: value.outletId,
+      granularity: value.granularity,
+      window: value.window
+    });
+
+    res.json({ from, to, window: value.window, ...trends });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/admin/stock/variance-trends/items - Counted items of one product
+router.get('/stock/variance-trends/items', async (req, res, next) => {
+  try {
+    const { error, value } = varianceHistoryQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const { from, to } = resolveAnalyticsRange(value);
+    const items = await stockService.getProductVarianceHistory({
+      productId: value.productId,
+      variantId: value.variantId,
+      from,
+      to,
+      outletId: value.outletId
+    });
+
+    res.json({ from, to, items });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/admin/stock/export - Stock counts as a CSV or XLSX download
+router.get('/stock/export', async (req, res, next) => {
+  try {
+    const { error, value } = stockExportQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const { from, to } = resolveAnalyticsRange(value);
+    const rows = await stockExportService.getExportRows({
+      from,
+      to,
+      outletId: value.outletId,
+      groupId: value.groupId,
+      baseUrl: `${req.protocol}://${req.get('host')}`
+    });
+
+    const filename = `stock-${stockService.getPeriodKey(from, 'day')}-to-${stockService.getPeriodKey(to, 'day')}.${value.format}`;
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+
+    if (value.format === 'xlsx') {
+      res.type('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      return res.send(stockExportService.toXlsx(rows));
+    }
+
+    res.type('text/csv; charset=utf-8');
+    res.send(stockExportService.toCsv(rows));
+  } catch (error) {
+    next(error);
+  }
+});
+
 // STATISTICS
 
 // GET /api/admin/stats/summary - Get report statistics
 router.get('/stats/summary', async (req, res, next) => {
   try {
-    const { startDate, endDate } = req.query;
+    const { startDate, endDate, outletId } = req.query;
 
     const where = {};
+    if (outletId) where.outletId = outletId;
     if (startDate || endDate) {
       where.createdAt = {};
       if (startDate) where.createdAt.gte = new Date(startDate);
@@ -520,6 +1823,9 @@ router.get('/stats/summary', async (req, res, next) => {
         include: {
           user: {
             select: { username: true, name: true }
+          },
+          outlet: {
+            select: { id: true, code: true, name: true }
           }
         },
         orderBy: { createdAt: 'desc' },
@@ -23,6 +23,27 @@ const registerSchema = Joi.object({
     })
 });
 
+// Outlets assigned to a user, as returned to the client
+const userOutletsInclude = {
+  outlets: {
+    where: { outlet: { active: true } },
+    select: {
+      outlet: {
+        select: { id: true, code: true, name: true }
+      }
+    }
+  }
+};
+
+// Helper function to shape the user payload returned to the client
+const formatUser = (user) => ({
+  id: user.id,
+  username: user.username,
+  name: user.name,
+  role: user.role,
+  outlets: (user.outlets || []).map(assignment => assignment.outlet)
+});
+
 // Helper function to generate tokens
 const generateTokens = (userId) => {
   const accessTokenTTL = process.env.ACCESS_TOKEN_TTL_MIN || '15';
@@ -58,7 +79,8 @@ router.post('/login', async (req, res, next) => {
 
     // Find user
     const user = await prisma.user.findUnique({
-      where: { username }
+      where: { username },
+      include: userOutletsInclude
     });
 
     if (!user) {
@@ -88,12 +110,7 @@ router.post('/login', async (req, res, next) => {
 
     res.json({
       message: 'Login successful',
-      user: {
-        id: user.id,
-        username: user.username,
-        name: user.name,
-        role: user.role
-      },
+      user: formatUser(user),
       accessToken,
       refreshToken
     });
@@ -146,12 +163,7 @@ router.post('/register', async (req, res, next) => {
 
     res.status(201).json({
       message: 'User created successfully',
-      user: {
-        id: user.id,
-        username: user.username,
-        name: user.name,
-        role: user.role
-      },
+      user: formatUser(user),
       accessToken,
       refreshToken
     });
@@ -240,7 +252,7 @@ router.get('/verify', async (req, res, next) => {
 
     const user = await prisma.user.findUnique({
       where: { id: decoded.userId },
-      select: { id: true, username: true, name: true, role: true }
+      select: { id: true, username: true, name: true, role: true, ...userOutletsInclude }
     });
 
     if (!user) {
@@ -252,12 +264,7 @@ router.get('/verify', async (req, res, next) => {
 
     res.json({
       valid: true,
-      user: {
-        id: user.id,
-        username: user.username,
-        name: user.name,
-        role: user.role
-      }
+      user: formatUser(user)
     });
   } catch (error) {
     if (error.name === 'JsonWebTokenError' || error.name === 'TokenExpiredError') {
@@ -5,6 +5,7 @@ const crypto = require('crypto');
 const fs = require('fs');
 const { PrismaClient } = require('@prisma/client');
 const { authenticateToken } = require('../middleware/auth');
+const reportTypeService = require('../services/reportTypeService');
 
 const prisma = new PrismaClient();
 const router = express.Router();
@@ -320,7 +321,7 @@ router.get('/categories/:reportType', async (req, res, next) => {
   try {
     const { reportType } = req.params;
 
-    if (!['OPENING', 'CLOSING', 'PROBLEM', 'STOCK'].includes(reportType)) {
+    if (!await reportTypeService.getReportType(reportType)) {
       return res.status(400).json({
         error: 'Validation Error',
         message: 'Invalid report type'
@@ -0,0 +1,279 @@
+const express = require('express');
+const Joi = require('joi');
+const { PrismaClient } = require('@prisma/client');
+const receivingService = require('../services/receivingService');
+const productService = require('../services/productService');
+const { OlseraError } = require('../services/olseraErrors');
+
+const prisma = new PrismaClient();
+const router = express.Router();
+
+// Validation schemas
+const updateReceivingSchema = Joi.object({
+  supplierName: Joi.string().trim().max(200).allow('', null).optional(),
+  deliveryNoteNumber: Joi.string().trim().max(100).allow('', null).optional(),
+  receivedDate: Joi.date().optional()
+});
+
+const itemFields = {
+  orderedQty: Joi.number().min(0).allow(null).optional(),
+  receivedQty: Joi.number().min(0),
+  unitPrice: Joi.number().min(0).allow(null).optional(),
+  discrepancyReason: Joi.string().valid(...receivingService.discrepancyReasons).allow(null).optional(),
+  notes: Joi.string().trim().max(500).allow('', null).optional()
+};
+
+const createItemSchema = Joi.object({
+  productId: Joi.string().required(),
+  variantId: Joi.string().allow('', null).optional(),
+  ...itemFields,
+  receivedQty: itemFields.receivedQty.required()
+});
+
+const updateItemSchema = Joi.object(itemFields);
+
+// Find a receiving report the user may edit: their own draft, or any draft
+// for admins
+const findDraftReceiving = (reportId, user) => prisma.receivingReport.findFirst({
+  where: {
+    reportId,
+    report: {
+      userId: user.role === 'ADMIN' ? undefined : user.id,
+      status: 'DRAFT'
+    }
+  }
+});
+
+const findDraftItem = (itemId, user) => prisma.receivingItem.findFirst({
+  where: {
+    id: itemId,
+    receivingReport: {
+      report: {
+        userId: user.role === 'ADMIN' ? undefined : user.id,
+        status: 'DRAFT'
+      }
+    }
+  }
+});
+
+// GET /api/receiving/products - Active catalog products to receive
+router.get('/products', async (req, res, next) => {
+  try {
+    const products = await productService.getActiveProducts();
+    res.json(products.map(product => productService.toPickerProduct(product)));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// GET /api/receiving/reports/:reportId - Get receiving report with line items
+router.get('/reports/:reportId', async (req, res, next) => {
+  try {
+    const receivingReport = await prisma.receivingReport.findFirst({
+      where: {
+        reportId: req.params.reportId,
+        report: {
+          userId: req.user.role === 'ADMIN' ? undefined : req.user.id
+        }
+      },
+      include: {
+        items: { orderBy: { createdAt: 'asc' } }
+      }
+    });
+
+    if (!receivingReport) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Receiving report not found'
+      });
+    }
+
+    res.json(receivingReport);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/receiving/reports/:reportId - Update supplier and delivery details
+router.patch('/reports/:reportId', async (req, res, next) => {
+  try {
+    const { error, value } = updateReceivingSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const receivingReport = await findDraftReceiving(req.params.reportId, req.user);
+    if (!receivingReport) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Draft receiving report not found'
+      });
+    }
+
+    if (value.receivedDate && req.user.role !== 'ADMIN') {
+      const today = new Date().toISOString().split('T')[0];
+      if (req.body.receivedDate !== today) {
+        return res.status(400).json({
+          error: 'Validation Error',
+          message: 'Deliveries can only be received for today'
+        });
+      }
+    }
+
+    const data = {};
+    if (value.supplierName !== undefined) data.supplierName = value.supplierName || null;
+    if (value.deliveryNoteNumber !== undefined) data.deliveryNoteNumber = value.deliveryNoteNumber || null;
+    if (value.receivedDate) data.receivedDate = value.receivedDate;
+
+    await prisma.receivingReport.update({
+      where: { id: receivingReport.id },
+      data
+    });
+
+    res.json(await receivingService.getReceivingReport(req.params.reportId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/receiving/reports/:reportId/items - Add a line item
+router.post('/reports/:reportId/items', async (req, res, next) => {
+  try {
+    const { error, value } = createItemSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const receivingReport = await findDraftReceiving(req.params.reportId, req.user);
+    if (!receivingReport) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Draft receiving report not found'
+      });
+    }
+
+    const product = await prisma.product.findUnique({
+      where: {
+        olseraProductId_olseraVariantId: {
+          olseraProductId: value.productId,
+          olseraVariantId: value.variantId || ''
+        }
+      }
+    });
+
+    if (!product) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Product not found in the catalog'
+      });
+    }
+
+    const item = await prisma.receivingItem.create({
+      data: {
+        receivingReportId: receivingReport.id,
+        ...receivingService.buildItem(product, {
+          ...value,
+          notes: value.notes || null
+        })
+      }
+    });
+
+    res.status(201).json(item);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// PATCH /api/receiving/items/:itemId - Update a line item
+router.patch('/items/:itemId', async (req, res, next) => {
+  try {
+    const { error, value } = updateItemSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: error.details[0].message
+      });
+    }
+
+    const item = await findDraftItem(req.params.itemId, req.user);
+    if (!item) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Line item not found'
+      });
+    }
+
+    const updatedItem = await prisma.receivingItem.update({
+      where: { id: item.id },
+      data: {
+        ...value,
+        ...(value.notes !== undefined && { notes: value.notes || null })
+      }
+    });
+
+    res.json(updatedItem);
+  } catch (error) {
+    next(error);
+  }
+});
+
+// DELETE /api/receiving/items/:itemId - Remove a line item
+router.delete('/items/:itemId', async (req, res, next) => {
+  try {
+    const item = await findDraftItem(req.params.itemId, req.user);
+    if (!item) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Line item not found'
+      });
+    }
+
+    await prisma.receivingItem.delete({
+      where: { id: item.id }
+    });
+
+    res.json({ message: 'Line item deleted successfully' });
+  } catch (error) {
+    next(error);
+  }
+});
+
+// POST /api/receiving/reports/:reportId/compare - Compare with Olsera incoming quantities
+router.post('/reports/:reportId/compare', async (req, res, next) => {
+  try {
+    const receivingReport = await prisma.receivingReport.findFirst({
+      where: {
+        reportId: req.params.reportId,
+        report: {
+          userId: req.user.role === 'ADMIN' ? undefined : req.user.id
+        }
+      }
+    });
+
+    if (!receivingReport) {
+      return res.status(404).json({
+        error: 'Not Found',
+        message: 'Receiving report not found'
+      });
+    }
+
+    res.json(await receivingService.compareWithPos(req.params.reportId));
+  } catch (error) {
+    if (error instanceof OlseraError) {
+      return res.status(error.statusCode).json({
+        error: 'Olsera Error',
+        message: 'Olsera is unavailable right now. Try the comparison again later.',
+        code: error.code
+      });
+    }
+    next(error);
+  }
+});
+
+module.exports = router;
@@ -1,16 +1,21 @@
 const express = require('express');
 const Joi = require('joi');
 const { PrismaClient } = require('@prisma/client');
-const { requireAdmin } = require('../middleware/auth');
+const { requireAdmin, canAccessOutlet } = require('../middleware/auth');
+const receivingService = require('../services/receivingService');
+const stockService = require('../services/stockService');
+const reportTypeService = require('../services/reportTypeService');
+const reportFieldService = require('../services/reportFieldService');
 
 const prisma = new PrismaClient();
 const router = express.Router();
 
 // Validation schemas
 const createReportSchema = Joi.object({
-  type: Joi.string().valid('OPENING', 'CLOSING', 'PROBLEM', 'STOCK').required(),
+  type: Joi.string().max(30).required(),
   title: Joi.string().min(1).max(200).required(),
   description: Joi.string().max(1000).allow(''),
+  outletId: Joi.string().allow(null).optional(),
   metadata: Joi.object().optional()
 });
 
@@ -20,18 +25,58 @@ const updateReportSchema = Joi.object({
   metadata: Joi.object().optional()
 });
 
+const outletSelect = {
+  select: { id: true, code: true, name: true }
+};
+
+// Resolve the outlet a new report belongs to. Users assigned to a single
+// outlet get it by default; otherwise the requested outlet must be accessible.
+const resolveReportOutlet = async (user, requestedOutletId) => {
+  const outletId = requestedOutletId
+    || (user.outletIds.length === 1 ? user.outletIds[0] : null);
+
+  if (!outletId) {
+    return { outletId: null };
+  }
+
+  const outlet = await prisma.outlet.findFirst({
+    where: { id: outletId, active: true }
+  });
+
+  if (!outlet) {
+    return { error: 'Outlet not found or inactive' };
+  }
+
+  if (!canAccessOutlet(user, outletId)) {
+    return { error: 'You are not assigned to this outlet' };
+  }
+
+  return { outletId };
+};
+
 const stockReportSchema = Joi.object({
   opening: Joi.number().min(0).required(),
   out: Joi.number().min(0).required(),
   closing: Joi.number().min(0).required()
 });
 
+// GET /api/reports/types - Report types in display order; inactive ones are
+// still listed so their past reports can be shown, but cannot be created
+router.get('/types', async (req, res, next) => {
+  try {
+    res.json(await reportTypeService.listReportTypes());
+  } catch (error) {
+    next(error);
+  }
+});
+
 // GET /api/reports - List reports with filters
 router.get('/', async (req, res, next) => {
   try {
     const {
       type,
       status,
+      outletId,
       page = 1,
       limit = 20,
       search,
@@ -45,6 +90,7 @@ router.get('/', async (req, res, next) => {
 
     if (type) where.type = type;
     if (status) where.status = status;
+    if (outletId) where.outletId = outletId;
     if (search) {
       where.OR = [
         { title: { contains: search, mode: 'insensitive' } },
@@ -62,6 +108,7 @@ router.get('/', async (req, res, next) => {
           user: {
             select: { id: true, username: true, name: true }
           },
+          outlet: outletSelect,
           photos: {
             select: { id: true, category: true, filename: true }
           },
@@ -109,6 +156,7 @@ router.get('/:id', async (req, res, next) => {
         user: {
           select: { id: true, username: true, name: true }
         },
+        outlet: outletSelect,
         photos: true,
         checklists: {
           include: {
@@ -117,7 +165,46 @@ router.get('/:id', async (req, res, next) => {
         },
         stockReport: {
           include: {
-            items: true
+            pushApprovedBy: {
+              select: { id: true, name: true }
+            },
+            // Count and opening override history is only for admin review
+            items: req.user.role === 'ADMIN'
+              ? {
+                  include: {
+                    countedBy: {
+                      select: { id: true, name: true }
+                    },
+                    counts: {
+                      include: {
+                        user: {
+                          select: { id: true, username: true, name: true }
+                        }
+                      },
+                      orderBy: { createdAt: 'asc' }
+                    },
+                    openingOverrides: {
+                      include: {
+                        user: {
+                          select: { id: true, username: true, name: true }
+                        }
+                      },
+                      orderBy: { createdAt: 'desc' }
+                    }
+                  }
+                }
+              : {
+                  include: {
+                    countedBy: {
+                      select: { id: true, name: true }
+                    }
+                  }
+                }
+          }
+        },
+        receivingReport: {
+          include: {
+            items: { orderBy: { createdAt: 'asc' } }
           }
         }
       }
@@ -130,6 +217,13 @@ router.get('/:id', async (req, res, next) => {
       });
     }
 
+    // Same figures as the stock routes show: none for staff, and none for
+    // admins either before a blind count is finalized
+    if (report.stockReport) {
+      const blind = stockService.isBlindCountOpen(report.stockReport, report);
+      report.stockReport.items = report.stockReport.items.map(item => stockService.sanitizeItemForUser(item, req.user, blind));
+    }
+
     res.json(report);
   } catch (error) {
     next(error);
@@ -149,24 +243,50 @@ router.post('/', async (req, res, next) => {
 
     const { type, title, description, metadata } = value;
 
+    const reportType = await reportTypeService.getReportType(type);
+    if (!reportType || !reportType.active) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: 'Unknown report type'
+      });
+    }
+
+    const { value: fieldValues, error: metadataError } = reportFieldService.validateMetadata(reportType.fields, metadata);
+    if (metadataError) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: metadataError
+      });
+    }
+
+    const { outletId, error: outletError } = await resolveReportOutlet(req.user, value.outletId);
+    if (outletError) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: outletError
+      });
+    }
+
     const report = await prisma.report.create({
       data: {
         type,
         title,
         description,
-        metadata: metadata ? JSON.stringify(metadata) : null,
+        metadata: metadata ? JSON.stringify(fieldValues) : null,
         userId: req.user.id,
+        outletId,
         status: 'DRAFT'
       },
       include: {
         user: {
           select: { id: true, username: true, name: true }
-        }
+        },
+        outlet: outletSelect
       }
     });
 
-    // Create checklist items for opening/closing reports
-    if (type === 'OPENING' || type === 'CLOSING') {
+    // Create checklist items from the type's templates
+    if (reportType.checklist) {
       const templates = await prisma.checklistTemplate.findMany({
         where: { type },
         orderBy: { order: 'asc' }
@@ -183,6 +303,11 @@ router.post('/', async (req, res, next) => {
       }
     }
 
+    // Receiving reports start for today's delivery
+    if (reportType.workflow === 'RECEIVING') {
+      await receivingService.createReceivingReport(report.id, new Date().toISOString().split('T')[0]);
+    }
+
     res.status(201).json(report);
   } catch (error) {
     next(error);
@@ -220,7 +345,18 @@ router.patch('/:id', async (req, res, next) => {
 
     const updateData = { ...value };
     if (updateData.metadata) {
-      updateData.metadata = JSON.stringify(updateData.metadata);
+      const reportType = await reportTypeService.getReportType(existingReport.type);
+      const { value: fieldValues, error: metadataError } = reportFieldService.validateMetadata(
+        reportType?.fields || [],
+        updateData.metadata
+      );
+      if (metadataError) {
+        return res.status(400).json({
+          error: 'Validation Error',
+          message: metadataError
+        });
+      }
+      updateData.metadata = JSON.stringify(fieldValues);
     }
 
     const report = await prisma.report.update({
@@ -293,7 +429,11 @@ router.post('/:id/submit', async (req, res, next) => {
             template: true
           }
         },
-        photos: true
+        photos: true,
+        receivingReport: {
+          include: { items: true }
+        },
+        stockReport: true
       }
     });
 
@@ -304,25 +444,37 @@ router.post('/:id/submit', async (req, res, next) => {
       });
     }
 
-    // Validate submission requirements
-    if (report.type === 'OPENING' || report.type === 'CLOSING') {
-      const requiredChecklists = report.checklists.filter(
-        item => item.template.required && !item.completed
-      );
+    // Validate submission requirements of the report type
+    const reportType = await reportTypeService.getReportType(report.type);
+    const submissionError = reportTypeService.getSubmissionError(reportType, report);
+    if (submissionError) {
+      return res.status(400).json({
+        error: 'Validation Error',
+        message: submissionError
+      });
+    }
 
-      if (requiredChecklists.length > 0) {
+    // Stock counts pass the same recount and second count gates as finalizing
+    if (reportType?.workflow === 'STOCK') {
+      const finalizeError = report.stockReport
+        ? await stockService.getFinalizeError(report.stockReport.id)
+        : 'Stock counting has not started for this report';
+      if (finalizeError) {
         return res.status(400).json({
           error: 'Validation Error',
-          message: 'All required checklist items must be completed before submission'
+          message: finalizeError
         });
       }
     }
 
-    if (report.type === 'PROBLEM' && (!report.title || !report.description)) {
-      return res.status(400).json({
-        error: 'Validation Error',
-        message: 'Problem reports must have a title and description'
-      });
+    if (reportType?.workflow === 'RECEIVING') {
+      const receivingError = receivingService.getSubmissionError(report.receivingReport);
+      if (receivingError) {
+        return res.status(400).json({
+          error: 'Validation Error',
+          message: receivingError
+        });
+      }
     }
 
     const updatedReport = await prisma.report.update({
@@ -367,7 +519,7 @@ router.post('/:id/resolve', requireAdmin, async (req, res, next) => {
     const report = await prisma.report.findFirst({
       where: {
         id,
-        type: 'PROBLEM',
+        type: { in: await reportTypeService.getCodes({ resolvable: true }) },
         status: 'SUBMITTED'
       }
     });
@@ -375,7 +527,7 @@ router.post('/:id/resolve', requireAdmin, async (req, res, next) => {
     if (!report) {
       return res.status(404).json({
         error: 'Not Found',
-        message: 'Problem report not found or not submitted'
+        message: 'Resolvable report not found or not submitted'
       });
     }
 
@@ -478,7 +630,7 @@ router.post('/:id/stock', async (req, res, next) => {
       where: {
         id,
         userId: req.user.role === 'ADMIN' ? undefined : req.user.id,
-        type: 'STOCK',
+        type: { in: await reportTypeService.getCodes({ workflow: 'STOCK' }) },
         status: 'DRAFT'
       }
     });
@@ -4,34 +4,29 @@ const Joi = require('joi');
 const multer = require('multer');
 const path = require('path');
 const fs = require('fs').promises;
-const { authenticateToken } = require('../middleware/auth');
+const { authenticateToken, requireAdmin, canAccessOutlet, verifyPhotoLinkToken } = require('../middleware/auth');
 const { PrismaClient } = require('@prisma/client');
 const prisma = new PrismaClient();
 const stockService = require('../services/stockService');
+const stockPushService = require('../services/stockPushService');
+const productService = require('../services/productService');
+const wasteService = require('../services/wasteService');
+const reportTypeService = require('../services/reportTypeService');
+const { OlseraError, OlseraAuthError } = require('../services/olseraErrors');
 
-const sanitizeStockItemForUser = (item) => {
-  if (!item) {
-    return item;
+const sanitizeStockReportForUser = (stockReport, user, report) => {
+  if (!stockReport) {
+    return stockReport;
   }
 
-  const {
-    openingStock,
-    expectedOut,
-    difference,
-    ...safeFields
-  } = item;
-
-  return safeFields;
-};
-
-const sanitizeStockReportForUser = (stockReport) => {
-  if (!stockReport) {
+  const blind = stockService.isBlindCountOpen(stockReport, report);
+  if (user.role === 'ADMIN' && !blind) {
     return stockReport;
   }
 
   return {
     ...stockReport,
-    items: stockReport.items?.map(sanitizeStockItemForUser) || []
+    items: stockReport.items?.map(item => stockService.sanitizeItemForUser(item, user, blind)) || []
   };
 };
 
@@ -43,35 +38,113 @@ const sanitizeStatsForUser = (stats) => {
   const {
     totalItems,
     completedItems,
+    recountRequired,
+    secondCountPending,
+    countMismatches,
     completionPercentage
   } = stats;
 
   return {
     totalItems,
     completedItems,
+    recountRequired,
+    secondCountPending,
+    countMismatches,
     completionPercentage
   };
 };
 
-const sanitizeSummaryForUser = (summary) => {
+const sanitizeSummaryForUser = (summary, blind = false) => {
   if (!summary) {
     return summary;
   }
 
+  const { valuation, ...safeSummary } = summary;
+
   return {
-    ...summary,
+    ...safeSummary,
     items: summary.items?.map((item) => {
       const {
         opening,
+        openingSource,
+        incoming,
+        returns,
         expectedOut,
+        sales,
+        outgoing,
+        expectedClosing,
         difference,
+        unitCost,
+        value,
+        consumption,
         ...rest
       } = item;
-      return rest;
+      if (!blind) {
+        return rest;
+      }
+
+      // Blind counts also keep the logged waste and counts still waiting
+      // for an independent count to themselves
+      const { waste, actualClosing, ...blindRest } = rest;
+      return ['PENDING', 'MISMATCH'].includes(item.secondCountStatus)
+        ? blindRest
+        : { ...blindRest, actualClosing };
     }) || []
   };
 };
 
+// Olsera failures get a specific answer so the form can offer manual entry
+// instead of a generic server error
+const sendOlseraError = (res, error) => {
+  const message = error instanceof OlseraAuthError
+    ? 'Olsera rejected the API credentials. Contact an administrator, or enter stock items manually.'
+    : 'Olsera is unavailable right now. Try again later, or enter stock items manually.';
+
+  return res.status(error.statusCode).json({
+    message,
+    code: error.code,
+    manualEntry: true,
+    retryAt: error.retryAt
+  });
+};
+
+// Report types counted with the stock workflow
+const stockReportTypes = async () => ({ in: await reportTypeService.getCodes({ workflow: 'STOCK' }) });
+
+// Find a stock report the user may count: their own, or one they joined
+const findCountableReport = async (reportId, user, where = {}) => prisma.report.findFirst({
+  where: {
+    id: reportId,
+    type: await stockReportTypes(),
+    ...where,
+    OR: [
+      { userId: user.id },
+      { stockReport: { participants: { some: { userId: user.id } } } }
+    ]
+  },
+  include: {
+    stockReport: true
+  }
+});
+
+// Counts of a finalized report may already be in Olsera, so they stay as
+// they were submitted
+const FINALIZED_MESSAGE = 'This stock report is finalized and can no longer be changed';
+
+// Answer to a saved count, by its recount or second count status
+const updateMessages = {
+  REQUIRED: 'Variance is outside tolerance, a recount is required',
+  PENDING: 'Count saved, someone else needs to count this item too',
+  MATCHED: 'Both counts agree, the item is counted',
+  MISMATCH: 'The two counts differ, a tie-break count is needed',
+  RESOLVED: 'Tie-break count saved'
+};
+
+const claimItemsSchema = Joi.object({
+  itemIds: Joi.array().items(Joi.string()).min(1).optional(),
+  zoneId: Joi.string().optional()
+}).xor('itemIds', 'zoneId');
+
 // Configure multer for photo uploads
 const storage = multer.diskStorage({
   destination: async (req, file, cb) => {
@@ -107,6 +180,228 @@ router.get('/test', (req, res) => {
   res.json({ message: 'Stock API is working', timestamp: new Date() });
 });
 
+// Scheduled stock reports nobody has claimed yet, for the user's outlets
+router.get('/scheduled', authenticateToken, async (req, res) => {
+  try {
+    const where = {
+      type: await stockReportTypes(),
+      status: 'DRAFT',
+      stockReport: { scheduled: true, claimedAt: null }
+    };
+    if (req.user.role !== 'ADMIN') {
+      where.OR = [
+        { outletId: { in: req.user.outletIds } },
+        { outletId: null }
+      ];
+    }
+
+    const reports = await prisma.report.findMany({
+      where,
+      include: {
+        outlet: { select: { id: true, code: true, name: true } },
+        stockReport: {
+          select: {
+            id: true,
+            stockDate: true,
+            syncedAt: true,
+            _count: { select: { items: true } }
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    res.json(reports);
+  } catch (error) {
+    console.error('Failed to get scheduled stock reports:', error);
+    res.status(500).json({ message: 'Failed to get scheduled stock reports' });
+  }
+});
+
+// Take over a scheduled stock report so it can be counted and submitted
+router.post('/reports/:reportId/claim', authenticateToken, async (req, res) => {
+  try {
+    const { reportId } = req.params;
+
+    const report = await prisma.report.findFirst({
+      where: { id: reportId, type: await stockReportTypes(), status: 'DRAFT' },
+      include: { stockReport: true }
+    });
+
+    if (!report || !report.stockReport?.scheduled || !canAccessOutlet(req.user, report.outletId)) {
+      return res.status(404).json({ message: 'Scheduled stock report not found' });
+    }
+
+    // Only the first claim wins when two people open the report at once
+    const claimed = await prisma.stockReport.updateMany({
+      where: { id: report.stockReport.id, claimedAt: null },
+      data: { claimedAt: new Date() }
+    });
+
+    if (claimed.count === 0) {
+      return res.status(409).json({ message: 'This stock report has already been claimed' });
+    }
+
+    const updatedReport = await prisma.report.update({
+      where: { id: reportId },
+      data: { userId: req.user.id }
+    });
+
+    res.json({
+      message: 'Stock report claimed successfully',
+      report: updatedReport
+    });
+  } catch (error) {
+    console.error('Failed to claim stock report:', error);
+    res.status(500).json({ message: 'Failed to claim stock report' });
+  }
+});
+
+// Stock counts in progress that the user can join, for the user's outlets
+router.get('/counts/open', authenticateToken, async (req, res) => {
+  try {
+    const where = {
+      type: await stockReportTypes(),
+      status: 'DRAFT',
+      userId: { not: req.user.id },
+      // Scheduled reports are claimed, not joined, until someone starts them
+      stockReport: {
+        items: { some: {} },
+        OR: [{ scheduled: false }, { claimedAt: { not: null } }]
+      }
+    };
+    if (req.user.role !== 'ADMIN') {
+      where.OR = [
+        { outletId: { in: req.user.outletIds } },
+        { outletId: null }
+      ];
+    }
+
+    const reports = await prisma.report.findMany({
+      where,
+      include: {
+        user: { select: { id: true, name: true } },
+        outlet: { select: { id: true, code: true, name: true } },
+        stockReport: {
+          select: {
+            id: true,
+            stockDate: true,
+            participants: { select: { userId: true } },
+            _count: { select: { items: true } }
+          }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    const completedCounts = await prisma.stockReportItem.groupBy({
+      by: ['stockReportId'],
+      where: {
+        stockReportId: { in: reports.map(report => report.stockReport.id) },
+        completed: true
+      },
+      _count: { _all: true }
+    });
+    const completedByReport = new Map(completedCounts.map(row => [row.stockReportId, row._count._all]));
+
+    res.json(reports.map(({ stockReport: { participants, ...stockReport }, ...report }) => ({
+      ...report,
+      stockReport: {
+        ...stockReport,
+        completedItems: completedByReport.get(stockReport.id) || 0,
+        participantCount: participants.length
+      },
+      joined: participants.some(participant => participant.userId === req.user.id)
+    })));
+  } catch (error) {
+    console.error('Failed to get open stock counts:', error);
+    res.status(500).json({ message: 'Failed to get open stock counts' });
+  }
+});
+
+// Join someone else's stock count to count items alongside them
+router.post('/reports/:reportId/join', authenticateToken, async (req, res) => {
+  try {
+    const { reportId } = req.params;
+
+    const report = await prisma.report.findFirst({
+      where: { id: reportId, type: await stockReportTypes(), status: 'DRAFT' },
+      include: { stockReport: true }
+    });
+
+    if (!report || !report.stockReport || !canAccessOutlet(req.user, report.outletId)) {
+      return res.status(404).json({ message: 'Stock count not found' });
+    }
+
+    if (report.userId === req.user.id) {
+      return res.status(400).json({ message: 'This is your own stock count' });
+    }
+
+    await stockService.joinStockReport(report.stockReport.id, req.user.id);
+
+    res.json({ message: 'Joined stock count successfully' });
+  } catch (error) {
+    console.error('Failed to join stock count:', error);
+    res.status(500).json({ message: 'Failed to join stock count' });
+  }
+});
+
+// Claim items, or a whole storage zone, so others count something else
+router.post('/reports/:reportId/claim-items', authenticateToken, async (req, res) => {
+  try {
+    const { reportId } = req.params;
+
+    const { error, value } = claimItemsSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ message: error.details[0].message });
+    }
+
+    const report = await findCountableReport(reportId, req.user, { status: 'DRAFT' });
+    if (!report || !report.stockReport) {
+      return res.status(404).json({ message: 'Stock report not found or already submitted' });
+    }
+
+    const claimed = await stockService.claimItems(reportId, req.user.id, value);
+
+    res.json({
+      message: claimed > 0
+        ? `${claimed} item(s) claimed`
+        : 'These items are already claimed or counted',
+      claimed
+    });
+  } catch (error) {
+    console.error('Failed to claim stock items:', error);
+    res.status(500).json({ message: 'Failed to claim stock items' });
+  }
+});
+
+// Release the user's claims on items or a storage zone
+router.post('/reports/:reportId/release-items', authenticateToken, async (req, res) => {
+  try {
+    const { reportId } = req.params;
+
+    const { error, value } = claimItemsSchema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ message: error.details[0].message });
+    }
+
+    const report = await findCountableReport(reportId, req.user, { status: 'DRAFT' });
+    if (!report || !report.stockReport) {
+      return res.status(404).json({ message: 'Stock report not found or already submitted' });
+    }
+
+    const released = await stockService.releaseItems(reportId, req.user.id, value);
+
+    res.json({
+      message: `${released} item(s) released`,
+      released
+    });
+  } catch (error) {
+    console.error('Failed to release stock items:', error);
+    res.status(500).json({ message: 'Failed to release stock items' });
+  }
+});
+
 // Initialize stock report with Olsera data
 router.post('/reports/:reportId/initialize', authenticateToken, async (req, res) => {
   console.log('=== STOCK INITIALIZE ENDPOINT CALLED ===');
@@ -130,7 +425,7 @@ router.post('/reports/:reportId/initialize', authenticateToken, async (req, res)
       where: {
         id: reportId,
         userId: req.user.id,
-        type: 'STOCK'
+        type: await stockReportTypes()
       }
     });
 
@@ -138,22 +433,34 @@ router.post('/reports/:reportId/initialize', authenticateToken, async (req, res)
       return res.status(404).json({ message: 'Stock report not found' });
     }
 
+    const existingStockReport = await prisma.stockReport.findUnique({
+      where: { reportId },
+      include: { items: true }
+    });
+
     if (req.user.role !== 'ADMIN') {
       const requestedDate = req.body.stockDate;
-      const today = new Date().toISOString().split('T')[0];
+      const today = stockService.formatStockDate();
+      // A claimed catch-up report keeps the past day it was scheduled for
+      const scheduledDate = existingStockReport?.scheduled
+        && stockService.formatStockDate(existingStockReport.stockDate);
 
-      if (requestedDate !== today) {
+      if (requestedDate !== today && requestedDate !== scheduledDate) {
         return res.status(400).json({
           message: 'Stock reports can only be initialized for today'
         });
       }
     }
 
+    // Moving to another date clears the items, so counts would be lost
+    const dateChangeError = stockService.getDateChangeError(existingStockReport, value.stockDate);
+    if (dateChangeError) {
+      return res.status(409).json({ message: dateChangeError });
+    }
+
     // Initialize stock report with Olsera data
     const stockReport = await stockService.initializeStockReport(reportId, value.stockDate);
-    const responseReport = req.user.role === 'ADMIN'
-      ? stockReport
-      : sanitizeStockReportForUser(stockReport);
+    const responseReport = sanitizeStockReportForUser(stockReport, req.user, report);
 
     res.json({
       message: 'Stock report initialized successfully',
@@ -161,6 +468,9 @@ router.post('/reports/:reportId/initialize', authenticateToken, async (req, res)
     });
   } catch (error) {
     console.error('Failed to initialize stock report:', error);
+    if (error instanceof OlseraError) {
+      return sendOlseraError(res, error);
+    }
     res.status(500).json({
       message: 'Failed to initialize stock report',
       error: error.message,
@@ -169,20 +479,57 @@ router.post('/reports/:reportId/initialize', authenticateToken, async (req, res)
   }
 });
 
-// Get stock report with items
-router.get('/reports/:reportId', authenticateToken, async (req, res) => {
-  console.log('=== STOCK GET ENDPOINT CALLED ===');
-  console.log('Report ID:', req.params.reportId);
+// Re-sync stock report with the latest Olsera data, keeping entered counts
+router.post('/reports/:reportId/resync', authenticateToken, async (req, res) => {
+  try {
+    const { reportId } = req.params;
+
+    // Verify the user counts this report and it is still editable
+    const report = await findCountableReport(reportId, req.user, { status: 'DRAFT' });
+
+    if (!report) {
+      return res.status(404).json({ message: 'Stock report not found or already submitted' });
+    }
+
+    if (!report.stockReport) {
+      return res.status(400).json({ message: 'Stock report not initialized. Please select a date first.' });
+    }
+
+    const { stockReport, syncLog } = await stockService.resyncStockReport(reportId, req.user.id);
+    const showChanges = req.user.role === 'ADMIN' && !stockService.isBlindCountOpen(stockReport, report);
+
+    res.json({
+      message: 'Stock report re-synced successfully',
+      stockReport: sanitizeStockReportForUser(stockReport, req.user, report),
+      syncLog: showChanges ? syncLog : {
+        id: syncLog.id,
+        addedCount: syncLog.addedCount,
+        updatedCount: syncLog.updatedCount,
+        removedCount: syncLog.removedCount,
+        createdAt: syncLog.createdAt
+      }
+    });
+  } catch (error) {
+    console.error('Failed to re-sync stock report:', error);
+    if (error instanceof OlseraError) {
+      return sendOlseraError(res, error);
+    }
+    res.status(500).json({ message: 'Failed to re-sync stock report', error: error.message });
+  }
+});
 
+// Get re-sync change log (Admin only)
+router.get('/reports/:reportId/sync-logs', authenticateToken, requireAdmin, async (req, res) => {
   try {
     const { reportId } = req.params;
 
-    // Verify report belongs to user
     const report = await prisma.report.findFirst({
       where: {
         id: reportId,
-        userId: req.user.id,
-        type: 'STOCK'
+        type: await stockReportTypes()
+      },
+      include: {
+        stockReport: true
       }
     });
 
@@ -190,12 +537,38 @@ router.get('/reports/:reportId', authenticateToken, async (req, res) => {
       return res.status(404).json({ message: 'Stock report not found' });
     }
 
+    // Re-sync changes show the opening and expected figures
+    if (stockService.isBlindCountOpen(report.stockReport, report)) {
+      return res.status(403).json({ message: 'Changes to a blind count are shown once it is finalized' });
+    }
+
+    const logs = await stockService.getSyncLogs(reportId);
+    res.json({ logs });
+  } catch (error) {
+    console.error('Failed to get sync logs:', error);
+    res.status(500).json({ message: 'Failed to get sync logs' });
+  }
+});
+
+// Get stock report with items
+router.get('/reports/:reportId', authenticateToken, async (req, res) => {
+  console.log('=== STOCK GET ENDPOINT CALLED ===');
+  console.log('Report ID:', req.params.reportId);
+
+  try {
+    const { reportId } = req.params;
+
+    // Verify the user counts this report
+    const report = await findCountableReport(reportId, req.user);
+
+    if (!report) {
+      return res.status(404).json({ message: 'Stock report not found' });
+    }
+
     const stockReport = await stockService.getStockReport(reportId);
     const stats = await stockService.getStockReportStats(reportId);
-    const responseReport = req.user.role === 'ADMIN'
-      ? stockReport
-      : sanitizeStockReportForUser(stockReport);
-    const responseStats = req.user.role === 'ADMIN'
+    const responseReport = sanitizeStockReportForUser(stockReport, req.user, report);
+    const responseStats = req.user.role === 'ADMIN' && !stockService.isBlindCountOpen(stockReport, report)
       ? stats
       : sanitizeStatsForUser(stats);
 
@@ -216,7 +589,13 @@ router.patch('/items/:itemId', authenticateToken, async (req, res) => {
 
     const schema = Joi.object({
       actualClosing: Joi.number().min(0).required(),
-      notes: Joi.string().allow(null, '').optional()
+      notes: Joi.string().allow(null, '').optional(),
+      photoId: Joi.string().allow(null).optional(),
+      version: Joi.number().integer().min(0).optional(),
+      entryUnit: Joi.string().max(20).optional(),
+      // Containers on the scale, repeated when several of one are used;
+      // actualClosing is then the gross weight
+      containerIds: Joi.array().items(Joi.string()).max(20).optional()
     });
 
     const { error, value } = schema.validate(req.body);
@@ -232,28 +611,117 @@ router.patch('/items/:itemId', authenticateToken, async (req, res) => {
           include: {
             report: true
           }
-        }
+        },
+        counts: {
+          orderBy: { createdAt: 'desc' },
+          take: 1
+        },
+        countedBy: { select: { id: true, name: true } },
+        claimedBy: { select: { id: true, name: true } }
       }
     });
 
-    if (!item || item.stockReport.report.userId !== req.user.id) {
+    if (!item || !(await stockService.canCountStockReport(item.stockReport.report, req.user.id))) {
       return res.status(404).json({ message: 'Stock item not found' });
     }
 
+    if (item.stockReport.report.status !== 'DRAFT') {
+      return res.status(409).json({ message: FINALIZED_MESSAGE });
+    }
+
+    if (item.claimedById && item.claimedById !== req.user.id) {
+      return res.status(409).json({ message: `${item.claimedBy.name} has claimed this item` });
+    }
+
+    const blind = stockService.isBlindCountOpen(item.stockReport, item.stockReport.report);
+    const staleItemResponse = (current) => ({
+      message: blind
+        ? `${current.countedBy?.name || 'Someone'} counted this item in the meantime.`
+        : `${current.countedBy?.name || 'Someone'} counted this item in the meantime. Check their count before saving yours.`,
+      item: stockService.sanitizeItemForUser(current, req.user, blind)
+    });
+
+    if (value.version !== undefined && value.version !== item.version) {
+      const { stockReport, counts, ...current } = item;
+      return res.status(409).json(staleItemResponse(current));
+    }
+
+    const product = await stockService.getCatalogProduct(item);
+    let grossWeight = value.actualClosing;
+    if (value.entryUnit) {
+      const entryUnits = productService.getEntryUnits(product, item.unit);
+      if (!entryUnits.some(entryUnit => entryUnit.unit === value.entryUnit)) {
+        return res.status(400).json({
+          message: `${item.productName} is counted in ${entryUnits.map(entryUnit => entryUnit.unit).join(', ')}`
+        });
+      }
+      grossWeight = productService.toBaseQuantity(product, item.unit, value.actualClosing, value.entryUnit);
+    }
+
+    let containers = [];
+    if (value.containerIds?.length) {
+      containers = await stockService.getWeighingContainers(product, item.unit, value.containerIds);
+      if (!containers) {
+        return res.status(400).json({ message: `${item.productName} cannot be weighed in the selected containers` });
+      }
+      const tareWeight = stockService.getTareWeight(containers);
+      if (grossWeight < tareWeight) {
+        return res.status(400).json({
+          message: `The gross weight is below the ${tareWeight} ${item.unit} tare of the selected containers`
+        });
+      }
+    }
+
+    if (item.secondCountStatus === 'PENDING' && item.countedById === req.user.id) {
+      return res.status(400).json({ message: 'The second count must be done by someone else' });
+    }
+
+    // A recount needs its own weighing photo
+    let warning;
+    if (item.recountStatus === 'REQUIRED') {
+      if (!value.photoId || value.photoId === item.counts[0]?.photoId) {
+        return res.status(400).json({ message: 'A new scale photo is required for the recount' });
+      }
+      if (item.counts[0]?.userId === req.user.id) {
+        warning = 'Recount was done by the same person as the first count';
+      }
+    }
+
     // Update the stock item
     const updatedItem = await stockService.updateStockItem(
       itemId,
       value.actualClosing,
-      req.body.photoId || null,
-      value.notes
+      value.photoId || null,
+      value.notes,
+      req.user.id,
+      item.version,
+      value.entryUnit || null,
+      containers
     );
-    const responseItem = req.user.role === 'ADMIN'
-      ? updatedItem
-      : sanitizeStockItemForUser(updatedItem);
+
+    if (!updatedItem) {
+      const current = await prisma.stockReportItem.findUnique({
+        where: { id: itemId },
+        include: {
+          countedBy: { select: { id: true, name: true } },
+          stockReport: { select: { report: { select: { status: true } } } }
+        }
+      });
+      if (!current) {
+        return res.status(404).json({ message: 'Stock item not found' });
+      }
+      const { stockReport, ...currentItem } = current;
+      if (stockReport.report.status !== 'DRAFT') {
+        return res.status(409).json({ message: FINALIZED_MESSAGE });
+      }
+      return res.status(409).json(staleItemResponse(currentItem));
+    }
+    const responseItem = stockService.sanitizeItemForUser(updatedItem, req.user, blind);
 
     res.json({
-      message: 'Stock item updated successfully',
-      item: responseItem
+      message: updateMessages[updatedItem.recountStatus || updatedItem.secondCountStatus] || 'Stock item updated successfully',
+      item: responseItem,
+      warning
     });
   } catch (error) {
     console.error('Failed to update stock item:', error);
@@ -261,6 +729,57 @@ router.patch('/items/:itemId', authenticateToken, async (req, res) => {
   }
 });
 
+// Override an item's opening stock (Admin only)
+router.patch('/items/:itemId/opening', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { itemId } = req.params;
+
+    const schema = Joi.object({
+      openingStock: Joi.number().min(0).required(),
+      reason: Joi.string().trim().min(1).max(500).required()
+    });
+
+    const { error, value } = schema.validate(req.body);
+    if (error) {
+      return res.status(400).json({ message: error.details[0].message });
+    }
+
+    const item = await prisma.stockReportItem.findUnique({
+      where: { id: itemId },
+      include: {
+        stockReport: {
+          include: {
+            report: true
+          }
+        }
+      }
+    });
+
+    if (!item) {
+      return res.status(404).json({ message: 'Stock item not found' });
+    }
+
+    if (stockService.isBlindCountOpen(item.stockReport, item.stockReport.report)) {
+      return res.status(400).json({ message: 'Opening stock of a blind count can be changed once it is finalized' });
+    }
+
+    const updatedItem = await stockService.overrideOpeningStock(
+      itemId,
+      value.openingStock,
+      value.reason,
+      req.user.id
+    );
+
+    res.json({
+      message: 'Opening stock updated successfully',
+      item: updatedItem
+    });
+  } catch (error) {
+    console.error('Failed to override opening stock:', error);
+    res.status(500).json({ message: 'Failed to override opening stock' });
+  }
+});
+
 // Upload photo for stock item
 router.post('/items/:itemId/photo', authenticateToken, upload.single('photo'), async (req, res) => {
   try {
@@ -282,12 +801,17 @@ router.post('/items/:itemId/photo', authenticateToken, upload.single('photo'), a
       }
     });
 
-    if (!item || item.stockReport.report.userId !== req.user.id) {
+    if (!item || !(await stockService.canCountStockReport(item.stockReport.report, req.user.id))) {
       // Delete uploaded file
       await fs.unlink(req.file.path);
       return res.status(404).json({ message: 'Stock item not found' });
     }
 
+    if (item.stockReport.report.status !== 'DRAFT') {
+      await fs.unlink(req.file.path);
+      return res.status(409).json({ message: FINALIZED_MESSAGE });
+    }
+
     // Create photo record
     const photo = await prisma.reportPhoto.create({
       data: {
@@ -323,6 +847,34 @@ router.post('/items/:itemId/photo', authenticateToken, upload.single('photo'), a
   }
 });
 
+// Signed photo links from stock exports skip the login; anything else
+// falls through to the authenticated route below
+router.get('/photos/:photoId', async (req, res, next) => {
+  if (!req.query.link) {
+    return next();
+  }
+
+  try {
+    const { photoId } = req.params;
+    if (!verifyPhotoLinkToken(req.query.link, photoId)) {
+      return res.status(403).json({ message: 'Photo link is invalid or has expired' });
+    }
+
+    const photo = await prisma.reportPhoto.findUnique({
+      where: { id: photoId }
+    });
+
+    if (!photo) {
+      return res.status(404).json({ message: 'Photo not found' });
+    }
+
+    res.sendFile(path.join(process.cwd(), 'uploads', 'stock', photo.filename));
+  } catch (error) {
+    console.error('Failed to get photo:', error);
+    res.status(500).json({ message: 'Failed to get photo' });
+  }
+});
+
 // Get photo
 router.get('/photos/:photoId', authenticateToken, async (req, res) => {
   try {
@@ -335,7 +887,8 @@ router.get('/photos/:photoId', authenticateToken, async (req, res) => {
       }
     });
 
-    if (!photo || photo.report.userId !== req.user.id) {
+    // Admins review scale photos of any report from the variance analytics
+    if (!photo || (req.user.role !== 'ADMIN' && !(await stockService.canCountStockReport(photo.report, req.user.id)))) {
       return res.status(404).json({ message: 'Photo not found' });
     }
 
@@ -347,28 +900,58 @@ router.get('/photos/:photoId', authenticateToken, async (req, res) => {
   }
 });
 
-// Get stock summary
-router.get('/reports/:reportId/summary', authenticateToken, async (req, res) => {
+// What a finalized blind count kept hidden (Admin only)
+router.get('/reports/:reportId/reveal', authenticateToken, requireAdmin, async (req, res) => {
   try {
     const { reportId } = req.params;
 
-    // Verify report belongs to user
     const report = await prisma.report.findFirst({
       where: {
         id: reportId,
-        userId: req.user.id,
-        type: 'STOCK'
+        type: await stockReportTypes()
+      },
+      include: {
+        stockReport: true
       }
     });
 
+    if (!report || !report.stockReport) {
+      return res.status(404).json({ message: 'Stock report not found' });
+    }
+
+    if (!report.stockReport.blindCount) {
+      return res.status(400).json({ message: 'This stock report was not a blind count' });
+    }
+
+    if (report.status === 'DRAFT') {
+      return res.status(400).json({ message: 'A blind count is revealed once it is finalized' });
+    }
+
+    const reveal = await stockService.getBlindCountReveal(reportId);
+    res.json(reveal);
+  } catch (error) {
+    console.error('Failed to get blind count reveal:', error);
+    res.status(500).json({ message: 'Failed to get blind count reveal' });
+  }
+});
+
+// Get stock summary
+router.get('/reports/:reportId/summary', authenticateToken, async (req, res) => {
+  try {
+    const { reportId } = req.params;
+
+    // Verify the user counts this report
+    const report = await findCountableReport(reportId, req.user);
+
     if (!report) {
       return res.status(404).json({ message: 'Stock report not found' });
     }
 
     const summary = await stockService.generateStockSummary(reportId);
-    const responseSummary = req.user.role === 'ADMIN'
+    const blind = stockService.isBlindCountOpen(report.stockReport, report);
+    const responseSummary = req.user.role === 'ADMIN' && !blind
       ? summary
-      : sanitizeSummaryForUser(summary);
+      : sanitizeSummaryForUser(summary, blind);
 
     res.json(responseSummary);
   } catch (error) {
@@ -394,22 +977,17 @@ router.post('/reports/:reportId/items', authenticateToken, async (req, res) => {
       return res.status(400).json({ message: error.details[0].message });
     }
 
-    // Verify report belongs to user
-    const report = await prisma.report.findFirst({
-      where: {
-        id: reportId,
-        userId: req.user.id,
-        type: 'STOCK'
-      },
-      include: {
-        stockReport: true
-      }
-    });
+    // Verify the user counts this report
+    const report = await findCountableReport(reportId, req.user);
 
     if (!report) {
       return res.status(404).json({ message: 'Stock report not found' });
     }
 
+    if (report.status !== 'DRAFT') {
+      return res.status(409).json({ message: FINALIZED_MESSAGE });
+    }
+
     if (!report.stockReport) {
       return res.status(400).json({ message: 'Stock report not initialized. Please select a date first.' });
     }
@@ -423,6 +1001,7 @@ router.post('/reports/:reportId/items', authenticateToken, async (req, res) => {
         productSku: 'CUSTOM',
         unit: value.unit,
         openingStock: value.openingStock,
+        openingSource: 'MANUAL',
         expectedOut: value.expectedOut,
         completed: false
       }
@@ -443,25 +1022,28 @@ router.post('/reports/:reportId/finalize', authenticateToken, async (req, res) =
   try {
     const { reportId } = req.params;
 
-    // Verify report belongs to user
-    const report = await prisma.report.findFirst({
-      where: {
-        id: reportId,
-        userId: req.user.id,
-        type: 'STOCK',
-        status: 'DRAFT'
-      }
-    });
+    // Any user counting the report may finalize it
+    const report = await findCountableReport(reportId, req.user, { status: 'DRAFT' });
 
-    if (!report) {
+    if (!report || !report.stockReport) {
       return res.status(404).json({ message: 'Stock report not found or already submitted' });
     }
 
-    // Check if all items are completed
-    const isComplete = await stockService.checkReportCompletion(reportId);
+    const finalizeError = await stockService.getFinalizeError(report.stockReport.id);
+    if (finalizeError) {
+      return res.status(400).json({ message: finalizeError });
+    }
 
-    if (!isComplete) {
-      return res.status(400).json({ message: 'All stock items must be completed before finalizing' });
+    // The report type's own rules, as when submitting any other report:
+    // required custom fields, checklist and description
+    const reportType = await reportTypeService.getReportType(report.type);
+    const checklists = await prisma.reportChecklist.findMany({
+      where: { reportId },
+      include: { template: true }
+    });
+    const submissionError = reportTypeService.getSubmissionError(reportType, { ...report, checklists });
+    if (submissionError) {
+      return res.status(400).json({ message: submissionError });
     }
 
     // Update report status
@@ -483,4 +1065,209 @@ router.post('/reports/:reportId/finalize', authenticateToken, async (req, res) =
   }
 });
 
+// Push the counted quantities of a finalized stock report to Olsera (Admin only)
+router.post('/reports/:reportId/push', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { reportId } = req.params;
+
+    const settings = await prisma.systemSettings.findFirst();
+    if (!settings?.olseraPushEnabled) {
+      return res.status(403).json({ message: 'Pushing stock counts to Olsera is disabled in settings' });
+    }
+
+    const report = await prisma.report.findFirst({
+      where: {
+        id: reportId,
+        type: await stockReportTypes()
+      },
+      include: {
+        stockReport: true
+      }
+    });
+
+    if (!report || !report.stockReport) {
+      return res.status(404).json({ message: 'Stock report not found' });
+    }
+
+    if (report.status === 'DRAFT' || !report.stockReport.completedAt) {
+      return res.status(400).json({ message: 'Only finalized stock reports can be pushed to Olsera' });
+    }
+
+    const result = await stockPushService.pushStockReport(reportId, req.user.id);
+    const stockReport = await stockService.getStockReport(reportId);
+
+    res.json({
+      message: result.failed > 0
+        ? `${result.failed} item(s) could not be pushed to Olsera`
+        : 'Stock counts pushed to Olsera successfully',
+      result,
+      stockReport
+    });
+  } catch (error) {
+    console.error('Failed to push stock report to Olsera:', error);
+    res.status(500).json({ message: 'Failed to push stock report to Olsera' });
+  }
+});
+
+// Counted catalog products, to pick from when logging waste
+router.get('/products', authenticateToken, async (req, res) => {
+  try {
+    const products = await productService.getCountedProducts();
+
+    res.json(products.map(product => productService.toPickerProduct(product)));
+  } catch (error) {
+    console.error('Failed to get products:', error);
+    res.status(500).json({ message: 'Failed to get products' });
+  }
+});
+
+const wasteQuerySchema = Joi.object({
+  date: Joi.date().required(),
+  outletId: Joi.string().allow('', null).optional()
+});
+
+const wasteEntrySchema = Joi.object({
+  productId: Joi.string().required(),
+  variantId: Joi.string().allow('', null).optional(),
+  quantity: Joi.number().greater(0).required(),
+  reasonCode: Joi.string().valid(...wasteService.reasonCodes).required(),
+  notes: Joi.string().trim().allow('', null).max(500).optional(),
+  wasteDate: Joi.date().required(),
+  outletId: Joi.string().allow('', null).optional()
+});
+
+// Get waste logged for an outlet on a day
+router.get('/waste', authenticateToken, async (req, res) => {
+  try {
+    const { error, value } = wasteQuerySchema.validate(req.query);
+    if (error) {
+      return res.status(400).json({ message: error.details[0].message });
+    }
+
+    const outletId = value.outletId || null;
+    if (!canAccessOutlet(req.user, outletId)) {
+      return res.status(403).json({ message: 'You are not assigned to this outlet' });
+    }
+
+    const entries = await wasteService.listEntries({ outletId, wasteDate: value.date });
+    res.json(entries);
+  } catch (error) {
+    console.error('Failed to get waste entries:', error);
+    res.status(500).json({ message: 'Failed to get waste entries' });
+  }
+});
+
+// Log waste, with an optional photo
+router.post('/waste', authenticateToken, upload.single('photo'), async (req, res) => {
+  const discardPhoto = () => (req.file ? fs.unlink(req.file.path).catch(console.error) : null);
+
+  try {
+    const { error, value } = wasteEntrySchema.validate(req.body);
+    if (error) {
+      await discardPhoto();
+      return res.status(400).json({ message: error.details[0].message });
+    }
+
+    const outletId = value.outletId || null;
+    if (!canAccessOutlet(req.user, outletId)) {
+      await discardPhoto();
+      return res.status(403).json({ message: 'You are not assigned to this outlet' });
+    }
+
+    if (req.user.role !== 'ADMIN') {
+      const requestedDate = req.body.wasteDate;
+      const today = stockService.formatStockDate();
+
+      if (requestedDate !== today) {
+        await discardPhoto();
+        return res.status(400).json({ message: 'Waste can only be logged for today' });
+      }
+    }
+
+    const product = await prisma.product.findUnique({
+      where: {
+        olseraProductId_olseraVariantId: {
+          olseraProductId: value.productId,
+          olseraVariantId: value.variantId || ''
+        }
+      }
+    });
+
+    if (!product) {
+      await discardPhoto();
+      return res.status(400).json({ message: 'Product not found in the catalog' });
+    }
+
+    if (await wasteService.isDayFinalized({ outletId, wasteDate: value.wasteDate })) {
+      await discardPhoto();
+      return res.status(400).json({ message: 'The stock count for this day is finalized, waste can no longer be logged' });
+    }
+
+    const entry = await wasteService.createEntry({
+      outletId,
+      userId: req.user.id,
+      wasteDate: value.wasteDate,
+      product,
+      quantity: value.quantity,
+      reasonCode: value.reasonCode,
+      notes: value.notes || null,
+      photoFilename: req.file ? req.file.filename : null
+    });
+
+    res.status(201).json({
+      message: 'Waste logged successfully',
+      entry
+    });
+  } catch (error) {
+    console.error('Failed to log waste:', error);
+    await discardPhoto();
+    res.status(500).json({ message: 'Failed to log waste' });
+  }
+});
+
+// Delete a waste entry (own entries, or any as admin)
+router.delete('/waste/:id', authenticateToken, async (req, res) => {
+  try {
+    const entry = await prisma.stockWasteEntry.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!entry || (entry.userId !== req.user.id && req.user.role !== 'ADMIN')) {
+      return res.status(404).json({ message: 'Waste entry not found' });
+    }
+
+    if (await wasteService.isDayFinalized(entry)) {
+      return res.status(400).json({ message: 'The stock count for this day is finalized, its waste can no longer be deleted' });
+    }
+
+    await wasteService.deleteEntry(entry);
+    if (entry.photoFilename) {
+      await fs.unlink(path.join(process.cwd(), 'uploads', 'stock', entry.photoFilename)).catch(console.error);
+    }
+
+    res.json({ message: 'Waste entry deleted successfully' });
+  } catch (error) {
+    console.error('Failed to delete waste entry:', error);
+    res.status(500).json({ message: 'Failed to delete waste entry' });
+  }
+});
+
+// Get the photo of a waste entry
+router.get('/waste/:id/photo', authenticateToken, async (req, res) => {
+  try {
+    const entry = await prisma.stockWasteEntry.findUnique({
+      where: { id: req.params.id }
+    });
+
+    if (!entry || !entry.photoFilename || !canAccessOutlet(req.user, entry.outletId)) {
+      return res.status(404).json({ message: 'Photo not found' });
+    }
+
+    res.sendFile(path.join(process.cwd(), 'uploads', 'stock', entry.photoFilename));
+  } catch (error) {
+    console.error('Failed to get photo:', error);
+    res.status(500).json({ message: 'Failed to get photo' });
+  }
+});
+
 module.exports = router;
@@ -1,11 +1,12 @@
 const { PrismaClient } = require('@prisma/client');
 const prisma = new PrismaClient();
+const { OLSERA_BASE_URL } = require('../services/olseraApiClient');
 
 async function seedApiCredentials() {
   try {
-    // Check if Olsera credentials already exist
-    const existing = await prisma.apiCredentials.findUnique({
-      where: { provider: 'olsera' }
+    // Check if default Olsera credentials already exist
+    const existing = await prisma.apiCredentials.findFirst({
+      where: { provider: 'olsera', outletId: null }
     });
 
     if (existing) {
@@ -13,13 +14,18 @@ async function seedApiCredentials() {
       return;
     }
 
+    if (!process.env.OLSERA_APP_ID || !process.env.OLSERA_SECRET_KEY) {
+      console.log('OLSERA_APP_ID and OLSERA_SECRET_KEY are not set, skipping');
+      return;
+    }
+
     // Create Olsera API credentials
     const credentials = await prisma.apiCredentials.create({
       data: {
         provider: 'olsera',
-        appId: 'gP3lntQHc8EiFML3TgJL',
-        secretKey: 'cH7hjmkWQP0LlzIhLgkyaAhEKckRY57k',
-        baseUrl: 'https://api-open.olsera.co.id/api/open-api/v1',
+        appId: process.env.OLSERA_APP_ID,
+        secretKey: process.env.OLSERA_SECRET_KEY,
+        baseUrl: OLSERA_BASE_URL,
         active: true
       }
     });
@@ -16,8 +16,11 @@ const authRoutes = require('./routes/auth');
 const reportRoutes = require('./routes/reports');
 const photoRoutes = require('./routes/photos');
 const adminRoutes = require('./routes/admin');
+const receivingRoutes = require('./routes/receiving');
 const { errorHandler } = require('./middleware/errorHandler');
 const { authenticateToken } = require('./middleware/auth');
+const stockScheduler = require('./services/stockScheduler');
+const reportTypeService = require('./services/reportTypeService');
 
 const app = express();
 const PORT = process.env.PORT || 5001;
@@ -117,6 +120,7 @@ app.use('/api/reports', authenticateToken, reportRoutes);
 app.use('/api/photos', photoRoutes); // Photo categories are public
 app.use('/api/admin', authenticateToken, adminRoutes);
 app.use('/api/stock', require('./routes/stock'));
+app.use('/api/receiving', authenticateToken, receivingRoutes);
 
 // Error handling middleware for API routes
 app.use(errorHandler);
@@ -125,6 +129,9 @@ const startServer = async () => {
   try {
     await nextApp.prepare();
 
+    // Databases from before configurable report types need the built-in ones
+    await reportTypeService.ensureBuiltInTypes();
+
     // After Next is ready, let it handle every non-API request
     app.all('*', (req, res) => handleNextRequest(req, res));
 
@@ -143,9 +150,12 @@ const startServer = async () => {
       console.log(`📊 Environment: ${process.env.NODE_ENV}`);
       console.log(`💾 Database: ${process.env.DATABASE_URL}`);
       console.log(`📁 Upload directory: ${uploadDir}`);
+
+      // Pre-create daily stock reports and catch up on days missed while down
+      stockScheduler.start();
     });
   } catch (error) {
-    console.error('❌ Failed to prepare Next.js frontend', error);
+    console.error('❌ Failed to start server', error);
     process.exit(1);
   }
 };
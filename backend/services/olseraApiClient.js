@@ -1,146 +1,443 @@
 const axios = require('axios');
 const { PrismaClient } = require('@prisma/client');
 const prisma = new PrismaClient();
+const {
+  OlseraError,
+  OlseraAuthError,
+  OlseraCircuitOpenError,
+  toOlseraError
+} = require('./olseraErrors');
+
+// Live Olsera Open API; point OLSERA_BASE_URL at the mock server to work offline
+const DEFAULT_OLSERA_BASE_URL = 'https://api-open.olsera.co.id/api/open-api/v1';
+const OLSERA_BASE_URL = process.env.OLSERA_BASE_URL || DEFAULT_OLSERA_BASE_URL;
+
+const REQUEST_TIMEOUT_MS = parseInt(process.env.OLSERA_TIMEOUT_MS || '30000', 10);
+const MAX_RETRIES = parseInt(process.env.OLSERA_MAX_RETRIES || '3', 10);
+const RETRY_BASE_DELAY_MS = parseInt(process.env.OLSERA_RETRY_BASE_DELAY_MS || '500', 10);
+const RETRY_MAX_DELAY_MS = parseInt(process.env.OLSERA_RETRY_MAX_DELAY_MS || '8000', 10);
+const MAX_CONCURRENCY = parseInt(process.env.OLSERA_MAX_CONCURRENCY || '2', 10);
+const CIRCUIT_FAILURE_THRESHOLD = parseInt(process.env.OLSERA_CIRCUIT_FAILURE_THRESHOLD || '5', 10);
+const CIRCUIT_COOLDOWN_MS = parseInt(process.env.OLSERA_CIRCUIT_COOLDOWN_MS || '60000', 10);
+const STOCK_OPNAME_PATH = process.env.OLSERA_STOCK_OPNAME_PATH || '/en/inventory/stockopname';
+
+// Tokens are renewed this long before Olsera would expire them
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs at most `limit` tasks at a time; the rest wait in order
+ */
+class ConcurrencyLimiter {
+  constructor(limit) {
+    this.limit = Math.max(1, limit);
+    this.active = 0;
+    this.queue = [];
+  }
+
+  async run(task) {
+    if (this.active >= this.limit) {
+      await new Promise(resolve => this.queue.push(resolve));
+    }
+
+    this.active++;
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      const next = this.queue.shift();
+      if (next) {
+        next();
+      }
+    }
+  }
+}
+
+/**
+ * Stops calling Olsera after consecutive failures. Once the cooldown has
+ * passed a single trial request is let through; its outcome closes or
+ * re-opens the circuit.
+ */
+class CircuitBreaker {
+  constructor(failureThreshold, cooldownMs) {
+    this.failureThreshold = failureThreshold;
+    this.cooldownMs = cooldownMs;
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  get state() {
+    if (this.openedAt === null) {
+      return 'CLOSED';
+    }
+    return Date.now() - this.openedAt >= this.cooldownMs ? 'HALF_OPEN' : 'OPEN';
+  }
+
+  assertRequestAllowed() {
+    const state = this.state;
+    if (state === 'OPEN' || (state === 'HALF_OPEN' && this.trialInFlight)) {
+      throw new OlseraCircuitOpenError(new Date(this.openedAt + this.cooldownMs));
+    }
+    if (state === 'HALF_OPEN') {
+      this.trialInFlight = true;
+    }
+  }
+
+  recordSuccess() {
+    this.failures = 0;
+    this.openedAt = null;
+    this.trialInFlight = false;
+  }
+
+  recordFailure() {
+    this.failures++;
+    if (this.trialInFlight || this.failures >= this.failureThreshold) {
+      console.warn(`Olsera circuit opened after ${this.failures} consecutive failure(s)`);
+      this.openedAt = Date.now();
+    }
+    this.trialInFlight = false;
+  }
+}
+
+// One breaker per Olsera host, shared by every outlet client talking to it
+const circuitBreakers = new Map();
+
+const getCircuitBreaker = (baseUrl) => {
+  if (!circuitBreakers.has(baseUrl)) {
+    circuitBreakers.set(baseUrl, new CircuitBreaker(CIRCUIT_FAILURE_THRESHOLD, CIRCUIT_COOLDOWN_MS));
+  }
+  return circuitBreakers.get(baseUrl);
+};
 
 class OlseraApiClient {
-  constructor() {
-    this.baseUrl = 'https://api-open.olsera.co.id/api/open-api/v1';
+  /**
+   * @param {{ id: string, olseraStoreId?: string|null }|null} outlet - outlet whose
+   *   Olsera store this client talks to; null uses the default credentials
+   */
+  constructor(outlet = null) {
+    this.baseUrl = OLSERA_BASE_URL;
+    this.outlet = outlet;
     this.credentials = null;
     this.axiosInstance = null;
+    this.limiter = new ConcurrencyLimiter(MAX_CONCURRENCY);
+    // In-flight initialize/authenticate calls, shared by concurrent requests
+    this.initializing = null;
+    this.authenticating = null;
   }
 
   async initialize() {
-    // Get credentials from database
-    this.credentials = await prisma.apiCredentials.findFirst({
-      where: { provider: 'olsera', active: true }
-    });
+    // Get credentials from database, preferring the outlet's own store credentials
+    let credentials = null;
+    if (this.outlet) {
+      credentials = await prisma.apiCredentials.findFirst({
+        where: { provider: 'olsera', outletId: this.outlet.id, active: true }
+      });
+    }
 
-    if (!this.credentials) {
-      console.log('Using default Olsera credentials');
-      // Use default credentials from environment or hardcoded for now
-      this.credentials = {
-        appId: process.env.OLSERA_APP_ID || 'gP3lntQHc8EiFML3TgJL',
-        secretKey: process.env.OLSERA_SECRET_KEY || 'cH7hjmkWQP0LlzIhLgkyaAhEKckRY57k',
+    if (!credentials) {
+      credentials = await prisma.apiCredentials.findFirst({
+        where: { provider: 'olsera', outletId: null, active: true }
+      });
+    }
+
+    if (!credentials) {
+      if (!process.env.OLSERA_APP_ID || !process.env.OLSERA_SECRET_KEY) {
+        throw new OlseraAuthError('Olsera credentials are not configured');
+      }
+
+      console.log('Using Olsera credentials from environment');
+      credentials = {
+        appId: process.env.OLSERA_APP_ID,
+        secretKey: process.env.OLSERA_SECRET_KEY,
         baseUrl: this.baseUrl
       };
     } else {
       console.log('Using Olsera credentials from database');
     }
 
+    this.credentials = credentials;
+
+    // The environment wins so every outlet can be pointed at the mock server
+    this.baseUrl = process.env.OLSERA_BASE_URL || this.credentials.baseUrl || DEFAULT_OLSERA_BASE_URL;
+    this.circuitBreaker = getCircuitBreaker(this.baseUrl);
+
+    // The token is passed per request; shared defaults would leak between
+    // concurrent requests while a token is being renewed
     this.axiosInstance = axios.create({
       baseURL: this.baseUrl,
-      timeout: 30000,
+      timeout: REQUEST_TIMEOUT_MS,
       headers: {
         'Accept': 'application/json',
         'Content-Type': 'application/json'
       }
     });
+  }
 
-    // Check if token is expired and refresh if needed
-    if (this.credentials.tokenExpiry && new Date(this.credentials.tokenExpiry) <= new Date()) {
-      await this.authenticate();
-    } else if (!this.credentials.accessToken) {
+  /**
+   * Load credentials once and make sure a usable access token is at hand
+   */
+  async ensureAuthenticated() {
+    if (!this.axiosInstance) {
+      if (!this.initializing) {
+        this.initializing = this.initialize().finally(() => {
+          this.initializing = null;
+        });
+      }
+      await this.initializing;
+    }
+
+    const expiry = this.credentials.tokenExpiry ? new Date(this.credentials.tokenExpiry).getTime() : 0;
+    if (!this.credentials.accessToken || expiry - TOKEN_EXPIRY_MARGIN_MS <= Date.now()) {
       await this.authenticate();
     }
   }
 
+  /**
+   * Obtain a new access token. The stored refresh token is tried first and
+   * the secret key grant is the fallback. Concurrent callers share one call.
+   */
   async authenticate() {
-    try {
+    if (!this.authenticating) {
+      this.authenticating = this.requestToken().finally(() => {
+        this.authenticating = null;
+      });
+    }
+    return this.authenticating;
+  }
+
+  async requestToken() {
+    let tokens = null;
+
+    if (this.credentials.refreshToken) {
+      try {
+        console.log('Refreshing Olsera access token...');
+        tokens = await this.postToken({
+          grant_type: 'refresh_token',
+          refresh_token: this.credentials.refreshToken
+        });
+      } catch (error) {
+        // An unusable refresh token only means we log in again; an outage does not
+        if (!(error instanceof OlseraAuthError) && error.status !== 400) {
+          throw error;
+        }
+        console.warn('Olsera refresh token rejected, falling back to secret key');
+      }
+    }
+
+    if (!tokens) {
       console.log('Authenticating with Olsera API...');
       console.log('Using app_id:', this.credentials.appId);
-
-      const response = await axios.post(`${this.baseUrl}/id/token`, {
+      tokens = await this.postToken({
         app_id: this.credentials.appId,
         secret_key: this.credentials.secretKey,
         grant_type: 'secret_key'
       });
+    }
+
+    const { access_token, refresh_token, expires_in } = tokens;
+
+    // Calculate token expiry
+    const tokenExpiry = new Date();
+    tokenExpiry.setSeconds(tokenExpiry.getSeconds() + expires_in);
+
+    // Update credentials in database if we have a database record
+    if (this.credentials.id) {
+      await prisma.apiCredentials.update({
+        where: { id: this.credentials.id },
+        data: {
+          accessToken: access_token,
+          refreshToken: refresh_token,
+          tokenExpiry
+        }
+      });
+    }
 
-      const { access_token, refresh_token, expires_in } = response.data;
-
-      // Calculate token expiry
-      const tokenExpiry = new Date();
-      tokenExpiry.setSeconds(tokenExpiry.getSeconds() + expires_in);
-
-      // Update credentials in database if we have a database record
-      if (this.credentials.id) {
-        await prisma.apiCredentials.update({
-          where: { id: this.credentials.id },
-          data: {
-            accessToken: access_token,
-            refreshToken: refresh_token,
-            tokenExpiry
-          }
-        });
-      }
+    // Update local credentials
+    this.credentials.accessToken = access_token;
+    this.credentials.refreshToken = refresh_token;
+    this.credentials.tokenExpiry = tokenExpiry;
+
+    console.log('Successfully authenticated with Olsera API');
+    return true;
+  }
 
-      // Update local credentials
-      this.credentials.accessToken = access_token;
-      this.credentials.refreshToken = refresh_token;
-      this.credentials.tokenExpiry = tokenExpiry;
+  async postToken(body) {
+    return this.withRetry(async () => {
+      const response = await this.send({ method: 'post', url: '/id/token', data: body });
+      return response.data;
+    });
+  }
 
-      // Update axios instance with new token
-      this.axiosInstance.defaults.headers.common['Authorization'] = `Bearer ${access_token}`;
+  /**
+   * Send one request through the concurrency limit and circuit breaker
+   */
+  async send(config) {
+    this.circuitBreaker.assertRequestAllowed();
 
-      console.log('Successfully authenticated with Olsera API');
-      return true;
+    try {
+      const response = await this.limiter.run(() => this.axiosInstance.request(config));
+      this.circuitBreaker.recordSuccess();
+      return response;
     } catch (error) {
-      console.error('Olsera authentication failed:', error.response?.data || error.message);
-      throw new Error('Failed to authenticate with Olsera API');
+      const olseraError = toOlseraError(error);
+      if (olseraError.retryable) {
+        this.circuitBreaker.recordFailure();
+      } else {
+        // Olsera answered, so it is up even if it refused the request
+        this.circuitBreaker.recordSuccess();
+      }
+      throw olseraError;
     }
   }
 
-  async getStockMovement(startDate, endDate) {
-    if (!this.axiosInstance) {
-      await this.initialize();
-    }
+  /**
+   * Retry transient failures with exponential backoff and jitter, honouring
+   * Retry-After on 429s
+   */
+  async withRetry(operation) {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        if (!(error instanceof OlseraError) || !error.retryable || attempt >= MAX_RETRIES) {
+          throw error;
+        }
 
-    // Ensure we have a valid token
-    if (!this.credentials.accessToken) {
-      await this.authenticate();
+        const retryAfter = parseInt(error.cause?.response?.headers?.['retry-after'], 10);
+        const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+        const delay = Number.isFinite(retryAfter)
+          ? Math.min(RETRY_MAX_DELAY_MS, retryAfter * 1000)
+          : backoff / 2 + Math.random() * backoff / 2;
+
+        console.warn(`Olsera request failed (${error.message}), retry ${attempt + 1}/${MAX_RETRIES} in ${Math.round(delay)}ms`);
+        await sleep(delay);
+      }
     }
+  }
 
-    try {
-      // Set authorization header
-      this.axiosInstance.defaults.headers.common['Authorization'] = `Bearer ${this.credentials.accessToken}`;
-
-      const allItems = [];
-      let currentPage = 1;
-      let hasMorePages = true;
-
-      while (hasMorePages) {
-        const response = await this.axiosInstance.get('/en/inventory/stockmovement', {
-          params: {
-            start_date: startDate,
-            end_date: endDate,
-            page: currentPage
-          }
-        });
+  async get(path, params = {}) {
+    return this.request({ method: 'get', url: path, params });
+  }
 
-        const { data, meta } = response.data;
+  /**
+   * Authenticated POST, sent once. Writes are never retried automatically:
+   * a timeout after Olsera accepted one would apply it twice, so callers
+   * record the failure and send it again explicitly.
+   */
+  async post(path, data = {}) {
+    return this.request({ method: 'post', url: path, data }, { retry: false });
+  }
 
-        console.log(`Page ${currentPage}: Got ${data.length} items from Olsera`);
+  /**
+   * Authenticated request, retried on transient failures unless `retry` is
+   * off. A 401 renews the token once; a second 401 is an OlseraAuthError.
+   */
+  async request(config, { retry = true } = {}) {
+    await this.ensureAuthenticated();
 
-        // Filter for raw materials only (Bahan Baku)
-        const rawMaterials = data.filter(item => item.product_group_name === 'Bahan Baku');
-        console.log(`Filtered to ${rawMaterials.length} raw materials (Bahan Baku)`);
-        allItems.push(...rawMaterials);
+    const attempt = async () => {
+      const request = () => this.send({
+        ...config,
+        headers: { Authorization: `Bearer ${this.credentials.accessToken}` }
+      });
 
-        // Check if there are more pages
-        hasMorePages = currentPage < meta.last_page;
-        currentPage++;
-      }
+      try {
+        return (await request()).data;
+      } catch (error) {
+        if (!(error instanceof OlseraAuthError) || error.status !== 401) {
+          throw error;
+        }
 
-      console.log(`Total raw materials fetched: ${allItems.length}`);
-      return allItems;
-    } catch (error) {
-      // If token expired, try to refresh and retry
-      if (error.response?.status === 401) {
+        // Refused before it was applied, so sending it again is safe
         await this.authenticate();
-        return this.getStockMovement(startDate, endDate);
+        return (await request()).data;
       }
+    };
+
+    return retry ? this.withRetry(attempt) : attempt();
+  }
+
+  /**
+   * Fetch every page of a paginated Olsera list endpoint. The first page
+   * tells how many there are; the rest are fetched within the concurrency
+   * limit.
+   */
+  async fetchAllPages(path, params = {}) {
+    const firstPage = await this.get(path, { ...params, page: 1 });
+    const lastPage = firstPage.meta?.last_page || 1;
+    console.log(`${path}: ${lastPage} page(s) from Olsera`);
 
-      console.error('Failed to fetch stock movement:', error.response?.data || error.message);
-      throw new Error('Failed to fetch stock movement from Olsera');
+    const otherPages = await Promise.all(
+      Array.from({ length: lastPage - 1 }, (_, index) => this.get(path, { ...params, page: index + 2 }))
+    );
+
+    return [firstPage, ...otherPages].flatMap(page => page.data || []);
+  }
+
+  /**
+   * Stock movement rows of this outlet's store. Which products are counted
+   * is decided by the local product catalog, not here.
+   */
+  async getStockMovement(startDate, endDate) {
+    try {
+      const rows = await this.fetchAllPages('/en/inventory/stockmovement', {
+        start_date: startDate,
+        end_date: endDate
+      });
+
+      const storeRows = rows.filter(item => this.belongsToOutletStore(item));
+      console.log(`Total stock movements fetched: ${storeRows.length}`);
+      return storeRows;
+    } catch (error) {
+      console.error('Failed to fetch stock movement:', error.message);
+      throw error instanceof OlseraError
+        ? error
+        : new OlseraError('Failed to fetch stock movement from Olsera', { cause: error });
+    }
+  }
+
+  /**
+   * Product list used to sync the local product catalog
+   */
+  async getProducts() {
+    try {
+      const products = await this.fetchAllPages('/en/product');
+      console.log(`Total products fetched: ${products.length}`);
+      return products;
+    } catch (error) {
+      console.error('Failed to fetch products:', error.message);
+      throw error instanceof OlseraError
+        ? error
+        : new OlseraError('Failed to fetch products from Olsera', { cause: error });
+    }
+  }
+
+  /**
+   * Set one product's stock in Olsera to a counted quantity through a stock
+   * opname. Sent once; a failed opname is pushed again by stockPushService
+   * with the same reference number.
+   */
+  async postStockOpname({ referenceNo, date, productId, variantId = null, qty, note = null }) {
+    try {
+      const response = await this.post(STOCK_OPNAME_PATH, {
+        ref_no: referenceNo,
+        date: this.formatDate(date),
+        store_id: this.outlet?.olseraStoreId || undefined,
+        note,
+        items: [{
+          product_id: productId,
+          product_variant_id: variantId || undefined,
+          qty
+        }]
+      });
+      return response.data || response;
+    } catch (error) {
+      console.error(`Failed to post stock opname ${referenceNo}:`, error.message);
+      throw error instanceof OlseraError
+        ? error
+        : new OlseraError('Failed to post stock opname to Olsera', { cause: error });
     }
   }
 
@@ -154,15 +451,61 @@ class OlseraApiClient {
     return this.getStockMovement(formattedDate, formattedDate);
   }
 
+  /**
+   * Whether a stock movement row belongs to the outlet's Olsera store.
+   * Rows are kept when the client is not scoped to a store.
+   */
+  belongsToOutletStore(item) {
+    if (!this.outlet?.olseraStoreId) {
+      return true;
+    }
+    return String(item.store_id) === String(this.outlet.olseraStoreId);
+  }
+
   formatDate(date) {
     const d = new Date(date);
-    const year = d.getFullYear();
-    const month = String(d.getMonth() + 1).padStart(2, '0');
-    const day = String(d.getDate()).padStart(2, '0');
+    // Stock dates are stored as UTC midnight
+    const year = d.getUTCFullYear();
+    const month = String(d.getUTCMonth() + 1).padStart(2, '0');
+    const day = String(d.getUTCDate()).padStart(2, '0');
     const formatted = `${year}-${month}-${day}`;
     console.log('Formatted date:', date, '->', formatted);
     return formatted;
   }
 }
 
-module.exports = new OlseraApiClient();
\ No newline at end of file
+const defaultClient = new OlseraApiClient();
+const outletClients = new Map();
+
+/**
+ * Get the Olsera client for an outlet. Clients are cached per outlet so each
+ * keeps its own token; without an outlet the default client is returned.
+ */
+const getOlseraClient = (outlet = null) => {
+  if (!outlet) {
+    return defaultClient;
+  }
+
+  const cached = outletClients.get(outlet.id);
+  if (cached && cached.outlet.olseraStoreId === outlet.olseraStoreId) {
+    return cached;
+  }
+
+  const client = new OlseraApiClient(outlet);
+  outletClients.set(outlet.id, client);
+  return client;
+};
+
+/**
+ * Drop a cached outlet client, e.g. after its credentials changed.
+ */
+const resetOlseraClient = (outletId) => {
+  outletClients.delete(outletId);
+};
+
+module.exports = {
+  OLSERA_BASE_URL,
+  OlseraApiClient,
+  getOlseraClient,
+  resetOlseraClient
+};
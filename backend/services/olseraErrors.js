@@ -0,0 +1,89 @@
+/**
+ * Errors raised by the Olsera client. `statusCode` is what our API answers
+ * with, `code` lets routes and the frontend tell the failures apart, and
+ * `retryable` marks failures worth retrying later.
+ */
+class OlseraError extends Error {
+  constructor(message, { code = 'OLSERA_ERROR', statusCode = 502, retryable = false, status = null, cause = null } = {}) {
+    super(message);
+    this.name = this.constructor.name;
+    this.code = code;
+    this.statusCode = statusCode;
+    this.retryable = retryable;
+    // HTTP status returned by Olsera, if any
+    this.status = status;
+    this.cause = cause;
+  }
+}
+
+/**
+ * Olsera rejected our credentials even after re-authenticating
+ */
+class OlseraAuthError extends OlseraError {
+  constructor(message = 'Olsera rejected the API credentials', options = {}) {
+    super(message, { code: 'OLSERA_AUTH_FAILED', statusCode: 502, ...options });
+  }
+}
+
+/**
+ * Olsera timed out, was unreachable or answered with a 5xx/429
+ */
+class OlseraUnavailableError extends OlseraError {
+  constructor(message = 'Olsera is unavailable', options = {}) {
+    super(message, { code: 'OLSERA_UNAVAILABLE', statusCode: 503, retryable: true, ...options });
+  }
+}
+
+/**
+ * Requests are short-circuited after repeated failures until the cooldown ends
+ */
+class OlseraCircuitOpenError extends OlseraUnavailableError {
+  constructor(retryAt) {
+    super('Olsera is unavailable after repeated failures', { code: 'OLSERA_CIRCUIT_OPEN', retryable: false });
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Olsera refused the request itself (other 4xx)
+ */
+class OlseraRequestError extends OlseraError {
+  constructor(message = 'Olsera rejected the request', options = {}) {
+    super(message, { code: 'OLSERA_REQUEST_FAILED', statusCode: 502, ...options });
+  }
+}
+
+const NETWORK_ERROR_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'ERR_NETWORK'];
+
+/**
+ * Classify an axios error as one of the Olsera errors above. Anything that
+ * is not an HTTP failure is returned unchanged.
+ */
+const toOlseraError = (error) => {
+  if (error instanceof OlseraError || !error.isAxiosError) {
+    return error;
+  }
+
+  const status = error.response?.status;
+  const detail = error.response?.data?.message || error.message;
+
+  if (status === 401 || status === 403) {
+    return new OlseraAuthError(undefined, { status, cause: error });
+  }
+  if (!status && NETWORK_ERROR_CODES.includes(error.code)) {
+    return new OlseraUnavailableError(`Olsera is unreachable (${error.code})`, { cause: error });
+  }
+  if (!status || status >= 500 || status === 429) {
+    return new OlseraUnavailableError(`Olsera is unavailable: ${detail}`, { status, cause: error });
+  }
+  return new OlseraRequestError(`Olsera rejected the request: ${detail}`, { status, cause: error });
+};
+
+module.exports = {
+  OlseraError,
+  OlseraAuthError,
+  OlseraUnavailableError,
+  OlseraCircuitOpenError,
+  OlseraRequestError,
+  toOlseraError
+};
@@ -0,0 +1,251 @@
+const { PrismaClient } = require('@prisma/client');
+const prisma = new PrismaClient();
+const { getOlseraClient } = require('./olseraApiClient');
+
+// Groups counted by default when first discovered in Olsera
+const DEFAULT_COUNTED_GROUPS = (process.env.STOCK_DEFAULT_COUNTED_GROUPS || 'Bahan Baku')
+  .split(',')
+  .map(name => name.trim())
+  .filter(Boolean);
+
+class ProductService {
+  /**
+   * Key identifying a product variant; plain products are keyed by product ID
+   */
+  itemKey(productId, variantId) {
+    return variantId ? `${productId}:${variantId}` : String(productId);
+  }
+
+  /**
+   * Normalize an Olsera product or stock movement row into catalog fields
+   */
+  mapOlseraProduct(row) {
+    const id = row.product_id ?? row.id;
+    const variantId = row.product_variant_id ?? row.variant_id;
+    return {
+      olseraProductId: String(id),
+      olseraVariantId: variantId ? String(variantId) : '',
+      name: row.product_name || row.name,
+      variantName: row.product_variant_name || row.variant_name || null,
+      sku: row.product_variant_sku || row.product_sku || row.sku || null,
+      groupName: row.product_group_name || row.group_name || row.product_group?.name || null,
+      unit: row.uom || row.unit || null,
+      cost: row.buy_price ?? row.cost ?? null
+    };
+  }
+
+  /**
+   * Find or create a product group by its Olsera name
+   */
+  async ensureGroup(name, cache = new Map()) {
+    if (!name) {
+      return null;
+    }
+    if (cache.has(name)) {
+      return cache.get(name);
+    }
+
+    const group = await prisma.productGroup.upsert({
+      where: { name },
+      update: {},
+      create: {
+        name,
+        counted: DEFAULT_COUNTED_GROUPS.includes(name)
+      }
+    });
+
+    cache.set(name, group);
+    return group;
+  }
+
+  /**
+   * Upsert Olsera rows into the catalog. Olsera owns name, SKU and group,
+   * and the cost unless an admin set it by hand; the unit is only filled in
+   * when the catalog has none yet, and the admin-managed fields (active,
+   * countOverride, displayOrder) are untouched.
+   */
+  async upsertProducts(rows) {
+    const groupCache = new Map();
+    const existing = await prisma.product.findMany({
+      where: {
+        olseraProductId: { in: rows.map(row => String(row.product_id ?? row.id)) }
+      }
+    });
+    const existingByKey = new Map(existing.map(product => [
+      this.itemKey(product.olseraProductId, product.olseraVariantId),
+      product
+    ]));
+
+    let created = 0;
+    let updated = 0;
+    const syncedAt = new Date();
+
+    for (const row of rows) {
+      const fields = this.mapOlseraProduct(row);
+      if (!fields.olseraProductId || !fields.name) {
+        continue;
+      }
+
+      const group = await this.ensureGroup(fields.groupName, groupCache);
+      const key = this.itemKey(fields.olseraProductId, fields.olseraVariantId);
+      const current = existingByKey.get(key);
+
+      if (!current) {
+        const product = await prisma.product.create({
+          data: {
+            olseraProductId: fields.olseraProductId,
+            olseraVariantId: fields.olseraVariantId,
+            name: fields.name,
+            variantName: fields.variantName,
+            sku: fields.sku,
+            groupId: group?.id || null,
+            unit: fields.unit || undefined,
+            cost: fields.cost,
+            syncedAt
+          }
+        });
+        existingByKey.set(key, product);
+        created++;
+        continue;
+      }
+
+      await prisma.product.update({
+        where: { id: current.id },
+        data: {
+          name: fields.name,
+          variantName: fields.variantName,
+          sku: fields.sku,
+          groupId: group?.id || current.groupId,
+          cost: current.costManual ? current.cost : fields.cost ?? current.cost,
+          syncedAt
+        }
+      });
+      updated++;
+    }
+
+    return { created, updated };
+  }
+
+  /**
+   * Sync the catalog from the Olsera product list of an outlet's store
+   */
+  async syncFromOlsera(outlet = null) {
+    const olseraClient = getOlseraClient(outlet);
+    const products = await olseraClient.getProducts();
+    return this.upsertProducts(products);
+  }
+
+  /**
+   * Whether a catalog product is included in daily stock reports
+   */
+  isCounted(product) {
+    if (!product.active) {
+      return false;
+    }
+    if (product.countOverride !== null && product.countOverride !== undefined) {
+      return product.countOverride;
+    }
+    return Boolean(product.group?.counted);
+  }
+
+  /**
+   * Units a product can be counted in: the base unit of a stock item,
+   * then the product's entry units, each with the base units in one of it
+   */
+  getEntryUnits(product, baseUnit) {
+    return [
+      { unit: baseUnit, factor: 1 },
+      ...(product?.units || [])
+        .filter(entryUnit => entryUnit.unit !== baseUnit)
+        .map(({ unit, factor }) => ({ unit, factor }))
+    ];
+  }
+
+  /**
+   * A quantity entered in one of a product's units, in its base unit;
+   * null when the product cannot be counted in that unit
+   */
+  toBaseQuantity(product, baseUnit, quantity, unit) {
+    const entryUnit = this.getEntryUnits(product, baseUnit).find(candidate => candidate.unit === unit);
+    if (!entryUnit) {
+      return null;
+    }
+    // Keep 0.1 kg from becoming 100.00000000000001 gram
+    return Math.round(quantity * entryUnit.factor * 1e6) / 1e6;
+  }
+
+  /**
+   * Codes that find a product when scanned during a stock count: its
+   * package barcode, its SKU and the catalog id printed on shelf labels
+   */
+  getScanCodes(product) {
+    if (!product) {
+      return [];
+    }
+    return [product.barcode, product.sku, product.id].filter(Boolean);
+  }
+
+  /**
+   * Active catalog products, in counting order
+   */
+  async getActiveProducts() {
+    return prisma.product.findMany({
+      where: { active: true },
+      include: { group: true },
+      orderBy: [{ displayOrder: 'asc' }, { name: 'asc' }]
+    });
+  }
+
+  /**
+   * Fields the product pickers of the waste and receiving forms need
+   */
+  toPickerProduct(product) {
+    return {
+      id: product.id,
+      productId: product.olseraProductId,
+      variantId: product.olseraVariantId || null,
+      name: product.name,
+      variantName: product.variantName,
+      sku: product.sku,
+      unit: product.unit,
+      group: product.group?.name || null
+    };
+  }
+
+  /**
+   * Catalog products included in daily stock reports, in counting order
+   */
+  async getCountedProducts() {
+    const products = await this.getActiveProducts();
+    return products.filter(product => this.isCounted(product));
+  }
+
+  /**
+   * Keep the stock movements whose product is counted, paired with its
+   * catalog entry. Products first seen here are added to the catalog.
+   */
+  async selectCountedMovements(movements) {
+    await this.upsertProducts(movements);
+
+    const products = await prisma.product.findMany({
+      where: {
+        olseraProductId: { in: movements.map(movement => String(movement.product_id)) }
+      },
+      include: { group: true }
+    });
+    const productsByKey = new Map(products.map(product => [
+      this.itemKey(product.olseraProductId, product.olseraVariantId),
+      product
+    ]));
+
+    return movements
+      .map(movement => ({
+        movement,
+        product: productsByKey.get(this.itemKey(movement.product_id, movement.product_variant_id))
+      }))
+      .filter(({ product }) => product && this.isCounted(product))
+      .sort((a, b) => a.product.displayOrder - b.product.displayOrder);
+  }
+}
+
+module.exports = new ProductService();
@@ -0,0 +1,147 @@
+const { PrismaClient } = require('@prisma/client');
+const prisma = new PrismaClient();
+const { getOlseraClient } = require('./olseraApiClient');
+const productService = require('./productService');
+
+const DISCREPANCY_REASONS = ['SHORT', 'OVER', 'DAMAGED', 'WRONG_ITEM', 'QUALITY', 'OTHER'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class ReceivingService {
+  get discrepancyReasons() {
+    return DISCREPANCY_REASONS;
+  }
+
+  async createReceivingReport(reportId, receivedDate) {
+    return prisma.receivingReport.create({
+      data: {
+        reportId,
+        receivedDate: new Date(receivedDate)
+      }
+    });
+  }
+
+  async getReceivingReport(reportId) {
+    return prisma.receivingReport.findUnique({
+      where: { reportId },
+      include: {
+        items: { orderBy: { createdAt: 'asc' } }
+      }
+    });
+  }
+
+  /**
+   * Received minus ordered; null when nothing was ordered on record
+   */
+  getDiscrepancy(item) {
+    if (item.orderedQty === null || item.orderedQty === undefined) {
+      return null;
+    }
+    return item.receivedQty - item.orderedQty;
+  }
+
+  /**
+   * Line item fields for a catalog product
+   */
+  buildItem(product, { orderedQty = null, receivedQty, unitPrice = null, discrepancyReason = null, notes = null }) {
+    return {
+      productId: product.olseraProductId,
+      variantId: product.olseraVariantId || null,
+      productName: product.name,
+      variantName: product.variantName,
+      unit: product.unit,
+      orderedQty,
+      receivedQty,
+      unitPrice,
+      discrepancyReason,
+      notes
+    };
+  }
+
+  /**
+   * Why a receiving report cannot be submitted yet, or null when it can
+   */
+  getSubmissionError(receivingReport) {
+    if (!receivingReport?.supplierName) {
+      return 'Receiving reports must name the supplier';
+    }
+    if (receivingReport.items.length === 0) {
+      return 'Receiving reports must have at least one line item';
+    }
+    const unexplained = receivingReport.items.find(item => {
+      const discrepancy = this.getDiscrepancy(item);
+      return discrepancy !== null && discrepancy !== 0 && !item.discrepancyReason;
+    });
+    if (unexplained) {
+      return `Give a reason for the discrepancy on ${unexplained.productName}`;
+    }
+    return null;
+  }
+
+  /**
+   * Compare what was received at the outlet on the report's day, over all
+   * its receiving reports, with the incoming quantity Olsera recorded for
+   * that day. A delivery that was never entered into the POS shows up as
+   * received quantity without matching incoming quantity.
+   */
+  async compareWithPos(reportId) {
+    const receivingReport = await prisma.receivingReport.findUnique({
+      where: { reportId },
+      include: {
+        items: true,
+        report: { include: { outlet: true } }
+      }
+    });
+
+    if (!receivingReport) {
+      throw new Error('Receiving report not found');
+    }
+
+    const { outletId, outlet } = receivingReport.report;
+    const day = receivingReport.receivedDate;
+    const olseraClient = getOlseraClient(outlet || null);
+    const movements = await olseraClient.getDailyStockMovement(day.toISOString().split('T')[0]);
+
+    const posIncoming = {};
+    for (const movement of movements) {
+      const key = productService.itemKey(movement.product_id, movement.product_variant_id);
+      posIncoming[key] = (posIncoming[key] || 0) + (movement.sum_incoming_qty || 0);
+    }
+
+    const dayItems = await prisma.receivingItem.findMany({
+      where: {
+        receivingReport: {
+          receivedDate: { gte: day, lt: new Date(day.getTime() + DAY_MS) },
+          report: { outletId }
+        }
+      },
+      select: { productId: true, variantId: true, receivedQty: true }
+    });
+
+    const dayReceived = {};
+    for (const item of dayItems) {
+      const key = productService.itemKey(item.productId, item.variantId);
+      dayReceived[key] = (dayReceived[key] || 0) + item.receivedQty;
+    }
+
+    for (const item of receivingReport.items) {
+      const key = productService.itemKey(item.productId, item.variantId);
+      await prisma.receivingItem.update({
+        where: { id: item.id },
+        data: {
+          posIncomingQty: posIncoming[key] || 0,
+          dayReceivedQty: dayReceived[key] || 0
+        }
+      });
+    }
+
+    await prisma.receivingReport.update({
+      where: { id: receivingReport.id },
+      data: { comparedAt: new Date() }
+    });
+
+    return this.getReceivingReport(reportId);
+  }
+}
+
+module.exports = new ReceivingService();
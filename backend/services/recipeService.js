@@ -0,0 +1,135 @@
+const { PrismaClient } = require('@prisma/client');
+const prisma = new PrismaClient();
+const productService = require('./productService');
+
+const recipeInclude = {
+  product: {
+    include: { group: true }
+  },
+  ingredients: {
+    include: { ingredient: true },
+    orderBy: { ingredient: { name: 'asc' } }
+  }
+};
+
+class RecipeService {
+  async listRecipes() {
+    return prisma.recipe.findMany({
+      include: recipeInclude,
+      orderBy: { product: { name: 'asc' } }
+    });
+  }
+
+  async getRecipe(id) {
+    return prisma.recipe.findUnique({
+      where: { id },
+      include: recipeInclude
+    });
+  }
+
+  async createRecipe({ productId, notes = null, active = true, ingredients }) {
+    const recipe = await prisma.recipe.create({
+      data: {
+        productId,
+        notes,
+        active,
+        ingredients: {
+          create: ingredients.map(({ ingredientId, quantity }) => ({ ingredientId, quantity }))
+        }
+      }
+    });
+    return this.getRecipe(recipe.id);
+  }
+
+  /**
+   * Update a recipe; a given ingredient list replaces the current one
+   */
+  async updateRecipe(id, { ingredients, ...data }) {
+    await prisma.$transaction(async (tx) => {
+      await tx.recipe.update({
+        where: { id },
+        data
+      });
+
+      if (ingredients) {
+        await tx.recipeIngredient.deleteMany({
+          where: { recipeId: id }
+        });
+        await tx.recipeIngredient.createMany({
+          data: ingredients.map(({ ingredientId, quantity }) => ({ recipeId: id, ingredientId, quantity }))
+        });
+      }
+    });
+    return this.getRecipe(id);
+  }
+
+  /**
+   * Why a recipe's products cannot be used, or null when they can
+   */
+  async getValidationError(productId, ingredients = []) {
+    const ids = [productId, ...ingredients.map(ingredient => ingredient.ingredientId)].filter(Boolean);
+    const found = await prisma.product.count({
+      where: { id: { in: [...new Set(ids)] } }
+    });
+    if (found !== new Set(ids).size) {
+      return 'Product not found in the catalog';
+    }
+    if (productId && ingredients.some(ingredient => ingredient.ingredientId === productId)) {
+      return 'A menu product cannot be an ingredient of its own recipe';
+    }
+    return null;
+  }
+
+  async deleteRecipe(id) {
+    await prisma.recipe.delete({
+      where: { id }
+    });
+  }
+
+  /**
+   * Raw material usage the active recipes give for the menu items sold in
+   * a set of Olsera stock movements, keyed by ingredient product/variant.
+   * Every ingredient of an active recipe has an entry, 0 when nothing
+   * using it was sold.
+   */
+  async getTheoreticalConsumption(stockMovements) {
+    const recipes = await prisma.recipe.findMany({
+      where: { active: true },
+      include: {
+        product: true,
+        ingredients: { include: { ingredient: true } }
+      }
+    });
+
+    const ingredientKey = ({ ingredient }) =>
+      productService.itemKey(ingredient.olseraProductId, ingredient.olseraVariantId || null);
+
+    const totals = {};
+    const recipesByMenuKey = new Map();
+    for (const recipe of recipes) {
+      recipesByMenuKey.set(
+        productService.itemKey(recipe.product.olseraProductId, recipe.product.olseraVariantId || null),
+        recipe
+      );
+      for (const ingredient of recipe.ingredients) {
+        totals[ingredientKey(ingredient)] = 0;
+      }
+    }
+
+    for (const movement of stockMovements) {
+      const recipe = recipesByMenuKey.get(productService.itemKey(movement.product_id, movement.product_variant_id));
+      const sold = movement.sum_sales_qty || 0;
+      if (!recipe || sold === 0) {
+        continue;
+      }
+
+      for (const ingredient of recipe.ingredients) {
+        totals[ingredientKey(ingredient)] += sold * ingredient.quantity;
+      }
+    }
+
+    return totals;
+  }
+}
+
+module.exports = new RecipeService();
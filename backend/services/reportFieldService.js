@@ -0,0 +1,113 @@
+const Joi = require('joi');
+
+const FIELD_TYPES = ['NUMBER', 'TEXT', 'SELECT', 'DATE', 'CURRENCY', 'TEMPERATURE', 'BOOLEAN'];
+
+const isEmpty = (value) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+class ReportFieldService {
+  get fieldTypes() {
+    return FIELD_TYPES;
+  }
+
+  parseOptions(field) {
+    try {
+      const options = JSON.parse(field.options || '[]');
+      return Array.isArray(options) ? options : [];
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * Field as sent to clients, with the select options as an array
+   */
+  serializeField(field) {
+    return { ...field, options: this.parseOptions(field) };
+  }
+
+  /**
+   * Report metadata as an object; anything unreadable counts as empty
+   */
+  parseMetadata(metadata) {
+    if (!metadata) return {};
+    try {
+      const value = JSON.parse(metadata);
+      return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+    } catch (error) {
+      return {};
+    }
+  }
+
+  /**
+   * What is wrong with a field definition, or null
+   */
+  getDefinitionError(field) {
+    if (field.fieldType === 'SELECT' && this.parseOptions(field).length === 0) {
+      return 'Select fields need at least one option';
+    }
+    if (field.min !== null && field.min !== undefined && field.max !== null && field.max !== undefined
+      && field.min > field.max) {
+      return 'Minimum cannot be greater than maximum';
+    }
+    return null;
+  }
+
+  buildValueSchema(field) {
+    // Text bounds are lengths, so whole and not negative
+    const toLength = (bound) => Math.max(0, Math.round(bound));
+    const withBounds = (schema, toBound = bound => bound) => {
+      let bounded = schema;
+      if (field.min !== null && field.min !== undefined) bounded = bounded.min(toBound(field.min));
+      if (field.max !== null && field.max !== undefined) bounded = bounded.max(toBound(field.max));
+      return bounded;
+    };
+
+    switch (field.fieldType) {
+      case 'NUMBER':
+      case 'TEMPERATURE':
+        return withBounds(Joi.number());
+      case 'CURRENCY':
+        return withBounds(Joi.number().precision(2));
+      case 'TEXT':
+        return withBounds(Joi.string().trim(), toLength);
+      case 'SELECT':
+        return Joi.string().valid(...this.parseOptions(field));
+      case 'DATE':
+        return Joi.date().iso().raw();
+      case 'BOOLEAN':
+        return Joi.boolean();
+      default:
+        return Joi.any();
+    }
+  }
+
+  /**
+   * Check report metadata against the active fields of its type. Values are
+   * converted (e.g. "4.5" to 4.5) and empty ones dropped; other keys are kept
+   * as they are. Required fields are only enforced for submission, so drafts
+   * can be saved half filled.
+   */
+  validateMetadata(fields, metadata, { submitting = false } = {}) {
+    const value = { ...(metadata || {}) };
+    const keys = {};
+
+    for (const field of fields.filter(item => item.active)) {
+      if (isEmpty(value[field.key])) {
+        delete value[field.key];
+      }
+      const schema = this.buildValueSchema(field).label(field.label);
+      keys[field.key] = submitting && field.required ? schema.required() : schema;
+    }
+
+    const result = Joi.object(keys).unknown(true).validate(value, {
+      errors: { wrap: { label: false } }
+    });
+
+    return result.error
+      ? { error: result.error.details[0].message }
+      : { value: result.value };
+  }
+}
+
+module.exports = new ReportFieldService();
@@ -0,0 +1,137 @@
+const { PrismaClient } = require('@prisma/client');
+const prisma = new PrismaClient();
+const reportFieldService = require('./reportFieldService');
+
+const WORKFLOWS = ['STANDARD', 'STOCK', 'RECEIVING'];
+
+const fieldsInclude = {
+  fields: {
+    orderBy: [{ displayOrder: 'asc' }, { label: 'asc' }]
+  }
+};
+
+// Types the app shipped with before they became configurable; created on
+// startup when missing so existing reports keep their type
+const BUILT_IN_REPORT_TYPES = [
+  {
+    code: 'OPENING',
+    name: 'Opening',
+    description: 'Daily procedures',
+    icon: 'CheckCircle',
+    color: 'green',
+    checklist: true,
+    requireChecklist: true
+  },
+  {
+    code: 'CLOSING',
+    name: 'Closing',
+    description: 'Daily procedures',
+    icon: 'Clock',
+    color: 'orange',
+    checklist: true,
+    requireChecklist: true
+  },
+  {
+    code: 'PROBLEM',
+    name: 'Problem',
+    description: 'Report issues',
+    icon: 'AlertTriangle',
+    color: 'red',
+    requireDescription: true,
+    resolvable: true
+  },
+  {
+    code: 'STOCK',
+    name: 'Stock',
+    description: 'Inventory',
+    icon: 'Package',
+    color: 'blue',
+    workflow: 'STOCK',
+    photos: false
+  },
+  {
+    code: 'RECEIVING',
+    name: 'Receiving',
+    description: 'Supplier deliveries',
+    icon: 'Truck',
+    color: 'purple',
+    workflow: 'RECEIVING'
+  }
+];
+
+class ReportTypeService {
+  get workflows() {
+    return WORKFLOWS;
+  }
+
+  /**
+   * Create the built-in report types that do not exist yet; existing ones
+   * keep the admin's changes
+   */
+  async ensureBuiltInTypes() {
+    for (const [index, reportType] of BUILT_IN_REPORT_TYPES.entries()) {
+      await prisma.reportType.upsert({
+        where: { code: reportType.code },
+        update: {},
+        create: { ...reportType, builtIn: true, displayOrder: index }
+      });
+    }
+  }
+
+  /**
+   * All report types with their custom fields, inactive ones included
+   */
+  async listReportTypes() {
+    const reportTypes = await prisma.reportType.findMany({
+      include: fieldsInclude,
+      orderBy: [{ displayOrder: 'asc' }, { name: 'asc' }]
+    });
+    return reportTypes.map(reportType => ({
+      ...reportType,
+      fields: reportType.fields.map(field => reportFieldService.serializeField(field))
+    }));
+  }
+
+  async getReportType(code) {
+    return prisma.reportType.findUnique({
+      where: { code },
+      include: fieldsInclude
+    });
+  }
+
+  /**
+   * Codes of the report types matching a filter, e.g. `{ workflow: 'STOCK' }`
+   */
+  async getCodes(where = {}) {
+    const reportTypes = await prisma.reportType.findMany({
+      where,
+      select: { code: true }
+    });
+    return reportTypes.map(reportType => reportType.code);
+  }
+
+  /**
+   * Why a draft report of a type cannot be submitted yet, or null. The
+   * receiving workflow has its own rules on top.
+   */
+  getSubmissionError(reportType, report) {
+    const { error: metadataError } = reportFieldService.validateMetadata(
+      reportType?.fields || [],
+      reportFieldService.parseMetadata(report.metadata),
+      { submitting: true }
+    );
+    if (metadataError) {
+      return metadataError;
+    }
+    if (reportType?.requireChecklist
+      && report.checklists.some(item => item.template.required && !item.completed)) {
+      return 'All required checklist items must be completed before submission';
+    }
+    if (reportType?.requireDescription && (!report.title || !report.description)) {
+      return `${reportType.name} reports must have a title and description`;
+    }
+    return null;
+  }
+}
+
+module.exports = new ReportTypeService();
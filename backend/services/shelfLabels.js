@@ -0,0 +1,54 @@
+const { buildQrSvg } = require('./qrCode');
+
+/**
+ * Printable sheet of shelf labels, one per product: its QR code (the
+ * catalog id, which stock counts scan for), name, zone and SKU or barcode.
+ * Labels are sized for A4 and flow across pages when printed.
+ */
+
+const escapeHtml = (value) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const productLabel = (product) =>
+  product.variantName ? `${product.name} – ${product.variantName}` : product.name;
+
+const buildLabel = (product) => {
+  const code = product.barcode || product.sku;
+  return `<div class="label">
+  ${buildQrSvg(product.id, { margin: 2 })}
+  <div class="text">
+    <div class="name">${escapeHtml(productLabel(product))}</div>
+    ${product.zone ? `<div class="meta">${escapeHtml(product.zone.name)}</div>` : ''}
+    ${code ? `<div class="meta">${escapeHtml(code)}</div>` : ''}
+    <div class="meta">${escapeHtml(product.unit)}</div>
+  </div>
+</div>`;
+};
+
+const buildShelfLabelSheet = (products, title = 'Shelf labels') => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+  @page { size: A4; margin: 10mm; }
+  body { margin: 0; font-family: Arial, Helvetica, sans-serif; color: #000; }
+  .sheet { display: grid; grid-template-columns: repeat(3, 1fr); gap: 4mm; }
+  .label { display: flex; align-items: center; gap: 3mm; height: 30mm; padding: 2mm; border: 1px dashed #999; break-inside: avoid; }
+  .label svg { width: 26mm; height: 26mm; flex-shrink: 0; }
+  .text { min-width: 0; overflow: hidden; }
+  .name { font-size: 11pt; font-weight: bold; line-height: 1.2; }
+  .meta { font-size: 8pt; color: #333; margin-top: 1mm; }
+</style>
+</head>
+<body>
+<div class="sheet">
+${products.map(buildLabel).join('\n')}
+</div>
+</body>
+</html>`;
+
+module.exports = { buildShelfLabelSheet };
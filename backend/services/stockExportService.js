@@ -0,0 +1,166 @@
+const { PrismaClient } = require('@prisma/client');
+const prisma = new PrismaClient();
+const productService = require('./productService');
+const stockService = require('./stockService');
+const { buildXlsx } = require('./xlsxWriter');
+const { signPhotoLinkToken } = require('../middleware/auth');
+
+const EXPORT_COLUMNS = [
+  { header: 'Date', value: row => row.date },
+  { header: 'Outlet', value: row => row.outlet },
+  { header: 'Group', value: row => row.group },
+  { header: 'Product', value: row => row.product },
+  { header: 'Variant', value: row => row.variant },
+  { header: 'SKU', value: row => row.sku },
+  { header: 'Unit', value: row => row.unit },
+  { header: 'Opening', value: row => row.opening },
+  { header: 'Opening Source', value: row => row.openingSource },
+  { header: 'Incoming', value: row => row.incoming },
+  { header: 'Returns', value: row => row.returns },
+  { header: 'Sales', value: row => row.sales },
+  { header: 'Outgoing', value: row => row.outgoing },
+  { header: 'Waste', value: row => row.waste },
+  { header: 'Expected Closing', value: row => row.expectedClosing },
+  { header: 'Actual Closing', value: row => row.actualClosing },
+  { header: 'Difference', value: row => row.difference },
+  { header: 'Unit Cost', value: row => row.unitCost },
+  { header: 'Value', value: row => row.value },
+  { header: 'Counted By', value: row => row.countedBy },
+  { header: 'Counted At', value: row => row.countedAt },
+  { header: 'Photo', value: row => (row.photoUrl ? { link: row.photoUrl, text: 'Photo' } : null) }
+];
+
+class StockExportService {
+  /**
+   * One row per stock item (product per day) over a date range. `baseUrl`
+   * is where photo links point; they carry their own signed token so they
+   * open from a spreadsheet.
+   */
+  async getExportRows({ from, to, outletId = null, groupId = null, baseUrl }) {
+    const where = {
+      stockReport: {
+        stockDate: { gte: from, lte: to },
+        // Open blind counts are exported once finalized
+        NOT: { blindCount: true, report: { status: 'DRAFT' } }
+      }
+    };
+    if (outletId) {
+      where.stockReport.report = { outletId };
+    }
+
+    const [items, products] = await Promise.all([
+      prisma.stockReportItem.findMany({
+        where,
+        include: {
+          counts: {
+            include: {
+              user: { select: { name: true } }
+            },
+            orderBy: { createdAt: 'desc' },
+            take: 1
+          },
+          stockReport: {
+            select: {
+              stockDate: true,
+              report: {
+                select: {
+                  user: { select: { name: true } },
+                  outlet: { select: { code: true, name: true } }
+                }
+              }
+            }
+          }
+        }
+      }),
+      prisma.product.findMany({
+        include: { group: true }
+      })
+    ]);
+
+    const catalog = new Map(products.map(product => [
+      productService.itemKey(product.olseraProductId, product.olseraVariantId || null),
+      product
+    ]));
+
+    const rows = [];
+    for (const item of items) {
+      const product = catalog.get(productService.itemKey(item.productId, item.variantId));
+      if (groupId && product?.groupId !== groupId) {
+        continue;
+      }
+
+      const lastCount = item.counts[0];
+      const photoId = item.photoId || lastCount?.photoId;
+      const counted = item.actualClosing !== null;
+
+      rows.push({
+        date: stockService.getPeriodKey(item.stockReport.stockDate, 'day'),
+        outlet: item.stockReport.report.outlet?.name || '',
+        group: product?.group?.name || '',
+        groupOrder: product?.group?.displayOrder ?? Number.MAX_SAFE_INTEGER,
+        product: item.productName,
+        variant: item.variantName || '',
+        sku: item.productSku || '',
+        unit: item.unit,
+        opening: item.openingStock,
+        openingSource: item.openingSource,
+        incoming: item.incomingQty,
+        returns: item.returnQty,
+        sales: item.salesQty,
+        outgoing: stockService.calculateOutgoingQty(item),
+        waste: item.wasteQty,
+        expectedClosing: stockService.calculateExpectedClosing(item),
+        actualClosing: item.actualClosing,
+        difference: item.difference,
+        unitCost: item.unitCost,
+        value: stockService.calculateItemValue(item),
+        countedBy: counted ? (lastCount?.user?.name || item.stockReport.report.user.name) : '',
+        countedAt: lastCount ? lastCount.createdAt.toISOString() : '',
+        photoUrl: photoId ? `${baseUrl}/api/stock/photos/${photoId}?link=${signPhotoLinkToken(photoId)}` : null
+      });
+    }
+
+    return rows.sort((a, b) =>
+      a.date.localeCompare(b.date)
+      || a.outlet.localeCompare(b.outlet)
+      || a.groupOrder - b.groupOrder
+      || a.product.localeCompare(b.product)
+      || a.variant.localeCompare(b.variant)
+    );
+  }
+
+  /**
+   * CSV with a BOM so spreadsheet apps read it as UTF-8
+   */
+  toCsv(rows) {
+    const escape = (value) => {
+      if (value === null || value === undefined) {
+        return '';
+      }
+      let text = typeof value === 'object' ? value.link : String(value);
+      // Text such as product names and notes must not run as a spreadsheet
+      // formula; numbers (negative differences included) stay numbers
+      if (typeof value !== 'number' && /^[=+\-@\t\r]/.test(text)) {
+        text = `'${text}`;
+      }
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = [
+      EXPORT_COLUMNS.map(column => escape(column.header)).join(','),
+      ...rows.map(row => EXPORT_COLUMNS.map(column => escape(column.value(row))).join(','))
+    ];
+
+    return `\ufeff${lines.join('\r\n')}\r\n`;
+  }
+
+  toXlsx(rows) {
+    return buildXlsx({
+      sheetName: 'Stock',
+      headers: EXPORT_COLUMNS.map(column => column.header),
+      rows: rows.map(row => EXPORT_COLUMNS.map(column => column.value(row)))
+    });
+  }
+}
+
+module.exports = new StockExportService();
@@ -0,0 +1,122 @@
+const { PrismaClient } = require('@prisma/client');
+const prisma = new PrismaClient();
+const { getOlseraClient } = require('./olseraApiClient');
+
+class StockPushService {
+  /**
+   * Items of a stock report that can go to Olsera: counted catalog items
+   * never pushed or whose push failed. Custom items have no Olsera product.
+   * PENDING items are being pushed, or their push was cut off without an
+   * answer; they are never sent again on their own.
+   */
+  getPushableItems(stockReport) {
+    return stockReport.items.filter(item =>
+      item.actualClosing !== null
+      && !item.productId.startsWith('custom-')
+      && (item.pushStatus === null || item.pushStatus === 'FAILED')
+    );
+  }
+
+  /**
+   * Stable Olsera reference number of an item's stock opname. Every push of
+   * an item sends the same one, so its opnames can be matched up in Olsera.
+   */
+  getReferenceNo(item) {
+    return `STOCK-${item.id}`;
+  }
+
+  /**
+   * Push the counted closing quantities of a finalized stock report to
+   * Olsera as stock opnames, one per item. Items already pushed are skipped,
+   * failed ones are sent again; each item keeps its own status and error.
+   */
+  async pushStockReport(reportId, userId) {
+    const stockReport = await prisma.stockReport.findUnique({
+      where: { reportId },
+      include: {
+        items: true,
+        report: { include: { outlet: true } }
+      }
+    });
+
+    if (!stockReport) {
+      throw new Error('Stock report not initialized');
+    }
+
+    await prisma.stockReport.update({
+      where: { id: stockReport.id },
+      data: {
+        pushApprovedAt: new Date(),
+        pushApprovedById: userId
+      }
+    });
+
+    const items = this.getPushableItems(stockReport);
+    const olseraClient = getOlseraClient(stockReport.report.outlet || null);
+    const note = `${stockReport.report.title} (${stockReport.reportId})`;
+
+    // Requests queue in the client's concurrency limit
+    const results = await Promise.all(items.map(item =>
+      this.pushItem(olseraClient, stockReport, item, note)
+    ));
+
+    const claimed = results.filter(Boolean).length;
+    return {
+      pushed: results.filter(status => status === 'PUSHED').length,
+      failed: results.filter(status => status === 'FAILED').length,
+      skipped: stockReport.items.length - claimed
+    };
+  }
+
+  /**
+   * Push one item, once. The item is claimed by moving it to PENDING only
+   * if it is still unpushed or failed, so a concurrent push (a second admin
+   * or a double click) skips it instead of sending it twice. Returns the
+   * resulting status, or null when another push had it.
+   */
+  async pushItem(olseraClient, stockReport, item, note) {
+    const { count } = await prisma.stockReportItem.updateMany({
+      where: {
+        id: item.id,
+        OR: [{ pushStatus: null }, { pushStatus: 'FAILED' }]
+      },
+      data: { pushStatus: 'PENDING', pushError: null }
+    });
+    if (count !== 1) {
+      return null;
+    }
+
+    try {
+      const adjustment = await olseraClient.postStockOpname({
+        referenceNo: this.getReferenceNo(item),
+        date: stockReport.stockDate,
+        productId: item.productId,
+        variantId: item.variantId,
+        qty: item.actualClosing,
+        note
+      });
+
+      await prisma.stockReportItem.update({
+        where: { id: item.id },
+        data: {
+          pushStatus: 'PUSHED',
+          pushedAt: new Date(),
+          olseraAdjustmentId: adjustment?.id ? String(adjustment.id) : null
+        }
+      });
+      return 'PUSHED';
+    } catch (error) {
+      // Without an answer Olsera may still have applied the opname
+      const pushError = error.retryable
+        ? `${error.message}. Olsera may have applied it anyway, check the stock there before pushing again.`
+        : error.message;
+      await prisma.stockReportItem.update({
+        where: { id: item.id },
+        data: { pushStatus: 'FAILED', pushError }
+      });
+      return 'FAILED';
+    }
+  }
+}
+
+module.exports = new StockPushService();
@@ -0,0 +1,248 @@
+const { PrismaClient } = require('@prisma/client');
+const prisma = new PrismaClient();
+const stockService = require('./stockService');
+const reportTypeService = require('./reportTypeService');
+const { canAccessOutlet } = require('../middleware/auth');
+
+const CHECK_INTERVAL_MS = parseInt(process.env.STOCK_SCHEDULER_INTERVAL_MS || '60000', 10);
+// Failed runs are retried after this long, up to MAX_ATTEMPTS per outlet and day
+const RETRY_INTERVAL_MS = 30 * 60 * 1000;
+const MAX_ATTEMPTS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SCHEDULED_REPORT_TYPE = 'STOCK';
+
+class StockScheduler {
+  constructor() {
+    this.timer = null;
+    this.running = false;
+  }
+
+  /**
+   * Check for due stock reports every minute, starting right away so days
+   * missed while the server was down are caught up on boot
+   */
+  start() {
+    if (this.timer || process.env.STOCK_SCHEDULER_DISABLED === 'true') {
+      return;
+    }
+
+    this.timer = setInterval(() => this.tick(), CHECK_INTERVAL_MS);
+    this.timer.unref();
+    this.tick();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Create the stock reports that are due. `force` runs today's reports
+   * now, even when the schedule is disabled or its time has not come yet.
+   */
+  async tick({ force = false } = {}) {
+    if (this.running) {
+      return [];
+    }
+
+    this.running = true;
+    try {
+      const settings = await prisma.systemSettings.findFirst();
+      if (!force && !settings?.stockScheduleEnabled) {
+        return [];
+      }
+
+      const dueDates = await this.getDueDates(settings, new Date(), force);
+      if (dueDates.length === 0) {
+        return [];
+      }
+
+      const owner = await this.findOwner();
+      const activeOutlets = await prisma.outlet.findMany({
+        where: { active: true },
+        orderBy: { code: 'asc' }
+      });
+      const outlets = activeOutlets.length > 0 ? activeOutlets : [null];
+
+      const runs = [];
+      for (const { date, catchUp } of dueDates) {
+        for (const outlet of outlets) {
+          const run = await this.runForOutlet(outlet, date, catchUp, owner);
+          if (run) {
+            runs.push(run);
+          }
+        }
+      }
+      return runs;
+    } catch (error) {
+      console.error('Stock scheduler failed:', error);
+      return [];
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Days that should have a stock report by now: today once the scheduled
+   * time has passed, plus missed days within the catch-up window. Catch-up
+   * never reaches back before the scheduler's first run.
+   */
+  async getDueDates(settings, now, force) {
+    const [hours, minutes] = (settings?.stockScheduleTime || '20:00').split(':').map(Number);
+    const scheduledToday = new Date(now);
+    scheduledToday.setHours(hours, minutes, 0, 0);
+
+    const dueDates = [];
+    const firstRun = await prisma.stockScheduleRun.findFirst({ orderBy: { stockDate: 'asc' } });
+
+    for (let offset = settings?.stockCatchUpDays ?? 0; offset > 0; offset--) {
+      const date = stockService.formatStockDate(new Date(now.getTime() - offset * DAY_MS));
+      if (firstRun && new Date(date) >= firstRun.stockDate) {
+        dueDates.push({ date, catchUp: true });
+      }
+    }
+
+    if (force || now >= scheduledToday) {
+      dueDates.push({ date: stockService.formatStockDate(now), catchUp: false });
+    }
+
+    return dueDates;
+  }
+
+  /**
+   * Create and pre-fetch one outlet's stock report for a day, unless it is
+   * already done. Returns the run log entry, or null when nothing was due.
+   */
+  async runForOutlet(outlet, date, catchUp, owner) {
+    const outletId = outlet?.id || null;
+    const stockDate = new Date(date);
+    const startedAt = new Date();
+
+    const previousRuns = await prisma.stockScheduleRun.findMany({
+      where: { outletId, stockDate },
+      orderBy: { startedAt: 'desc' }
+    });
+    if (previousRuns.some(run => run.status !== 'FAILED')) {
+      return null;
+    }
+    if (previousRuns.length >= MAX_ATTEMPTS
+      || (previousRuns[0] && startedAt - previousRuns[0].startedAt < RETRY_INTERVAL_MS)) {
+      return null;
+    }
+
+    const recordRun = (status, data = {}) => prisma.stockScheduleRun.create({
+      data: {
+        outletId,
+        stockDate,
+        status,
+        catchUp,
+        startedAt,
+        finishedAt: new Date(),
+        ...data
+      }
+    });
+
+    // Staff may have started the day's report themselves, of any stock type
+    const stockTypes = await reportTypeService.getCodes({ workflow: 'STOCK' });
+    const existing = await prisma.stockReport.findFirst({
+      where: {
+        stockDate: { gte: stockDate, lt: new Date(stockDate.getTime() + DAY_MS) },
+        report: { type: { in: stockTypes }, outletId }
+      },
+      include: { report: { include: { user: { select: { name: true } } } } }
+    });
+
+    if (existing && !existing.scheduled) {
+      return recordRun('SKIPPED', {
+        reportId: existing.reportId,
+        message: `Already created by ${existing.report.user.name}`
+      });
+    }
+
+    if (!owner) {
+      return recordRun('FAILED', { message: 'No admin user to own scheduled reports' });
+    }
+
+    // Checked the same way as a report created by staff
+    const reportType = existing ? null : await reportTypeService.getReportType(SCHEDULED_REPORT_TYPE);
+    if (!existing && (!reportType || !reportType.active || reportType.workflow !== 'STOCK')) {
+      return recordRun('FAILED', { message: `Report type ${SCHEDULED_REPORT_TYPE} is not an active stock report type` });
+    }
+    if (!existing && !canAccessOutlet(owner, outletId)) {
+      return recordRun('FAILED', { message: `${owner.name} is not assigned to outlet ${outlet.code}` });
+    }
+
+    let reportId = existing?.reportId;
+    try {
+      if (!reportId) {
+        const report = await prisma.report.create({
+          data: {
+            type: reportType.code,
+            title: `Stock Report - ${date}${outlet ? ` (${outlet.code})` : ''}`,
+            userId: owner.id,
+            outletId,
+            // Same blind count policy as a report started by staff
+            stockReport: {
+              create: {
+                stockDate,
+                scheduled: true,
+                blindCount: outlet?.blindCount || false,
+                secondCount: Boolean(outlet?.blindCount && outlet.blindSecondCount)
+              }
+            }
+          }
+        });
+        reportId = report.id;
+
+        if (reportType.checklist) {
+          const templates = await prisma.checklistTemplate.findMany({
+            where: { type: reportType.code },
+            orderBy: { order: 'asc' }
+          });
+          if (templates.length > 0) {
+            await prisma.reportChecklist.createMany({
+              data: templates.map(template => ({
+                reportId,
+                templateId: template.id,
+                completed: false
+              }))
+            });
+          }
+        }
+      }
+
+      // A previous failed attempt left the report empty; this fills it in
+      const stockReport = await stockService.initializeStockReport(reportId, date);
+      console.log(`Scheduled stock report for ${outlet?.code || 'default store'} on ${date}: ${stockReport.items.length} items`);
+
+      return recordRun('SUCCESS', {
+        reportId,
+        itemCount: stockReport.items.length,
+        message: stockReport.items.length === 0 ? 'No counted products moved on this day' : null
+      });
+    } catch (error) {
+      console.error(`Scheduled stock report for ${outlet?.code || 'default store'} on ${date} failed:`, error.message);
+      return recordRun('FAILED', { reportId, message: error.message });
+    }
+  }
+
+  /**
+   * Scheduled reports belong to STOCK_SCHEDULE_OWNER, else the first admin,
+   * until a staff member claims them
+   */
+  async findOwner() {
+    const include = { outlets: { select: { outletId: true } } };
+    const user = process.env.STOCK_SCHEDULE_OWNER
+      ? await prisma.user.findUnique({ where: { username: process.env.STOCK_SCHEDULE_OWNER }, include })
+      : await prisma.user.findFirst({ where: { role: 'ADMIN' }, orderBy: { createdAt: 'asc' }, include });
+
+    if (!user) {
+      return null;
+    }
+
+    const { outlets, ...userFields } = user;
+    return { ...userFields, outletIds: outlets.map(assignment => assignment.outletId) };
+  }
+}
+
+module.exports = new StockScheduler();
@@ -1,15 +1,35 @@
 const { PrismaClient } = require('@prisma/client');
 const prisma = new PrismaClient();
-const olseraClient = require('./olseraApiClient');
+const { getOlseraClient } = require('./olseraApiClient');
+const productService = require('./productService');
+const recipeService = require('./recipeService');
+
+// Who counted and who claimed a stock item
+const stockItemPeople = {
+  countedBy: { select: { id: true, name: true } },
+  claimedBy: { select: { id: true, name: true } }
+};
+
+// Open blind counts stay out of the variance analytics until finalized
+const revealedStockReports = {
+  NOT: { blindCount: true, report: { status: 'DRAFT' } }
+};
 
 class StockService {
   /**
    * Initialize a stock report by fetching data from Olsera API
+   * for the Olsera store of the report's outlet
    */
   async initializeStockReport(reportId, stockDate) {
     try {
       console.log('Initializing stock report for:', { reportId, stockDate });
 
+      const report = await prisma.report.findUnique({
+        where: { id: reportId },
+        include: { outlet: true }
+      });
+      const outletId = report?.outletId || null;
+
       // Check if stock report already exists
       let stockReport = await prisma.stockReport.findUnique({
         where: { reportId },
@@ -18,10 +38,12 @@ class StockService {
 
       // If report exists with items and date is different, clear and re-initialize
       if (stockReport && stockReport.items.length > 0) {
-        const existingDate = new Date(stockReport.stockDate).toISOString().split('T')[0];
-        const newDate = new Date(stockDate).toISOString().split('T')[0];
+        const dateChangeError = this.getDateChangeError(stockReport, stockDate);
+        if (dateChangeError) {
+          throw new Error(dateChangeError);
+        }
 
-        if (existingDate !== newDate) {
+        if (!this.isSameStockDate(stockReport.stockDate, stockDate)) {
           console.log('Date changed, clearing existing items and re-fetching...');
           // Delete existing items
           await prisma.stockReportItem.deleteMany({
@@ -38,29 +60,40 @@ class StockService {
           });
         } else {
           console.log('Stock report already exists with items for this date');
-          return stockReport; // Already initialized for same date
+          // Already initialized for same date
+          return {
+            ...stockReport,
+            items: await this.sortByWalkingOrder(stockReport.items)
+          };
         }
       }
 
-      // Create or update stock report
+      // Create or update stock report; the outlet's blind count policy is
+      // fixed for the report once counting starts
       if (!stockReport) {
         stockReport = await prisma.stockReport.create({
           data: {
             reportId,
             stockDate: new Date(stockDate),
-            syncedAt: new Date()
+            syncedAt: new Date(),
+            blindCount: report?.outlet?.blindCount || false,
+            secondCount: Boolean(report?.outlet?.blindCount && report.outlet.blindSecondCount)
           }
         });
       }
 
       // Fetch stock movement from Olsera
       console.log('Fetching stock movements from Olsera for date:', stockDate);
+      const olseraClient = getOlseraClient(report?.outlet || null);
       const stockMovements = await olseraClient.getDailyStockMovement(stockDate);
       console.log('Fetched', stockMovements.length, 'stock movements from Olsera');
 
+      // Keep only products the catalog marks as counted
+      const countedMovements = await productService.selectCountedMovements(stockMovements);
+
       // Check if we have data
-      if (!stockMovements || stockMovements.length === 0) {
-        console.log('No raw materials data found for this date');
+      if (countedMovements.length === 0) {
+        console.log('No counted products found for this date');
         // Return the report with empty items
         return {
           ...stockReport,
@@ -68,27 +101,21 @@ class StockService {
         };
       }
 
-      // Get yesterday's closing stock for each item
-      const previousStocks = await this.getPreviousClosingStocks(stockDate);
+      // Get the last counted closing stock, the logged waste and the
+      // recipe usage of the day's menu sales for each item
+      const previousStocks = await this.getPreviousClosingStocks(stockDate, outletId);
+      const wasteTotals = await this.getWasteTotals(stockDate, outletId);
+      const theoreticalTotals = await recipeService.getTheoreticalConsumption(stockMovements);
 
       // Create stock report items
       const stockItems = [];
-      for (const movement of stockMovements) {
-        // Calculate expected out (sales + outgoing)
-        const expectedOut = (movement.sum_sales_qty || 0) + (movement.sum_outgoing_qty || 0);
-
-        // Get previous closing or use beginning_qty from API
-        const previousClosing = previousStocks[movement.product_id] || movement.beginning_qty || 0;
-
+      for (const { movement, product } of countedMovements) {
         const item = await prisma.stockReportItem.create({
           data: {
             stockReportId: stockReport.id,
-            productId: movement.product_id.toString(),
-            productName: movement.product_name,
-            productSku: movement.product_sku || null,
-            openingStock: previousClosing,
-            expectedOut: expectedOut,
-            unit: 'gram' // Default unit, can be configured
+            ...this.buildItemFromMovement(movement, previousStocks, wasteTotals, theoreticalTotals),
+            unit: product.unit,
+            unitCost: product.cost
           }
         });
 
@@ -103,7 +130,7 @@ class StockService {
 
       return {
         ...stockReport,
-        items: stockItems
+        items: await this.sortByWalkingOrder(stockItems)
       };
     } catch (error) {
       console.error('Failed to initialize stock report:', error);
@@ -112,69 +139,814 @@ class StockService {
   }
 
   /**
-   * Get previous day's closing stocks
+   * Map an Olsera stock movement to stock item fields
    */
-  async getPreviousClosingStocks(date) {
-    const previousDate = new Date(date);
-    previousDate.setDate(previousDate.getDate() - 1);
+  buildItemFromMovement(movement, previousStocks, wasteTotals = {}, theoreticalTotals = {}) {
+    // Calculate expected out (sales + outgoing)
+    const expectedOut = (movement.sum_sales_qty || 0) + (movement.sum_outgoing_qty || 0);
 
-    // Find previous day's stock report
-    const previousReport = await prisma.stockReport.findFirst({
-      where: {
-        stockDate: {
-          gte: new Date(previousDate.setHours(0, 0, 0, 0)),
-          lt: new Date(previousDate.setHours(23, 59, 59, 999))
-        },
-        completedAt: { not: null }
-      },
+    // Carry forward the last count of the same variant, else use beginning_qty from API
+    const key = productService.itemKey(movement.product_id, movement.product_variant_id);
+    const previous = previousStocks[key];
+
+    return {
+      productId: movement.product_id.toString(),
+      variantId: movement.product_variant_id ? movement.product_variant_id.toString() : null,
+      productName: movement.product_name,
+      variantName: movement.product_variant_name || null,
+      productSku: movement.product_variant_sku || movement.product_sku || null,
+      openingStock: previous ? previous.value : movement.beginning_qty || 0,
+      openingSource: previous ? 'PREVIOUS_COUNT' : 'OLSERA',
+      openingSourceDate: previous?.stockDate || null,
+      openingSourceItemId: previous?.itemId || null,
+      expectedOut,
+      incomingQty: movement.sum_incoming_qty || 0,
+      returnQty: movement.sum_return_qty || 0,
+      wasteQty: wasteTotals[key] || 0,
+      salesQty: movement.sum_sales_qty || 0,
+      theoreticalQty: key in theoreticalTotals ? theoreticalTotals[key] : null
+    };
+  }
+
+  /**
+   * Expected closing = Opening + Incoming + Returns - (Sales + Outgoing) - Waste.
+   * Logged waste is explained shrinkage, so the difference against this is
+   * the unexplained variance.
+   */
+  calculateExpectedClosing(item) {
+    return item.openingStock + (item.incomingQty || 0) + (item.returnQty || 0) - item.expectedOut - (item.wasteQty || 0);
+  }
+
+  /**
+   * The non-sales part of an item's expected out: Olsera's outgoing
+   * movements such as transfers and adjustments
+   */
+  calculateOutgoingQty(item) {
+    return (item.expectedOut || 0) - (item.salesQty || 0);
+  }
+
+  /**
+   * Split a counted ingredient's usage against its recipe usage. Physical
+   * usage is what left the shelf other than through waste and non-sales
+   * outgoing; theoretical usage is what the recipes give for the menu items
+   * sold; recorded usage is the sales quantity Olsera holds for the
+   * ingredient itself. Physical above theoretical points at over-portioning,
+   * theoretical above recorded at movements never entered into the POS.
+   * Null when the item has no recipe usage or is not counted yet.
+   */
+  calculateConsumptionBreakdown(item) {
+    if (item.theoreticalQty === null || item.theoreticalQty === undefined
+      || item.actualClosing === null || item.actualClosing === undefined) {
+      return null;
+    }
+
+    const recorded = item.salesQty || 0;
+    const otherOutgoing = this.calculateOutgoingQty(item);
+    const physical = item.openingStock + (item.incomingQty || 0) + (item.returnQty || 0)
+      - (item.wasteQty || 0) - otherOutgoing - item.actualClosing;
+
+    return {
+      theoretical: item.theoreticalQty,
+      recorded,
+      physical,
+      portioningVariance: physical - item.theoreticalQty,
+      posGap: item.theoreticalQty - recorded
+    };
+  }
+
+  /**
+   * Re-sync an existing stock report with the latest Olsera movements.
+   * Counts, photos and notes are kept; opening/expected values are refreshed,
+   * except openings set by an admin, new products are added and vanished
+   * products are flagged. Every run is recorded as a StockSyncLog entry.
+   */
+  async resyncStockReport(reportId, userId = null) {
+    const stockReport = await prisma.stockReport.findUnique({
+      where: { reportId },
       include: {
-        items: true
+        items: true,
+        report: { include: { outlet: true } }
       }
     });
 
-    if (!previousReport) {
-      return {};
+    if (!stockReport) {
+      throw new Error('Stock report not initialized');
     }
 
-    // Create a map of product ID to closing stock
+    const stockDate = stockReport.stockDate;
+    const outletId = stockReport.report.outletId || null;
+
+    const olseraClient = getOlseraClient(stockReport.report.outlet || null);
+    const stockMovements = await olseraClient.getDailyStockMovement(stockDate);
+    const countedMovements = await productService.selectCountedMovements(stockMovements);
+    const previousStocks = await this.getPreviousClosingStocks(stockDate, outletId);
+    const wasteTotals = await this.getWasteTotals(stockDate, outletId);
+    const theoreticalTotals = await recipeService.getTheoreticalConsumption(stockMovements);
+
+    // Custom items are not sourced from Olsera and are left untouched
+    const existingItems = new Map(
+      stockReport.items
+        .filter(item => !item.productId.startsWith('custom-'))
+        .map(item => [productService.itemKey(item.productId, item.variantId), item])
+    );
+
+    const changes = [];
+    const seenKeys = new Set();
+
+    for (const { movement, product } of countedMovements) {
+      const fields = this.buildItemFromMovement(movement, previousStocks, wasteTotals, theoreticalTotals);
+      const key = productService.itemKey(fields.productId, fields.variantId);
+      seenKeys.add(key);
+
+      const existing = existingItems.get(key);
+      if (existing?.openingSource === 'MANUAL') {
+        Object.assign(fields, {
+          openingStock: existing.openingStock,
+          openingSource: existing.openingSource,
+          openingSourceDate: existing.openingSourceDate,
+          openingSourceItemId: existing.openingSourceItemId
+        });
+      }
+
+      if (!existing) {
+        await prisma.stockReportItem.create({
+          data: {
+            stockReportId: stockReport.id,
+            ...fields,
+            unit: product.unit,
+            unitCost: product.cost
+          }
+        });
+        changes.push({
+          type: 'ADDED',
+          productId: fields.productId,
+          variantId: fields.variantId,
+          productName: fields.productName,
+          variantName: fields.variantName,
+          openingStock: fields.openingStock,
+          openingSource: fields.openingSource,
+          expectedOut: fields.expectedOut,
+          incomingQty: fields.incomingQty,
+          returnQty: fields.returnQty,
+          wasteQty: fields.wasteQty,
+          theoreticalQty: fields.theoreticalQty
+        });
+        continue;
+      }
+
+      // Cost follows the catalog, which Olsera syncs keep current; the unit
+      // only while nothing was counted in the old one
+      const catalogFields = {
+        unit: existing.actualClosing === null ? product.unit : existing.unit,
+        unitCost: product.cost ?? existing.unitCost
+      };
+
+      const movementFields = ['openingStock', 'openingSource', 'expectedOut', 'incomingQty', 'returnQty', 'wasteQty', 'salesQty', 'theoreticalQty'];
+      const hasChanged = movementFields.some(field => existing[field] !== fields[field])
+        || Object.keys(catalogFields).some(field => existing[field] !== catalogFields[field]);
+      if (!hasChanged && !existing.removedFromSource) {
+        continue;
+      }
+
+      const data = {
+        productName: fields.productName,
+        variantName: fields.variantName,
+        productSku: fields.productSku,
+        openingStock: fields.openingStock,
+        openingSource: fields.openingSource,
+        openingSourceDate: fields.openingSourceDate,
+        openingSourceItemId: fields.openingSourceItemId,
+        expectedOut: fields.expectedOut,
+        incomingQty: fields.incomingQty,
+        returnQty: fields.returnQty,
+        wasteQty: fields.wasteQty,
+        salesQty: fields.salesQty,
+        theoreticalQty: fields.theoreticalQty,
+        ...catalogFields,
+        removedFromSource: false
+      };
+      if (existing.actualClosing !== null) {
+        data.difference = existing.actualClosing - this.calculateExpectedClosing(fields);
+      }
+
+      await prisma.stockReportItem.update({
+        where: { id: existing.id },
+        data
+      });
+      changes.push({
+        type: existing.removedFromSource ? 'RESTORED' : 'UPDATED',
+        productId: fields.productId,
+        variantId: fields.variantId,
+        productName: fields.productName,
+        variantName: fields.variantName,
+        openingStock: { from: existing.openingStock, to: fields.openingStock },
+        openingSource: { from: existing.openingSource, to: fields.openingSource },
+        expectedOut: { from: existing.expectedOut, to: fields.expectedOut },
+        incomingQty: { from: existing.incomingQty, to: fields.incomingQty },
+        returnQty: { from: existing.returnQty, to: fields.returnQty },
+        wasteQty: { from: existing.wasteQty, to: fields.wasteQty },
+        theoreticalQty: { from: existing.theoreticalQty, to: fields.theoreticalQty },
+        unitCost: { from: existing.unitCost, to: catalogFields.unitCost }
+      });
+    }
+
+    for (const [key, existing] of existingItems) {
+      if (seenKeys.has(key) || existing.removedFromSource) {
+        continue;
+      }
+
+      await prisma.stockReportItem.update({
+        where: { id: existing.id },
+        data: { removedFromSource: true }
+      });
+      changes.push({
+        type: 'REMOVED',
+        productId: existing.productId,
+        variantId: existing.variantId,
+        productName: existing.productName,
+        variantName: existing.variantName
+      });
+    }
+
+    const syncLog = await prisma.stockSyncLog.create({
+      data: {
+        stockReportId: stockReport.id,
+        userId,
+        addedCount: changes.filter(change => change.type === 'ADDED').length,
+        updatedCount: changes.filter(change => change.type === 'UPDATED' || change.type === 'RESTORED').length,
+        removedCount: changes.filter(change => change.type === 'REMOVED').length,
+        changes: JSON.stringify(changes)
+      }
+    });
+
+    // Newly added products still need counting
+    const hasAddedItems = changes.some(change => change.type === 'ADDED');
+    await prisma.stockReport.update({
+      where: { id: stockReport.id },
+      data: {
+        syncedAt: new Date(),
+        completedAt: hasAddedItems ? null : stockReport.completedAt
+      }
+    });
+
+    return {
+      stockReport: await this.getStockReport(reportId),
+      syncLog: { ...syncLog, changes }
+    };
+  }
+
+  /**
+   * Get the re-sync history of a stock report, newest first
+   */
+  async getSyncLogs(reportId) {
+    const logs = await prisma.stockSyncLog.findMany({
+      where: { stockReport: { reportId } },
+      include: {
+        user: {
+          select: { id: true, username: true, name: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+
+    return logs.map(log => ({
+      ...log,
+      changes: JSON.parse(log.changes)
+    }));
+  }
+
+  /**
+   * Last counted closing stock per product/variant before a date for the
+   * same outlet. Each product carries forward its most recent completed
+   * count, however many days ago it was and whether or not the rest of that
+   * report was finished.
+   */
+  async getPreviousClosingStocks(date, outletId = null) {
+    const items = await prisma.stockReportItem.findMany({
+      where: {
+        completed: true,
+        actualClosing: { not: null },
+        NOT: { productId: { startsWith: 'custom-' } },
+        stockReport: {
+          stockDate: { lt: new Date(date) },
+          report: { outletId }
+        }
+      },
+      select: {
+        id: true,
+        productId: true,
+        variantId: true,
+        actualClosing: true,
+        updatedAt: true,
+        stockReport: {
+          select: { stockDate: true }
+        }
+      },
+      orderBy: [
+        { stockReport: { stockDate: 'desc' } },
+        { updatedAt: 'desc' }
+      ]
+    });
+
+    // Items are newest first, so the first one seen per key wins
     const closingStocks = {};
-    for (const item of previousReport.items) {
-      closingStocks[item.productId] = item.actualClosing || 0;
+    for (const item of items) {
+      const key = productService.itemKey(item.productId, item.variantId);
+      if (!closingStocks[key]) {
+        closingStocks[key] = {
+          value: item.actualClosing,
+          stockDate: item.stockReport.stockDate,
+          itemId: item.id
+        };
+      }
     }
 
     return closingStocks;
   }
 
   /**
-   * Update a stock item with actual closing stock and calculate difference
+   * Set an item's opening stock by hand. The previous value is kept in the
+   * override audit trail, the difference follows the new opening and re-syncs
+   * leave the value alone from now on.
+   */
+  async overrideOpeningStock(itemId, openingStock, reason, userId = null) {
+    const item = await prisma.stockReportItem.findUnique({
+      where: { id: itemId }
+    });
+
+    if (!item) {
+      throw new Error('Stock item not found');
+    }
+
+    const data = {
+      openingStock,
+      openingSource: 'MANUAL',
+      openingSourceDate: null,
+      openingSourceItemId: null
+    };
+    if (item.actualClosing !== null) {
+      data.difference = item.actualClosing - this.calculateExpectedClosing({ ...item, openingStock });
+    }
+
+    const [, updatedItem] = await prisma.$transaction([
+      prisma.stockOpeningOverride.create({
+        data: {
+          itemId,
+          userId,
+          previousValue: item.openingStock,
+          previousSource: item.openingSource,
+          newValue: openingStock,
+          reason
+        }
+      }),
+      prisma.stockReportItem.update({
+        where: { id: itemId },
+        data,
+        include: {
+          openingOverrides: {
+            include: {
+              user: {
+                select: { id: true, username: true, name: true }
+              }
+            },
+            orderBy: { createdAt: 'desc' }
+          }
+        }
+      })
+    ]);
+
+    return updatedItem;
+  }
+
+  /**
+   * Logged waste per product/variant on a stock date for an outlet
+   */
+  async getWasteTotals(date, outletId = null) {
+    const day = new Date(date);
+    const entries = await prisma.stockWasteEntry.findMany({
+      where: {
+        outletId,
+        wasteDate: { gte: day, lt: new Date(day.getTime() + 24 * 60 * 60 * 1000) }
+      },
+      select: { productId: true, variantId: true, quantity: true }
+    });
+
+    const totals = {};
+    for (const entry of entries) {
+      const key = productService.itemKey(entry.productId, entry.variantId);
+      totals[key] = (totals[key] || 0) + entry.quantity;
+    }
+    return totals;
+  }
+
+  /**
+   * Bring a product's waste on existing stock reports of that outlet and day
+   * up to date after a waste entry was logged or removed. Counted items get
+   * their difference recalculated.
+   */
+  async refreshItemWaste({ outletId = null, wasteDate, productId, variantId = null }) {
+    const day = new Date(wasteDate);
+    const items = await prisma.stockReportItem.findMany({
+      where: {
+        productId,
+        variantId: variantId || null,
+        stockReport: {
+          stockDate: { gte: day, lt: new Date(day.getTime() + 24 * 60 * 60 * 1000) },
+          // Submitted figures stay as they were finalized
+          report: { outletId, status: 'DRAFT' }
+        }
+      }
+    });
+    if (items.length === 0) {
+      return;
+    }
+
+    const wasteTotals = await this.getWasteTotals(day, outletId);
+    const wasteQty = wasteTotals[productService.itemKey(productId, variantId)] || 0;
+
+    for (const item of items) {
+      const data = { wasteQty };
+      if (item.actualClosing !== null) {
+        data.difference = item.actualClosing - this.calculateExpectedClosing({ ...item, wasteQty });
+      }
+      await prisma.stockReportItem.update({
+        where: { id: item.id },
+        data
+      });
+    }
+  }
+
+  /**
+   * Catalog product of a stock item; custom items have none
+   */
+  async getCatalogProduct(item) {
+    return prisma.product.findUnique({
+      where: {
+        olseraProductId_olseraVariantId: {
+          olseraProductId: item.productId,
+          olseraVariantId: item.variantId || ''
+        }
+      },
+      include: { units: true }
+    });
+  }
+
+  /**
+   * Active containers a stock item can be weighed in: the product's own
+   * containers, then those offered for every item, with their tare in the
+   * item's base unit
+   */
+  async getItemContainers(product, baseUnit) {
+    const containers = await prisma.container.findMany({
+      where: {
+        active: true,
+        OR: [{ productId: null }, ...(product ? [{ productId: product.id }] : [])]
+      },
+      orderBy: [{ productId: 'desc' }, { name: 'asc' }]
+    });
+    return this.withItemTare(containers, product, baseUnit);
+  }
+
+  /**
+   * Containers with their tare converted to an item's base unit through the
+   * product's entry units. Containers whose tare unit the product is not
+   * counted in are left out, so a gram tare never comes off a count in pcs.
+   */
+  withItemTare(containers, product, baseUnit) {
+    return containers
+      .map(container => ({
+        ...container,
+        tareWeight: productService.toBaseQuantity(product, baseUnit, container.tareWeight, container.tareUnit)
+      }))
+      .filter(container => container.tareWeight !== null);
+  }
+
+  /**
+   * Containers picked for a weighing, one entry per container on the scale;
+   * null when one of them cannot be used for the product
+   */
+  async getWeighingContainers(product, baseUnit, containerIds) {
+    const available = new Map(
+      (await this.getItemContainers(product, baseUnit)).map(container => [container.id, container])
+    );
+    const containers = containerIds.map(id => available.get(id));
+    return containers.every(Boolean) ? containers : null;
+  }
+
+  /**
+   * Combined tare of the containers on the scale
+   */
+  getTareWeight(containers) {
+    return containers.reduce((sum, container) => sum + container.tareWeight, 0);
+  }
+
+  /**
+   * Whether a variance is acceptable for a product. When both an absolute
+   * and a percentage tolerance are set, the larger allowance applies.
+   * Products without a tolerance accept any variance.
+   */
+  isWithinTolerance(product, difference, expectedClosing) {
+    const allowance = this.getToleranceAllowance(product, expectedClosing);
+    return allowance === null || Math.abs(difference) <= allowance;
+  }
+
+  /**
+   * Whether two independent blind counts of a product agree, within the
+   * product tolerance taken from the first count. Products without a
+   * tolerance need identical counts.
+   */
+  countsAgree(product, firstCount, secondCount) {
+    const allowance = this.getToleranceAllowance(product, firstCount) ?? 0;
+    return Math.abs(secondCount - firstCount) <= allowance;
+  }
+
+  /**
+   * Largest variance a product's tolerance allows around a quantity, or
+   * null when the product has no tolerance
+   */
+  getToleranceAllowance(product, quantity) {
+    const allowances = [];
+    if (product?.toleranceAmount !== null && product?.toleranceAmount !== undefined) {
+      allowances.push(product.toleranceAmount);
+    }
+    if (product?.tolerancePercent !== null && product?.tolerancePercent !== undefined) {
+      allowances.push(Math.abs(quantity) * product.tolerancePercent / 100);
+    }
+    return allowances.length > 0 ? Math.max(...allowances) : null;
+  }
+
+  /**
+   * Reconcile a count of an item in a blind count with second counts.
+   * The first count waits for a second one; two counts that agree are
+   * averaged, two that don't need a tie-break count, which then stands.
+   * Counting a reconciled item again starts over.
+   */
+  reconcileSecondCount(item, product, actualClosing) {
+    switch (item.secondCountStatus) {
+      case 'PENDING':
+        return this.countsAgree(product, item.actualClosing, actualClosing)
+          ? { secondCountStatus: 'MATCHED', actualClosing: (item.actualClosing + actualClosing) / 2 }
+          : { secondCountStatus: 'MISMATCH', actualClosing };
+      case 'MISMATCH':
+        return { secondCountStatus: 'RESOLVED', actualClosing };
+      default:
+        return { secondCountStatus: 'PENDING', actualClosing };
+    }
+  }
+
+  /**
+   * A stock item without the Olsera figures, costs and variances that let
+   * a counter work out the expected stock
+   */
+  hideExpectedFigures(item) {
+    if (!item) {
+      return item;
+    }
+
+    const {
+      openingStock,
+      expectedOut,
+      incomingQty,
+      returnQty,
+      salesQty,
+      theoreticalQty,
+      difference,
+      unitCost,
+      openingOverrides,
+      pushStatus,
+      pushedAt,
+      pushError,
+      olseraAdjustmentId,
+      ...safeFields
+    } = item;
+
+    if (safeFields.counts) {
+      safeFields.counts = safeFields.counts.map(({ difference: countDifference, outsideTolerance, ...count }) => count);
+    }
+
+    return safeFields;
+  }
+
+  /**
+   * A stock item of an unfinalized blind count as a counter may see it:
+   * no expected figures or logged waste, no count history, and nobody's
+   * count but their own while the item waits for an independent count
+   */
+  hideBlindCountFigures(item, userId) {
+    if (!item) {
+      return item;
+    }
+
+    const { counts, wasteQty, ...safeFields } = this.hideExpectedFigures(item);
+    const awaitingCount = ['PENDING', 'MISMATCH'].includes(item.secondCountStatus);
+    if (awaitingCount && item.countedById !== userId) {
+      const { actualClosing, notes, photoId, ...independentFields } = safeFields;
+      return independentFields;
+    }
+    return safeFields;
+  }
+
+  /**
+   * An item as a user may see it: counters never see the expected figures,
+   * and admins see them too only once a blind count is finalized
+   */
+  sanitizeItemForUser(item, user, blind = false) {
+    if (blind) {
+      return this.hideBlindCountFigures(item, user.id);
+    }
+    return user.role === 'ADMIN' ? item : this.hideExpectedFigures(item);
+  }
+
+  /**
+   * Whether a stock report's expected figures are still hidden from
+   * everyone, admins included: a blind count that was not finalized yet
+   */
+  isBlindCountOpen(stockReport, report) {
+    return Boolean(stockReport?.blindCount && report?.status === 'DRAFT');
+  }
+
+  /**
+   * Add a user to someone else's stock report so they can count items too
+   */
+  async joinStockReport(stockReportId, userId) {
+    return prisma.stockCountParticipant.upsert({
+      where: { stockReportId_userId: { stockReportId, userId } },
+      create: { stockReportId, userId },
+      update: {}
+    });
+  }
+
+  /**
+   * Whether a user may count the items of a stock report: its owner or a
+   * participant who joined it
+   */
+  async canCountStockReport(report, userId) {
+    if (report.userId === userId) {
+      return true;
+    }
+    const participant = await prisma.stockCountParticipant.findFirst({
+      where: { stockReport: { reportId: report.id }, userId }
+    });
+    return Boolean(participant);
+  }
+
+  /**
+   * Claim the given items, or every item of a storage zone, for a user.
+   * Items already claimed by someone else or already counted are left
+   * alone. Returns the number of items claimed.
    */
-  async updateStockItem(itemId, actualClosing, photoId = null, notes = null) {
+  async claimItems(reportId, userId, { itemIds = [], zoneId = null }) {
+    const ids = await this.resolveItemIds(reportId, { itemIds, zoneId });
+    const { count } = await prisma.stockReportItem.updateMany({
+      where: {
+        id: { in: ids },
+        completed: false,
+        OR: [{ claimedById: null }, { claimedById: userId }]
+      },
+      data: { claimedById: userId, claimedAt: new Date() }
+    });
+    return count;
+  }
+
+  /**
+   * Give up a user's claims on the given items or storage zone
+   */
+  async releaseItems(reportId, userId, { itemIds = [], zoneId = null }) {
+    const ids = await this.resolveItemIds(reportId, { itemIds, zoneId });
+    const { count } = await prisma.stockReportItem.updateMany({
+      where: { id: { in: ids }, claimedById: userId },
+      data: { claimedById: null, claimedAt: null }
+    });
+    return count;
+  }
+
+  async resolveItemIds(reportId, { itemIds, zoneId }) {
+    const stockReport = await this.getStockReport(reportId);
+    if (!stockReport) {
+      return [];
+    }
+    return stockReport.items
+      .filter(item => zoneId ? item.zone?.id === zoneId : itemIds.includes(item.id))
+      .map(item => item.id);
+  }
+
+  /**
+   * Update a stock item with actual closing stock and calculate difference.
+   * A variance outside the product tolerance puts the item into recount;
+   * the next weighing completes it. Blind counts never ask for a recount,
+   * which would give the variance away; with second counts the item is
+   * reconciled against an independent count instead. Every weighing is
+   * kept in the item's count history. A count entered in one of the
+   * product's entry units is converted to the base unit first. Weighed in
+   * containers, the entered quantity is the gross weight and their tare
+   * is taken off. Returns null, saving nothing, when the item was counted
+   * again since `expectedVersion`.
+   */
+  async updateStockItem(itemId, enteredQty, photoId = null, notes = null, userId = null, expectedVersion = null, entryUnit = null, containers = []) {
     try {
       const item = await prisma.stockReportItem.findUnique({
-        where: { id: itemId }
+        where: { id: itemId },
+        include: {
+          stockReport: { select: { blindCount: true, secondCount: true } }
+        }
       });
 
       if (!item) {
         throw new Error('Stock item not found');
       }
 
+      const product = await this.getCatalogProduct(item);
+      const inBaseUnit = !entryUnit || entryUnit === item.unit;
+      const grossWeight = inBaseUnit
+        ? enteredQty
+        : productService.toBaseQuantity(product, item.unit, enteredQty, entryUnit);
+
+      if (grossWeight === null) {
+        throw new Error(`${item.productName} cannot be counted in ${entryUnit}`);
+      }
+
+      const weighed = containers.length > 0;
+      const tareWeight = this.getTareWeight(containers);
+      const actualClosing = Math.round((grossWeight - tareWeight) * 1e6) / 1e6;
+      if (actualClosing < 0) {
+        throw new Error(`The gross weight of ${item.productName} is below the tare of its containers`);
+      }
+
       // Calculate the difference
-      // Expected closing = Opening - Expected Out
       // Difference = Actual Closing - Expected Closing
-      const expectedClosing = item.openingStock - item.expectedOut;
+      const expectedClosing = this.calculateExpectedClosing(item);
       const difference = actualClosing - expectedClosing;
 
-      const updatedItem = await prisma.stockReportItem.update({
-        where: { id: itemId },
+      const outsideTolerance = !this.isWithinTolerance(product, difference, expectedClosing);
+      const isRecount = item.recountStatus === 'REQUIRED' || item.secondCountStatus === 'MISMATCH';
+
+      let recountStatus = null;
+      let secondCountStatus = null;
+      let closing = actualClosing;
+      if (item.stockReport.secondCount) {
+        ({ secondCountStatus, actualClosing: closing } = this.reconcileSecondCount(item, product, actualClosing));
+      } else if (!item.stockReport.blindCount) {
+        if (isRecount) {
+          recountStatus = 'COMPLETED';
+        } else if (outsideTolerance) {
+          recountStatus = 'REQUIRED';
+        }
+      }
+      const awaitingCount = recountStatus === 'REQUIRED' || ['PENDING', 'MISMATCH'].includes(secondCountStatus);
+
+      // Only save over the version the counter saw, and only while the
+      // report is a draft; someone else's count or the report being
+      // finalized in between makes this one stale
+      const { count } = await prisma.stockReportItem.updateMany({
+        where: {
+          id: itemId,
+          version: expectedVersion ?? item.version,
+          stockReport: { report: { status: 'DRAFT' } }
+        },
         data: {
+          actualClosing: closing,
+          difference: closing - expectedClosing,
+          unitCost: product?.cost ?? item.unitCost,
+          photoId: photoId || item.photoId,
+          notes,
+          recountStatus,
+          secondCountStatus,
+          completed: !awaitingCount,
+          version: { increment: 1 },
+          countedById: userId,
+          countedAt: new Date(),
+          claimedById: null,
+          claimedAt: null
+        }
+      });
+
+      if (count === 0) {
+        return null;
+      }
+
+      await prisma.stockItemCount.create({
+        data: {
+          itemId,
+          userId,
           actualClosing,
           difference,
           photoId,
           notes,
-          completed: true
+          outsideTolerance,
+          isRecount,
+          enteredQty: inBaseUnit ? null : enteredQty,
+          enteredUnit: inBaseUnit ? null : entryUnit,
+          grossWeight: weighed ? grossWeight : null,
+          tareWeight: weighed ? tareWeight : null,
+          containers: weighed ? JSON.stringify(containers.map(container => container.name)) : null
         }
       });
 
+      const updatedItem = await prisma.stockReportItem.findUnique({
+        where: { id: itemId },
+        include: stockItemPeople
+      });
+
       // Check if all items are completed
       await this.checkReportCompletion(item.stockReportId);
 
@@ -207,23 +979,517 @@ class StockService {
         where: { id: stockReportId },
         data: { completedAt: new Date() }
       });
+    } else if (!allCompleted && stockReport.completedAt) {
+      // An item went back into recount
+      await prisma.stockReport.update({
+        where: { id: stockReportId },
+        data: { completedAt: null }
+      });
     }
 
     return allCompleted;
   }
 
+  /**
+   * A stock date as "YYYY-MM-DD". Stock dates are stored as UTC midnight and
+   * "today" is the current UTC day, so both use the UTC calendar.
+   */
+  formatStockDate(date = new Date()) {
+    return new Date(date).toISOString().split('T')[0];
+  }
+
+  isSameStockDate(a, b) {
+    return this.formatStockDate(a) === this.formatStockDate(b);
+  }
+
+  /**
+   * Why a stock report cannot move to another date, or null. Moving clears
+   * its items, so it is refused once anything was counted.
+   */
+  getDateChangeError(stockReport, stockDate) {
+    if (!stockReport || this.isSameStockDate(stockReport.stockDate, stockDate)) {
+      return null;
+    }
+    const counted = stockReport.items.filter(item => item.actualClosing !== null).length;
+    return counted > 0
+      ? `${counted} item(s) are already counted for this date; the date can no longer change`
+      : null;
+  }
+
+  /**
+   * Why a stock report cannot be finalized yet, or null. Every route that
+   * submits a stock report goes through this.
+   */
+  async getFinalizeError(stockReportId) {
+    const pendingRecounts = await prisma.stockReportItem.count({
+      where: {
+        stockReportId,
+        recountStatus: 'REQUIRED'
+      }
+    });
+
+    if (pendingRecounts > 0) {
+      return `${pendingRecounts} item(s) need a recount before finalizing`;
+    }
+
+    const pendingSecondCounts = await prisma.stockReportItem.count({
+      where: {
+        stockReportId,
+        secondCountStatus: { in: ['PENDING', 'MISMATCH'] }
+      }
+    });
+
+    if (pendingSecondCounts > 0) {
+      return `${pendingSecondCounts} item(s) need a second or tie-break count before finalizing`;
+    }
+
+    const isComplete = await this.checkReportCompletion(stockReportId);
+    if (!isComplete) {
+      return 'All stock items must be completed before finalizing';
+    }
+
+    return null;
+  }
+
   /**
    * Get stock report with all items
    */
   async getStockReport(reportId) {
-    return prisma.stockReport.findUnique({
+    const stockReport = await prisma.stockReport.findUnique({
       where: { reportId },
       include: {
+        report: {
+          select: {
+            user: { select: { id: true, username: true, name: true } }
+          }
+        },
+        participants: {
+          include: {
+            user: { select: { id: true, username: true, name: true } }
+          },
+          orderBy: { joinedAt: 'asc' }
+        },
         items: {
-          orderBy: { productName: 'asc' }
+          include: {
+            ...stockItemPeople,
+            counts: {
+              include: {
+                user: {
+                  select: { id: true, username: true, name: true }
+                }
+              },
+              orderBy: { createdAt: 'asc' }
+            },
+            openingOverrides: {
+              include: {
+                user: {
+                  select: { id: true, username: true, name: true }
+                }
+              },
+              orderBy: { createdAt: 'desc' }
+            }
+          },
+          orderBy: [
+            { productName: 'asc' },
+            { variantName: 'asc' }
+          ]
         }
       }
     });
+
+    if (stockReport) {
+      stockReport.items = await this.sortByWalkingOrder(stockReport.items);
+    }
+    return stockReport;
+  }
+
+  /**
+   * Attach each item's storage zone, entry units, containers and scan
+   * codes, and order the items the way staff walk through the outlet: by
+   * zone order, then product order within the zone. Items without a zone
+   * (including custom items) come last, alphabetically.
+   */
+  async sortByWalkingOrder(items) {
+    const products = await prisma.product.findMany({
+      where: { olseraProductId: { in: [...new Set(items.map(item => item.productId))] } },
+      include: {
+        zone: true,
+        units: { orderBy: { factor: 'asc' } },
+        containers: { where: { active: true }, orderBy: { name: 'asc' } }
+      }
+    });
+    const sharedContainers = await prisma.container.findMany({
+      where: { active: true, productId: null },
+      orderBy: { name: 'asc' }
+    });
+    const catalog = new Map(products.map(product => [
+      productService.itemKey(product.olseraProductId, product.olseraVariantId || null),
+      product
+    ]));
+
+    const withZones = items.map((item, index) => {
+      const product = catalog.get(productService.itemKey(item.productId, item.variantId));
+      const zone = product?.zone?.active ? product.zone : null;
+      return {
+        item: {
+          ...item,
+          zone: zone && { id: zone.id, name: zone.name, displayOrder: zone.displayOrder },
+          entryUnits: productService.getEntryUnits(product, item.unit),
+          scanCodes: productService.getScanCodes(product),
+          containers: this.withItemTare([...(product?.containers || []), ...sharedContainers], product, item.unit)
+            .map(({ id, name, tareWeight }) => ({ id, name, tareWeight }))
+        },
+        zoneOrder: zone ? zone.displayOrder : Number.MAX_SAFE_INTEGER,
+        productOrder: zone ? product.displayOrder : 0,
+        index
+      };
+    });
+
+    return withZones
+      .sort((a, b) =>
+        a.zoneOrder - b.zoneOrder
+        || (a.item.zone?.name || '').localeCompare(b.item.zone?.name || '')
+        || a.productOrder - b.productOrder
+        || a.index - b.index
+      )
+      .map(({ item }) => item);
+  }
+
+  /**
+   * Money value of an item's difference; null when it has no cost or count
+   */
+  calculateItemValue(item) {
+    if (item.difference === null || item.difference === undefined
+      || item.unitCost === null || item.unitCost === undefined) {
+      return null;
+    }
+    return item.difference * item.unitCost;
+  }
+
+  /**
+   * Total value of losses (negative) and gains (positive) across items
+   */
+  calculateValuation(items) {
+    const valuation = { lossValue: 0, gainValue: 0, netValue: 0, unvaluedItems: 0, wasteValue: 0 };
+
+    for (const item of items) {
+      // Explained waste is valued apart from the unexplained variance
+      if (item.wasteQty && item.unitCost !== null && item.unitCost !== undefined) {
+        valuation.wasteValue -= item.wasteQty * item.unitCost;
+      }
+
+      const value = this.calculateItemValue(item);
+      if (value === null) {
+        if (item.difference) {
+          valuation.unvaluedItems++;
+        }
+        continue;
+      }
+
+      if (value < 0) {
+        valuation.lossValue += value;
+      } else {
+        valuation.gainValue += value;
+      }
+      valuation.netValue += value;
+    }
+
+    return valuation;
+  }
+
+  /**
+   * Rank products by loss value over a date range. Losses are negative
+   * differences of counted items; items without a cost rank by quantity.
+   */
+  async getTopLossProducts({ from, to, outletId = null, limit = 10 }) {
+    const where = {
+      difference: { lt: 0 },
+      stockReport: {
+        stockDate: { gte: from, lte: to },
+        ...revealedStockReports
+      }
+    };
+    if (outletId) {
+      where.stockReport.report = { outletId };
+    }
+
+    const items = await prisma.stockReportItem.findMany({
+      where,
+      select: {
+        productId: true,
+        variantId: true,
+        productName: true,
+        variantName: true,
+        unit: true,
+        difference: true,
+        unitCost: true
+      }
+    });
+
+    const products = new Map();
+    for (const item of items) {
+      const key = productService.itemKey(item.productId, item.variantId);
+      const entry = products.get(key) || {
+        productId: item.productId,
+        variantId: item.variantId,
+        productName: item.productName,
+        variantName: item.variantName,
+        unit: item.unit,
+        lossQty: 0,
+        lossValue: 0,
+        occurrences: 0,
+        unvaluedOccurrences: 0
+      };
+
+      const value = this.calculateItemValue(item);
+      entry.lossQty += item.difference;
+      entry.occurrences++;
+      if (value === null) {
+        entry.unvaluedOccurrences++;
+      } else {
+        entry.lossValue += value;
+      }
+      products.set(key, entry);
+    }
+
+    return [...products.values()]
+      .sort((a, b) => (a.lossValue - b.lossValue) || (a.lossQty - b.lossQty))
+      .slice(0, limit);
+  }
+
+  /**
+   * Period bucket of a stock date: YYYY-MM-DD for days, the Monday of the
+   * week for weeks, YYYY-MM for months
+   */
+  getPeriodKey(date, granularity) {
+    const d = new Date(date);
+    d.setHours(0, 0, 0, 0);
+
+    if (granularity === 'week') {
+      const offset = (d.getDay() + 6) % 7;
+      d.setDate(d.getDate() - offset);
+    }
+
+    const year = d.getFullYear();
+    const month = String(d.getMonth() + 1).padStart(2, '0');
+    const day = String(d.getDate()).padStart(2, '0');
+
+    return granularity === 'month' ? `${year}-${month}` : `${year}-${month}-${day}`;
+  }
+
+  /**
+   * Variance per product per period with a rolling average. A product has a
+   * persistent bias when at least `minPeriods` periods were counted and the
+   * share of periods with the same sign reaches `biasRatio`.
+   */
+  async getVarianceTrends({
+    from,
+    to,
+    outletId = null,
+    granularity = 'day',
+    window = 7,
+    minPeriods = 3,
+    biasRatio = 0.8
+  }) {
+    const where = {
+      actualClosing: { not: null },
+      difference: { not: null },
+      stockReport: {
+        stockDate: { gte: from, lte: to },
+        ...revealedStockReports
+      }
+    };
+    if (outletId) {
+      where.stockReport.report = { outletId };
+    }
+
+    const items = await prisma.stockReportItem.findMany({
+      where,
+      select: {
+        productId: true,
+        variantId: true,
+        productName: true,
+        variantName: true,
+        unit: true,
+        difference: true,
+        unitCost: true,
+        stockReport: {
+          select: { stockDate: true }
+        }
+      }
+    });
+
+    const periods = new Set();
+    const products = new Map();
+    const totals = new Map();
+
+    for (const item of items) {
+      const period = this.getPeriodKey(item.stockReport.stockDate, granularity);
+      const key = productService.itemKey(item.productId, item.variantId);
+      const value = this.calculateItemValue(item) || 0;
+      periods.add(period);
+
+      const product = products.get(key) || {
+        key,
+        productId: item.productId,
+        variantId: item.variantId,
+        productName: item.productName,
+        variantName: item.variantName,
+        unit: item.unit,
+        buckets: new Map()
+      };
+      const bucket = product.buckets.get(period) || { period, difference: 0, value: 0, count: 0 };
+      bucket.difference += item.difference;
+      bucket.value += value;
+      bucket.count++;
+      product.buckets.set(period, bucket);
+      products.set(key, product);
+
+      const total = totals.get(period) || { period, difference: 0, value: 0, count: 0 };
+      total.difference += item.difference;
+      total.value += value;
+      total.count++;
+      totals.set(period, total);
+    }
+
+    const sortedPeriods = [...periods].sort();
+    const withRollingAverage = (series) => series.map((point, index) => {
+      const windowPoints = series.slice(Math.max(0, index - window + 1), index + 1);
+      const rollingAverage = windowPoints.reduce((sum, p) => sum + p.difference, 0) / windowPoints.length;
+      return { ...point, rollingAverage };
+    });
+
+    const productTrends = [...products.values()].map(({ buckets, ...product }) => {
+      const series = withRollingAverage(
+        sortedPeriods.filter(period => buckets.has(period)).map(period => buckets.get(period))
+      );
+      const totalDifference = series.reduce((sum, point) => sum + point.difference, 0);
+      const totalValue = series.reduce((sum, point) => sum + point.value, 0);
+      const negativePeriods = series.filter(point => point.difference < 0).length;
+      const positivePeriods = series.filter(point => point.difference > 0).length;
+
+      let bias = null;
+      if (series.length >= minPeriods) {
+        if (negativePeriods / series.length >= biasRatio) {
+          bias = 'SHORTAGE';
+        } else if (positivePeriods / series.length >= biasRatio) {
+          bias = 'SURPLUS';
+        }
+      }
+
+      return {
+        ...product,
+        series,
+        totalDifference,
+        totalValue,
+        averageDifference: totalDifference / series.length,
+        bias
+      };
+    });
+
+    return {
+      granularity,
+      periods: sortedPeriods,
+      overall: withRollingAverage(sortedPeriods.map(period => totals.get(period))),
+      products: productTrends.sort((a, b) => a.totalValue - b.totalValue || a.totalDifference - b.totalDifference)
+    };
+  }
+
+  /**
+   * Counted items of one product over a date range, for drilling into
+   * individual stock reports and their scale photos
+   */
+  async getProductVarianceHistory({ productId, variantId = null, from, to, outletId = null }) {
+    const where = {
+      productId,
+      variantId: variantId || null,
+      actualClosing: { not: null },
+      stockReport: {
+        stockDate: { gte: from, lte: to },
+        ...revealedStockReports
+      }
+    };
+    if (outletId) {
+      where.stockReport.report = { outletId };
+    }
+
+    return prisma.stockReportItem.findMany({
+      where,
+      include: {
+        counts: {
+          select: { id: true, actualClosing: true, difference: true, photoId: true, isRecount: true, createdAt: true },
+          orderBy: { createdAt: 'asc' }
+        },
+        stockReport: {
+          select: {
+            stockDate: true,
+            reportId: true,
+            report: {
+              select: {
+                id: true,
+                title: true,
+                user: { select: { id: true, name: true } },
+                outlet: { select: { id: true, code: true, name: true } }
+              }
+            }
+          }
+        }
+      },
+      orderBy: { stockReport: { stockDate: 'desc' } }
+    });
+  }
+
+  /**
+   * What a finalized blind count kept hidden, per item: the independent
+   * counts and how they were reconciled next to the expected stock and
+   * whether the variance is within the product tolerance
+   */
+  async getBlindCountReveal(reportId) {
+    const stockReport = await this.getStockReport(reportId);
+
+    if (!stockReport) {
+      return null;
+    }
+
+    const items = [];
+    for (const item of stockReport.items) {
+      const expectedClosing = this.calculateExpectedClosing(item);
+      const counted = item.difference !== null && item.difference !== undefined;
+      const product = counted ? await this.getCatalogProduct(item) : null;
+
+      items.push({
+        id: item.id,
+        productName: item.productName,
+        variantName: item.variantName,
+        unit: item.unit,
+        expectedClosing,
+        actualClosing: item.actualClosing,
+        difference: item.difference,
+        value: this.calculateItemValue(item),
+        outsideTolerance: counted && !this.isWithinTolerance(product, item.difference, expectedClosing),
+        secondCountStatus: item.secondCountStatus,
+        counts: item.counts.map(count => ({
+          id: count.id,
+          actualClosing: count.actualClosing,
+          user: count.user,
+          createdAt: count.createdAt
+        }))
+      });
+    }
+
+    return {
+      stockDate: stockReport.stockDate,
+      completedAt: stockReport.completedAt,
+      secondCount: stockReport.secondCount,
+      totals: {
+        items: items.length,
+        outsideTolerance: items.filter(item => item.outsideTolerance).length,
+        matched: items.filter(item => item.secondCountStatus === 'MATCHED').length,
+        resolved: items.filter(item => item.secondCountStatus === 'RESOLVED').length
+      },
+      valuation: this.calculateValuation(stockReport.items),
+      items
+    };
   }
 
   /**
@@ -239,9 +1505,14 @@ class StockService {
     const stats = {
       totalItems: stockReport.items.length,
       completedItems: stockReport.items.filter(item => item.completed).length,
+      recountRequired: stockReport.items.filter(item => item.recountStatus === 'REQUIRED').length,
+      secondCountPending: stockReport.items.filter(item => item.secondCountStatus === 'PENDING').length,
+      countMismatches: stockReport.items.filter(item => item.secondCountStatus === 'MISMATCH').length,
       totalDifference: stockReport.items.reduce((sum, item) => sum + (item.difference || 0), 0),
+      totalWaste: stockReport.items.reduce((sum, item) => sum + (item.wasteQty || 0), 0),
       negativeDifferences: stockReport.items.filter(item => item.difference && item.difference < 0),
-      positiveDifferences: stockReport.items.filter(item => item.difference && item.difference > 0)
+      positiveDifferences: stockReport.items.filter(item => item.difference && item.difference > 0),
+      valuation: this.calculateValuation(stockReport.items)
     };
 
     stats.completionPercentage = Math.round((stats.completedItems / stats.totalItems) * 100);
@@ -265,14 +1536,27 @@ class StockService {
       completedAt: stockReport.completedAt,
       items: stockReport.items.map(item => ({
         product: item.productName,
+        variant: item.variantName,
         sku: item.productSku,
         opening: item.openingStock,
+        openingSource: item.openingSource,
+        incoming: item.incomingQty,
+        returns: item.returnQty,
         expectedOut: item.expectedOut,
+        sales: item.salesQty,
+        outgoing: this.calculateOutgoingQty(item),
+        waste: item.wasteQty,
+        expectedClosing: this.calculateExpectedClosing(item),
         actualClosing: item.actualClosing,
         difference: item.difference,
         unit: item.unit,
+        unitCost: item.unitCost,
+        value: this.calculateItemValue(item),
+        consumption: this.calculateConsumptionBreakdown(item),
+        secondCountStatus: item.secondCountStatus,
         status: item.completed ? 'Completed' : 'Pending'
-      }))
+      })),
+      valuation: this.calculateValuation(stockReport.items)
     };
 
     return summary;
@@ -0,0 +1,88 @@
+const { PrismaClient } = require('@prisma/client');
+const prisma = new PrismaClient();
+const stockService = require('./stockService');
+
+const WASTE_REASON_CODES = ['EXPIRED', 'SPOILED', 'SPILLED', 'DAMAGED', 'PREP_ERROR', 'OTHER'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class WasteService {
+  get reasonCodes() {
+    return WASTE_REASON_CODES;
+  }
+
+  /**
+   * Waste logged for an outlet on a stock date, newest first
+   */
+  async listEntries({ outletId = null, wasteDate }) {
+    const day = new Date(wasteDate);
+
+    return prisma.stockWasteEntry.findMany({
+      where: {
+        outletId,
+        wasteDate: { gte: day, lt: new Date(day.getTime() + DAY_MS) }
+      },
+      include: {
+        user: {
+          select: { id: true, username: true, name: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' }
+    });
+  }
+
+  /**
+   * Whether a stock count of the outlet and day was already finalized; its
+   * figures are final, so the day's waste can no longer change
+   */
+  async isDayFinalized({ outletId = null, wasteDate }) {
+    const day = new Date(wasteDate);
+    const finalized = await prisma.stockReport.count({
+      where: {
+        stockDate: { gte: day, lt: new Date(day.getTime() + DAY_MS) },
+        report: { outletId, status: { not: 'DRAFT' } }
+      }
+    });
+    return finalized > 0;
+  }
+
+  /**
+   * Log waste against a catalog product. Stock reports of that outlet and
+   * day pick it up right away as explained shrinkage.
+   */
+  async createEntry({ outletId = null, userId, wasteDate, product, quantity, reasonCode, notes = null, photoFilename = null }) {
+    const entry = await prisma.stockWasteEntry.create({
+      data: {
+        outletId,
+        userId,
+        wasteDate: new Date(wasteDate),
+        productId: product.olseraProductId,
+        variantId: product.olseraVariantId || null,
+        productName: product.name,
+        variantName: product.variantName,
+        unit: product.unit,
+        quantity,
+        reasonCode,
+        notes,
+        photoFilename
+      },
+      include: {
+        user: {
+          select: { id: true, username: true, name: true }
+        }
+      }
+    });
+
+    await stockService.refreshItemWaste(entry);
+    return entry;
+  }
+
+  async deleteEntry(entry) {
+    await prisma.stockWasteEntry.delete({
+      where: { id: entry.id }
+    });
+    await stockService.refreshItemWaste(entry);
+  }
+}
+
+module.exports = new WasteService();
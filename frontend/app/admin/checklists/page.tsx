@@ -8,6 +8,7 @@ import { Plus, Search, Edit, Trash2, ArrowLeft, CheckSquare, X, SlidersHorizonta
 import Link from 'next/link';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import { adminAPI } from '@/lib/api';
+import { useReportTypes, getReportTypeColor } from '@/lib/reportTypes';
 import {
   DndContext,
   closestCenter,
@@ -30,7 +31,7 @@ import { CSS } from '@dnd-kit/utilities';
 
 interface ChecklistTemplate {
   id: string;
-  type: 'OPENING' | 'CLOSING';
+  type: string;
   title: string;
   order: number;
   required: boolean;
@@ -125,6 +126,9 @@ export default function ChecklistsPage() {
   const { showToast } = useToast();
   const router = useRouter();
   const [checklists, setChecklists] = useState<ChecklistTemplate[]>([]);
+  const { reportTypes } = useReportTypes();
+  // Report types that carry a checklist, e.g. opening and closing
+  const checklistTypes = reportTypes.filter(reportType => reportType.checklist);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState('');
   const [typeFilter, setTypeFilter] = useState('');
@@ -138,13 +142,13 @@ export default function ChecklistsPage() {
   const [deletingChecklistId, setDeletingChecklistId] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
   const [newChecklist, setNewChecklist] = useState({
-    type: 'OPENING' as 'OPENING' | 'CLOSING',
+    type: '',
     title: '',
     order: 0,
     required: false
   });
   const [editChecklist, setEditChecklist] = useState({
-    type: 'OPENING' as 'OPENING' | 'CLOSING',
+    type: '',
     title: '',
     order: 0,
     required: false
@@ -223,11 +227,12 @@ export default function ChecklistsPage() {
   // Add checklist functions
   const openAddChecklistPopup = () => {
     // Always set order to last position (will be calculated when type changes)
-    const openingCount = checklists.filter(c => c.type === 'OPENING').length;
+    const type = checklistTypes[0]?.code || '';
+    const typeCount = checklists.filter(c => c.type === type).length;
     setNewChecklist({
-      type: 'OPENING',
+      type,
       title: '',
-      order: openingCount + 1,
+      order: typeCount + 1,
       required: false
     });
     setFormErrors({});
@@ -363,7 +368,7 @@ export default function ChecklistsPage() {
   };
 
   // Handle drag end event
-  const handleDragEnd = async (event: DragEndEvent, type: 'OPENING' | 'CLOSING') => {
+  const handleDragEnd = async (event: DragEndEvent, type: string) => {
     const { active, over } = event;
 
     if (!over || active.id === over.id) {
@@ -522,7 +527,9 @@ export default function ChecklistsPage() {
         </div>
 
         {/* Grouped Checklists */}
-        {['OPENING', 'CLOSING'].map(type => {
+        {checklistTypes.map(reportType => {
+          const type = reportType.code;
+          const color = getReportTypeColor(reportType);
           const typeChecklists = checklists
             .filter(c => c.type === type)
             .sort((a, b) => a.order - b.order);
@@ -532,11 +539,11 @@ export default function ChecklistsPage() {
           return (
             <div key={type} className="mb-8">
               <div className="flex items-center mb-4">
-                <span className={`badge-small ${type === 'OPENING' ? 'badge-primary' : 'badge-warning'} mr-3`}>
+                <span className={`badge-small border ${color.background} ${color.text} mr-3`}>
                   {type}
                 </span>
                 <h2 className="text-sm font-medium text-gothic-300">
-                  {type === 'OPENING' ? 'Opening Checklists' : 'Closing Checklists'}
+                  {reportType.name} Checklists
                 </h2>
                 <span className="ml-auto text-xs text-gothic-400">
                   {typeChecklists.length} template{typeChecklists.length !== 1 ? 's' : ''}
@@ -549,7 +556,7 @@ export default function ChecklistsPage() {
               <DndContext
                 sensors={sensors}
                 collisionDetection={closestCenter}
-                onDragEnd={(event) => handleDragEnd(event, type as 'OPENING' | 'CLOSING')}
+                onDragEnd={(event) => handleDragEnd(event, type)}
               >
                 <SortableContext
                   items={typeChecklists.map(item => item.id)}
@@ -642,8 +649,9 @@ export default function ChecklistsPage() {
                   className="input-gothic w-full text-sm"
                 >
                   <option value="">All Types</option>
-                  <option value="OPENING">Opening</option>
-                  <option value="CLOSING">Closing</option>
+                  {checklistTypes.map(reportType => (
+                    <option key={reportType.code} value={reportType.code}>{reportType.name}</option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -691,7 +699,7 @@ export default function ChecklistsPage() {
                 <select
                   value={newChecklist.type}
                   onChange={(e) => {
-                    const type = e.target.value as 'OPENING' | 'CLOSING';
+                    const type = e.target.value;
                     const typeCount = checklists.filter(c => c.type === type).length;
                     setNewChecklist({
                       ...newChecklist,
@@ -701,8 +709,9 @@ export default function ChecklistsPage() {
                   }}
                   className="input-gothic w-full"
                 >
-                  <option value="OPENING">Opening</option>
-                  <option value="CLOSING">Closing</option>
+                  {checklistTypes.map(reportType => (
+                    <option key={reportType.code} value={reportType.code}>{reportType.name}</option>
+                  ))}
                 </select>
               </div>
 
@@ -778,11 +787,12 @@ export default function ChecklistsPage() {
                 <label className="block text-sm font-medium text-gothic-300 mb-2">Type *</label>
                 <select
                   value={editChecklist.type}
-                  onChange={(e) => setEditChecklist({ ...editChecklist, type: e.target.value as 'OPENING' | 'CLOSING' })}
+                  onChange={(e) => setEditChecklist({ ...editChecklist, type: e.target.value })}
                   className="input-gothic w-full"
                 >
-                  <option value="OPENING">Opening</option>
-                  <option value="CLOSING">Closing</option>
+                  {checklistTypes.map(reportType => (
+                    <option key={reportType.code} value={reportType.code}>{reportType.name}</option>
+                  ))}
                 </select>
               </div>
 
@@ -0,0 +1,446 @@
+'use client';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { Plus, Edit, Trash2, ArrowLeft, Weight, X, Package } from 'lucide-react';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { adminAPI } from '@/lib/api';
+
+interface Product {
+  id: string;
+  name: string;
+  variantName?: string | null;
+  unit: string;
+  counted: boolean;
+}
+
+interface Container {
+  id: string;
+  name: string;
+  tareWeight: number;
+  tareUnit: string;
+  active: boolean;
+  product?: Omit<Product, 'counted'> | null;
+}
+
+const productLabel = (product: Omit<Product, 'counted'>) =>
+  product.variantName ? `${product.name} – ${product.variantName}` : product.name;
+
+const emptyForm = {
+  name: '',
+  tareWeight: '',
+  tareUnit: 'gram',
+  productId: '',
+  active: true
+};
+
+export default function ContainersPage() {
+  const { isAuthenticated, isAdmin, loading: authLoading } = useAuth();
+  const { showToast } = useToast();
+  const router = useRouter();
+  const [containers, setContainers] = useState<Container[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showPopup, setShowPopup] = useState(false);
+  const [editingContainer, setEditingContainer] = useState<Container | null>(null);
+  const [deletingContainerId, setDeletingContainerId] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    } else if (!authLoading && !isAdmin) {
+      router.push('/dashboard');
+    }
+  }, [isAuthenticated, isAdmin, authLoading, router]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchData();
+    }
+  }, [isAdmin]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [containersResponse, productsResponse] = await Promise.all([
+        adminAPI.getContainers(),
+        adminAPI.getProducts({ counted: true })
+      ]);
+      setContainers(containersResponse.data);
+      setProducts(productsResponse.data);
+    } catch (error) {
+      console.error('Failed to fetch containers:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load containers',
+        duration: 5000
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Shared containers first, then per product
+  const sortContainers = (list: Container[]) =>
+    [...list].sort((a, b) =>
+      Number(Boolean(a.product)) - Number(Boolean(b.product))
+      || (a.product ? productLabel(a.product) : '').localeCompare(b.product ? productLabel(b.product) : '')
+      || a.name.localeCompare(b.name)
+    );
+
+  const openCreatePopup = () => {
+    setEditingContainer(null);
+    setForm(emptyForm);
+    setShowPopup(true);
+  };
+
+  const openEditPopup = (container: Container) => {
+    setEditingContainer(container);
+    setForm({
+      name: container.name,
+      tareWeight: container.tareWeight.toString(),
+      tareUnit: container.tareUnit,
+      productId: container.product?.id || '',
+      active: container.active
+    });
+    setShowPopup(true);
+  };
+
+  const handleSave = async () => {
+    const tareWeight = parseFloat(form.tareWeight);
+    if (!form.name.trim() || isNaN(tareWeight) || tareWeight < 0 || !form.tareUnit.trim()) {
+      showToast({
+        type: 'error',
+        title: 'Validation Error',
+        message: 'Name, a tare weight of 0 or more and its unit are required',
+        duration: 4000
+      });
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+      const data = {
+        name: form.name.trim(),
+        tareWeight,
+        tareUnit: form.tareUnit.trim(),
+        productId: form.productId || null,
+        active: form.active
+      };
+      const response = editingContainer
+        ? await adminAPI.updateContainer(editingContainer.id, data)
+        : await adminAPI.createContainer(data);
+
+      setContainers(prev => sortContainers(editingContainer
+        ? prev.map(item => item.id === editingContainer.id ? response.data : item)
+        : [...prev, response.data]));
+      setShowPopup(false);
+
+      showToast({
+        type: 'success',
+        title: editingContainer ? 'Container Updated' : 'Container Created',
+        message: `${response.data.name} has been saved`,
+        duration: 4000
+      });
+    } catch (error: any) {
+      console.error('Failed to save container:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to save container. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingContainerId) return;
+
+    try {
+      setActionLoading(true);
+      await adminAPI.deleteContainer(deletingContainerId);
+      setContainers(prev => prev.filter(item => item.id !== deletingContainerId));
+      setDeletingContainerId(null);
+
+      showToast({
+        type: 'success',
+        title: 'Container Deleted',
+        duration: 4000
+      });
+    } catch (error: any) {
+      console.error('Failed to delete container:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to delete container. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-gothic-900 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !isAdmin) {
+    return null;
+  }
+
+  const selectedProduct = products.find(product => product.id === form.productId);
+
+  return (
+    <div className="min-h-screen bg-gothic-900">
+      {/* Header */}
+      <header className="mobile-header">
+        <div className="mobile-container">
+          <div className="flex justify-between items-center h-20">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => window.history.back()}
+                  className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors"
+                >
+                  <ArrowLeft className="w-5 h-5 text-gothic-300" />
+                </button>
+                <div className="w-10 h-10 bg-accent-gradient rounded-xl flex items-center justify-center shadow-lg">
+                  <Weight className="w-6 h-6 text-white" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h1 className="header-title truncate">
+                    Containers
+                  </h1>
+                  <p className="header-subtitle truncate">
+                    Tare weights for stock counts
+                  </p>
+                </div>
+              </div>
+            </div>
+            <button
+              onClick={openCreatePopup}
+              className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors"
+              title="New container"
+            >
+              <Plus className="w-5 h-5 text-accent-400" />
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="mobile-container py-6 pb-24 space-y-3">
+        {containers.map((container) => (
+          <div key={container.id} className={`gothic-card p-4 ${container.active ? '' : 'opacity-60'}`}>
+            <div className="flex items-center gap-3">
+              <div className="w-8 h-8 bg-gothic-700 rounded-lg flex items-center justify-center flex-shrink-0">
+                <Weight className="w-4 h-4 text-gothic-300" />
+              </div>
+              <div className="flex-1 min-w-0">
+                <h3 className="text-gothic-100 font-medium text-sm">{container.name}</h3>
+                <div className="flex items-center gap-2 mt-1 flex-wrap">
+                  <span className="text-xs text-gothic-300">
+                    Tare {container.tareWeight} {container.tareUnit}
+                  </span>
+                  <span className="text-xs text-gothic-400 flex items-center gap-1">
+                    <Package className="w-3 h-3" />
+                    {container.product ? productLabel(container.product) : 'All products'}
+                  </span>
+                  {!container.active && (
+                    <span className="text-xs text-red-400">Inactive</span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => openEditPopup(container)}
+                  className="w-7 h-7 bg-gothic-700 hover:bg-gothic-600 rounded flex items-center justify-center transition-colors"
+                >
+                  <Edit className="w-3 h-3 text-accent-400" />
+                </button>
+                <button
+                  onClick={() => setDeletingContainerId(container.id)}
+                  className="w-7 h-7 bg-gothic-700 hover:bg-gothic-600 rounded flex items-center justify-center transition-colors"
+                >
+                  <Trash2 className="w-3 h-3 text-red-400" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {containers.length === 0 ? (
+          <div className="gothic-card p-12 text-center">
+            <div className="w-12 h-12 bg-gothic-700 rounded-xl flex items-center justify-center mx-auto mb-4">
+              <Weight className="w-6 h-6 text-gothic-400" />
+            </div>
+            <h3 className="text-sm font-medium text-gothic-300 mb-2">No containers yet</h3>
+            <p className="text-xs text-gothic-400 mb-6">
+              Add the tubs, trays and buckets stock is weighed in, with their empty weight
+            </p>
+            <button onClick={openCreatePopup} className="btn-primary">
+              <Plus className="w-5 h-5 mr-2" />
+              New Container
+            </button>
+          </div>
+        ) : (
+          <p className="text-xs text-gothic-500 px-1">
+            Staff pick the containers on the scale and enter the gross weight; the tare is taken off.
+          </p>
+        )}
+      </main>
+
+      {/* Create/Edit Container Popup */}
+      {showPopup && (
+        <div className="filter-popup" onClick={() => setShowPopup(false)}>
+          <div className="filter-content max-w-md" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-8 h-8 bg-accent-500/20 rounded-lg flex items-center justify-center">
+                  {editingContainer ? <Edit className="w-4 h-4 text-accent-400" /> : <Plus className="w-4 h-4 text-accent-400" />}
+                </div>
+                <h3 className="text-lg font-semibold text-gothic-100">
+                  {editingContainer ? 'Edit Container' : 'New Container'}
+                </h3>
+              </div>
+              <button onClick={() => setShowPopup(false)} className="text-gothic-400 hover:text-gothic-200">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gothic-300 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Gastronorm 1/3"
+                  maxLength={100}
+                  className="input-gothic w-full"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Tare</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.tareWeight}
+                    onChange={(e) => setForm({ ...form, tareWeight: e.target.value })}
+                    placeholder="250"
+                    className="input-gothic w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Tare unit</label>
+                  <input
+                    type="text"
+                    value={form.tareUnit}
+                    onChange={(e) => setForm({ ...form, tareUnit: e.target.value })}
+                    placeholder="gram"
+                    maxLength={20}
+                    className="input-gothic w-full"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gothic-300 mb-2">Product</label>
+                <select
+                  value={form.productId}
+                  onChange={(e) => setForm({ ...form, productId: e.target.value })}
+                  className="input-gothic w-full"
+                >
+                  <option value="">All products</option>
+                  {products.map((product) => (
+                    <option key={product.id} value={product.id}>{productLabel(product)}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gothic-500 mt-1">
+                  Only offered for products counted in the tare unit, as their base unit
+                  {selectedProduct ? ` (${selectedProduct.unit})` : ''} or one of their entry units; the tare is converted to the base unit.
+                </p>
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="active"
+                  checked={form.active}
+                  onChange={(e) => setForm({ ...form, active: e.target.checked })}
+                  className="w-4 h-4 text-accent-500 bg-gothic-800 border-gothic-600 rounded focus:ring-accent-500"
+                />
+                <label htmlFor="active" className="ml-2 text-sm text-gothic-300">
+                  Active container
+                </label>
+              </div>
+            </div>
+
+            <div className="flex space-x-3 mt-6">
+              <button
+                onClick={() => setShowPopup(false)}
+                className="btn-secondary flex-1"
+                disabled={actionLoading}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="btn-primary flex-1"
+                disabled={actionLoading}
+              >
+                {actionLoading ? 'Saving...' : editingContainer ? 'Save Changes' : 'Create Container'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Popup */}
+      {deletingContainerId && (
+        <div className="filter-popup" onClick={() => setDeletingContainerId(null)}>
+          <div className="filter-content max-w-sm" onClick={(e) => e.stopPropagation()}>
+            <div className="text-center">
+              <div className="w-12 h-12 bg-red-500/20 rounded-xl flex items-center justify-center mx-auto mb-4">
+                <Trash2 className="w-6 h-6 text-red-400" />
+              </div>
+              <h3 className="text-lg font-semibold text-gothic-100 mb-2">Delete Container</h3>
+              <p className="text-gothic-400 text-sm mb-6">
+                Past counts keep the tare that was taken off.
+              </p>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setDeletingContainerId(null)}
+                  className="btn-secondary flex-1"
+                  disabled={actionLoading}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="btn-error flex-1"
+                  disabled={actionLoading}
+                >
+                  {actionLoading ? 'Deleting...' : 'Delete'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
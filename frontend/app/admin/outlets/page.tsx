@@ -0,0 +1,582 @@
+'use client';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { Plus, Edit, Trash2, ArrowLeft, Store, X, KeyRound, Users, FileText, EyeOff } from 'lucide-react';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { adminAPI } from '@/lib/api';
+
+interface Outlet {
+  id: string;
+  code: string;
+  name: string;
+  address?: string | null;
+  olseraStoreId?: string | null;
+  blindCount: boolean;
+  blindSecondCount: boolean;
+  active: boolean;
+  apiCredentials: Array<{
+    id: string;
+    appId: string;
+    active: boolean;
+    tokenExpiry?: string | null;
+  }>;
+  _count: {
+    users: number;
+    reports: number;
+  };
+}
+
+const emptyForm = {
+  code: '',
+  name: '',
+  address: '',
+  olseraStoreId: '',
+  appId: '',
+  secretKey: '',
+  removeCredentials: false,
+  blindCount: false,
+  blindSecondCount: false,
+  active: true
+};
+
+export default function OutletsPage() {
+  const { isAuthenticated, isAdmin, loading: authLoading } = useAuth();
+  const { showToast } = useToast();
+  const router = useRouter();
+  const [outlets, setOutlets] = useState<Outlet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showFormPopup, setShowFormPopup] = useState(false);
+  const [editingOutlet, setEditingOutlet] = useState<Outlet | null>(null);
+  const [deletingOutletId, setDeletingOutletId] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [form, setForm] = useState({ ...emptyForm });
+  const [formErrors, setFormErrors] = useState<{[key: string]: string}>({});
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    } else if (!authLoading && !isAdmin) {
+      router.push('/dashboard');
+    }
+  }, [isAuthenticated, isAdmin, authLoading, router]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchOutlets();
+    }
+  }, [isAdmin]);
+
+  const fetchOutlets = async () => {
+    try {
+      setLoading(true);
+      const response = await adminAPI.getOutlets();
+      setOutlets(response.data);
+    } catch (error) {
+      console.error('Failed to fetch outlets:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load outlets',
+        duration: 5000
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openAddPopup = () => {
+    setEditingOutlet(null);
+    setForm({ ...emptyForm });
+    setFormErrors({});
+    setShowFormPopup(true);
+  };
+
+  const openEditPopup = (outlet: Outlet) => {
+    setEditingOutlet(outlet);
+    setForm({
+      ...emptyForm,
+      code: outlet.code,
+      name: outlet.name,
+      address: outlet.address || '',
+      olseraStoreId: outlet.olseraStoreId || '',
+      appId: outlet.apiCredentials[0]?.appId || '',
+      blindCount: outlet.blindCount,
+      blindSecondCount: outlet.blindSecondCount,
+      active: outlet.active
+    });
+    setFormErrors({});
+    setShowFormPopup(true);
+  };
+
+  const closeFormPopup = () => {
+    setShowFormPopup(false);
+    setEditingOutlet(null);
+    setFormErrors({});
+  };
+
+  const validateForm = () => {
+    const errors: {[key: string]: string} = {};
+
+    if (!editingOutlet && !form.code.trim()) {
+      errors.code = 'Code is required';
+    }
+    if (!form.name.trim()) {
+      errors.name = 'Name is required';
+    }
+    if (form.secretKey && !form.appId.trim()) {
+      errors.appId = 'App ID is required when setting a secret key';
+    }
+    if (!editingOutlet && form.appId && !form.secretKey) {
+      errors.secretKey = 'Secret key is required';
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  // Credentials are only sent when changed; a blank secret keeps the stored one
+  const buildCredentialsPayload = () => {
+    if (form.removeCredentials) {
+      return null;
+    }
+    if (form.appId && form.secretKey) {
+      return { appId: form.appId.trim(), secretKey: form.secretKey };
+    }
+    return undefined;
+  };
+
+  const handleSave = async () => {
+    if (!validateForm()) return;
+
+    const payload: any = {
+      name: form.name.trim(),
+      address: form.address,
+      olseraStoreId: form.olseraStoreId.trim() || null,
+      blindCount: form.blindCount,
+      blindSecondCount: form.blindCount && form.blindSecondCount,
+      active: form.active
+    };
+    const olseraCredentials = buildCredentialsPayload();
+    if (olseraCredentials !== undefined) {
+      payload.olseraCredentials = olseraCredentials;
+    }
+
+    try {
+      setActionLoading(true);
+      if (editingOutlet) {
+        const response = await adminAPI.updateOutlet(editingOutlet.id, payload);
+        setOutlets(prev => prev.map(item => item.id === editingOutlet.id ? response.data : item));
+      } else {
+        const response = await adminAPI.createOutlet({ ...payload, code: form.code.trim().toUpperCase() });
+        setOutlets(prev => [...prev, response.data]);
+      }
+      closeFormPopup();
+
+      showToast({
+        type: 'success',
+        title: editingOutlet ? 'Outlet Updated' : 'Outlet Created',
+        message: `${form.name} has been saved successfully`,
+        duration: 4000
+      });
+    } catch (error: any) {
+      console.error('Failed to save outlet:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to save outlet. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingOutletId) return;
+
+    try {
+      setActionLoading(true);
+      await adminAPI.deleteOutlet(deletingOutletId);
+      setOutlets(prev => prev.filter(item => item.id !== deletingOutletId));
+      setDeletingOutletId(null);
+
+      showToast({
+        type: 'success',
+        title: 'Outlet Deleted',
+        duration: 4000
+      });
+    } catch (error: any) {
+      console.error('Failed to delete outlet:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to delete outlet. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-gothic-900 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gothic-900">
+      {/* Header */}
+      <header className="mobile-header">
+        <div className="mobile-container">
+          <div className="flex justify-between items-center h-20">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => window.history.back()}
+                  className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors"
+                >
+                  <ArrowLeft className="w-5 h-5 text-gothic-300" />
+                </button>
+                <div className="w-10 h-10 bg-accent-gradient rounded-xl flex items-center justify-center shadow-lg">
+                  <Store className="w-6 h-6 text-white" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h1 className="header-title truncate">
+                    Outlets
+                  </h1>
+                  <p className="header-subtitle truncate">
+                    Outlets and their Olsera stores
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="mobile-container py-6 pb-24">
+        <div className="space-y-3">
+          {outlets.map((outlet) => (
+            <div key={outlet.id} className="gothic-card p-4">
+              <div className="flex items-start gap-3">
+                <div className="w-10 h-10 bg-gothic-700 rounded-lg flex items-center justify-center flex-shrink-0">
+                  <Store className="w-5 h-5 text-gothic-400" />
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-start justify-between mb-2">
+                    <div className="flex-1 min-w-0">
+                      <h3 className="text-gothic-100 font-medium text-sm">{outlet.name}</h3>
+                      {outlet.address && (
+                        <p className="text-xs text-gothic-400 mt-1">{outlet.address}</p>
+                      )}
+                    </div>
+                    <code className="text-gothic-300 text-xs bg-gothic-800 px-2 py-1 rounded ml-2 flex-shrink-0">
+                      {outlet.code}
+                    </code>
+                  </div>
+
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className={`badge-small ${outlet.active ? 'badge-success' : 'badge-secondary'}`}>
+                        {outlet.active ? 'Active' : 'Inactive'}
+                      </span>
+                      <span className="text-xs text-gothic-400">
+                        Store: {outlet.olseraStoreId || 'any'}
+                      </span>
+                      {outlet.blindCount && (
+                        <span className="text-xs text-gothic-400 flex items-center gap-1">
+                          <EyeOff className="w-3 h-3" />
+                          {outlet.blindSecondCount ? 'Blind, double count' : 'Blind count'}
+                        </span>
+                      )}
+                      <span className="text-xs text-gothic-400 flex items-center gap-1">
+                        <KeyRound className="w-3 h-3" />
+                        {outlet.apiCredentials.length > 0 ? 'Own credentials' : 'Default credentials'}
+                      </span>
+                      <span className="text-xs text-gothic-400 flex items-center gap-1">
+                        <Users className="w-3 h-3" />
+                        {outlet._count.users}
+                      </span>
+                      <span className="text-xs text-gothic-400 flex items-center gap-1">
+                        <FileText className="w-3 h-3" />
+                        {outlet._count.reports}
+                      </span>
+                    </div>
+
+                    <div className="flex items-center gap-1">
+                      <button
+                        onClick={() => openEditPopup(outlet)}
+                        className="w-7 h-7 bg-gothic-700 hover:bg-gothic-600 rounded flex items-center justify-center transition-colors"
+                      >
+                        <Edit className="w-3 h-3 text-accent-400" />
+                      </button>
+                      <button
+                        onClick={() => setDeletingOutletId(outlet.id)}
+                        className="w-7 h-7 bg-gothic-700 hover:bg-red-900/20 rounded flex items-center justify-center transition-colors"
+                      >
+                        <Trash2 className="w-3 h-3 text-red-400" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {outlets.length === 0 && (
+          <div className="gothic-card p-12 text-center">
+            <div className="w-12 h-12 bg-gothic-700 rounded-xl flex items-center justify-center mx-auto mb-4">
+              <Store className="w-6 h-6 text-gothic-400" />
+            </div>
+            <h3 className="text-sm font-medium text-gothic-300 mb-2">No outlets yet</h3>
+            <p className="text-xs text-gothic-400 mb-6">
+              Reports are not tied to an outlet until you create one
+            </p>
+            <button onClick={openAddPopup} className="btn-primary">
+              <Plus className="w-5 h-5 mr-2" />
+              Create First Outlet
+            </button>
+          </div>
+        )}
+      </main>
+
+      {/* Floating Action Button */}
+      <button
+        onClick={openAddPopup}
+        className="fixed bottom-24 right-4 bg-accent-500 hover:bg-accent-600 text-white rounded-full shadow-lg flex items-center justify-center transition-all duration-200 active:scale-95 z-[60] px-4 py-3"
+      >
+        <Plus className="w-4 h-4 mr-2" />
+        <span className="text-sm font-medium">Add</span>
+      </button>
+
+      {/* Add/Edit Outlet Popup */}
+      {showFormPopup && (
+        <div className="filter-popup" onClick={closeFormPopup}>
+          <div className="filter-content max-w-md" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-8 h-8 bg-accent-500/20 rounded-lg flex items-center justify-center">
+                  {editingOutlet ? <Edit className="w-4 h-4 text-accent-400" /> : <Plus className="w-4 h-4 text-accent-400" />}
+                </div>
+                <h3 className="text-lg font-semibold text-gothic-100">
+                  {editingOutlet ? 'Edit Outlet' : 'Add Outlet'}
+                </h3>
+              </div>
+              <button onClick={closeFormPopup} className="text-gothic-400 hover:text-gothic-200">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Code *</label>
+                  <input
+                    type="text"
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                    disabled={!!editingOutlet}
+                    placeholder="e.g., SEPIO"
+                    className={`input-gothic w-full ${editingOutlet ? 'opacity-50 cursor-not-allowed' : ''} ${formErrors.code ? 'border-red-500' : ''}`}
+                  />
+                  {formErrors.code && (
+                    <p className="text-red-400 text-xs mt-1">{formErrors.code}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Olsera Store ID</label>
+                  <input
+                    type="text"
+                    value={form.olseraStoreId}
+                    onChange={(e) => setForm({ ...form, olseraStoreId: e.target.value })}
+                    placeholder="e.g., 284378"
+                    className="input-gothic w-full"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gothic-300 mb-2">Name *</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Outlet name"
+                  className={`input-gothic w-full ${formErrors.name ? 'border-red-500' : ''}`}
+                />
+                {formErrors.name && (
+                  <p className="text-red-400 text-xs mt-1">{formErrors.name}</p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gothic-300 mb-2">Address</label>
+                <textarea
+                  value={form.address}
+                  onChange={(e) => setForm({ ...form, address: e.target.value })}
+                  placeholder="Optional address"
+                  className="input-gothic w-full"
+                  rows={2}
+                />
+              </div>
+
+              <div className="bg-gothic-800 rounded-lg p-3 space-y-3">
+                <p className="text-xs text-gothic-400">
+                  Olsera credentials for this store. Leave empty to use the default credentials.
+                </p>
+                <div>
+                  <label className="block text-xs font-medium text-gothic-300 mb-1">App ID</label>
+                  <input
+                    type="text"
+                    value={form.appId}
+                    onChange={(e) => setForm({ ...form, appId: e.target.value })}
+                    disabled={form.removeCredentials}
+                    className={`input-gothic w-full text-sm ${formErrors.appId ? 'border-red-500' : ''}`}
+                  />
+                  {formErrors.appId && (
+                    <p className="text-red-400 text-xs mt-1">{formErrors.appId}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gothic-300 mb-1">Secret Key</label>
+                  <input
+                    type="password"
+                    value={form.secretKey}
+                    onChange={(e) => setForm({ ...form, secretKey: e.target.value })}
+                    disabled={form.removeCredentials}
+                    placeholder={editingOutlet?.apiCredentials.length ? 'Leave blank to keep current key' : ''}
+                    className={`input-gothic w-full text-sm ${formErrors.secretKey ? 'border-red-500' : ''}`}
+                  />
+                  {formErrors.secretKey && (
+                    <p className="text-red-400 text-xs mt-1">{formErrors.secretKey}</p>
+                  )}
+                </div>
+                {editingOutlet && editingOutlet.apiCredentials.length > 0 && (
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="removeCredentials"
+                      checked={form.removeCredentials}
+                      onChange={(e) => setForm({ ...form, removeCredentials: e.target.checked })}
+                      className="w-4 h-4 text-accent-500 bg-gothic-800 border-gothic-600 rounded focus:ring-accent-500"
+                    />
+                    <label htmlFor="removeCredentials" className="ml-2 text-xs text-gothic-300">
+                      Remove outlet credentials
+                    </label>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2 pt-2 border-t border-gothic-700">
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="blindCount"
+                    checked={form.blindCount}
+                    onChange={(e) => setForm({ ...form, blindCount: e.target.checked })}
+                    className="w-4 h-4 text-accent-500 bg-gothic-800 border-gothic-600 rounded focus:ring-accent-500"
+                  />
+                  <label htmlFor="blindCount" className="ml-2 text-sm text-gothic-300">
+                    Blind stock counts
+                  </label>
+                </div>
+                <p className="text-xs text-gothic-500">
+                  Nobody sees the expected stock, variances or waste until a count is finalized.
+                </p>
+                {form.blindCount && (
+                  <div className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id="blindSecondCount"
+                      checked={form.blindSecondCount}
+                      onChange={(e) => setForm({ ...form, blindSecondCount: e.target.checked })}
+                      className="w-4 h-4 text-accent-500 bg-gothic-800 border-gothic-600 rounded focus:ring-accent-500"
+                    />
+                    <label htmlFor="blindSecondCount" className="ml-2 text-xs text-gothic-300">
+                      Require a second, independent count of every item
+                    </label>
+                  </div>
+                )}
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="active"
+                  checked={form.active}
+                  onChange={(e) => setForm({ ...form, active: e.target.checked })}
+                  className="w-4 h-4 text-accent-500 bg-gothic-800 border-gothic-600 rounded focus:ring-accent-500"
+                />
+                <label htmlFor="active" className="ml-2 text-sm text-gothic-300">
+                  Active outlet
+                </label>
+              </div>
+            </div>
+
+            <div className="flex space-x-3 mt-6">
+              <button
+                onClick={closeFormPopup}
+                className="btn-secondary flex-1"
+                disabled={actionLoading}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="btn-primary flex-1"
+                disabled={actionLoading}
+              >
+                {actionLoading ? 'Saving...' : editingOutlet ? 'Save Changes' : 'Create Outlet'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Popup */}
+      {deletingOutletId && (
+        <div className="filter-popup" onClick={() => setDeletingOutletId(null)}>
+          <div className="filter-content max-w-sm" onClick={(e) => e.stopPropagation()}>
+            <div className="text-center">
+              <div className="w-12 h-12 bg-red-500/20 rounded-xl flex items-center justify-center mx-auto mb-4">
+                <Trash2 className="w-6 h-6 text-red-400" />
+              </div>
+              <h3 className="text-lg font-semibold text-gothic-100 mb-2">Delete Outlet</h3>
+              <p className="text-gothic-400 text-sm mb-6">
+                Outlets that already have reports cannot be deleted; deactivate them instead.
+              </p>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setDeletingOutletId(null)}
+                  className="btn-secondary flex-1"
+                  disabled={actionLoading}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="btn-error flex-1"
+                  disabled={actionLoading}
+                >
+                  {actionLoading ? 'Deleting...' : 'Delete'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
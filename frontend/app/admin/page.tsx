@@ -3,12 +3,29 @@
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
-import { Users, Settings, BarChart3, FileText, Image, CheckSquare } from 'lucide-react';
+import { Users, Settings, BarChart3, FileText, Image, CheckSquare, Store, Package, TrendingDown, LineChart, Download, ChefHat, MapPin, Weight, Shapes } from 'lucide-react';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import OutletSelector from '@/components/ui/OutletSelector';
 import { adminAPI } from '@/lib/api';
+import { useOutlet } from '@/contexts/OutletContext';
+import { formatCurrency } from '@/lib/stockApi';
+import { useReportTypes } from '@/lib/reportTypes';
+
+interface TopLossProduct {
+  productId: string;
+  variantId?: string | null;
+  productName: string;
+  variantName?: string | null;
+  unit: string;
+  lossQty: number;
+  lossValue: number;
+  occurrences: number;
+  unvaluedOccurrences: number;
+}
 
 export default function AdminPage() {
   const { isAuthenticated, isAdmin, loading: authLoading } = useAuth();
+  const { selectedOutletId } = useOutlet();
   const router = useRouter();
   const [stats, setStats] = useState<{
     totalUsers: number;
@@ -21,7 +38,9 @@ export default function AdminPage() {
     reportsByType: {},
     reportsByStatus: {},
   });
+  const [topLosses, setTopLosses] = useState<TopLossProduct[]>([]);
   const [loading, setLoading] = useState(true);
+  const { getLabel } = useReportTypes();
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -35,12 +54,19 @@ export default function AdminPage() {
     if (isAdmin) {
       fetchStats();
     }
-  }, [isAdmin]);
+  }, [isAdmin, selectedOutletId]);
 
   const fetchStats = async () => {
     try {
-      const response = await adminAPI.getStats();
+      const params: any = {};
+      if (selectedOutletId) params.outletId = selectedOutletId;
+
+      const [response, lossesResponse] = await Promise.all([
+        adminAPI.getStats(params),
+        adminAPI.getTopLosses({ ...params, limit: 5 })
+      ]);
       const data = response.data;
+      setTopLosses(lossesResponse.data.products || []);
 
       setStats({
         totalUsers: data.userStats?.USER + data.userStats?.ADMIN || 0,
@@ -75,6 +101,62 @@ export default function AdminPage() {
       href: '/admin/users',
       color: 'text-accent-500',
     },
+    {
+      title: 'Outlets',
+      description: 'Manage outlets and Olsera stores',
+      icon: Store,
+      href: '/admin/outlets',
+      color: 'text-blue-400',
+    },
+    {
+      title: 'Product Catalog',
+      description: 'Choose which products are stock counted',
+      icon: Package,
+      href: '/admin/products',
+      color: 'text-purple-400',
+    },
+    {
+      title: 'Storage Zones',
+      description: 'Counting order through chiller, store and bar',
+      icon: MapPin,
+      href: '/admin/storage-zones',
+      color: 'text-green-400',
+    },
+    {
+      title: 'Containers',
+      description: 'Tare weights taken off when weighing stock',
+      icon: Weight,
+      href: '/admin/containers',
+      color: 'text-purple-400',
+    },
+    {
+      title: 'Recipes',
+      description: 'Raw materials used by each menu item',
+      icon: ChefHat,
+      href: '/admin/recipes',
+      color: 'text-yellow-400',
+    },
+    {
+      title: 'Variance Trends',
+      description: 'Stock variance over time and persistent bias',
+      icon: LineChart,
+      href: '/admin/stock-analytics',
+      color: 'text-red-400',
+    },
+    {
+      title: 'Stock Export',
+      description: 'Download stock counts as CSV or Excel',
+      icon: Download,
+      href: '/admin/stock-export',
+      color: 'text-blue-400',
+    },
+    {
+      title: 'Report Types',
+      description: 'Kinds of reports staff can create',
+      icon: Shapes,
+      href: '/admin/report-types',
+      color: 'text-accent-400',
+    },
     {
       title: 'Checklist Templates',
       description: 'Configure checklist templates',
@@ -129,6 +211,9 @@ export default function AdminPage() {
       </header>
 
       <main className="mobile-container py-6">
+        {/* Outlet Filter */}
+        <OutletSelector className="mb-6" />
+
         {/* Stats Overview */}
         <div className="grid grid-cols-2 gap-3 mb-6">
           <div className="mobile-card p-4">
@@ -172,6 +257,36 @@ export default function AdminPage() {
           </div>
         </div>
 
+        {/* Top Loss Products */}
+        {topLosses.length > 0 && (
+          <div className="mobile-card mb-6">
+            <div className="flex items-center space-x-2 mb-3">
+              <TrendingDown className="w-4 h-4 text-red-400" />
+              <h2 className="text-sm font-semibold text-gothic-200">
+                Top Losses (30 days)
+              </h2>
+            </div>
+            <div className="space-y-2">
+              {topLosses.map((product) => (
+                <div key={`${product.productId}-${product.variantId || ''}`} className="flex items-center justify-between text-xs">
+                  <div className="min-w-0 flex-1">
+                    <p className="text-gothic-200 truncate">
+                      {product.productName}
+                      {product.variantName && <span className="text-gothic-400"> – {product.variantName}</span>}
+                    </p>
+                    <p className="text-gothic-500">
+                      {product.lossQty.toFixed(0)}{product.unit} over {product.occurrences} count(s)
+                    </p>
+                  </div>
+                  <span className="text-red-400 font-medium ml-3">
+                    {product.unvaluedOccurrences === product.occurrences ? '—' : formatCurrency(product.lossValue)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Admin Sections */}
         <div className="space-y-3 mb-6">
           {adminSections.map((section) => {
@@ -208,7 +323,7 @@ export default function AdminPage() {
             {Object.entries(stats.reportsByType).map(([type, count]) => (
               <div key={type} className="text-center p-3 bg-gothic-800 rounded-lg">
                 <div className="text-lg font-bold text-gothic-100 mb-1">{count}</div>
-                <div className="text-xs text-gothic-400 capitalize">{type.toLowerCase()}</div>
+                <div className="text-xs text-gothic-400">{getLabel(type)}</div>
               </div>
             ))}
           </div>
@@ -8,6 +8,7 @@ import { Plus, Search, Edit, Trash2, ArrowLeft, Image, Camera, X, SlidersHorizon
 import Link from 'next/link';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import { adminAPI } from '@/lib/api';
+import { useReportTypes, getReportTypeColor } from '@/lib/reportTypes';
 
 interface PhotoCategory {
   id: string;
@@ -37,6 +38,7 @@ export default function PhotoCategoriesPage() {
   const [showEditCategoryPopup, setShowEditCategoryPopup] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [editingCategory, setEditingCategory] = useState<PhotoCategory | null>(null);
+  const { reportTypes, getLabel } = useReportTypes();
   const [deletingCategoryId, setDeletingCategoryId] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
   const [newCategory, setNewCategory] = useState({
@@ -136,7 +138,7 @@ export default function PhotoCategoriesPage() {
       code: '',
       name: '',
       description: '',
-      reportType: 'OPENING',
+      reportType: reportTypes.find(reportType => reportType.photos)?.code || 'OPENING',
       minRequired: 1,
       maxAllowed: 5,
       active: true
@@ -334,16 +336,6 @@ export default function PhotoCategoriesPage() {
     return null;
   }
 
-  const getReportTypeBadgeClass = (type: string) => {
-    switch(type) {
-      case 'OPENING': return 'badge-primary';
-      case 'CLOSING': return 'badge-warning';
-      case 'PROBLEM': return 'badge-error';
-      case 'STOCK': return 'badge-info';
-      default: return 'badge-secondary';
-    }
-  };
-
   return (
     <div className="min-h-screen bg-gothic-900">
       {/* Header */}
@@ -399,7 +391,9 @@ export default function PhotoCategoriesPage() {
         </div>
 
         {/* Categories List - Grouped by Type */}
-        {['OPENING', 'CLOSING', 'PROBLEM', 'STOCK'].map(type => {
+        {reportTypes.map(reportType => {
+          const type = reportType.code;
+          const color = getReportTypeColor(reportType);
           const typeCategories = categories
             .filter(c => c.reportType === type)
             .sort((a, b) => a.order - b.order);
@@ -409,11 +403,11 @@ export default function PhotoCategoriesPage() {
           return (
             <div key={type} className="mb-8">
               <div className="flex items-center mb-4">
-                <span className={`badge-small ${getReportTypeBadgeClass(type)} mr-3`}>
+                <span className={`badge-small border ${color.background} ${color.text} mr-3`}>
                   {type}
                 </span>
                 <h2 className="text-sm font-medium text-gothic-300">
-                  {type.charAt(0) + type.slice(1).toLowerCase()} Categories
+                  {reportType.name} Categories
                 </h2>
                 <span className="ml-auto text-xs text-gothic-400">
                   {typeCategories.length} categor{typeCategories.length !== 1 ? 'ies' : 'y'}
@@ -550,10 +544,9 @@ export default function PhotoCategoriesPage() {
                   className="input-gothic w-full text-sm"
                 >
                   <option value="">All Types</option>
-                  <option value="OPENING">Opening</option>
-                  <option value="CLOSING">Closing</option>
-                  <option value="PROBLEM">Problem</option>
-                  <option value="STOCK">Stock</option>
+                  {reportTypes.map(reportType => (
+                    <option key={reportType.code} value={reportType.code}>{reportType.name}</option>
+                  ))}
                 </select>
               </div>
             </div>
@@ -639,10 +632,9 @@ export default function PhotoCategoriesPage() {
                   onChange={(e) => setNewCategory({ ...newCategory, reportType: e.target.value })}
                   className="input-gothic w-full"
                 >
-                  <option value="OPENING">Opening</option>
-                  <option value="CLOSING">Closing</option>
-                  <option value="PROBLEM">Problem</option>
-                  <option value="STOCK">Stock</option>
+                  {reportTypes.filter(reportType => reportType.photos).map(reportType => (
+                    <option key={reportType.code} value={reportType.code}>{reportType.name}</option>
+                  ))}
                 </select>
               </div>
 
@@ -741,7 +733,7 @@ export default function PhotoCategoriesPage() {
                   <label className="block text-sm font-medium text-gothic-300 mb-2">Report Type</label>
                   <input
                     type="text"
-                    value={editingCategory.reportType}
+                    value={getLabel(editingCategory.reportType)}
                     disabled
                     className="input-gothic w-full opacity-50 cursor-not-allowed"
                   />
@@ -0,0 +1,734 @@
+'use client';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useOutlet } from '@/contexts/OutletContext';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { Edit, ArrowLeft, Package, X, RefreshCw, Search, Layers, Plus, Printer } from 'lucide-react';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { adminAPI, printProductLabels } from '@/lib/api';
+
+interface ProductGroup {
+  id: string;
+  name: string;
+  counted: boolean;
+  displayOrder: number;
+  _count?: {
+    products: number;
+  };
+}
+
+interface StorageZone {
+  id: string;
+  name: string;
+  displayOrder: number;
+  active: boolean;
+}
+
+// A unit the product may be counted in; factor is the base units in one of it
+interface ProductUnit {
+  id: string;
+  unit: string;
+  factor: number;
+}
+
+interface Product {
+  id: string;
+  olseraProductId: string;
+  name: string;
+  sku?: string | null;
+  barcode?: string | null;
+  variantName?: string | null;
+  unit: string;
+  cost?: number | null;
+  costManual: boolean;
+  toleranceAmount?: number | null;
+  tolerancePercent?: number | null;
+  active: boolean;
+  countOverride?: boolean | null;
+  displayOrder: number;
+  counted: boolean;
+  syncedAt?: string | null;
+  group?: ProductGroup | null;
+  zone?: StorageZone | null;
+  units?: ProductUnit[];
+}
+
+type CountMode = 'group' | 'always' | 'never';
+
+const countModeOptions: Array<{ value: CountMode; label: string }> = [
+  { value: 'group', label: 'Follow group' },
+  { value: 'always', label: 'Always count' },
+  { value: 'never', label: 'Never count' }
+];
+
+const toCountMode = (countOverride?: boolean | null): CountMode => {
+  if (countOverride === true) return 'always';
+  if (countOverride === false) return 'never';
+  return 'group';
+};
+
+const fromCountMode = (mode: CountMode): boolean | null => {
+  if (mode === 'always') return true;
+  if (mode === 'never') return false;
+  return null;
+};
+
+export default function ProductsPage() {
+  const { isAuthenticated, isAdmin, loading: authLoading } = useAuth();
+  const { showToast } = useToast();
+  const { selectedOutletId } = useOutlet();
+  const router = useRouter();
+  const [products, setProducts] = useState<Product[]>([]);
+  const [groups, setGroups] = useState<ProductGroup[]>([]);
+  const [zones, setZones] = useState<StorageZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [search, setSearch] = useState('');
+  const [groupFilter, setGroupFilter] = useState('');
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [printing, setPrinting] = useState(false);
+  const [form, setForm] = useState({
+    unit: '',
+    barcode: '',
+    cost: '',
+    toleranceAmount: '',
+    tolerancePercent: '',
+    displayOrder: 0,
+    active: true,
+    countMode: 'group' as CountMode,
+    zoneId: '',
+    units: [] as Array<{ unit: string; factor: string }>
+  });
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    } else if (!authLoading && !isAdmin) {
+      router.push('/dashboard');
+    }
+  }, [isAuthenticated, isAdmin, authLoading, router]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchCatalog();
+    }
+  }, [isAdmin]);
+
+  const fetchCatalog = async () => {
+    try {
+      setLoading(true);
+      const [productsResponse, groupsResponse, zonesResponse] = await Promise.all([
+        adminAPI.getProducts(),
+        adminAPI.getProductGroups(),
+        adminAPI.getStorageZones()
+      ]);
+      setProducts(productsResponse.data);
+      setGroups(groupsResponse.data);
+      setZones(zonesResponse.data);
+    } catch (error) {
+      console.error('Failed to fetch product catalog:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load product catalog',
+        duration: 5000
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSync = async () => {
+    try {
+      setSyncing(true);
+      const response = await adminAPI.syncProducts({ outletId: selectedOutletId || null });
+      await fetchCatalog();
+
+      showToast({
+        type: 'success',
+        title: 'Catalog Synced',
+        message: `${response.data.created} new, ${response.data.updated} updated`,
+        duration: 4000
+      });
+    } catch (error: any) {
+      console.error('Failed to sync products:', error);
+      showToast({
+        type: 'error',
+        title: 'Sync Failed',
+        message: error.response?.data?.message || 'Failed to sync products from Olsera',
+        duration: 5000
+      });
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const toggleGroupCounted = async (group: ProductGroup) => {
+    try {
+      const response = await adminAPI.updateProductGroup(group.id, { counted: !group.counted });
+      setGroups(prev => prev.map(item => item.id === group.id ? response.data : item));
+      // Products following the group change with it
+      const updatedGroup: ProductGroup = response.data;
+      setProducts(prev => prev.map(product => {
+        if (product.group?.id !== group.id) return product;
+        return {
+          ...product,
+          group: updatedGroup,
+          counted: product.active && (product.countOverride ?? updatedGroup.counted)
+        };
+      }));
+    } catch (error: any) {
+      console.error('Failed to update product group:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to update product group',
+        duration: 5000
+      });
+    }
+  };
+
+  const openEditPopup = (product: Product) => {
+    setEditingProduct(product);
+    setForm({
+      unit: product.unit,
+      barcode: product.barcode || '',
+      cost: product.cost !== null && product.cost !== undefined ? product.cost.toString() : '',
+      toleranceAmount: product.toleranceAmount?.toString() ?? '',
+      tolerancePercent: product.tolerancePercent?.toString() ?? '',
+      displayOrder: product.displayOrder,
+      active: product.active,
+      countMode: toCountMode(product.countOverride),
+      zoneId: product.zone?.id || '',
+      units: (product.units || []).map(({ unit, factor }) => ({ unit, factor: factor.toString() }))
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editingProduct) return;
+
+    if (!form.unit.trim()) {
+      showToast({
+        type: 'error',
+        title: 'Validation Error',
+        message: 'Unit is required',
+        duration: 4000
+      });
+      return;
+    }
+
+    if (form.units.some(entryUnit => !entryUnit.unit.trim() || !(parseFloat(entryUnit.factor) > 0))) {
+      showToast({
+        type: 'error',
+        title: 'Validation Error',
+        message: 'Every entry unit needs a name and a factor above 0',
+        duration: 4000
+      });
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+      const response = await adminAPI.updateProduct(editingProduct.id, {
+        unit: form.unit.trim(),
+        barcode: form.barcode.trim() || null,
+        cost: form.cost === '' ? null : parseFloat(form.cost),
+        toleranceAmount: form.toleranceAmount === '' ? null : parseFloat(form.toleranceAmount),
+        tolerancePercent: form.tolerancePercent === '' ? null : parseFloat(form.tolerancePercent),
+        displayOrder: form.displayOrder,
+        active: form.active,
+        countOverride: fromCountMode(form.countMode),
+        zoneId: form.zoneId || null,
+        units: form.units.map(entryUnit => ({ unit: entryUnit.unit.trim(), factor: parseFloat(entryUnit.factor) }))
+      });
+      setProducts(prev => prev.map(item => item.id === editingProduct.id ? response.data : item));
+      setEditingProduct(null);
+
+      showToast({
+        type: 'success',
+        title: 'Product Updated',
+        message: `${response.data.name} has been updated`,
+        duration: 4000
+      });
+    } catch (error: any) {
+      console.error('Failed to update product:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to update product. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const filteredProducts = products.filter(product => {
+    if (groupFilter && (product.group?.id || 'none') !== groupFilter) return false;
+    if (!search) return true;
+    const term = search.toLowerCase();
+    return product.name.toLowerCase().includes(term)
+      || (product.sku || '').toLowerCase().includes(term)
+      || (product.barcode || '').toLowerCase().includes(term);
+  });
+
+  // Labels for the counted products in view; without filters the backend takes all of them
+  const handlePrintLabels = async () => {
+    const filtered = Boolean(search || groupFilter);
+    const labelled = filteredProducts.filter(product => product.counted && product.active);
+    if (filtered && labelled.length === 0) {
+      showToast({
+        type: 'warning',
+        title: 'No labels to print',
+        message: 'None of the listed products are counted',
+        duration: 4000
+      });
+      return;
+    }
+
+    try {
+      setPrinting(true);
+      await printProductLabels(filtered ? { ids: labelled.map(product => product.id).join(',') } : undefined);
+    } catch (error: any) {
+      console.error('Failed to print labels:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to create shelf labels. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-gothic-900 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gothic-900">
+      {/* Header */}
+      <header className="mobile-header">
+        <div className="mobile-container">
+          <div className="flex justify-between items-center h-20">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => window.history.back()}
+                  className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors"
+                >
+                  <ArrowLeft className="w-5 h-5 text-gothic-300" />
+                </button>
+                <div className="w-10 h-10 bg-accent-gradient rounded-xl flex items-center justify-center shadow-lg">
+                  <Package className="w-6 h-6 text-white" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h1 className="header-title truncate">
+                    Product Catalog
+                  </h1>
+                  <p className="header-subtitle truncate">
+                    Products counted in stock reports
+                  </p>
+                </div>
+              </div>
+            </div>
+            <button
+              onClick={handlePrintLabels}
+              disabled={printing}
+              className="w-10 h-10 mr-2 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors disabled:opacity-50"
+              title="Print QR shelf labels"
+            >
+              <Printer className="w-5 h-5 text-accent-400" />
+            </button>
+            <button
+              onClick={handleSync}
+              disabled={syncing}
+              className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors disabled:opacity-50"
+              title="Sync from Olsera"
+            >
+              <RefreshCw className={`w-5 h-5 text-accent-400 ${syncing ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="mobile-container py-6 pb-24 space-y-6">
+        {/* Stock Groups */}
+        <div className="gothic-card p-4">
+          <div className="flex items-center space-x-2 mb-3">
+            <Layers className="w-4 h-4 text-accent-400" />
+            <h2 className="text-sm font-medium text-gothic-100">Stock Groups</h2>
+          </div>
+          {groups.length === 0 ? (
+            <p className="text-xs text-gothic-400">
+              No groups yet. Sync the catalog from Olsera to discover product groups.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {groups.map((group) => (
+                <div key={group.id} className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <p className="text-sm text-gothic-200 truncate">{group.name}</p>
+                    <p className="text-xs text-gothic-500">{group._count?.products || 0} products</p>
+                  </div>
+                  <button
+                    onClick={() => toggleGroupCounted(group)}
+                    className={`badge-small ${group.counted ? 'badge-success' : 'badge-secondary'}`}
+                  >
+                    {group.counted ? 'Counted' : 'Not counted'}
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Filters */}
+        <div className="flex gap-2">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-gothic-500 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Search name, SKU or barcode"
+              className="input-gothic w-full pl-9"
+            />
+          </div>
+          <select
+            value={groupFilter}
+            onChange={(e) => setGroupFilter(e.target.value)}
+            className="input-gothic w-36"
+          >
+            <option value="">All groups</option>
+            {groups.map((group) => (
+              <option key={group.id} value={group.id}>{group.name}</option>
+            ))}
+            <option value="none">No group</option>
+          </select>
+        </div>
+
+        {/* Products */}
+        <div className="space-y-3">
+          {filteredProducts.map((product) => (
+            <div key={product.id} className={`gothic-card p-4 ${product.active ? '' : 'opacity-60'}`}>
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0 flex-1">
+                  <h3 className="text-gothic-100 font-medium text-sm">
+                    {product.name}
+                    {product.variantName && (
+                      <span className="text-gothic-400 font-normal"> – {product.variantName}</span>
+                    )}
+                  </h3>
+                  <p className="text-xs text-gothic-400 mt-1">
+                    {product.sku ? `SKU: ${product.sku} · ` : ''}
+                    {product.barcode ? `Barcode: ${product.barcode} · ` : ''}
+                    {product.group?.name || 'No group'}
+                    {product.zone && ` · ${product.zone.name}`}
+                  </p>
+                  <div className="flex items-center gap-2 flex-wrap mt-2">
+                    <span className={`badge-small ${product.counted ? 'badge-success' : 'badge-secondary'}`}>
+                      {product.counted ? 'Counted' : 'Not counted'}
+                    </span>
+                    {product.countOverride !== null && product.countOverride !== undefined && (
+                      <span className="text-xs text-gothic-500">override</span>
+                    )}
+                    <span className="text-xs text-gothic-400">
+                      Unit: {product.unit}
+                      {product.units && product.units.length > 0 && ` (also ${product.units.map(entryUnit => entryUnit.unit).join(', ')})`}
+                    </span>
+                    {product.cost !== null && product.cost !== undefined && (
+                      <span className="text-xs text-gothic-400">
+                        Cost: {product.cost.toLocaleString()}{product.costManual ? ' (manual)' : ''}
+                      </span>
+                    )}
+                    {(product.toleranceAmount != null || product.tolerancePercent != null) && (
+                      <span className="text-xs text-gothic-400">
+                        Tolerance: {[
+                          product.toleranceAmount != null ? `±${product.toleranceAmount}${product.unit}` : null,
+                          product.tolerancePercent != null ? `±${product.tolerancePercent}%` : null
+                        ].filter(Boolean).join(' / ')}
+                      </span>
+                    )}
+                    {!product.active && (
+                      <span className="text-xs text-red-400">Inactive</span>
+                    )}
+                  </div>
+                </div>
+                <button
+                  onClick={() => openEditPopup(product)}
+                  className="w-7 h-7 bg-gothic-700 hover:bg-gothic-600 rounded flex items-center justify-center transition-colors flex-shrink-0"
+                >
+                  <Edit className="w-3 h-3 text-accent-400" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {filteredProducts.length === 0 && (
+          <div className="gothic-card p-12 text-center">
+            <div className="w-12 h-12 bg-gothic-700 rounded-xl flex items-center justify-center mx-auto mb-4">
+              <Package className="w-6 h-6 text-gothic-400" />
+            </div>
+            <h3 className="text-sm font-medium text-gothic-300 mb-2">
+              {products.length === 0 ? 'Catalog is empty' : 'No matching products'}
+            </h3>
+            {products.length === 0 && (
+              <>
+                <p className="text-xs text-gothic-400 mb-6">
+                  Sync products from Olsera to start choosing what gets counted
+                </p>
+                <button onClick={handleSync} disabled={syncing} className="btn-primary">
+                  <RefreshCw className={`w-5 h-5 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+                  Sync from Olsera
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </main>
+
+      {/* Edit Product Popup */}
+      {editingProduct && (
+        <div className="filter-popup" onClick={() => setEditingProduct(null)}>
+          <div className="filter-content max-w-md" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-8 h-8 bg-accent-500/20 rounded-lg flex items-center justify-center">
+                  <Edit className="w-4 h-4 text-accent-400" />
+                </div>
+                <div>
+                  <h3 className="text-lg font-semibold text-gothic-100">Edit Product</h3>
+                  <p className="text-xs text-gothic-400">{editingProduct.name}</p>
+                </div>
+              </div>
+              <button onClick={() => setEditingProduct(null)} className="text-gothic-400 hover:text-gothic-200">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gothic-300 mb-2">Stock Count</label>
+                <div className="grid grid-cols-3 gap-2">
+                  {countModeOptions.map((option) => (
+                    <button
+                      key={option.value}
+                      onClick={() => setForm({ ...form, countMode: option.value })}
+                      className={`filter-option justify-center text-xs ${
+                        form.countMode === option.value ? 'filter-option-active' : 'filter-option-inactive'
+                      }`}
+                    >
+                      {option.label}
+                    </button>
+                  ))}
+                </div>
+                {form.countMode === 'group' && (
+                  <p className="text-xs text-gothic-500 mt-1">
+                    {editingProduct.group
+                      ? `${editingProduct.group.name} is ${editingProduct.group.counted ? 'counted' : 'not counted'}`
+                      : 'Products without a group are not counted'}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gothic-300 mb-2">Storage Zone</label>
+                <select
+                  value={form.zoneId}
+                  onChange={(e) => setForm({ ...form, zoneId: e.target.value })}
+                  className="input-gothic w-full"
+                >
+                  <option value="">No zone</option>
+                  {zones.map((zone) => (
+                    <option key={zone.id} value={zone.id}>
+                      {zone.name}{zone.active ? '' : ' (inactive)'}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gothic-500 mt-1">
+                  Stock counts follow the zone order, then the product order within the zone.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gothic-300 mb-2">Barcode</label>
+                <input
+                  type="text"
+                  value={form.barcode}
+                  onChange={(e) => setForm({ ...form, barcode: e.target.value })}
+                  placeholder="EAN or UPC on the package"
+                  maxLength={64}
+                  className="input-gothic w-full"
+                />
+                <p className="text-xs text-gothic-500 mt-1">
+                  Scanning it in a stock count opens the product. Shelf labels work without one.
+                </p>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Unit</label>
+                  <input
+                    type="text"
+                    value={form.unit}
+                    onChange={(e) => setForm({ ...form, unit: e.target.value })}
+                    className="input-gothic w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Cost</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.cost}
+                    onChange={(e) => setForm({ ...form, cost: e.target.value })}
+                    placeholder="From Olsera"
+                    className="input-gothic w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Order</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={form.displayOrder}
+                    onChange={(e) => setForm({ ...form, displayOrder: parseInt(e.target.value) || 0 })}
+                    className="input-gothic w-full"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium text-gothic-300">Entry Units</label>
+                  <button
+                    type="button"
+                    onClick={() => setForm({ ...form, units: [...form.units, { unit: '', factor: '' }] })}
+                    className="text-xs text-accent-400 hover:text-accent-300 flex items-center"
+                  >
+                    <Plus className="w-3 h-3 mr-1" />
+                    Add unit
+                  </button>
+                </div>
+                <div className="space-y-2">
+                  {form.units.map((entryUnit, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <input
+                        type="text"
+                        value={entryUnit.unit}
+                        onChange={(e) => setForm({
+                          ...form,
+                          units: form.units.map((item, i) => i === index ? { ...item, unit: e.target.value } : item)
+                        })}
+                        placeholder="kg"
+                        maxLength={20}
+                        className="input-gothic w-24"
+                      />
+                      <span className="text-xs text-gothic-400">=</span>
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        value={entryUnit.factor}
+                        onChange={(e) => setForm({
+                          ...form,
+                          units: form.units.map((item, i) => i === index ? { ...item, factor: e.target.value } : item)
+                        })}
+                        placeholder="1000"
+                        className="input-gothic flex-1 min-w-0"
+                      />
+                      <span className="text-xs text-gothic-400">{form.unit || 'unit'}</span>
+                      <button
+                        type="button"
+                        onClick={() => setForm({ ...form, units: form.units.filter((_, i) => i !== index) })}
+                        className="text-gothic-400 hover:text-red-400"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-gothic-500 mt-1">
+                  Units staff may count in besides the base unit, such as kg or a pack of 12. Counts are converted to the base unit.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gothic-300 mb-2">Variance Tolerance</label>
+                <div className="grid grid-cols-2 gap-4">
+                  <input
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={form.toleranceAmount}
+                    onChange={(e) => setForm({ ...form, toleranceAmount: e.target.value })}
+                    placeholder={`Amount (${form.unit || 'unit'})`}
+                    className="input-gothic w-full"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="any"
+                    value={form.tolerancePercent}
+                    onChange={(e) => setForm({ ...form, tolerancePercent: e.target.value })}
+                    placeholder="% of expected"
+                    className="input-gothic w-full"
+                  />
+                </div>
+                <p className="text-xs text-gothic-500 mt-1">
+                  Counts outside tolerance require a recount. Leave both empty to accept any variance.
+                </p>
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="active"
+                  checked={form.active}
+                  onChange={(e) => setForm({ ...form, active: e.target.checked })}
+                  className="w-4 h-4 text-accent-500 bg-gothic-800 border-gothic-600 rounded focus:ring-accent-500"
+                />
+                <label htmlFor="active" className="ml-2 text-sm text-gothic-300">
+                  Active product
+                </label>
+              </div>
+            </div>
+
+            <div className="flex space-x-3 mt-6">
+              <button
+                onClick={() => setEditingProduct(null)}
+                className="btn-secondary flex-1"
+                disabled={actionLoading}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="btn-primary flex-1"
+                disabled={actionLoading}
+              >
+                {actionLoading ? 'Saving...' : 'Save Changes'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,497 @@
+'use client';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { Plus, Edit, Trash2, ArrowLeft, ChefHat, X } from 'lucide-react';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { adminAPI } from '@/lib/api';
+
+interface Product {
+  id: string;
+  name: string;
+  variantName?: string | null;
+  unit: string;
+  active: boolean;
+  counted: boolean;
+}
+
+interface RecipeIngredient {
+  id: string;
+  ingredientId: string;
+  quantity: number;
+  ingredient: Product;
+}
+
+interface Recipe {
+  id: string;
+  productId: string;
+  notes?: string | null;
+  active: boolean;
+  product: Product;
+  ingredients: RecipeIngredient[];
+}
+
+interface IngredientRow {
+  ingredientId: string;
+  quantity: string;
+}
+
+const productLabel = (product: Product) =>
+  product.variantName ? `${product.name} – ${product.variantName}` : product.name;
+
+const emptyForm = {
+  productId: '',
+  notes: '',
+  active: true,
+  ingredients: [{ ingredientId: '', quantity: '' }] as IngredientRow[]
+};
+
+export default function RecipesPage() {
+  const { isAuthenticated, isAdmin, loading: authLoading } = useAuth();
+  const { showToast } = useToast();
+  const router = useRouter();
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showPopup, setShowPopup] = useState(false);
+  const [editingRecipe, setEditingRecipe] = useState<Recipe | null>(null);
+  const [deletingRecipeId, setDeletingRecipeId] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    } else if (!authLoading && !isAdmin) {
+      router.push('/dashboard');
+    }
+  }, [isAuthenticated, isAdmin, authLoading, router]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchRecipes();
+    }
+  }, [isAdmin]);
+
+  const fetchRecipes = async () => {
+    try {
+      setLoading(true);
+      const [recipesResponse, productsResponse] = await Promise.all([
+        adminAPI.getRecipes(),
+        adminAPI.getProducts()
+      ]);
+      setRecipes(recipesResponse.data);
+      setProducts(productsResponse.data);
+    } catch (error) {
+      console.error('Failed to fetch recipes:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load recipes',
+        duration: 5000
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreatePopup = () => {
+    setEditingRecipe(null);
+    setForm(emptyForm);
+    setShowPopup(true);
+  };
+
+  const openEditPopup = (recipe: Recipe) => {
+    setEditingRecipe(recipe);
+    setForm({
+      productId: recipe.productId,
+      notes: recipe.notes || '',
+      active: recipe.active,
+      ingredients: recipe.ingredients.map(ingredient => ({
+        ingredientId: ingredient.ingredientId,
+        quantity: ingredient.quantity.toString()
+      }))
+    });
+    setShowPopup(true);
+  };
+
+  const updateIngredient = (index: number, changes: Partial<IngredientRow>) => {
+    setForm(prev => ({
+      ...prev,
+      ingredients: prev.ingredients.map((row, rowIndex) => rowIndex === index ? { ...row, ...changes } : row)
+    }));
+  };
+
+  const removeIngredient = (index: number) => {
+    setForm(prev => ({
+      ...prev,
+      ingredients: prev.ingredients.filter((_, rowIndex) => rowIndex !== index)
+    }));
+  };
+
+  const handleSave = async () => {
+    const ingredients = form.ingredients
+      .filter(row => row.ingredientId)
+      .map(row => ({ ingredientId: row.ingredientId, quantity: parseFloat(row.quantity) }));
+
+    const validationMessage = !form.productId
+      ? 'Choose the menu product'
+      : ingredients.length === 0
+        ? 'Add at least one ingredient'
+        : ingredients.some(ingredient => !(ingredient.quantity > 0))
+          ? 'Ingredient quantities must be greater than 0'
+          : null;
+
+    if (validationMessage) {
+      showToast({
+        type: 'error',
+        title: 'Validation Error',
+        message: validationMessage,
+        duration: 4000
+      });
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+      const data = {
+        productId: form.productId,
+        notes: form.notes.trim() || null,
+        active: form.active,
+        ingredients
+      };
+      const response = editingRecipe
+        ? await adminAPI.updateRecipe(editingRecipe.id, data)
+        : await adminAPI.createRecipe(data);
+
+      setRecipes(prev => editingRecipe
+        ? prev.map(item => item.id === editingRecipe.id ? response.data : item)
+        : [...prev, response.data].sort((a, b) => a.product.name.localeCompare(b.product.name)));
+      setShowPopup(false);
+
+      showToast({
+        type: 'success',
+        title: editingRecipe ? 'Recipe Updated' : 'Recipe Created',
+        message: `${productLabel(response.data.product)} uses ${ingredients.length} ingredient${ingredients.length === 1 ? '' : 's'}`,
+        duration: 4000
+      });
+    } catch (error: any) {
+      console.error('Failed to save recipe:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to save recipe. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingRecipeId) return;
+
+    try {
+      setActionLoading(true);
+      await adminAPI.deleteRecipe(deletingRecipeId);
+      setRecipes(prev => prev.filter(item => item.id !== deletingRecipeId));
+      setDeletingRecipeId(null);
+
+      showToast({
+        type: 'success',
+        title: 'Recipe Deleted',
+        duration: 4000
+      });
+    } catch (error: any) {
+      console.error('Failed to delete recipe:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to delete recipe. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  // A menu product has at most one recipe
+  const menuProducts = products.filter(product =>
+    product.id === editingRecipe?.productId || !recipes.some(recipe => recipe.productId === product.id)
+  );
+  // Ingredients are raw materials, so only counted products can be checked against a count
+  const ingredientProducts = products.filter(product => product.counted && product.id !== form.productId);
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-gothic-900 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gothic-900">
+      {/* Header */}
+      <header className="mobile-header">
+        <div className="mobile-container">
+          <div className="flex justify-between items-center h-20">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => window.history.back()}
+                  className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors"
+                >
+                  <ArrowLeft className="w-5 h-5 text-gothic-300" />
+                </button>
+                <div className="w-10 h-10 bg-accent-gradient rounded-xl flex items-center justify-center shadow-lg">
+                  <ChefHat className="w-6 h-6 text-white" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h1 className="header-title truncate">
+                    Recipes
+                  </h1>
+                  <p className="header-subtitle truncate">
+                    Raw materials used per menu item sold
+                  </p>
+                </div>
+              </div>
+            </div>
+            <button
+              onClick={openCreatePopup}
+              className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors"
+              title="New recipe"
+            >
+              <Plus className="w-5 h-5 text-accent-400" />
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="mobile-container py-6 pb-24 space-y-3">
+        {recipes.map((recipe) => (
+          <div key={recipe.id} className={`gothic-card p-4 ${recipe.active ? '' : 'opacity-60'}`}>
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0 flex-1">
+                <h3 className="text-gothic-100 font-medium text-sm">
+                  {recipe.product.name}
+                  {recipe.product.variantName && (
+                    <span className="text-gothic-400 font-normal"> – {recipe.product.variantName}</span>
+                  )}
+                </h3>
+                <ul className="mt-2 space-y-1">
+                  {recipe.ingredients.map((ingredient) => (
+                    <li key={ingredient.id} className="text-xs text-gothic-400">
+                      {ingredient.quantity} {ingredient.ingredient.unit} · {productLabel(ingredient.ingredient)}
+                    </li>
+                  ))}
+                </ul>
+                {recipe.notes && (
+                  <p className="text-xs text-gothic-500 mt-2">{recipe.notes}</p>
+                )}
+                {!recipe.active && (
+                  <span className="text-xs text-red-400">Inactive</span>
+                )}
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                <button
+                  onClick={() => openEditPopup(recipe)}
+                  className="w-7 h-7 bg-gothic-700 hover:bg-gothic-600 rounded flex items-center justify-center transition-colors"
+                >
+                  <Edit className="w-3 h-3 text-accent-400" />
+                </button>
+                <button
+                  onClick={() => setDeletingRecipeId(recipe.id)}
+                  className="w-7 h-7 bg-gothic-700 hover:bg-gothic-600 rounded flex items-center justify-center transition-colors"
+                >
+                  <Trash2 className="w-3 h-3 text-red-400" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {recipes.length === 0 && (
+          <div className="gothic-card p-12 text-center">
+            <div className="w-12 h-12 bg-gothic-700 rounded-xl flex items-center justify-center mx-auto mb-4">
+              <ChefHat className="w-6 h-6 text-gothic-400" />
+            </div>
+            <h3 className="text-sm font-medium text-gothic-300 mb-2">No recipes yet</h3>
+            <p className="text-xs text-gothic-400 mb-6">
+              Map menu items to the raw materials they use to compare sales with counted usage
+            </p>
+            <button onClick={openCreatePopup} className="btn-primary">
+              <Plus className="w-5 h-5 mr-2" />
+              New Recipe
+            </button>
+          </div>
+        )}
+      </main>
+
+      {/* Create/Edit Recipe Popup */}
+      {showPopup && (
+        <div className="filter-popup" onClick={() => setShowPopup(false)}>
+          <div className="filter-content max-w-md" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-8 h-8 bg-accent-500/20 rounded-lg flex items-center justify-center">
+                  {editingRecipe ? <Edit className="w-4 h-4 text-accent-400" /> : <Plus className="w-4 h-4 text-accent-400" />}
+                </div>
+                <h3 className="text-lg font-semibold text-gothic-100">
+                  {editingRecipe ? 'Edit Recipe' : 'New Recipe'}
+                </h3>
+              </div>
+              <button onClick={() => setShowPopup(false)} className="text-gothic-400 hover:text-gothic-200">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gothic-300 mb-2">Menu Product</label>
+                <select
+                  value={form.productId}
+                  onChange={(e) => setForm({ ...form, productId: e.target.value })}
+                  className="input-gothic w-full"
+                >
+                  <option value="">Select product</option>
+                  {menuProducts.map((product) => (
+                    <option key={product.id} value={product.id}>{productLabel(product)}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gothic-300 mb-2">Ingredients per item sold</label>
+                <div className="space-y-2">
+                  {form.ingredients.map((row, index) => {
+                    const unit = products.find(product => product.id === row.ingredientId)?.unit;
+                    return (
+                      <div key={index} className="flex items-center gap-2">
+                        <select
+                          value={row.ingredientId}
+                          onChange={(e) => updateIngredient(index, { ingredientId: e.target.value })}
+                          className="input-gothic flex-1 min-w-0"
+                        >
+                          <option value="">Select ingredient</option>
+                          {ingredientProducts.map((product) => (
+                            <option key={product.id} value={product.id}>{productLabel(product)}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="number"
+                          min="0"
+                          step="any"
+                          value={row.quantity}
+                          onChange={(e) => updateIngredient(index, { quantity: e.target.value })}
+                          placeholder={unit || 'Qty'}
+                          className="input-gothic w-24"
+                        />
+                        <button
+                          onClick={() => removeIngredient(index)}
+                          className="w-7 h-7 bg-gothic-700 hover:bg-gothic-600 rounded flex items-center justify-center transition-colors flex-shrink-0"
+                        >
+                          <X className="w-3 h-3 text-red-400" />
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+                <button
+                  onClick={() => setForm({ ...form, ingredients: [...form.ingredients, { ingredientId: '', quantity: '' }] })}
+                  className="text-xs text-accent-400 hover:text-accent-300 mt-2 flex items-center"
+                >
+                  <Plus className="w-3 h-3 mr-1" />
+                  Add ingredient
+                </button>
+                <p className="text-xs text-gothic-500 mt-1">
+                  Quantities are in each ingredient&apos;s catalog unit. Only counted products can be ingredients.
+                </p>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gothic-300 mb-2">Notes</label>
+                <textarea
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  rows={2}
+                  maxLength={500}
+                  className="input-gothic w-full"
+                />
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="active"
+                  checked={form.active}
+                  onChange={(e) => setForm({ ...form, active: e.target.checked })}
+                  className="w-4 h-4 text-accent-500 bg-gothic-800 border-gothic-600 rounded focus:ring-accent-500"
+                />
+                <label htmlFor="active" className="ml-2 text-sm text-gothic-300">
+                  Active recipe
+                </label>
+              </div>
+            </div>
+
+            <div className="flex space-x-3 mt-6">
+              <button
+                onClick={() => setShowPopup(false)}
+                className="btn-secondary flex-1"
+                disabled={actionLoading}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="btn-primary flex-1"
+                disabled={actionLoading}
+              >
+                {actionLoading ? 'Saving...' : editingRecipe ? 'Save Changes' : 'Create Recipe'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Popup */}
+      {deletingRecipeId && (
+        <div className="filter-popup" onClick={() => setDeletingRecipeId(null)}>
+          <div className="filter-content max-w-sm" onClick={(e) => e.stopPropagation()}>
+            <div className="text-center">
+              <div className="w-12 h-12 bg-red-500/20 rounded-xl flex items-center justify-center mx-auto mb-4">
+                <Trash2 className="w-6 h-6 text-red-400" />
+              </div>
+              <h3 className="text-lg font-semibold text-gothic-100 mb-2">Delete Recipe</h3>
+              <p className="text-gothic-400 text-sm mb-6">
+                Stock reports synced from now on will no longer compare this menu item&apos;s ingredients.
+              </p>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setDeletingRecipeId(null)}
+                  className="btn-secondary flex-1"
+                  disabled={actionLoading}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="btn-error flex-1"
+                  disabled={actionLoading}
+                >
+                  {actionLoading ? 'Deleting...' : 'Delete'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,542 @@
+'use client';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { Plus, Edit, Trash2, ArrowLeft, ListChecks, X } from 'lucide-react';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { adminAPI } from '@/lib/api';
+import {
+  ReportFieldConfig,
+  ReportFieldType,
+  ReportTypeConfig,
+  REPORT_FIELD_TYPES,
+  clearReportTypesCache,
+  getReportTypeColor,
+  getReportTypeIcon
+} from '@/lib/reportTypes';
+
+interface ReportFieldsPageProps {
+  params: {
+    id: string;
+  };
+}
+
+const emptyForm = {
+  key: '',
+  label: '',
+  fieldType: 'NUMBER' as ReportFieldType,
+  required: false,
+  helpText: '',
+  options: '',
+  min: '',
+  max: '',
+  unit: '',
+  active: true,
+  displayOrder: '0'
+};
+
+const NUMERIC_TYPES: ReportFieldType[] = ['NUMBER', 'CURRENCY', 'TEMPERATURE'];
+
+const sortFields = (list: ReportFieldConfig[]) =>
+  [...list].sort((a, b) => a.displayOrder - b.displayOrder || a.label.localeCompare(b.label));
+
+const parseBound = (value: string) => (value.trim() === '' ? null : Number(value));
+
+export default function ReportFieldsPage({ params }: ReportFieldsPageProps) {
+  const { isAuthenticated, isAdmin, loading: authLoading } = useAuth();
+  const { showToast } = useToast();
+  const router = useRouter();
+  const [reportType, setReportType] = useState<ReportTypeConfig | null>(null);
+  const [fields, setFields] = useState<ReportFieldConfig[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showPopup, setShowPopup] = useState(false);
+  const [editingField, setEditingField] = useState<ReportFieldConfig | null>(null);
+  const [deletingField, setDeletingField] = useState<ReportFieldConfig | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    } else if (!authLoading && !isAdmin) {
+      router.push('/dashboard');
+    }
+  }, [isAuthenticated, isAdmin, authLoading, router]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchReportType();
+    }
+  }, [isAdmin, params.id]);
+
+  const fetchReportType = async () => {
+    try {
+      setLoading(true);
+      const response = await adminAPI.getReportTypes();
+      const found = (response.data as ReportTypeConfig[]).find(item => item.id === params.id) || null;
+      setReportType(found);
+      setFields(found ? sortFields(found.fields) : []);
+    } catch (error) {
+      console.error('Failed to fetch report type:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load report fields',
+        duration: 5000
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreatePopup = () => {
+    setEditingField(null);
+    setForm({ ...emptyForm, displayOrder: fields.length.toString() });
+    setShowPopup(true);
+  };
+
+  const openEditPopup = (field: ReportFieldConfig) => {
+    setEditingField(field);
+    setForm({
+      key: field.key,
+      label: field.label,
+      fieldType: field.fieldType,
+      required: field.required,
+      helpText: field.helpText || '',
+      options: field.options.join('\n'),
+      min: field.min?.toString() ?? '',
+      max: field.max?.toString() ?? '',
+      unit: field.unit || '',
+      active: field.active,
+      displayOrder: field.displayOrder.toString()
+    });
+    setShowPopup(true);
+  };
+
+  const handleSave = async () => {
+    if (!reportType) return;
+
+    const key = form.key.trim();
+    if (!form.label.trim() || (!editingField && !/^[a-z][a-zA-Z0-9_]*$/.test(key))) {
+      showToast({
+        type: 'error',
+        title: 'Validation Error',
+        message: 'Label and a key starting with a lowercase letter are required',
+        duration: 4000
+      });
+      return;
+    }
+
+    const hasBounds = NUMERIC_TYPES.includes(form.fieldType) || form.fieldType === 'TEXT';
+    const hasUnit = form.fieldType === 'NUMBER' || form.fieldType === 'TEMPERATURE';
+
+    try {
+      setActionLoading(true);
+      const data = {
+        label: form.label.trim(),
+        required: form.required,
+        helpText: form.helpText.trim() || null,
+        ...(form.fieldType === 'SELECT' && {
+          options: Array.from(new Set(form.options.split('\n').map(option => option.trim()).filter(Boolean)))
+        }),
+        min: hasBounds ? parseBound(form.min) : null,
+        max: hasBounds ? parseBound(form.max) : null,
+        unit: hasUnit ? form.unit.trim() || null : null,
+        active: form.active,
+        displayOrder: parseInt(form.displayOrder, 10) || 0
+      };
+      const response = editingField
+        ? await adminAPI.updateReportField(editingField.id, data)
+        : await adminAPI.createReportField(reportType.id, { ...data, key, fieldType: form.fieldType });
+
+      setFields(prev => sortFields(editingField
+        ? prev.map(item => item.id === editingField.id ? response.data : item)
+        : [...prev, response.data]));
+      clearReportTypesCache();
+      setShowPopup(false);
+
+      showToast({
+        type: 'success',
+        title: editingField ? 'Field Updated' : 'Field Created',
+        message: `${response.data.label} has been saved`,
+        duration: 4000
+      });
+    } catch (error: any) {
+      console.error('Failed to save report field:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to save field. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingField) return;
+
+    try {
+      setActionLoading(true);
+      await adminAPI.deleteReportField(deletingField.id);
+      setFields(prev => prev.filter(item => item.id !== deletingField.id));
+      clearReportTypesCache();
+      setDeletingField(null);
+
+      showToast({
+        type: 'success',
+        title: 'Field Deleted',
+        duration: 4000
+      });
+    } catch (error: any) {
+      console.error('Failed to delete report field:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to delete field. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-gothic-900 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !isAdmin) {
+    return null;
+  }
+
+  const TypeIcon = getReportTypeIcon(reportType);
+  const typeColor = getReportTypeColor(reportType);
+  const isNumeric = NUMERIC_TYPES.includes(form.fieldType);
+
+  return (
+    <div className="min-h-screen bg-gothic-900">
+      {/* Header */}
+      <header className="mobile-header">
+        <div className="mobile-container">
+          <div className="flex justify-between items-center h-20">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => window.history.back()}
+                  className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors"
+                >
+                  <ArrowLeft className="w-5 h-5 text-gothic-300" />
+                </button>
+                <div className="w-10 h-10 bg-accent-gradient rounded-xl flex items-center justify-center shadow-lg">
+                  <ListChecks className="w-6 h-6 text-white" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h1 className="header-title truncate">
+                    {reportType ? `${reportType.name} Fields` : 'Report Fields'}
+                  </h1>
+                  <p className="header-subtitle truncate">
+                    Extra details staff fill in on the report
+                  </p>
+                </div>
+              </div>
+            </div>
+            {reportType && (
+              <button
+                onClick={openCreatePopup}
+                className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors"
+                title="New field"
+              >
+                <Plus className="w-5 h-5 text-accent-400" />
+              </button>
+            )}
+          </div>
+        </div>
+      </header>
+
+      <main className="mobile-container py-6 pb-24 space-y-3">
+        {!reportType ? (
+          <div className="gothic-card p-8 text-center">
+            <p className="text-gothic-400 text-sm">Report type not found</p>
+          </div>
+        ) : fields.length === 0 ? (
+          <div className="gothic-card p-8 text-center">
+            <div className={`w-12 h-12 border rounded-xl flex items-center justify-center mx-auto mb-4 ${typeColor.background}`}>
+              <TypeIcon className={`w-6 h-6 ${typeColor.text}`} />
+            </div>
+            <h3 className="text-gothic-100 font-medium mb-1">No custom fields</h3>
+            <p className="text-gothic-400 text-sm">
+              Add fields such as a fridge temperature or a delivery date to {reportType.name} reports
+            </p>
+          </div>
+        ) : (
+          fields.map((field) => {
+            const fieldType = REPORT_FIELD_TYPES.find(option => option.value === field.fieldType);
+            return (
+              <div key={field.id} className={`gothic-card p-4 ${field.active ? '' : 'opacity-60'}`}>
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2">
+                      <h3 className="text-gothic-100 font-medium text-sm truncate">{field.label}</h3>
+                      <span className="text-xs text-gothic-500 font-mono">{field.key}</span>
+                    </div>
+                    <div className="flex items-center gap-2 mt-1 flex-wrap">
+                      <span className="text-xs text-gothic-300">{fieldType?.label}</span>
+                      {field.required && <span className="text-xs text-accent-400">Required</span>}
+                      {field.fieldType === 'SELECT' && (
+                        <span className="text-xs text-gothic-400">{field.options.length} options</span>
+                      )}
+                      {!field.active && (
+                        <span className="text-xs text-red-400">Inactive</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    <button
+                      onClick={() => openEditPopup(field)}
+                      className="w-7 h-7 bg-gothic-700 hover:bg-gothic-600 rounded flex items-center justify-center transition-colors"
+                    >
+                      <Edit className="w-3 h-3 text-accent-400" />
+                    </button>
+                    <button
+                      onClick={() => setDeletingField(field)}
+                      className="w-7 h-7 bg-gothic-700 hover:bg-gothic-600 rounded flex items-center justify-center transition-colors"
+                    >
+                      <Trash2 className="w-3 h-3 text-red-400" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+
+        {reportType && (
+          <p className="text-xs text-gothic-500 px-1">
+            Required fields must be filled before a report can be submitted. The key and type of a field cannot change once created.
+          </p>
+        )}
+      </main>
+
+      {/* Create/Edit Field Popup */}
+      {showPopup && (
+        <div className="filter-popup" onClick={() => setShowPopup(false)}>
+          <div className="filter-content max-w-md" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-6">
+              <h3 className="text-lg font-semibold text-gothic-100">
+                {editingField ? 'Edit Field' : 'New Field'}
+              </h3>
+              <button onClick={() => setShowPopup(false)} className="text-gothic-400 hover:text-gothic-200">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gothic-300 mb-2">Label</label>
+                <input
+                  type="text"
+                  value={form.label}
+                  onChange={(e) => setForm({ ...form, label: e.target.value })}
+                  placeholder="Fridge temperature"
+                  maxLength={100}
+                  className="input-gothic w-full"
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Key</label>
+                  <input
+                    type="text"
+                    value={form.key}
+                    onChange={(e) => setForm({ ...form, key: e.target.value })}
+                    placeholder="fridgeTemperature"
+                    maxLength={40}
+                    disabled={Boolean(editingField)}
+                    className={`input-gothic w-full font-mono ${editingField ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Type</label>
+                  <select
+                    value={form.fieldType}
+                    onChange={(e) => setForm({ ...form, fieldType: e.target.value as ReportFieldType })}
+                    disabled={Boolean(editingField)}
+                    className={`input-gothic w-full ${editingField ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  >
+                    {REPORT_FIELD_TYPES.map(option => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {form.fieldType === 'SELECT' && (
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Options</label>
+                  <textarea
+                    value={form.options}
+                    onChange={(e) => setForm({ ...form, options: e.target.value })}
+                    placeholder={'One option per line'}
+                    rows={4}
+                    className="input-gothic w-full resize-none"
+                  />
+                </div>
+              )}
+
+              {(isNumeric || form.fieldType === 'TEXT') && (
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gothic-300 mb-2">
+                      {form.fieldType === 'TEXT' ? 'Min length' : 'Min'}
+                    </label>
+                    <input
+                      type="number"
+                      step="any"
+                      value={form.min}
+                      onChange={(e) => setForm({ ...form, min: e.target.value })}
+                      className="input-gothic w-full"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gothic-300 mb-2">
+                      {form.fieldType === 'TEXT' ? 'Max length' : 'Max'}
+                    </label>
+                    <input
+                      type="number"
+                      step="any"
+                      value={form.max}
+                      onChange={(e) => setForm({ ...form, max: e.target.value })}
+                      className="input-gothic w-full"
+                    />
+                  </div>
+                  {(form.fieldType === 'NUMBER' || form.fieldType === 'TEMPERATURE') && (
+                    <div>
+                      <label className="block text-sm font-medium text-gothic-300 mb-2">Unit</label>
+                      <input
+                        type="text"
+                        value={form.unit}
+                        onChange={(e) => setForm({ ...form, unit: e.target.value })}
+                        placeholder={form.fieldType === 'TEMPERATURE' ? '°C' : 'kg'}
+                        maxLength={20}
+                        className="input-gothic w-full"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Help text</label>
+                  <input
+                    type="text"
+                    value={form.helpText}
+                    onChange={(e) => setForm({ ...form, helpText: e.target.value })}
+                    placeholder="Read the display on the door"
+                    maxLength={200}
+                    className="input-gothic w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Order</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={form.displayOrder}
+                    onChange={(e) => setForm({ ...form, displayOrder: e.target.value })}
+                    className="input-gothic w-full"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="required"
+                    checked={form.required}
+                    onChange={(e) => setForm({ ...form, required: e.target.checked })}
+                    className="w-4 h-4 text-accent-500 bg-gothic-800 border-gothic-600 rounded focus:ring-accent-500"
+                  />
+                  <label htmlFor="required" className="ml-2 text-sm text-gothic-300">
+                    Required to submit the report
+                  </label>
+                </div>
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="active"
+                    checked={form.active}
+                    onChange={(e) => setForm({ ...form, active: e.target.checked })}
+                    className="w-4 h-4 text-accent-500 bg-gothic-800 border-gothic-600 rounded focus:ring-accent-500"
+                  />
+                  <label htmlFor="active" className="ml-2 text-sm text-gothic-300">
+                    Shown on new reports
+                  </label>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex space-x-3 mt-6">
+              <button
+                onClick={() => setShowPopup(false)}
+                className="btn-secondary flex-1"
+                disabled={actionLoading}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="btn-primary flex-1"
+                disabled={actionLoading}
+              >
+                {actionLoading ? 'Saving...' : editingField ? 'Save Changes' : 'Create Field'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Popup */}
+      {deletingField && (
+        <div className="filter-popup" onClick={() => setDeletingField(null)}>
+          <div className="filter-content max-w-sm" onClick={(e) => e.stopPropagation()}>
+            <div className="text-center">
+              <div className="w-12 h-12 bg-red-500/20 rounded-xl flex items-center justify-center mx-auto mb-4">
+                <Trash2 className="w-6 h-6 text-red-400" />
+              </div>
+              <h3 className="text-lg font-semibold text-gothic-100 mb-2">Delete {deletingField.label}</h3>
+              <p className="text-gothic-400 text-sm mb-6">
+                Values already saved on reports are kept but no longer shown. Deactivate the field to keep showing them.
+              </p>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setDeletingField(null)}
+                  className="btn-secondary flex-1"
+                  disabled={actionLoading}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="btn-error flex-1"
+                  disabled={actionLoading}
+                >
+                  {actionLoading ? 'Deleting...' : 'Delete'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,518 @@
+'use client';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { Plus, Edit, Trash2, ArrowLeft, Shapes, X, Lock, ListChecks } from 'lucide-react';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { adminAPI } from '@/lib/api';
+import {
+  ReportTypeConfig,
+  ReportWorkflow,
+  REPORT_TYPE_COLORS,
+  REPORT_TYPE_ICONS,
+  REPORT_WORKFLOWS,
+  clearReportTypesCache,
+  getReportTypeColor,
+  getReportTypeIcon
+} from '@/lib/reportTypes';
+
+const emptyForm = {
+  code: '',
+  name: '',
+  description: '',
+  icon: 'FileText',
+  color: 'accent',
+  workflow: 'STANDARD' as ReportWorkflow,
+  checklist: false,
+  photos: true,
+  requireChecklist: false,
+  requireDescription: false,
+  resolvable: false,
+  active: true,
+  displayOrder: '0'
+};
+
+const FLAGS: { key: 'checklist' | 'photos' | 'requireChecklist' | 'requireDescription' | 'resolvable'; label: string }[] = [
+  { key: 'checklist', label: 'Has a checklist' },
+  { key: 'requireChecklist', label: 'Required checklist items must be done to submit' },
+  { key: 'photos', label: 'Has photo categories' },
+  { key: 'requireDescription', label: 'Description is required' },
+  { key: 'resolvable', label: 'Admins resolve submitted reports' }
+];
+
+const sortReportTypes = (list: ReportTypeConfig[]) =>
+  [...list].sort((a, b) => a.displayOrder - b.displayOrder || a.name.localeCompare(b.name));
+
+export default function ReportTypesPage() {
+  const { isAuthenticated, isAdmin, loading: authLoading } = useAuth();
+  const { showToast } = useToast();
+  const router = useRouter();
+  const [reportTypes, setReportTypes] = useState<ReportTypeConfig[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showPopup, setShowPopup] = useState(false);
+  const [editingType, setEditingType] = useState<ReportTypeConfig | null>(null);
+  const [deletingType, setDeletingType] = useState<ReportTypeConfig | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    } else if (!authLoading && !isAdmin) {
+      router.push('/dashboard');
+    }
+  }, [isAuthenticated, isAdmin, authLoading, router]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchReportTypes();
+    }
+  }, [isAdmin]);
+
+  const fetchReportTypes = async () => {
+    try {
+      setLoading(true);
+      const response = await adminAPI.getReportTypes();
+      setReportTypes(response.data);
+    } catch (error) {
+      console.error('Failed to fetch report types:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load report types',
+        duration: 5000
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreatePopup = () => {
+    setEditingType(null);
+    setForm({ ...emptyForm, displayOrder: reportTypes.length.toString() });
+    setShowPopup(true);
+  };
+
+  const openEditPopup = (reportType: ReportTypeConfig) => {
+    setEditingType(reportType);
+    setForm({
+      code: reportType.code,
+      name: reportType.name,
+      description: reportType.description || '',
+      icon: reportType.icon,
+      color: reportType.color,
+      workflow: reportType.workflow,
+      checklist: reportType.checklist,
+      photos: reportType.photos,
+      requireChecklist: reportType.requireChecklist,
+      requireDescription: reportType.requireDescription,
+      resolvable: reportType.resolvable,
+      active: reportType.active,
+      displayOrder: reportType.displayOrder.toString()
+    });
+    setShowPopup(true);
+  };
+
+  const handleSave = async () => {
+    const code = form.code.trim().toUpperCase();
+    if (!form.name.trim() || (!editingType && !/^[A-Z][A-Z0-9_]*$/.test(code))) {
+      showToast({
+        type: 'error',
+        title: 'Validation Error',
+        message: 'Name and a code of letters, numbers and underscores are required',
+        duration: 4000
+      });
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+      const data = {
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        icon: form.icon,
+        color: form.color,
+        workflow: form.workflow,
+        checklist: form.checklist,
+        photos: form.photos,
+        requireChecklist: form.checklist && form.requireChecklist,
+        requireDescription: form.requireDescription,
+        resolvable: form.resolvable,
+        active: form.active,
+        displayOrder: parseInt(form.displayOrder, 10) || 0
+      };
+      const response = editingType
+        ? await adminAPI.updateReportType(editingType.id, data)
+        : await adminAPI.createReportType({ ...data, code });
+
+      // Saves return the type alone; its fields are managed on their own page
+      setReportTypes(prev => sortReportTypes(editingType
+        ? prev.map(item => item.id === editingType.id ? { ...response.data, fields: item.fields } : item)
+        : [...prev, { ...response.data, fields: [] }]));
+      clearReportTypesCache();
+      setShowPopup(false);
+
+      showToast({
+        type: 'success',
+        title: editingType ? 'Report Type Updated' : 'Report Type Created',
+        message: `${response.data.name} has been saved`,
+        duration: 4000
+      });
+    } catch (error: any) {
+      console.error('Failed to save report type:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to save report type. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingType) return;
+
+    try {
+      setActionLoading(true);
+      await adminAPI.deleteReportType(deletingType.id);
+      setReportTypes(prev => prev.filter(item => item.id !== deletingType.id));
+      clearReportTypesCache();
+      setDeletingType(null);
+
+      showToast({
+        type: 'success',
+        title: 'Report Type Deleted',
+        duration: 4000
+      });
+    } catch (error: any) {
+      console.error('Failed to delete report type:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to delete report type. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-gothic-900 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !isAdmin) {
+    return null;
+  }
+
+  const PreviewIcon = REPORT_TYPE_ICONS[form.icon] || Shapes;
+  const previewColor = REPORT_TYPE_COLORS[form.color] || REPORT_TYPE_COLORS.accent;
+
+  return (
+    <div className="min-h-screen bg-gothic-900">
+      {/* Header */}
+      <header className="mobile-header">
+        <div className="mobile-container">
+          <div className="flex justify-between items-center h-20">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => window.history.back()}
+                  className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors"
+                >
+                  <ArrowLeft className="w-5 h-5 text-gothic-300" />
+                </button>
+                <div className="w-10 h-10 bg-accent-gradient rounded-xl flex items-center justify-center shadow-lg">
+                  <Shapes className="w-6 h-6 text-white" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h1 className="header-title truncate">
+                    Report Types
+                  </h1>
+                  <p className="header-subtitle truncate">
+                    Kinds of reports staff can create
+                  </p>
+                </div>
+              </div>
+            </div>
+            <button
+              onClick={openCreatePopup}
+              className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors"
+              title="New report type"
+            >
+              <Plus className="w-5 h-5 text-accent-400" />
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="mobile-container py-6 pb-24 space-y-3">
+        {reportTypes.map((reportType) => {
+          const Icon = getReportTypeIcon(reportType);
+          const color = getReportTypeColor(reportType);
+          const workflow = REPORT_WORKFLOWS.find(option => option.value === reportType.workflow);
+          return (
+            <div key={reportType.id} className={`gothic-card p-4 ${reportType.active ? '' : 'opacity-60'}`}>
+              <div className="flex items-center gap-3">
+                <div className={`w-8 h-8 border rounded-lg flex items-center justify-center flex-shrink-0 ${color.background}`}>
+                  <Icon className={`w-4 h-4 ${color.text}`} />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-gothic-100 font-medium text-sm truncate">{reportType.name}</h3>
+                    <span className="text-xs text-gothic-500 font-mono">{reportType.code}</span>
+                    {reportType.builtIn && <Lock className="w-3 h-3 text-gothic-500" />}
+                  </div>
+                  <div className="flex items-center gap-2 mt-1 flex-wrap">
+                    <span className="text-xs text-gothic-300">{workflow?.label}</span>
+                    {reportType.checklist && <span className="text-xs text-gothic-400">Checklist</span>}
+                    {reportType.photos && <span className="text-xs text-gothic-400">Photos</span>}
+                    {reportType.resolvable && <span className="text-xs text-gothic-400">Resolvable</span>}
+                    {reportType.fields.length > 0 && (
+                      <span className="text-xs text-gothic-400">
+                        {reportType.fields.length} {reportType.fields.length === 1 ? 'field' : 'fields'}
+                      </span>
+                    )}
+                    {!reportType.active && (
+                      <span className="text-xs text-red-400">Inactive</span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <button
+                    onClick={() => router.push(`/admin/report-types/${reportType.id}`)}
+                    className="w-7 h-7 bg-gothic-700 hover:bg-gothic-600 rounded flex items-center justify-center transition-colors"
+                    title="Custom fields"
+                  >
+                    <ListChecks className="w-3 h-3 text-gothic-300" />
+                  </button>
+                  <button
+                    onClick={() => openEditPopup(reportType)}
+                    className="w-7 h-7 bg-gothic-700 hover:bg-gothic-600 rounded flex items-center justify-center transition-colors"
+                  >
+                    <Edit className="w-3 h-3 text-accent-400" />
+                  </button>
+                  {!reportType.builtIn && (
+                    <button
+                      onClick={() => setDeletingType(reportType)}
+                      className="w-7 h-7 bg-gothic-700 hover:bg-gothic-600 rounded flex items-center justify-center transition-colors"
+                    >
+                      <Trash2 className="w-3 h-3 text-red-400" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          );
+        })}
+
+        <p className="text-xs text-gothic-500 px-1">
+          Built-in types can be renamed or deactivated but not deleted. Types already used by reports are deactivated instead of deleted.
+        </p>
+      </main>
+
+      {/* Create/Edit Report Type Popup */}
+      {showPopup && (
+        <div className="filter-popup" onClick={() => setShowPopup(false)}>
+          <div className="filter-content max-w-md" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center space-x-3">
+                <div className={`w-8 h-8 border rounded-lg flex items-center justify-center ${previewColor.background}`}>
+                  <PreviewIcon className={`w-4 h-4 ${previewColor.text}`} />
+                </div>
+                <h3 className="text-lg font-semibold text-gothic-100">
+                  {editingType ? 'Edit Report Type' : 'New Report Type'}
+                </h3>
+              </div>
+              <button onClick={() => setShowPopup(false)} className="text-gothic-400 hover:text-gothic-200">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Code</label>
+                  <input
+                    type="text"
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                    placeholder="TEMPERATURE"
+                    maxLength={30}
+                    disabled={Boolean(editingType)}
+                    className={`input-gothic w-full font-mono ${editingType ? 'opacity-50 cursor-not-allowed' : ''}`}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="Temperature"
+                    maxLength={100}
+                    className="input-gothic w-full"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gothic-300 mb-2">Description</label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="Fridge and freezer checks"
+                  maxLength={200}
+                  className="input-gothic w-full"
+                />
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Icon</label>
+                  <select
+                    value={form.icon}
+                    onChange={(e) => setForm({ ...form, icon: e.target.value })}
+                    className="input-gothic w-full"
+                  >
+                    {Object.keys(REPORT_TYPE_ICONS).map(icon => (
+                      <option key={icon} value={icon}>{icon}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Color</label>
+                  <select
+                    value={form.color}
+                    onChange={(e) => setForm({ ...form, color: e.target.value })}
+                    className="input-gothic w-full"
+                  >
+                    {Object.entries(REPORT_TYPE_COLORS).map(([key, color]) => (
+                      <option key={key} value={key}>{color.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Order</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={form.displayOrder}
+                    onChange={(e) => setForm({ ...form, displayOrder: e.target.value })}
+                    className="input-gothic w-full"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gothic-300 mb-2">Workflow</label>
+                <select
+                  value={form.workflow}
+                  onChange={(e) => setForm({ ...form, workflow: e.target.value as ReportWorkflow })}
+                  disabled={Boolean(editingType?.builtIn)}
+                  className={`input-gothic w-full ${editingType?.builtIn ? 'opacity-50 cursor-not-allowed' : ''}`}
+                >
+                  {REPORT_WORKFLOWS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-gothic-500 mt-1">
+                  {REPORT_WORKFLOWS.find(option => option.value === form.workflow)?.description}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                {FLAGS.map(flag => (
+                  <div key={flag.key} className="flex items-center">
+                    <input
+                      type="checkbox"
+                      id={flag.key}
+                      checked={form[flag.key]}
+                      disabled={flag.key === 'requireChecklist' && !form.checklist}
+                      onChange={(e) => setForm({ ...form, [flag.key]: e.target.checked })}
+                      className="w-4 h-4 text-accent-500 bg-gothic-800 border-gothic-600 rounded focus:ring-accent-500"
+                    />
+                    <label htmlFor={flag.key} className="ml-2 text-sm text-gothic-300">
+                      {flag.label}
+                    </label>
+                  </div>
+                ))}
+                <div className="flex items-center">
+                  <input
+                    type="checkbox"
+                    id="active"
+                    checked={form.active}
+                    onChange={(e) => setForm({ ...form, active: e.target.checked })}
+                    className="w-4 h-4 text-accent-500 bg-gothic-800 border-gothic-600 rounded focus:ring-accent-500"
+                  />
+                  <label htmlFor="active" className="ml-2 text-sm text-gothic-300">
+                    Staff can create this type
+                  </label>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex space-x-3 mt-6">
+              <button
+                onClick={() => setShowPopup(false)}
+                className="btn-secondary flex-1"
+                disabled={actionLoading}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="btn-primary flex-1"
+                disabled={actionLoading}
+              >
+                {actionLoading ? 'Saving...' : editingType ? 'Save Changes' : 'Create Type'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Popup */}
+      {deletingType && (
+        <div className="filter-popup" onClick={() => setDeletingType(null)}>
+          <div className="filter-content max-w-sm" onClick={(e) => e.stopPropagation()}>
+            <div className="text-center">
+              <div className="w-12 h-12 bg-red-500/20 rounded-xl flex items-center justify-center mx-auto mb-4">
+                <Trash2 className="w-6 h-6 text-red-400" />
+              </div>
+              <h3 className="text-lg font-semibold text-gothic-100 mb-2">Delete {deletingType.name}</h3>
+              <p className="text-gothic-400 text-sm mb-6">
+                Only types without reports, checklists or photo categories can be deleted.
+              </p>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setDeletingType(null)}
+                  className="btn-secondary flex-1"
+                  disabled={actionLoading}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="btn-error flex-1"
+                  disabled={actionLoading}
+                >
+                  {actionLoading ? 'Deleting...' : 'Delete'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
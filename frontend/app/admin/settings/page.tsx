@@ -4,11 +4,29 @@ import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/contexts/ToastContext';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
-import { ArrowLeft, Save, RefreshCw, Database, Shield, Upload, Settings, Bell, Globe, Lock } from 'lucide-react';
+import { ArrowLeft, Save, RefreshCw, Database, Shield, Upload, Settings, Bell, Globe, Lock, Clock, Play } from 'lucide-react';
 import Link from 'next/link';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import { adminAPI } from '@/lib/api';
 
+interface StockScheduleRun {
+  id: string;
+  stockDate: string;
+  status: 'SUCCESS' | 'FAILED' | 'SKIPPED';
+  catchUp: boolean;
+  itemCount: number;
+  message?: string | null;
+  startedAt: string;
+  outlet?: { id: string; code: string; name: string } | null;
+  report?: { id: string; title: string; status: string } | null;
+}
+
+const runStatusBadges: Record<StockScheduleRun['status'], string> = {
+  SUCCESS: 'badge-success',
+  FAILED: 'badge-error',
+  SKIPPED: 'badge-secondary'
+};
+
 export default function SettingsPage() {
   const { isAuthenticated, isAdmin, loading: authLoading } = useAuth();
   const { showToast } = useToast();
@@ -23,7 +41,13 @@ export default function SettingsPage() {
     enableNotifications: true,
     enableAutoBackup: true,
     backupFrequency: 'daily',
+    stockScheduleEnabled: false,
+    stockScheduleTime: '20:00',
+    stockCatchUpDays: 3,
+    olseraPushEnabled: false,
   });
+  const [scheduleRuns, setScheduleRuns] = useState<StockScheduleRun[]>([]);
+  const [runningSchedule, setRunningSchedule] = useState(false);
   const [saving, setSaving] = useState(false);
   const [hasChanges, setHasChanges] = useState(false);
   const [originalSettings, setOriginalSettings] = useState({...settings});
@@ -51,9 +75,14 @@ export default function SettingsPage() {
           enableNotifications: data.enableNotifications,
           enableAutoBackup: data.enableAutoBackup,
           backupFrequency: data.backupFrequency,
+          stockScheduleEnabled: data.stockScheduleEnabled,
+          stockScheduleTime: data.stockScheduleTime,
+          stockCatchUpDays: data.stockCatchUpDays,
+          olseraPushEnabled: data.olseraPushEnabled,
         };
         setSettings(formattedSettings);
         setOriginalSettings(formattedSettings);
+        fetchScheduleRuns();
       } catch (error) {
         console.error('Failed to fetch settings:', error);
         showToast({
@@ -72,6 +101,39 @@ export default function SettingsPage() {
     }
   }, [isAuthenticated, isAdmin, showToast]);
 
+  const fetchScheduleRuns = async () => {
+    try {
+      const response = await adminAPI.getStockScheduleRuns({ limit: 10 });
+      setScheduleRuns(response.data);
+    } catch (error) {
+      console.error('Failed to fetch stock schedule runs:', error);
+    }
+  };
+
+  const handleRunSchedule = async () => {
+    setRunningSchedule(true);
+    try {
+      const response = await adminAPI.runStockSchedule();
+      await fetchScheduleRuns();
+      showToast({
+        type: 'success',
+        title: 'Stock Schedule',
+        message: response.data.message,
+        duration: 4000
+      });
+    } catch (error) {
+      console.error('Failed to run stock schedule:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to create stock reports',
+        duration: 5000
+      });
+    } finally {
+      setRunningSchedule(false);
+    }
+  };
+
   useEffect(() => {
     // Check if settings have changed
     setHasChanges(JSON.stringify(settings) !== JSON.stringify(originalSettings));
@@ -273,6 +335,111 @@ export default function SettingsPage() {
             </div>
           </div>
 
+          {/* Stock Schedule Settings */}
+          <div>
+            <div className="flex items-center mb-3">
+              <Clock className="w-4 h-4 text-gothic-400 mr-2" />
+              <h2 className="text-sm font-medium text-gothic-300">Daily Stock Report</h2>
+            </div>
+            <div className="gothic-card p-4">
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gothic-100">Auto Create</p>
+                    <p className="text-xs text-gothic-400 mt-0.5">Pre-create each outlet's stock report with Olsera data</p>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.stockScheduleEnabled}
+                      onChange={(e) => setSettings({ ...settings, stockScheduleEnabled: e.target.checked })}
+                      className="sr-only peer"
+                    />
+                    <div className="w-10 h-5 bg-gothic-700 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-accent-500/20 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-accent-500"></div>
+                  </label>
+                </div>
+
+                {settings.stockScheduleEnabled && (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-xs font-medium text-gothic-400 mb-1">Time</label>
+                      <input
+                        type="time"
+                        value={settings.stockScheduleTime}
+                        onChange={(e) => setSettings({ ...settings, stockScheduleTime: e.target.value })}
+                        className="input-gothic w-full text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gothic-400 mb-1">Catch-up (days)</label>
+                      <input
+                        type="number"
+                        value={settings.stockCatchUpDays}
+                        onChange={(e) => setSettings({ ...settings, stockCatchUpDays: parseInt(e.target.value) || 0 })}
+                        className="input-gothic w-full text-sm"
+                        min="0"
+                        max="14"
+                      />
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gothic-100">Push Counts to Olsera</p>
+                    <p className="text-xs text-gothic-400 mt-0.5">Let admins send finalized counts to Olsera as stock opnames</p>
+                  </div>
+                  <label className="relative inline-flex items-center cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.olseraPushEnabled}
+                      onChange={(e) => setSettings({ ...settings, olseraPushEnabled: e.target.checked })}
+                      className="sr-only peer"
+                    />
+                    <div className="w-10 h-5 bg-gothic-700 peer-focus:outline-none peer-focus:ring-2 peer-focus:ring-accent-500/20 rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:rounded-full after:h-4 after:w-4 after:transition-all peer-checked:bg-accent-500"></div>
+                  </label>
+                </div>
+
+                <div className="pt-3 border-t border-gothic-700">
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-xs font-medium text-gothic-400">Recent Runs</p>
+                    <button
+                      onClick={handleRunSchedule}
+                      disabled={runningSchedule}
+                      className="text-xs text-accent-400 hover:text-accent-300 transition-colors flex items-center disabled:opacity-50"
+                    >
+                      <Play className="w-3 h-3 mr-1" />
+                      {runningSchedule ? 'Running...' : 'Run now'}
+                    </button>
+                  </div>
+                  {scheduleRuns.length === 0 ? (
+                    <p className="text-xs text-gothic-500">No runs yet</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {scheduleRuns.map((run) => (
+                        <div key={run.id} className="flex items-start justify-between gap-3 text-xs">
+                          <div className="min-w-0">
+                            <p className="text-gothic-200">
+                              {new Date(run.stockDate).toLocaleDateString()}
+                              {run.outlet && <span className="text-gothic-500"> · {run.outlet.code}</span>}
+                              {run.catchUp && <span className="text-gothic-500"> · catch-up</span>}
+                            </p>
+                            <p className="text-gothic-500 truncate">
+                              {run.message || `${run.itemCount} items`}
+                            </p>
+                          </div>
+                          <span className={`badge-small ${runStatusBadges[run.status]} flex-shrink-0`}>
+                            {run.status.toLowerCase()}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              </div>
+            </div>
+          </div>
+
           {/* Backup Settings */}
           <div>
             <div className="flex items-center mb-3">
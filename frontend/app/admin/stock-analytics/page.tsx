@@ -0,0 +1,409 @@
+'use client';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useOutlet } from '@/contexts/OutletContext';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { ArrowLeft, LineChart, X, ExternalLink, AlertTriangle } from 'lucide-react';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import OutletSelector from '@/components/ui/OutletSelector';
+import AuthenticatedImage from '@/components/ui/AuthenticatedImage';
+import VarianceChart, { VariancePoint } from '@/components/ui/VarianceChart';
+import { adminAPI } from '@/lib/api';
+import { stockAPI, formatCurrency } from '@/lib/stockApi';
+
+type Granularity = 'day' | 'week' | 'month';
+
+interface ProductTrend {
+  key: string;
+  productId: string;
+  variantId?: string | null;
+  productName: string;
+  variantName?: string | null;
+  unit: string;
+  series: VariancePoint[];
+  totalDifference: number;
+  totalValue: number;
+  averageDifference: number;
+  bias: 'SHORTAGE' | 'SURPLUS' | null;
+}
+
+interface VarianceTrends {
+  granularity: Granularity;
+  window: number;
+  periods: string[];
+  overall: VariancePoint[];
+  products: ProductTrend[];
+}
+
+interface VarianceHistoryItem {
+  id: string;
+  actualClosing: number | null;
+  difference: number | null;
+  unitCost?: number | null;
+  photoId?: string | null;
+  notes?: string | null;
+  counts: Array<{
+    id: string;
+    actualClosing: number;
+    difference?: number | null;
+    photoId?: string | null;
+    isRecount: boolean;
+    createdAt: string;
+  }>;
+  stockReport: {
+    stockDate: string;
+    reportId: string;
+    report: {
+      id: string;
+      title: string;
+      user?: { id: string; name: string } | null;
+      outlet?: { id: string; code: string; name: string } | null;
+    };
+  };
+}
+
+const granularityOptions: Array<{ value: Granularity; label: string; window: number }> = [
+  { value: 'day', label: 'Daily', window: 7 },
+  { value: 'week', label: 'Weekly', window: 4 },
+  { value: 'month', label: 'Monthly', window: 3 }
+];
+
+const rangeDays: Record<Granularity, number> = {
+  day: 30,
+  week: 84,
+  month: 365
+};
+
+export default function StockAnalyticsPage() {
+  const { isAuthenticated, isAdmin, loading: authLoading } = useAuth();
+  const { showToast } = useToast();
+  const { selectedOutletId } = useOutlet();
+  const router = useRouter();
+  const [trends, setTrends] = useState<VarianceTrends | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  const [biasOnly, setBiasOnly] = useState(false);
+  const [selectedProduct, setSelectedProduct] = useState<ProductTrend | null>(null);
+  const [history, setHistory] = useState<VarianceHistoryItem[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    } else if (!authLoading && !isAdmin) {
+      router.push('/dashboard');
+    }
+  }, [isAuthenticated, isAdmin, authLoading, router]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchTrends();
+    }
+  }, [isAdmin, selectedOutletId, granularity]);
+
+  const getRangeParams = () => {
+    const to = new Date();
+    const from = new Date(to.getTime() - (rangeDays[granularity] - 1) * 24 * 60 * 60 * 1000);
+    const params: any = {
+      from: from.toISOString().split('T')[0],
+      to: to.toISOString().split('T')[0]
+    };
+    if (selectedOutletId) params.outletId = selectedOutletId;
+    return params;
+  };
+
+  const fetchTrends = async () => {
+    try {
+      setLoading(true);
+      const option = granularityOptions.find(item => item.value === granularity);
+      const response = await adminAPI.getVarianceTrends({
+        ...getRangeParams(),
+        granularity,
+        window: option?.window
+      });
+      setTrends(response.data);
+    } catch (error) {
+      console.error('Failed to fetch variance trends:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load variance trends',
+        duration: 5000
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openProduct = async (product: ProductTrend) => {
+    setSelectedProduct(product);
+    setHistory([]);
+    try {
+      setHistoryLoading(true);
+      const response = await adminAPI.getVarianceTrendItems({
+        ...getRangeParams(),
+        productId: product.productId,
+        variantId: product.variantId || undefined
+      });
+      setHistory(response.data.items);
+    } catch (error) {
+      console.error('Failed to fetch variance history:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load stock counts for this product',
+        duration: 5000
+      });
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  if (authLoading || (loading && !trends)) {
+    return (
+      <div className="min-h-screen bg-gothic-900 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !isAdmin) {
+    return null;
+  }
+
+  const products = (trends?.products || []).filter(product => !biasOnly || product.bias);
+  const biasCount = (trends?.products || []).filter(product => product.bias).length;
+  const overallValue = (trends?.overall || []).reduce((sum, point) => sum + point.value, 0);
+
+  return (
+    <div className="min-h-screen bg-gothic-900">
+      {/* Header */}
+      <header className="mobile-header">
+        <div className="mobile-container">
+          <div className="flex justify-between items-center h-20">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => window.history.back()}
+                  className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors"
+                >
+                  <ArrowLeft className="w-5 h-5 text-gothic-300" />
+                </button>
+                <div className="w-10 h-10 bg-accent-gradient rounded-xl flex items-center justify-center shadow-lg">
+                  <LineChart className="w-6 h-6 text-white" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h1 className="header-title truncate">
+                    Variance Trends
+                  </h1>
+                  <p className="header-subtitle truncate">
+                    Stock count differences over time
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="mobile-container py-6 pb-24 space-y-6">
+        <OutletSelector />
+
+        {/* Granularity */}
+        <div className="grid grid-cols-3 gap-2">
+          {granularityOptions.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => setGranularity(option.value)}
+              className={`filter-option justify-center text-xs ${
+                granularity === option.value ? 'filter-option-active' : 'filter-option-inactive'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Overall */}
+        {trends && (
+          <div className="gothic-card p-4">
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-sm font-medium text-gothic-100">All Products</h2>
+              <span className={`text-sm font-medium ${overallValue < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                {formatCurrency(overallValue)}
+              </span>
+            </div>
+            {trends.overall.length > 0 ? (
+              <VarianceChart points={trends.overall} periods={trends.periods} height={100} />
+            ) : (
+              <p className="text-xs text-gothic-400">No counted stock items in this range.</p>
+            )}
+            <p className="text-xs text-gothic-500 mt-2">
+              Last {rangeDays[granularity]} days · line shows the {trends.window}-period rolling average
+            </p>
+          </div>
+        )}
+
+        {/* Bias filter */}
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gothic-400">
+            {biasCount} product(s) with a persistent bias
+          </p>
+          <button
+            onClick={() => setBiasOnly(!biasOnly)}
+            className={`badge-small ${biasOnly ? 'badge-warning' : 'badge-secondary'}`}
+          >
+            {biasOnly ? 'Showing biased only' : 'Show biased only'}
+          </button>
+        </div>
+
+        {/* Products */}
+        <div className="space-y-3">
+          {products.map((product) => (
+            <div
+              key={product.key}
+              onClick={() => openProduct(product)}
+              className="gothic-card p-4 cursor-pointer active:scale-95 transition-all duration-200"
+            >
+              <div className="flex items-start justify-between gap-3 mb-2">
+                <div className="min-w-0 flex-1">
+                  <h3 className="text-gothic-100 font-medium text-sm">
+                    {product.productName}
+                    {product.variantName && (
+                      <span className="text-gothic-400 font-normal"> – {product.variantName}</span>
+                    )}
+                  </h3>
+                  <p className="text-xs text-gothic-400 mt-1">
+                    Avg {product.averageDifference.toFixed(1)}{product.unit} over {product.series.length} period(s)
+                  </p>
+                </div>
+                <div className="text-right flex-shrink-0">
+                  <p className={`text-sm font-medium ${product.totalValue < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                    {formatCurrency(product.totalValue)}
+                  </p>
+                  {product.bias && (
+                    <span className={`badge-small ${product.bias === 'SHORTAGE' ? 'badge-warning' : 'badge-success'}`}>
+                      {product.bias === 'SHORTAGE' ? 'Persistent shortage' : 'Persistent surplus'}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <VarianceChart points={product.series} periods={trends?.periods} />
+            </div>
+          ))}
+        </div>
+
+        {products.length === 0 && (
+          <div className="gothic-card p-12 text-center">
+            <div className="w-12 h-12 bg-gothic-700 rounded-xl flex items-center justify-center mx-auto mb-4">
+              <LineChart className="w-6 h-6 text-gothic-400" />
+            </div>
+            <h3 className="text-sm font-medium text-gothic-300">
+              {biasOnly ? 'No products with a persistent bias' : 'No variances recorded yet'}
+            </h3>
+          </div>
+        )}
+      </main>
+
+      {/* Product Drill-down Popup */}
+      {selectedProduct && (
+        <div className="filter-popup" onClick={() => setSelectedProduct(null)}>
+          <div className="filter-content max-w-md max-h-[85vh] overflow-y-auto" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-8 h-8 bg-accent-500/20 rounded-lg flex items-center justify-center">
+                  <LineChart className="w-4 h-4 text-accent-400" />
+                </div>
+                <div>
+                  <h3 className="text-lg font-semibold text-gothic-100">{selectedProduct.productName}</h3>
+                  <p className="text-xs text-gothic-400">
+                    {selectedProduct.variantName || 'Stock counts in range'}
+                  </p>
+                </div>
+              </div>
+              <button onClick={() => setSelectedProduct(null)} className="text-gothic-400 hover:text-gothic-200">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {historyLoading ? (
+              <div className="flex justify-center py-8">
+                <LoadingSpinner size="md" />
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {history.map((item) => {
+                  const photoIds = Array.from(new Set(
+                    [...item.counts.map(count => count.photoId), item.photoId].filter(Boolean) as string[]
+                  ));
+                  return (
+                    <div key={item.id} className="bg-gothic-800 rounded-lg p-3">
+                      <div className="flex items-start justify-between gap-3 mb-2">
+                        <div className="min-w-0">
+                          <p className="text-sm text-gothic-200">
+                            {new Date(item.stockReport.stockDate).toLocaleDateString()}
+                            {item.stockReport.report.outlet && (
+                              <span className="text-gothic-500"> · {item.stockReport.report.outlet.code}</span>
+                            )}
+                          </p>
+                          <p className="text-xs text-gothic-500 truncate">
+                            {item.stockReport.report.user?.name || 'Unknown'}
+                          </p>
+                        </div>
+                        <div className="text-right flex-shrink-0">
+                          <p className={`text-sm font-medium ${(item.difference || 0) < 0 ? 'text-red-400' : 'text-green-400'}`}>
+                            {item.difference !== null ? `${item.difference > 0 ? '+' : ''}${item.difference.toFixed(1)}${selectedProduct.unit}` : '—'}
+                          </p>
+                          {item.difference !== null && item.unitCost != null && (
+                            <p className="text-xs text-gothic-400">{formatCurrency(item.difference * item.unitCost)}</p>
+                          )}
+                        </div>
+                      </div>
+
+                      {item.counts.some(count => count.isRecount) && (
+                        <p className="text-xs text-warning flex items-center mb-2">
+                          <AlertTriangle className="w-3 h-3 mr-1" />
+                          Recounted
+                        </p>
+                      )}
+                      {item.notes && (
+                        <p className="text-xs text-gothic-400 mb-2">{item.notes}</p>
+                      )}
+
+                      {photoIds.length > 0 && (
+                        <div className="grid grid-cols-3 gap-2 mb-2">
+                          {photoIds.map((photoId) => (
+                            <AuthenticatedImage
+                              key={photoId}
+                              src={stockAPI.getPhotoUrl(photoId)}
+                              alt="Scale photo"
+                              className="w-full h-20 object-cover rounded"
+                            />
+                          ))}
+                        </div>
+                      )}
+
+                      <button
+                        onClick={() => router.push(`/reports/${item.stockReport.report.id}`)}
+                        className="text-xs text-accent-400 flex items-center"
+                      >
+                        <ExternalLink className="w-3 h-3 mr-1" />
+                        Open report
+                      </button>
+                    </div>
+                  );
+                })}
+
+                {history.length === 0 && (
+                  <p className="text-xs text-gothic-400 text-center py-4">No counts found in this range.</p>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
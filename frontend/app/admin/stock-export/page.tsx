@@ -0,0 +1,226 @@
+'use client';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useOutlet } from '@/contexts/OutletContext';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { ArrowLeft, Download, FileSpreadsheet } from 'lucide-react';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import OutletSelector from '@/components/ui/OutletSelector';
+import { adminAPI } from '@/lib/api';
+
+type ExportFormat = 'csv' | 'xlsx';
+
+interface ProductGroup {
+  id: string;
+  name: string;
+}
+
+const formatOptions: { value: ExportFormat; label: string }[] = [
+  { value: 'xlsx', label: 'Excel (XLSX)' },
+  { value: 'csv', label: 'CSV' }
+];
+
+const toDateInput = (date: Date) => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+export default function StockExportPage() {
+  const { isAuthenticated, isAdmin, loading: authLoading } = useAuth();
+  const { showToast } = useToast();
+  const { selectedOutletId } = useOutlet();
+  const router = useRouter();
+  const [groups, setGroups] = useState<ProductGroup[]>([]);
+  // Defaults to the current month so far
+  const [from, setFrom] = useState(() => {
+    const today = new Date();
+    return toDateInput(new Date(today.getFullYear(), today.getMonth(), 1));
+  });
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+  const [groupId, setGroupId] = useState('');
+  const [format, setFormat] = useState<ExportFormat>('xlsx');
+  const [downloading, setDownloading] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    } else if (!authLoading && !isAdmin) {
+      router.push('/dashboard');
+    }
+  }, [isAuthenticated, isAdmin, authLoading, router]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchGroups();
+    }
+  }, [isAdmin]);
+
+  const fetchGroups = async () => {
+    try {
+      const response = await adminAPI.getProductGroups();
+      setGroups(response.data);
+    } catch (error) {
+      console.error('Failed to fetch product groups:', error);
+    }
+  };
+
+  const handleDownload = async () => {
+    if (from > to) {
+      showToast({
+        type: 'error',
+        title: 'Invalid date range',
+        message: 'The start date must be before the end date',
+        duration: 3000
+      });
+      return;
+    }
+
+    try {
+      setDownloading(true);
+      const params: any = { from, to, format };
+      if (selectedOutletId) params.outletId = selectedOutletId;
+      if (groupId) params.groupId = groupId;
+
+      const response = await adminAPI.exportStock(params);
+      const url = URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `stock-${from}-to-${to}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export stock counts:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to export stock counts',
+        duration: 5000
+      });
+    } finally {
+      setDownloading(false);
+    }
+  };
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gothic-900 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gothic-900">
+      {/* Header */}
+      <header className="mobile-header">
+        <div className="mobile-container">
+          <div className="flex justify-between items-center h-20">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => window.history.back()}
+                  className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors"
+                >
+                  <ArrowLeft className="w-5 h-5 text-gothic-300" />
+                </button>
+                <div className="w-10 h-10 bg-accent-gradient rounded-xl flex items-center justify-center shadow-lg">
+                  <FileSpreadsheet className="w-6 h-6 text-white" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h1 className="header-title truncate">
+                    Stock Export
+                  </h1>
+                  <p className="header-subtitle truncate">
+                    Stock counts per product per day
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="mobile-container py-6 pb-24 space-y-6">
+        <OutletSelector />
+
+        <div className="gothic-card p-4 space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-xs font-medium text-gothic-400 mb-1">From</label>
+              <input
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                className="input-gothic w-full text-sm"
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-gothic-400 mb-1">To</label>
+              <input
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                className="input-gothic w-full text-sm"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gothic-400 mb-1">Product Group</label>
+            <select
+              value={groupId}
+              onChange={(e) => setGroupId(e.target.value)}
+              className="input-gothic w-full text-sm"
+            >
+              <option value="">All groups</option>
+              {groups.map((group) => (
+                <option key={group.id} value={group.id}>{group.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gothic-400 mb-1">Format</label>
+            <div className="grid grid-cols-2 gap-2">
+              {formatOptions.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setFormat(option.value)}
+                  className={`filter-option justify-center text-xs ${
+                    format === option.value ? 'filter-option-active' : 'filter-option-inactive'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={handleDownload}
+            disabled={downloading || !from || !to}
+            className="btn-primary w-full flex items-center justify-center"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            {downloading ? 'Preparing...' : 'Download'}
+          </button>
+        </div>
+
+        <p className="text-xs text-gothic-500">
+          One row per product per day with opening, movements, actual count, difference, unit,
+          who counted it and a link to the scale photo. Photo links expire after 7 days by default.
+        </p>
+      </main>
+    </div>
+  );
+}
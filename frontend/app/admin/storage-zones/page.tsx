@@ -0,0 +1,410 @@
+'use client';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import { Plus, Edit, Trash2, ArrowLeft, MapPin, X, Package, Printer } from 'lucide-react';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { adminAPI, printProductLabels } from '@/lib/api';
+
+interface StorageZone {
+  id: string;
+  name: string;
+  displayOrder: number;
+  active: boolean;
+  _count: {
+    products: number;
+  };
+}
+
+const emptyForm = {
+  name: '',
+  displayOrder: 0,
+  active: true
+};
+
+export default function StorageZonesPage() {
+  const { isAuthenticated, isAdmin, loading: authLoading } = useAuth();
+  const { showToast } = useToast();
+  const router = useRouter();
+  const [zones, setZones] = useState<StorageZone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showPopup, setShowPopup] = useState(false);
+  const [editingZone, setEditingZone] = useState<StorageZone | null>(null);
+  const [deletingZoneId, setDeletingZoneId] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    } else if (!authLoading && !isAdmin) {
+      router.push('/dashboard');
+    }
+  }, [isAuthenticated, isAdmin, authLoading, router]);
+
+  useEffect(() => {
+    if (isAdmin) {
+      fetchZones();
+    }
+  }, [isAdmin]);
+
+  const fetchZones = async () => {
+    try {
+      setLoading(true);
+      const response = await adminAPI.getStorageZones();
+      setZones(response.data);
+    } catch (error) {
+      console.error('Failed to fetch storage zones:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load storage zones',
+        duration: 5000
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const sortZones = (list: StorageZone[]) =>
+    [...list].sort((a, b) => a.displayOrder - b.displayOrder || a.name.localeCompare(b.name));
+
+  const openCreatePopup = () => {
+    setEditingZone(null);
+    setForm({
+      ...emptyForm,
+      displayOrder: zones.length > 0 ? Math.max(...zones.map(zone => zone.displayOrder)) + 1 : 0
+    });
+    setShowPopup(true);
+  };
+
+  const openEditPopup = (zone: StorageZone) => {
+    setEditingZone(zone);
+    setForm({
+      name: zone.name,
+      displayOrder: zone.displayOrder,
+      active: zone.active
+    });
+    setShowPopup(true);
+  };
+
+  const handleSave = async () => {
+    if (!form.name.trim()) {
+      showToast({
+        type: 'error',
+        title: 'Validation Error',
+        message: 'Name is required',
+        duration: 4000
+      });
+      return;
+    }
+
+    try {
+      setActionLoading(true);
+      const data = { ...form, name: form.name.trim() };
+      const response = editingZone
+        ? await adminAPI.updateStorageZone(editingZone.id, data)
+        : await adminAPI.createStorageZone(data);
+
+      setZones(prev => sortZones(editingZone
+        ? prev.map(item => item.id === editingZone.id ? response.data : item)
+        : [...prev, response.data]));
+      setShowPopup(false);
+
+      showToast({
+        type: 'success',
+        title: editingZone ? 'Zone Updated' : 'Zone Created',
+        message: `${response.data.name} has been saved`,
+        duration: 4000
+      });
+    } catch (error: any) {
+      console.error('Failed to save storage zone:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to save storage zone. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handlePrintLabels = async (zone: StorageZone) => {
+    try {
+      await printProductLabels({ zoneId: zone.id });
+    } catch (error: any) {
+      console.error('Failed to print labels:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.status === 404
+          ? `${zone.name} has no counted products`
+          : 'Failed to create shelf labels. Please try again.',
+        duration: 5000
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deletingZoneId) return;
+
+    try {
+      setActionLoading(true);
+      await adminAPI.deleteStorageZone(deletingZoneId);
+      setZones(prev => prev.filter(item => item.id !== deletingZoneId));
+      setDeletingZoneId(null);
+
+      showToast({
+        type: 'success',
+        title: 'Zone Deleted',
+        duration: 4000
+      });
+    } catch (error: any) {
+      console.error('Failed to delete storage zone:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to delete storage zone. Please try again.',
+        duration: 5000
+      });
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-gothic-900 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated || !isAdmin) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gothic-900">
+      {/* Header */}
+      <header className="mobile-header">
+        <div className="mobile-container">
+          <div className="flex justify-between items-center h-20">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => window.history.back()}
+                  className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors"
+                >
+                  <ArrowLeft className="w-5 h-5 text-gothic-300" />
+                </button>
+                <div className="w-10 h-10 bg-accent-gradient rounded-xl flex items-center justify-center shadow-lg">
+                  <MapPin className="w-6 h-6 text-white" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h1 className="header-title truncate">
+                    Storage Zones
+                  </h1>
+                  <p className="header-subtitle truncate">
+                    Walking order for stock counts
+                  </p>
+                </div>
+              </div>
+            </div>
+            <button
+              onClick={openCreatePopup}
+              className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors"
+              title="New zone"
+            >
+              <Plus className="w-5 h-5 text-accent-400" />
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="mobile-container py-6 pb-24 space-y-3">
+        {zones.map((zone, index) => (
+          <div key={zone.id} className={`gothic-card p-4 ${zone.active ? '' : 'opacity-60'}`}>
+            <div className="flex items-center gap-3">
+              <div className="w-8 h-8 bg-gothic-700 rounded-lg flex items-center justify-center flex-shrink-0 text-xs font-semibold text-gothic-300">
+                {index + 1}
+              </div>
+              <div className="flex-1 min-w-0">
+                <h3 className="text-gothic-100 font-medium text-sm">{zone.name}</h3>
+                <div className="flex items-center gap-2 mt-1">
+                  <span className="text-xs text-gothic-400 flex items-center gap-1">
+                    <Package className="w-3 h-3" />
+                    {zone._count.products} products
+                  </span>
+                  <span className="text-xs text-gothic-500">Order {zone.displayOrder}</span>
+                  {!zone.active && (
+                    <span className="text-xs text-red-400">Inactive</span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-2 flex-shrink-0">
+                {zone._count.products > 0 && (
+                  <button
+                    onClick={() => handlePrintLabels(zone)}
+                    className="w-7 h-7 bg-gothic-700 hover:bg-gothic-600 rounded flex items-center justify-center transition-colors"
+                    title="Print shelf labels"
+                  >
+                    <Printer className="w-3 h-3 text-gothic-300" />
+                  </button>
+                )}
+                <button
+                  onClick={() => openEditPopup(zone)}
+                  className="w-7 h-7 bg-gothic-700 hover:bg-gothic-600 rounded flex items-center justify-center transition-colors"
+                >
+                  <Edit className="w-3 h-3 text-accent-400" />
+                </button>
+                <button
+                  onClick={() => setDeletingZoneId(zone.id)}
+                  className="w-7 h-7 bg-gothic-700 hover:bg-gothic-600 rounded flex items-center justify-center transition-colors"
+                >
+                  <Trash2 className="w-3 h-3 text-red-400" />
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+
+        {zones.length === 0 ? (
+          <div className="gothic-card p-12 text-center">
+            <div className="w-12 h-12 bg-gothic-700 rounded-xl flex items-center justify-center mx-auto mb-4">
+              <MapPin className="w-6 h-6 text-gothic-400" />
+            </div>
+            <h3 className="text-sm font-medium text-gothic-300 mb-2">No storage zones yet</h3>
+            <p className="text-xs text-gothic-400 mb-6">
+              Add the places staff walk through, such as the chiller, the dry store and the bar
+            </p>
+            <button onClick={openCreatePopup} className="btn-primary">
+              <Plus className="w-5 h-5 mr-2" />
+              New Zone
+            </button>
+          </div>
+        ) : (
+          <p className="text-xs text-gothic-500 px-1">
+            Assign products to a zone and set their order within it in the product catalog.
+          </p>
+        )}
+      </main>
+
+      {/* Create/Edit Zone Popup */}
+      {showPopup && (
+        <div className="filter-popup" onClick={() => setShowPopup(false)}>
+          <div className="filter-content max-w-md" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center space-x-3">
+                <div className="w-8 h-8 bg-accent-500/20 rounded-lg flex items-center justify-center">
+                  {editingZone ? <Edit className="w-4 h-4 text-accent-400" /> : <Plus className="w-4 h-4 text-accent-400" />}
+                </div>
+                <h3 className="text-lg font-semibold text-gothic-100">
+                  {editingZone ? 'Edit Zone' : 'New Zone'}
+                </h3>
+              </div>
+              <button onClick={() => setShowPopup(false)} className="text-gothic-400 hover:text-gothic-200">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div className="col-span-2">
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="Chiller"
+                    maxLength={100}
+                    className="input-gothic w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">Order</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={form.displayOrder}
+                    onChange={(e) => setForm({ ...form, displayOrder: parseInt(e.target.value) || 0 })}
+                    className="input-gothic w-full"
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center">
+                <input
+                  type="checkbox"
+                  id="active"
+                  checked={form.active}
+                  onChange={(e) => setForm({ ...form, active: e.target.checked })}
+                  className="w-4 h-4 text-accent-500 bg-gothic-800 border-gothic-600 rounded focus:ring-accent-500"
+                />
+                <label htmlFor="active" className="ml-2 text-sm text-gothic-300">
+                  Active zone
+                </label>
+              </div>
+              <p className="text-xs text-gothic-500">
+                Products in an inactive zone are counted with the unassigned products.
+              </p>
+            </div>
+
+            <div className="flex space-x-3 mt-6">
+              <button
+                onClick={() => setShowPopup(false)}
+                className="btn-secondary flex-1"
+                disabled={actionLoading}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                className="btn-primary flex-1"
+                disabled={actionLoading}
+              >
+                {actionLoading ? 'Saving...' : editingZone ? 'Save Changes' : 'Create Zone'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Delete Confirmation Popup */}
+      {deletingZoneId && (
+        <div className="filter-popup" onClick={() => setDeletingZoneId(null)}>
+          <div className="filter-content max-w-sm" onClick={(e) => e.stopPropagation()}>
+            <div className="text-center">
+              <div className="w-12 h-12 bg-red-500/20 rounded-xl flex items-center justify-center mx-auto mb-4">
+                <Trash2 className="w-6 h-6 text-red-400" />
+              </div>
+              <h3 className="text-lg font-semibold text-gothic-100 mb-2">Delete Zone</h3>
+              <p className="text-gothic-400 text-sm mb-6">
+                Its products are kept but no longer assigned to a zone.
+              </p>
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => setDeletingZoneId(null)}
+                  className="btn-secondary flex-1"
+                  disabled={actionLoading}
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleDelete}
+                  className="btn-error flex-1"
+                  disabled={actionLoading}
+                >
+                  {actionLoading ? 'Deleting...' : 'Delete'}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
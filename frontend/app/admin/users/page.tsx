@@ -2,9 +2,10 @@
 
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/contexts/ToastContext';
+import { useOutlet } from '@/contexts/OutletContext';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
-import { Plus, Search, Edit, Trash2, Shield, User, ArrowLeft, X, SlidersHorizontal, Mail, Lock, UserPlus } from 'lucide-react';
+import { Plus, Search, Edit, Trash2, Shield, User, ArrowLeft, X, SlidersHorizontal, Mail, Lock, UserPlus, Store } from 'lucide-react';
 import Link from 'next/link';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import { adminAPI } from '@/lib/api';
@@ -17,6 +18,11 @@ interface User {
   email?: string;
   lastLogin?: string;
   createdAt: string;
+  outlets?: Array<{
+    id: string;
+    code: string;
+    name: string;
+  }>;
   _count?: {
     reports: number;
   };
@@ -25,6 +31,7 @@ interface User {
 export default function UsersPage() {
   const { isAuthenticated, isAdmin, loading: authLoading } = useAuth();
   const { showToast } = useToast();
+  const { outlets } = useOutlet();
   const router = useRouter();
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
@@ -44,14 +51,16 @@ export default function UsersPage() {
     name: '',
     email: '',
     password: '',
-    role: 'USER' as 'USER' | 'ADMIN'
+    role: 'USER' as 'USER' | 'ADMIN',
+    outletIds: [] as string[]
   });
   const [editUser, setEditUser] = useState({
     username: '',
     name: '',
     email: '',
     password: '',
-    role: 'USER' as 'USER' | 'ADMIN'
+    role: 'USER' as 'USER' | 'ADMIN',
+    outletIds: [] as string[]
   });
   const [formErrors, setFormErrors] = useState<{[key: string]: string}>({});
 
@@ -92,13 +101,19 @@ export default function UsersPage() {
 
   const hasActiveFilters = search || roleFilter;
 
+  const toggleOutletId = (outletIds: string[], outletId: string) =>
+    outletIds.includes(outletId)
+      ? outletIds.filter(id => id !== outletId)
+      : [...outletIds, outletId];
+
   const openAddUserPopup = () => {
     setNewUser({
       username: '',
       name: '',
       email: '',
       password: '',
-      role: 'USER'
+      role: 'USER',
+      outletIds: []
     });
     setFormErrors({});
     setShowAddUserPopup(true);
@@ -116,7 +131,8 @@ export default function UsersPage() {
       name: user.name,
       email: user.email || '',
       password: '',
-      role: user.role
+      role: user.role,
+      outletIds: (user.outlets || []).map(outlet => outlet.id)
     });
     setFormErrors({});
     setShowEditUserPopup(true);
@@ -204,7 +220,8 @@ export default function UsersPage() {
         username: newUser.username,
         name: newUser.name,
         password: newUser.password,
-        role: newUser.role
+        role: newUser.role,
+        outletIds: newUser.outletIds
       };
       const response = await adminAPI.createUser(userData);
       const createdUser = response.data.user || response.data;
@@ -246,7 +263,8 @@ export default function UsersPage() {
       // Only send fields that are supported by backend
       const updateData: any = {
         name: editUser.name,
-        role: editUser.role
+        role: editUser.role,
+        outletIds: editUser.outletIds
       };
       if (editUser.password) {
         updateData.password = editUser.password;
@@ -442,6 +460,14 @@ export default function UsersPage() {
                         <span className="text-gothic-500">Reports:</span>
                         <span className="text-gothic-300 ml-1">{user._count?.reports || 0}</span>
                       </div>
+                      {user.outlets && user.outlets.length > 0 && (
+                        <div>
+                          <span className="text-gothic-500">Outlets:</span>
+                          <span className="text-gothic-300 ml-1">
+                            {user.outlets.map(outlet => outlet.code).join(', ')}
+                          </span>
+                        </div>
+                      )}
                       <div>
                         <span className="text-gothic-500">Created:</span>
                         <span className="text-gothic-300 ml-1">
@@ -751,6 +777,34 @@ export default function UsersPage() {
                   })}
                 </div>
               </div>
+
+              {outlets.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-gothic-300 mb-2">
+                    Outlets
+                  </label>
+                  <div className="space-y-1">
+                    {outlets.map((outlet) => (
+                      <div
+                        key={outlet.id}
+                        onClick={() => setNewUser(prev => ({ ...prev, outletIds: toggleOutletId(prev.outletIds, outlet.id) }))}
+                        className={`filter-option py-2 px-3 ${
+                          newUser.outletIds.includes(outlet.id) ? 'filter-option-active' : 'filter-option-inactive'
+                        }`}
+                      >
+                        <Store className={`w-3 h-3 ${
+                          newUser.outletIds.includes(outlet.id) ? 'text-accent-400' : 'text-gothic-400'
+                        }`} />
+                        <span className={`text-xs ${
+                          newUser.outletIds.includes(outlet.id) ? 'text-accent-400' : 'text-gothic-300'
+                        }`}>
+                          {outlet.name}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Actions */}
@@ -915,6 +969,34 @@ export default function UsersPage() {
                   })}
                 </div>
               </div>
+
+              {outlets.length > 0 && (
+                <div>
+                  <label className="block text-xs font-medium text-gothic-300 mb-1">
+                    Outlets
+                  </label>
+                  <div className="space-y-1">
+                    {outlets.map((outlet) => (
+                      <div
+                        key={outlet.id}
+                        onClick={() => setEditUser(prev => ({ ...prev, outletIds: toggleOutletId(prev.outletIds, outlet.id) }))}
+                        className={`filter-option py-2 px-3 ${
+                          editUser.outletIds.includes(outlet.id) ? 'filter-option-active' : 'filter-option-inactive'
+                        }`}
+                      >
+                        <Store className={`w-3 h-3 ${
+                          editUser.outletIds.includes(outlet.id) ? 'text-accent-400' : 'text-gothic-400'
+                        }`} />
+                        <span className={`text-xs ${
+                          editUser.outletIds.includes(outlet.id) ? 'text-accent-400' : 'text-gothic-300'
+                        }`}>
+                          {outlet.name}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Actions */}
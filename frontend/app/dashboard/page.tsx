@@ -3,25 +3,40 @@
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
-import { Plus, FileText, AlertTriangle, Package, CheckCircle } from 'lucide-react';
+import { Plus, FileText, AlertTriangle, Package, CheckCircle, Clock, Trash2, Users } from 'lucide-react';
 import Link from 'next/link';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import OutletSelector from '@/components/ui/OutletSelector';
 import { reportsAPI } from '@/lib/api';
+import { stockAPI, ScheduledStockReport, OpenStockCount } from '@/lib/stockApi';
+import { useOutlet } from '@/contexts/OutletContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useReportTypes, getReportTypeIcon, getReportTypeColor } from '@/lib/reportTypes';
 
 interface Report {
   id: string;
-  type: 'OPENING' | 'CLOSING' | 'PROBLEM' | 'STOCK';
+  type: string;
   title: string;
   status: 'DRAFT' | 'SUBMITTED' | 'RESOLVED';
   createdAt: string;
   submittedAt?: string;
   resolvedAt?: string;
+  outlet?: {
+    id: string;
+    name: string;
+  } | null;
 }
 
 export default function DashboardPage() {
   const { isAuthenticated, user, loading: authLoading, isAdmin } = useAuth();
+  const { selectedOutletId } = useOutlet();
+  const { showToast } = useToast();
+  const { activeTypes, getReportType, getLabel } = useReportTypes();
   const router = useRouter();
   const [reports, setReports] = useState<Report[]>([]);
+  const [scheduledReports, setScheduledReports] = useState<ScheduledStockReport[]>([]);
+  const [openCounts, setOpenCounts] = useState<OpenStockCount[]>([]);
+  const [claimingId, setClaimingId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -34,12 +49,21 @@ export default function DashboardPage() {
     if (isAuthenticated) {
       fetchReports();
     }
-  }, [isAuthenticated]);
+  }, [isAuthenticated, selectedOutletId]);
 
   const fetchReports = async () => {
     try {
-      const response = await reportsAPI.getReports({ limit: 10 });
+      const params: any = { limit: 10 };
+      if (selectedOutletId) params.outletId = selectedOutletId;
+
+      const [response, scheduled, counts] = await Promise.all([
+        reportsAPI.getReports(params),
+        stockAPI.getScheduledReports().catch(() => []),
+        stockAPI.getOpenCounts().catch(() => [])
+      ]);
       setReports(response.data.reports);
+      setScheduledReports(scheduled);
+      setOpenCounts(counts);
     } catch (error) {
       console.error('Failed to fetch reports:', error);
     } finally {
@@ -47,6 +71,46 @@ export default function DashboardPage() {
     }
   };
 
+  const claimScheduledReport = async (report: ScheduledStockReport) => {
+    try {
+      setClaimingId(report.id);
+      await stockAPI.claimStockReport(report.id);
+      router.push(`/reports/create?draft=${report.id}`);
+    } catch (error: any) {
+      console.error('Failed to claim stock report:', error);
+      showToast({
+        type: 'error',
+        title: 'Could not start counting',
+        message: error.response?.data?.message || 'Please try again',
+        duration: 5000
+      });
+      fetchReports();
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
+  const joinStockCount = async (count: OpenStockCount) => {
+    try {
+      setClaimingId(count.id);
+      if (!count.joined) {
+        await stockAPI.joinStockCount(count.id);
+      }
+      router.push(`/stock/count/${count.id}`);
+    } catch (error: any) {
+      console.error('Failed to join stock count:', error);
+      showToast({
+        type: 'error',
+        title: 'Could not join the count',
+        message: error.response?.data?.message || 'Please try again',
+        duration: 5000
+      });
+      fetchReports();
+    } finally {
+      setClaimingId(null);
+    }
+  };
+
   if (authLoading || loading) {
     return (
       <div className="min-h-screen bg-gothic-900 flex items-center justify-center">
@@ -59,35 +123,6 @@ export default function DashboardPage() {
     return null;
   }
 
-  const reportTypeIcons = {
-    OPENING: CheckCircle,
-    CLOSING: CheckCircle,
-    PROBLEM: AlertTriangle,
-    STOCK: Package,
-  };
-
-  const reportTypeLabels = {
-    OPENING: 'Opening',
-    CLOSING: 'Closing',
-    PROBLEM: 'Problem',
-    STOCK: 'Stock',
-  };
-
-  const getReportTypeColors = (type: string) => {
-    switch (type) {
-      case 'OPENING':
-        return 'text-green-400';
-      case 'CLOSING':
-        return 'text-orange-400';
-      case 'PROBLEM':
-        return 'text-red-400';
-      case 'STOCK':
-        return 'text-blue-400';
-      default:
-        return 'text-gothic-400';
-    }
-  };
-
   const statusColors = {
     DRAFT: 'status-draft',
     SUBMITTED: 'status-submitted',
@@ -129,34 +164,93 @@ export default function DashboardPage() {
       </header>
 
       <main className="mobile-container py-6">
+        {/* Outlet Filter */}
+        <OutletSelector className="mb-6" />
+
+        {/* Scheduled Stock Reports */}
+        {scheduledReports
+          .filter(report => !selectedOutletId || !report.outlet || report.outlet.id === selectedOutletId)
+          .map((report) => (
+            <div key={report.id} className="mobile-card p-4 mb-6 border-blue-900">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <Clock className="w-5 h-5 text-blue-400 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <h3 className="text-sm font-medium text-gothic-100 truncate">Stock count ready</h3>
+                    <p className="text-xs text-gothic-400 truncate">
+                      {new Date(report.stockReport.stockDate).toLocaleDateString()}
+                      {report.outlet && <> • {report.outlet.name}</>} • {report.stockReport._count.items} items
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => claimScheduledReport(report)}
+                  disabled={claimingId === report.id}
+                  className="btn-primary text-xs px-3 py-2 flex-shrink-0"
+                >
+                  {claimingId === report.id ? <LoadingSpinner size="sm" /> : 'Start Counting'}
+                </button>
+              </div>
+            </div>
+          ))}
+
+        {/* Stock Counts In Progress */}
+        {openCounts
+          .filter(count => !selectedOutletId || !count.outlet || count.outlet.id === selectedOutletId)
+          .map((count) => (
+            <div key={count.id} className="mobile-card p-4 mb-6">
+              <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center space-x-3 min-w-0">
+                  <Users className="w-5 h-5 text-blue-400 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <h3 className="text-sm font-medium text-gothic-100 truncate">
+                      {count.user.name} is counting stock
+                    </h3>
+                    <p className="text-xs text-gothic-400 truncate">
+                      {new Date(count.stockReport.stockDate).toLocaleDateString()}
+                      {count.outlet && <> • {count.outlet.name}</>} • {count.stockReport.completedItems}/{count.stockReport._count.items} counted
+                      {count.stockReport.participantCount > 0 && <> • +{count.stockReport.participantCount}</>}
+                    </p>
+                  </div>
+                </div>
+                <button
+                  onClick={() => joinStockCount(count)}
+                  disabled={claimingId === count.id}
+                  className={`${count.joined ? 'btn-secondary' : 'btn-primary'} text-xs px-3 py-2 flex-shrink-0`}
+                >
+                  {claimingId === count.id ? <LoadingSpinner size="sm" /> : count.joined ? 'Continue' : 'Join'}
+                </button>
+              </div>
+            </div>
+          ))}
+
         {/* Quick Actions */}
         <div className="mb-6">
           <h2 className="text-sm font-medium text-gothic-200 mb-3">
             Quick Actions
           </h2>
           <div className="grid grid-cols-2 gap-3">
-            <Link href="/reports/create?type=OPENING" className="gothic-card-hover report-opening-bg p-3 text-center group min-h-[80px] flex flex-col justify-center animate-stagger-in stagger-delay-1 hover-lift">
-              <CheckCircle className="w-6 h-6 text-green-400 mx-auto mb-1 group-active:animate-spring transition-transform gpu-accelerated" />
-              <h3 className="font-medium text-green-400 mb-1 text-xs">Opening</h3>
-              <p className="text-xs text-green-300">Daily procedures</p>
-            </Link>
-
-            <Link href="/reports/create?type=CLOSING" className="gothic-card-hover report-closing-bg p-3 text-center group min-h-[80px] flex flex-col justify-center animate-stagger-in stagger-delay-2 hover-lift">
-              <CheckCircle className="w-6 h-6 text-orange-400 mx-auto mb-1 group-active:animate-spring transition-transform gpu-accelerated" />
-              <h3 className="font-medium text-orange-400 mb-1 text-xs">Closing</h3>
-              <p className="text-xs text-orange-300">Daily procedures</p>
-            </Link>
-
-            <Link href="/reports/create?type=PROBLEM" className="gothic-card-hover report-problem-bg p-3 text-center group min-h-[80px] flex flex-col justify-center animate-stagger-in stagger-delay-3 hover-lift">
-              <AlertTriangle className="w-6 h-6 text-red-400 mx-auto mb-1 group-active:animate-spring transition-transform gpu-accelerated" />
-              <h3 className="font-medium text-red-400 mb-1 text-xs">Problem</h3>
-              <p className="text-xs text-red-300">Report issues</p>
-            </Link>
+            {activeTypes.map((reportType, index) => {
+              const Icon = getReportTypeIcon(reportType);
+              const color = getReportTypeColor(reportType);
+              return (
+                <Link
+                  key={reportType.code}
+                  href={`/reports/create?type=${reportType.code}`}
+                  className={`gothic-card-hover ${color.background} p-3 text-center group min-h-[80px] flex flex-col justify-center animate-stagger-in hover-lift`}
+                  style={{animationDelay: `${Math.min(index + 1, 5) * 0.05}s`}}
+                >
+                  <Icon className={`w-6 h-6 ${color.text} mx-auto mb-1 group-active:animate-spring transition-transform gpu-accelerated`} />
+                  <h3 className={`font-medium ${color.text} mb-1 text-xs`}>{reportType.name}</h3>
+                  {reportType.description && <p className={`text-xs ${color.subtleText}`}>{reportType.description}</p>}
+                </Link>
+              );
+            })}
 
-            <Link href="/reports/create?type=STOCK" className="gothic-card-hover report-stock-bg p-3 text-center group min-h-[80px] flex flex-col justify-center animate-stagger-in stagger-delay-4 hover-lift">
-              <Package className="w-6 h-6 text-blue-400 mx-auto mb-1 group-active:animate-spring transition-transform gpu-accelerated" />
-              <h3 className="font-medium text-blue-400 mb-1 text-xs">Stock</h3>
-              <p className="text-xs text-blue-300">Inventory</p>
+            <Link href="/waste" className="gothic-card-hover report-waste-bg p-3 text-center group min-h-[80px] flex flex-col justify-center animate-stagger-in stagger-delay-5 hover-lift">
+              <Trash2 className="w-6 h-6 text-yellow-400 mx-auto mb-1 group-active:animate-spring transition-transform gpu-accelerated" />
+              <h3 className="font-medium text-yellow-400 mb-1 text-xs">Waste</h3>
+              <p className="text-xs text-yellow-300">Log spoilage</p>
             </Link>
           </div>
         </div>
@@ -209,7 +303,8 @@ export default function DashboardPage() {
           ) : (
             <div className="space-y-2">
               {recentReports.map((report, index) => {
-                const Icon = reportTypeIcons[report.type];
+                const reportType = getReportType(report.type);
+                const Icon = getReportTypeIcon(reportType);
                 return (
                   <div
                     key={report.id}
@@ -217,11 +312,12 @@ export default function DashboardPage() {
                     style={{animationDelay: `${0.5 + index * 0.1}s`}}
                   >
                     <div className="flex items-center space-x-2 flex-1 min-w-0">
-                      <Icon className={`w-4 h-4 flex-shrink-0 ${getReportTypeColors(report.type)} transition-transform gpu-accelerated`} />
+                      <Icon className={`w-4 h-4 flex-shrink-0 ${getReportTypeColor(reportType).text} transition-transform gpu-accelerated`} />
                       <div className="min-w-0 flex-1">
                         <h3 className="font-medium text-gothic-100 text-xs truncate">{report.title}</h3>
                         <p className="text-xs text-gothic-400 truncate">
-                          <span className={getReportTypeColors(report.type)}>{reportTypeLabels[report.type]}</span> • {new Date(report.createdAt).toLocaleDateString()}
+                          <span className={getReportTypeColor(reportType).text}>{getLabel(report.type)}</span>
+                          {report.outlet && <> • {report.outlet.name}</>} • {new Date(report.createdAt).toLocaleDateString()}
                         </p>
                       </div>
                     </div>
@@ -3,6 +3,7 @@ import { Inter } from 'next/font/google'
 import './globals.css'
 import { AuthProvider } from '@/contexts/AuthContext'
 import { ToastProvider } from '@/contexts/ToastContext'
+import { OutletProvider } from '@/contexts/OutletContext'
 import ConditionalBottomNavigation from '@/components/ui/ConditionalBottomNavigation'
 
 const inter = Inter({ subsets: ['latin'] })
@@ -27,10 +28,12 @@ export default function RootLayout({
     <html lang="en" className="dark">
       <body className={inter.className}>
         <AuthProvider>
-          <ToastProvider>
-            {children}
-            <ConditionalBottomNavigation />
-          </ToastProvider>
+          <OutletProvider>
+            <ToastProvider>
+              {children}
+              <ConditionalBottomNavigation />
+            </ToastProvider>
+          </OutletProvider>
         </AuthProvider>
       </body>
     </html>
@@ -3,23 +3,34 @@
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
-import { ArrowLeft, Edit, Calendar, User, FileText, AlertTriangle, Package, CheckCircle, Clock, CheckSquare, Image as ImageIcon, Trash2, Send, Camera, Scale } from 'lucide-react';
+import { ArrowLeft, Edit, Calendar, User, FileText, Package, CheckCircle, Clock, CheckSquare, Image as ImageIcon, Trash2, Send, Camera, Scale, RefreshCw, UploadCloud, Truck, EyeOff } from 'lucide-react';
 import Link from 'next/link';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import Header from '@/components/ui/Header';
 import AuthenticatedImage from '@/components/ui/AuthenticatedImage';
-import { reportsAPI } from '@/lib/api';
+import { reportsAPI, receivingAPI } from '@/lib/api';
+import { ReceivingReport, getDiscrepancy, getUnrecordedQty, formatDiscrepancyReason, formatQty } from '@/lib/receiving';
+import { stockAPI, StockSyncLog, StockItemCount, StockPushStatus, StockOpeningSource, StockOpeningOverride, formatCurrency, formatOpeningSource, formatCountWeighing, getConsumptionBreakdown, getOutgoingQty, StockPerson, BlindCountReveal } from '@/lib/stockApi';
 import { useToast } from '@/contexts/ToastContext';
 import ResolutionModal from '@/components/ui/ResolutionModal';
 import ConfirmDialog from '@/components/ui/ConfirmDialog';
+import {
+  useReportTypes,
+  getReportTypeIcon,
+  getReportTypeColor,
+  formatFieldValue,
+  isFieldValueEmpty,
+  parseReportMetadata
+} from '@/lib/reportTypes';
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:5000/api';
 
 interface Report {
   id: string;
-  type: 'OPENING' | 'CLOSING' | 'PROBLEM' | 'STOCK';
+  type: string;
   title: string;
   description?: string;
+  metadata?: string | null;
   status: 'DRAFT' | 'SUBMITTED' | 'RESOLVED';
   createdAt: string;
   updatedAt: string;
@@ -29,6 +40,10 @@ interface Report {
     name: string;
     email: string;
   };
+  outlet?: {
+    id: string;
+    name: string;
+  } | null;
   photos?: Array<{
     id: string;
     filename: string;
@@ -52,19 +67,43 @@ interface Report {
     stockDate: string;
     syncedAt?: string;
     completedAt?: string;
+    pushApprovedAt?: string | null;
+    pushApprovedBy?: {
+      id: string;
+      name: string;
+    } | null;
+    blindCount?: boolean;
+    secondCount?: boolean;
     items?: Array<{
       id: string;
       productName: string;
+      variantName?: string | null;
       productSku?: string;
       unit: string;
       openingStock: number;
+      openingSource?: StockOpeningSource;
+      openingSourceDate?: string | null;
       expectedOut: number;
+      incomingQty?: number;
+      returnQty?: number;
+      wasteQty?: number;
+      salesQty?: number;
+      theoreticalQty?: number | null;
       actualClosing?: number;
+      countedBy?: StockPerson | null;
       difference?: number;
+      unitCost?: number | null;
       notes?: string;
       completed: boolean;
+      removedFromSource?: boolean;
+      recountStatus?: 'REQUIRED' | 'COMPLETED' | null;
+      pushStatus?: StockPushStatus | null;
+      pushError?: string | null;
+      counts?: StockItemCount[];
+      openingOverrides?: StockOpeningOverride[];
     }>;
   };
+  receivingReport?: ReceivingReport | null;
 }
 
 interface ReportDetailPageProps {
@@ -77,11 +116,21 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
   const { isAuthenticated, user, loading: authLoading, isAdmin } = useAuth();
   const router = useRouter();
   const { showToast } = useToast();
+  const { getReportType } = useReportTypes();
   const [report, setReport] = useState<Report | null>(null);
   const [loading, setLoading] = useState(true);
   const [redirecting, setRedirecting] = useState(false);
   const [showResolutionModal, setShowResolutionModal] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+  const [syncLogs, setSyncLogs] = useState<StockSyncLog[]>([]);
+  const [openingEdit, setOpeningEdit] = useState<{ itemId: string; value: string; reason: string } | null>(null);
+  const [savingOpening, setSavingOpening] = useState(false);
+  const [showPushConfirm, setShowPushConfirm] = useState(false);
+  const [pushing, setPushing] = useState(false);
+  const [comparing, setComparing] = useState(false);
+  const [reveal, setReveal] = useState<BlindCountReveal | null>(null);
+  // An unfinalized blind count hides the expected figures from admins too
+  const blindCountOpen = !!report?.stockReport?.blindCount && report.status === 'DRAFT';
 
   useEffect(() => {
     if (isAuthenticated) {
@@ -89,6 +138,18 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
     }
   }, [isAuthenticated, params.id]);
 
+  useEffect(() => {
+    if (isAdmin && report?.stockReport && !blindCountOpen) {
+      fetchSyncLogs(report.id);
+    }
+  }, [isAdmin, report?.id, report?.type, report?.stockReport?.syncedAt, blindCountOpen]);
+
+  useEffect(() => {
+    if (isAdmin && report?.stockReport?.blindCount && report.status !== 'DRAFT') {
+      fetchReveal(report.id);
+    }
+  }, [isAdmin, report?.id, report?.status, report?.stockReport?.blindCount]);
+
   // Auto-redirect after 5 seconds if report not found
   useEffect(() => {
     if (!loading && !report && !redirecting) {
@@ -123,6 +184,110 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
     }
   };
 
+  const fetchSyncLogs = async (reportId: string) => {
+    try {
+      const response = await stockAPI.getSyncLogs(reportId);
+      setSyncLogs(response.logs);
+    } catch (error) {
+      console.error('Failed to fetch sync logs:', error);
+    }
+  };
+
+  const fetchReveal = async (reportId: string) => {
+    try {
+      setReveal(await stockAPI.getBlindCountReveal(reportId));
+    } catch (error) {
+      console.error('Failed to fetch blind count reveal:', error);
+    }
+  };
+
+  const formatSyncValue = (value?: number | { from: number; to: number }) => {
+    if (value === undefined) return '';
+    if (typeof value === 'number') return `${value}g`;
+    return value.from === value.to ? `${value.to}g` : `${value.from}g → ${value.to}g`;
+  };
+
+  const handleSaveOpening = async () => {
+    if (!openingEdit) return;
+
+    const openingStock = parseFloat(openingEdit.value);
+    if (isNaN(openingStock) || openingStock < 0 || !openingEdit.reason.trim()) {
+      showToast({
+        type: 'error',
+        title: 'Invalid opening stock',
+        message: 'Enter a positive number and a reason for the change'
+      });
+      return;
+    }
+
+    try {
+      setSavingOpening(true);
+      await stockAPI.overrideOpeningStock(openingEdit.itemId, {
+        openingStock,
+        reason: openingEdit.reason.trim()
+      });
+      showToast({
+        type: 'success',
+        title: 'Opening stock updated'
+      });
+      setOpeningEdit(null);
+      fetchReport();
+    } catch (error: any) {
+      console.error('Failed to override opening stock:', error);
+      showToast({
+        type: 'error',
+        title: 'Failed to update opening stock',
+        message: error.response?.data?.message
+      });
+    } finally {
+      setSavingOpening(false);
+    }
+  };
+
+  const handlePushToOlsera = async () => {
+    if (!report) return;
+
+    try {
+      setPushing(true);
+      const response = await stockAPI.pushStockReport(report.id);
+      showToast({
+        type: response.result.failed > 0 ? 'warning' : 'success',
+        title: response.result.failed > 0 ? 'Push partly failed' : 'Pushed to Olsera',
+        message: response.message
+      });
+      fetchReport();
+    } catch (error: any) {
+      console.error('Failed to push stock report to Olsera:', error);
+      showToast({
+        type: 'error',
+        title: 'Failed to push to Olsera',
+        message: error.response?.data?.message
+      });
+    } finally {
+      setPushing(false);
+      setShowPushConfirm(false);
+    }
+  };
+
+  const handleCompareWithPos = async () => {
+    if (!report) return;
+
+    try {
+      setComparing(true);
+      const response = await receivingAPI.compareWithPos(report.id);
+      setReport({ ...report, receivingReport: response.data });
+    } catch (error: any) {
+      console.error('Failed to compare with POS:', error);
+      showToast({
+        type: 'error',
+        title: 'Comparison failed',
+        message: error.response?.data?.message
+      });
+    } finally {
+      setComparing(false);
+    }
+  };
+
   const handleSubmit = async () => {
     if (!report) return;
 
@@ -199,51 +364,6 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
     }
   };
 
-  const getTypeIcon = (type: string) => {
-    switch (type) {
-      case 'OPENING':
-        return <CheckCircle className="w-5 h-5 text-green-400" />;
-      case 'CLOSING':
-        return <Clock className="w-5 h-5 text-orange-400" />;
-      case 'PROBLEM':
-        return <AlertTriangle className="w-5 h-5 text-red-400" />;
-      case 'STOCK':
-        return <Package className="w-5 h-5 text-blue-400" />;
-      default:
-        return <FileText className="w-5 h-5 text-gothic-400" />;
-    }
-  };
-
-  const getTypeColors = (type: string) => {
-    switch (type) {
-      case 'OPENING':
-        return 'text-green-400';
-      case 'CLOSING':
-        return 'text-orange-400';
-      case 'PROBLEM':
-        return 'text-red-400';
-      case 'STOCK':
-        return 'text-blue-400';
-      default:
-        return 'text-gothic-300';
-    }
-  };
-
-  const getReportTypeBgColors = (type: string) => {
-    switch (type) {
-      case 'OPENING':
-        return 'report-opening-bg';
-      case 'CLOSING':
-        return 'report-closing-bg';
-      case 'PROBLEM':
-        return 'report-problem-bg';
-      case 'STOCK':
-        return 'report-stock-bg';
-      default:
-        return 'bg-gothic-800';
-    }
-  };
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'DRAFT':
@@ -299,6 +419,12 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
     );
   }
 
+  const reportType = getReportType(report.type);
+  const TypeIcon = getReportTypeIcon(reportType);
+  const typeColor = getReportTypeColor(reportType);
+  const fieldValues = parseReportMetadata(report.metadata);
+  const filledFields = (reportType?.fields || []).filter(field => !isFieldValueEmpty(fieldValues[field.key]));
+
   return (
     <div className="min-h-screen bg-gothic-900 pb-32">
       <Header title="Report Details" showBack={true} />
@@ -306,15 +432,21 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
         {/* Report Header Card */}
         <div className="gothic-card p-6 mb-4">
           <div className="flex items-start gap-4">
-            <div className={`w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0 ${getReportTypeBgColors(report.type)}`}>
-              {getTypeIcon(report.type)}
+            <div className={`w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0 ${typeColor.background}`}>
+              <TypeIcon className={`w-5 h-5 ${typeColor.text}`} />
             </div>
             <div className="flex-1 min-w-0">
               <h1 className="text-sm font-display font-semibold text-gothic-100 mb-1">{report.title}</h1>
               <div className="flex items-center flex-wrap gap-2 text-xs">
-                <span className={`font-medium capitalize ${getTypeColors(report.type)}`}>
-                  {report.type.toLowerCase()} report
+                <span className={`font-medium ${typeColor.text}`}>
+                  {reportType?.name || report.type} Report
                 </span>
+                {report.outlet && (
+                  <>
+                    <span className="text-gothic-500">•</span>
+                    <span className="text-gothic-300">{report.outlet.name}</span>
+                  </>
+                )}
                 <span className="text-gothic-500">•</span>
                 <span className="text-gothic-400">
                   {new Date(report.createdAt).toLocaleDateString('en-US', {
@@ -362,6 +494,23 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
               </div>
             )}
 
+            {/* Custom fields */}
+            {filledFields.length > 0 && (
+              <div className="gothic-card p-6">
+                <h2 className="text-sm font-display font-semibold text-gothic-100 mb-3">Details</h2>
+                <dl className="space-y-2">
+                  {filledFields.map(field => (
+                    <div key={field.id} className="flex items-start justify-between gap-4 text-xs">
+                      <dt className="text-gothic-400">{field.label}</dt>
+                      <dd className="text-gothic-200 text-right break-words">
+                        {formatFieldValue(field, fieldValues[field.key])}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            )}
+
             {/* Photos */}
             {report.photos && report.photos.length > 0 && (
               <div className="gothic-card p-6">
@@ -437,8 +586,116 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
               </div>
             )}
 
+            {/* Delivery - For receiving reports */}
+            {report.receivingReport && (
+              <div className="gothic-card p-6">
+                <div className="flex items-center justify-between mb-4">
+                  <div className="flex items-center space-x-2">
+                    <Truck className="w-4 h-4 text-purple-400" />
+                    <h2 className="text-sm font-display font-semibold text-gothic-100">
+                      Delivery ({report.receivingReport.items.length})
+                    </h2>
+                  </div>
+                  <span className="text-xs text-gothic-400">
+                    {new Date(report.receivingReport.receivedDate).toLocaleDateString('en-US', {
+                      month: 'short',
+                      day: 'numeric',
+                      year: 'numeric'
+                    })}
+                  </span>
+                </div>
+                <div className="grid grid-cols-2 gap-2 text-xs mb-4">
+                  <div>
+                    <span className="text-gothic-400">Supplier: </span>
+                    <span className="text-gothic-200">{report.receivingReport.supplierName || '-'}</span>
+                  </div>
+                  <div>
+                    <span className="text-gothic-400">Delivery note: </span>
+                    <span className="text-gothic-200">{report.receivingReport.deliveryNoteNumber || '-'}</span>
+                  </div>
+                </div>
+                <div className="space-y-3">
+                  {report.receivingReport.items.map((item) => {
+                    const discrepancy = getDiscrepancy(item);
+                    const unrecorded = getUnrecordedQty(item);
+                    return (
+                      <div key={item.id} className="p-3 rounded-lg border bg-gothic-800 border-gothic-700">
+                        <h4 className="text-xs font-medium text-gothic-100">
+                          {item.productName}
+                          {item.variantName && (
+                            <span className="text-accent-300 font-normal"> – {item.variantName}</span>
+                          )}
+                        </h4>
+                        <div className="grid grid-cols-3 gap-2 text-xs mt-2">
+                          <div>
+                            <span className="text-gothic-400">Ordered: </span>
+                            <span className="text-gothic-200">
+                              {item.orderedQty !== null && item.orderedQty !== undefined ? formatQty(item.orderedQty, item.unit) : '-'}
+                            </span>
+                          </div>
+                          <div>
+                            <span className="text-gothic-400">Received: </span>
+                            <span className="text-gothic-200">{formatQty(item.receivedQty, item.unit)}</span>
+                          </div>
+                          <div>
+                            <span className="text-gothic-400">Price: </span>
+                            <span className="text-gothic-200">
+                              {item.unitPrice !== null && item.unitPrice !== undefined ? formatCurrency(item.unitPrice) : '-'}
+                            </span>
+                          </div>
+                          {item.posIncomingQty !== null && item.posIncomingQty !== undefined && (
+                            <div className="col-span-3">
+                              <span className="text-gothic-400">POS incoming that day: </span>
+                              <span className="text-gothic-200">{formatQty(item.posIncomingQty, item.unit)}</span>
+                              <span className="text-gothic-500"> (received {formatQty(item.dayReceivedQty ?? 0, item.unit)})</span>
+                            </div>
+                          )}
+                        </div>
+                        {discrepancy !== null && discrepancy !== 0 && (
+                          <span className={`badge-small mt-2 inline-block ${discrepancy < 0 ? 'badge-error' : 'badge-warning'}`}>
+                            {discrepancy > 0 ? '+' : ''}{formatQty(discrepancy, item.unit)}
+                            {item.discrepancyReason && ` · ${formatDiscrepancyReason(item.discrepancyReason)}`}
+                          </span>
+                        )}
+                        {(discrepancy === null || discrepancy === 0) && item.discrepancyReason && (
+                          <span className="badge-small badge-warning mt-2 inline-block">
+                            {formatDiscrepancyReason(item.discrepancyReason)}
+                          </span>
+                        )}
+                        {unrecorded !== null && unrecorded > 0 && (
+                          <span className="badge-small badge-error mt-2 ml-1 inline-block">
+                            {formatQty(unrecorded, item.unit)} not in POS
+                          </span>
+                        )}
+                        {item.notes && (
+                          <p className="text-xs text-gothic-300 mt-2">{item.notes}</p>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+                {report.receivingReport.items.length > 0 && (
+                  <div className="mt-4 pt-4 border-t border-gothic-700 flex items-center justify-between">
+                    <p className="text-xs text-gothic-400">
+                      {report.receivingReport.comparedAt
+                        ? `Compared with POS ${new Date(report.receivingReport.comparedAt).toLocaleString()}`
+                        : 'Not compared with the POS yet'}
+                    </p>
+                    <button
+                      onClick={handleCompareWithPos}
+                      disabled={comparing}
+                      className="text-xs text-accent-400 hover:text-accent-300 flex items-center space-x-1"
+                    >
+                      <RefreshCw className={`w-3 h-3 ${comparing ? 'animate-spin' : ''}`} />
+                      <span>Compare with POS</span>
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Stock Items - For STOCK reports */}
-            {report.type === 'STOCK' && report.stockReport?.items && report.stockReport.items.length > 0 && (
+            {report.stockReport?.items && report.stockReport.items.length > 0 && (
               <div className="gothic-card p-6">
                 <div className="flex items-center justify-between mb-4">
                   <div className="flex items-center space-x-2">
@@ -457,7 +714,8 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
                 </div>
                 <div className="space-y-3">
                   {report.stockReport.items.map((item) => {
-                    const expectedClosing = item.openingStock - item.expectedOut;
+                    const expectedClosing = item.openingStock + (item.incomingQty || 0) + (item.returnQty || 0) - item.expectedOut - (item.wasteQty || 0);
+                    const consumption = isAdmin ? getConsumptionBreakdown(item) : null;
                     return (
                       <div
                         key={item.id}
@@ -470,25 +728,81 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
                           <div>
                             <h4 className="text-xs font-medium text-gothic-100">
                               {item.productName}
+                              {item.variantName && (
+                                <span className="text-accent-300 font-normal"> – {item.variantName}</span>
+                              )}
                             </h4>
                             {item.productSku && (
                               <p className="text-xs text-gothic-400">SKU: {item.productSku}</p>
                             )}
+                            {item.countedBy && (
+                              <p className="text-xs text-gothic-500">Counted by {item.countedBy.name}</p>
+                            )}
+                            {item.removedFromSource && (
+                              <span className="badge-small badge-warning mt-1 inline-block">No longer in Olsera</span>
+                            )}
+                            {item.recountStatus === 'REQUIRED' && (
+                              <span className="badge-small badge-warning mt-1 inline-block">Recount required</span>
+                            )}
+                            {item.recountStatus === 'COMPLETED' && (
+                              <span className="badge-small badge-secondary mt-1 inline-block">Recounted</span>
+                            )}
+                            {isAdmin && item.pushStatus === 'PUSHED' && (
+                              <span className="badge-small badge-success mt-1 ml-1 inline-block">In Olsera</span>
+                            )}
+                            {isAdmin && item.pushStatus === 'PENDING' && (
+                              <span className="badge-small badge-secondary mt-1 ml-1 inline-block">Pushing</span>
+                            )}
+                            {isAdmin && item.pushStatus === 'FAILED' && (
+                              <span className="badge-small badge-error mt-1 ml-1 inline-block" title={item.pushError || undefined}>
+                                Push failed
+                              </span>
+                            )}
                           </div>
                           {item.completed && (
                             <CheckCircle className="w-4 h-4 text-green-500 flex-shrink-0" />
                           )}
                         </div>
 
-                        {isAdmin && (
+                        {isAdmin && !blindCountOpen && (
                           <div className="grid grid-cols-3 gap-2 text-xs mb-2">
+                            <div className="col-span-3 flex items-center justify-between">
+                              <div>
+                                <span className="text-gothic-400">Opening: </span>
+                                <span className="text-gothic-200">{item.openingStock}g</span>
+                                <span className={`badge-small ml-2 ${item.openingSource === 'MANUAL' ? 'badge-warning' : 'badge-secondary'}`}>
+                                  {formatOpeningSource(item.openingSource, item.openingSourceDate)}
+                                </span>
+                              </div>
+                              {openingEdit?.itemId !== item.id && (
+                                <button
+                                  onClick={() => setOpeningEdit({ itemId: item.id, value: item.openingStock.toString(), reason: '' })}
+                                  className="text-gothic-400 hover:text-accent-400"
+                                  title="Override opening stock"
+                                >
+                                  <Edit className="w-3 h-3" />
+                                </button>
+                              )}
+                            </div>
+                            <div>
+                              <span className="text-gothic-400">In: </span>
+                              <span className="text-gothic-200">{item.incomingQty || 0}g</span>
+                            </div>
+                            <div>
+                              <span className="text-gothic-400">Returns: </span>
+                              <span className="text-gothic-200">{item.returnQty || 0}g</span>
+                            </div>
+                            <div>
+                              <span className="text-gothic-400">Sales: </span>
+                              <span className="text-gothic-200">{item.salesQty || 0}g</span>
+                            </div>
                             <div>
-                              <span className="text-gothic-400">Opening: </span>
-                              <span className="text-gothic-200">{item.openingStock}g</span>
+                              <span className="text-gothic-400">Outgoing: </span>
+                              <span className="text-gothic-200">{getOutgoingQty(item)}g</span>
                             </div>
                             <div>
-                              <span className="text-gothic-400">Used: </span>
-                              <span className="text-gothic-200">{item.expectedOut}g</span>
+                              <span className="text-gothic-400">Waste: </span>
+                              <span className="text-gothic-200">{item.wasteQty || 0}g</span>
                             </div>
                             <div>
                               <span className="text-gothic-400">Expected: </span>
@@ -497,6 +811,75 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
                           </div>
                         )}
 
+                        {consumption && (
+                          <div className="grid grid-cols-3 gap-2 text-xs mb-2 p-2 rounded bg-gothic-900 border border-gothic-700">
+                            <div>
+                              <span className="text-gothic-400">Recipe: </span>
+                              <span className="text-gothic-200">{consumption.theoretical.toFixed(0)}g</span>
+                            </div>
+                            <div>
+                              <span className="text-gothic-400">Counted: </span>
+                              <span className="text-gothic-200">{consumption.physical.toFixed(0)}g</span>
+                            </div>
+                            <div>
+                              <span className="text-gothic-400">POS: </span>
+                              <span className="text-gothic-200">{consumption.recorded.toFixed(0)}g</span>
+                            </div>
+                            <div className="col-span-3 flex justify-between">
+                              <span title="Counted usage above what the recipes give for the items sold">
+                                <span className="text-gothic-400">Over-portioning: </span>
+                                <span className={consumption.portioningVariance > 0 ? 'text-red-400' : 'text-gothic-200'}>
+                                  {consumption.portioningVariance > 0 ? '+' : ''}{consumption.portioningVariance.toFixed(0)}g
+                                </span>
+                              </span>
+                              <span title="Recipe usage not recorded as sales of this product in the POS">
+                                <span className="text-gothic-400">POS gap: </span>
+                                <span className={consumption.posGap > 0 ? 'text-yellow-400' : 'text-gothic-200'}>
+                                  {consumption.posGap > 0 ? '+' : ''}{consumption.posGap.toFixed(0)}g
+                                </span>
+                              </span>
+                            </div>
+                          </div>
+                        )}
+
+                        {isAdmin && openingEdit?.itemId === item.id && (
+                          <div className="mb-2 p-2 rounded bg-gothic-900 border border-gothic-700 space-y-2">
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.1"
+                              value={openingEdit.value}
+                              onChange={(e) => setOpeningEdit({ ...openingEdit, value: e.target.value })}
+                              className="input-gothic w-full text-xs"
+                              placeholder="Opening stock"
+                            />
+                            <input
+                              type="text"
+                              value={openingEdit.reason}
+                              onChange={(e) => setOpeningEdit({ ...openingEdit, reason: e.target.value })}
+                              className="input-gothic w-full text-xs"
+                              placeholder="Reason for the change"
+                              maxLength={500}
+                            />
+                            <div className="flex justify-end space-x-2">
+                              <button
+                                onClick={() => setOpeningEdit(null)}
+                                className="btn-secondary text-xs px-3 py-1"
+                                disabled={savingOpening}
+                              >
+                                Cancel
+                              </button>
+                              <button
+                                onClick={handleSaveOpening}
+                                className="btn-primary text-xs px-3 py-1"
+                                disabled={savingOpening || !openingEdit.reason.trim()}
+                              >
+                                {savingOpening ? 'Saving...' : 'Save'}
+                              </button>
+                            </div>
+                          </div>
+                        )}
+
                         {item.actualClosing !== null && item.actualClosing !== undefined && (
                           <div className="flex items-center justify-between text-xs">
                             <div className="flex items-center space-x-1">
@@ -510,6 +893,9 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
                                   'text-gothic-300'
                                 }`}>
                                 {item.difference > 0 ? '+' : ''}{item.difference.toFixed(0)}g diff
+                                {item.unitCost !== null && item.unitCost !== undefined && (
+                                  <> ({formatCurrency(item.difference * item.unitCost)})</>
+                                )}
                               </span>
                             )}
                           </div>
@@ -518,11 +904,60 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
                         {item.notes && (
                           <p className="text-xs text-gothic-400 mt-2 italic">Note: {item.notes}</p>
                         )}
+
+                        {isAdmin && item.counts && item.counts.length > 1 && (
+                          <div className="mt-2 pt-2 border-t border-gothic-700 space-y-1">
+                            <p className="text-xs text-gothic-500">Count history</p>
+                            {item.counts.map((count) => (
+                              <div key={count.id} className="flex items-center justify-between text-xs">
+                                <span className="text-gothic-300">
+                                  {count.isRecount ? 'Recount' : 'Count'}: {count.actualClosing}g
+                                  {count.enteredUnit && (
+                                    <span className="text-gothic-500"> ({count.enteredQty} {count.enteredUnit})</span>
+                                  )}
+                                  {formatCountWeighing(count) && (
+                                    <span className="text-gothic-500"> · {formatCountWeighing(count)}</span>
+                                  )}
+                                  {count.user && <span className="text-gothic-500"> by {count.user.name}</span>}
+                                </span>
+                                <span className={count.outsideTolerance ? 'text-yellow-400' : 'text-gothic-400'}>
+                                  {count.difference !== null && count.difference !== undefined
+                                    ? `${count.difference > 0 ? '+' : ''}${count.difference.toFixed(0)}g`
+                                    : ''}
+                                </span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {isAdmin && item.openingOverrides && item.openingOverrides.length > 0 && (
+                          <div className="mt-2 pt-2 border-t border-gothic-700 space-y-1">
+                            <p className="text-xs text-gothic-500">Opening changes</p>
+                            {item.openingOverrides.map((override) => (
+                              <div key={override.id} className="text-xs">
+                                <div className="flex items-center justify-between">
+                                  <span className="text-gothic-300">
+                                    {override.previousValue}g → {override.newValue}g
+                                    {override.user && <span className="text-gothic-500"> by {override.user.name}</span>}
+                                  </span>
+                                  <span className="text-gothic-500">{new Date(override.createdAt).toLocaleDateString()}</span>
+                                </div>
+                                <p className="text-gothic-400 italic">{override.reason}</p>
+                              </div>
+                            ))}
+                          </div>
+                        )}
                       </div>
                     );
                   })}
                 </div>
                 <div className="mt-4 pt-4 border-t border-gothic-700">
+                  {blindCountOpen && (
+                    <p className="text-xs text-gothic-400 mb-2 flex items-center">
+                      <EyeOff className="w-3 h-3 mr-1" />
+                      Blind count: expected stock and variances are shown once it is finalized
+                    </p>
+                  )}
                   <div className="flex items-center justify-between text-xs">
                     <span className="text-gothic-400">
                       {report.stockReport.items.filter(i => i.completed).length} of {report.stockReport.items.length} items completed
@@ -533,6 +968,140 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
                       </span>
                     )}
                   </div>
+                  {isAdmin && report.status !== 'DRAFT' && report.stockReport.completedAt && (
+                    <div className="flex items-center justify-between text-xs mt-3">
+                      <span className="text-gothic-400">
+                        {report.stockReport.items.filter(i => i.pushStatus === 'PUSHED').length} pushed to Olsera
+                        {report.stockReport.items.some(i => i.pushStatus === 'FAILED') && (
+                          <span className="text-red-400">, {report.stockReport.items.filter(i => i.pushStatus === 'FAILED').length} failed</span>
+                        )}
+                        {report.stockReport.pushApprovedBy && (
+                          <span className="text-gothic-500"> · approved by {report.stockReport.pushApprovedBy.name}</span>
+                        )}
+                      </span>
+                      <button
+                        onClick={() => setShowPushConfirm(true)}
+                        disabled={pushing}
+                        className="text-accent-400 hover:text-accent-300 transition-colors flex items-center disabled:opacity-50"
+                      >
+                        <UploadCloud className="w-3 h-3 mr-1" />
+                        {pushing ? 'Pushing...' : 'Push to Olsera'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Blind Count Reveal - Admin only, once finalized */}
+            {isAdmin && reveal && (
+              <div className="gothic-card p-6">
+                <div className="flex items-center space-x-2 mb-2">
+                  <EyeOff className="w-4 h-4 text-accent-400" />
+                  <h2 className="text-sm font-display font-semibold text-gothic-100">Blind Count Reveal</h2>
+                </div>
+                <p className="text-xs text-gothic-400 mb-4">
+                  {reveal.totals.outsideTolerance} of {reveal.totals.items} items outside tolerance
+                  {reveal.secondCount && (
+                    <> · {reveal.totals.matched} counts agreed, {reveal.totals.resolved} settled by a tie-break</>
+                  )}
+                  {' · '}net {formatCurrency(reveal.valuation.netValue)}
+                </p>
+                <div className="space-y-2">
+                  {reveal.items.map((item) => (
+                    <div
+                      key={item.id}
+                      className={`p-3 rounded-lg border text-xs ${item.outsideTolerance ? 'bg-red-900/10 border-red-900' : 'bg-gothic-800 border-gothic-700'}`}
+                    >
+                      <div className="flex items-start justify-between mb-1">
+                        <span className="font-medium text-gothic-100">
+                          {item.productName}
+                          {item.variantName && (
+                            <span className="text-accent-300 font-normal"> – {item.variantName}</span>
+                          )}
+                        </span>
+                        {item.secondCountStatus === 'MISMATCH' || item.secondCountStatus === 'RESOLVED' ? (
+                          <span className="badge-small badge-warning">Tie-break</span>
+                        ) : item.secondCountStatus === 'MATCHED' ? (
+                          <span className="badge-small badge-secondary">Counts agreed</span>
+                        ) : null}
+                      </div>
+                      <div className="grid grid-cols-3 gap-2">
+                        <div>
+                          <span className="text-gothic-400">Expected: </span>
+                          <span className="text-gothic-200">{item.expectedClosing.toFixed(0)}g</span>
+                        </div>
+                        <div>
+                          <span className="text-gothic-400">Counted: </span>
+                          <span className="text-gothic-200">
+                            {item.actualClosing !== null && item.actualClosing !== undefined ? `${item.actualClosing}g` : '-'}
+                          </span>
+                        </div>
+                        <div className="text-right">
+                          {item.difference !== null && item.difference !== undefined && (
+                            <span className={item.outsideTolerance ? 'text-red-400 font-medium' : 'text-gothic-300'}>
+                              {item.difference > 0 ? '+' : ''}{item.difference.toFixed(0)}g
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      {item.counts.length > 1 && (
+                        <p className="text-gothic-500 mt-1">
+                          {item.counts.map((count) => `${count.actualClosing}g${count.user ? ` by ${count.user.name}` : ''}`).join(' · ')}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {/* Sync History - Admin only */}
+            {isAdmin && report.stockReport && syncLogs.length > 0 && (
+              <div className="gothic-card p-6">
+                <div className="flex items-center space-x-2 mb-4">
+                  <RefreshCw className="w-4 h-4 text-accent-400" />
+                  <h2 className="text-sm font-display font-semibold text-gothic-100">
+                    Sync History ({syncLogs.length})
+                  </h2>
+                </div>
+                <div className="space-y-3">
+                  {syncLogs.map((log) => (
+                    <div key={log.id} className="p-3 rounded-lg bg-gothic-800 border border-gothic-700">
+                      <div className="flex items-center justify-between text-xs mb-2">
+                        <span className="text-gothic-300">
+                          {new Date(log.createdAt).toLocaleString()}
+                          {log.user && <span className="text-gothic-500"> by {log.user.name}</span>}
+                        </span>
+                        <span className="text-gothic-400">
+                          +{log.addedCount} / ~{log.updatedCount} / -{log.removedCount}
+                        </span>
+                      </div>
+                      {log.changes && log.changes.length > 0 ? (
+                        <div className="space-y-1">
+                          {log.changes.map((change) => (
+                            <div key={`${log.id}-${change.productId}-${change.variantId || ''}`} className="flex items-start justify-between text-xs">
+                              <span className={
+                                change.type === 'ADDED' ? 'text-green-400' :
+                                  change.type === 'REMOVED' ? 'text-red-400' :
+                                    'text-gothic-200'
+                              }>
+                                {change.productName}
+                                {change.variantName && ` – ${change.variantName}`}
+                              </span>
+                              <span className="text-gothic-400 text-right ml-2">
+                                {change.type === 'REMOVED'
+                                  ? 'removed'
+                                  : `${change.type === 'ADDED' ? 'added, ' : ''}opening ${formatSyncValue(change.openingStock)}, in ${formatSyncValue(change.incomingQty)}, used ${formatSyncValue(change.expectedOut)}`}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-xs text-gothic-500">No changes</p>
+                      )}
+                    </div>
+                  ))}
                 </div>
               </div>
             )}
@@ -636,8 +1205,8 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
         <div className="fixed bottom-24 left-0 right-0 z-50">
           <div className="mobile-container">
             <div className="space-y-3">
-              {/* Resolve button for submitted problem reports */}
-              {report.status === 'SUBMITTED' && report.type === 'PROBLEM' && (
+              {/* Resolve button for submitted reports of a resolvable type */}
+              {report.status === 'SUBMITTED' && reportType?.resolvable && (
                 <button
                   onClick={() => setShowResolutionModal(true)}
                   className="w-full py-3 px-4 bg-success hover:bg-success/90 text-white rounded-xl shadow-lg flex items-center justify-center space-x-2 transition-all duration-200 active:scale-95"
@@ -669,6 +1238,16 @@ export default function ReportDetailPage({ params }: ReportDetailPageProps) {
       />
 
       {/* Delete Confirmation Dialog */}
+      <ConfirmDialog
+        isOpen={showPushConfirm}
+        onConfirm={handlePushToOlsera}
+        onCancel={() => setShowPushConfirm(false)}
+        title="Push to Olsera"
+        message="This sets the Olsera stock of every counted item not yet pushed to its counted closing quantity. Continue?"
+        confirmText="Push"
+        variant="warning"
+      />
+
       <ConfirmDialog
         isOpen={showDeleteConfirm}
         onConfirm={handleDelete}
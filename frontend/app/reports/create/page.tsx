@@ -7,49 +7,48 @@ import { ArrowLeft, Send } from 'lucide-react';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
 import ChecklistInterface from '@/components/ui/ChecklistInterface';
 import StockReportForm from '@/components/reports/StockReportForm';
+import ReceivingReportForm from '@/components/reports/ReceivingReportForm';
+import ReportFieldsForm from '@/components/reports/ReportFieldsForm';
 import PhotoUploadSection from '@/components/ui/PhotoUploadSection';
+import OutletSelector from '@/components/ui/OutletSelector';
 import { reportsAPI } from '@/lib/api';
 import { useToast } from '@/contexts/ToastContext';
-
-const reportTypes = {
-  OPENING: {
-    label: 'Opening Report',
-    description: 'Daily opening procedures and checklist',
-    icon: '🌅',
-  },
-  CLOSING: {
-    label: 'Closing Report',
-    description: 'Daily closing procedures and checklist',
-    icon: '🌙',
-  },
-  PROBLEM: {
-    label: 'Problem Report',
-    description: 'Report issues and problems',
-    icon: '⚠️',
-  },
-  STOCK: {
-    label: 'Stock Report',
-    description: 'Raw materials inventory from Olsera',
-    icon: '📦',
-  },
-};
+import { useOutlet } from '@/contexts/OutletContext';
+import {
+  useReportTypes,
+  getReportTypeIcon,
+  getReportTypeColor,
+  getMissingFields,
+  parseReportMetadata,
+  ReportTypeConfig,
+  ReportFieldValues
+} from '@/lib/reportTypes';
 
 export default function CreateReportPage() {
   const { isAuthenticated, loading: authLoading } = useAuth();
   const router = useRouter();
   const searchParams = useSearchParams();
   const { showToast } = useToast();
+  const { outlets, selectedOutletId } = useOutlet();
+  const { activeTypes, loading: reportTypesLoading, getReportType } = useReportTypes();
 
   const [loading, setLoading] = useState(false);
+  const [outletId, setOutletId] = useState('');
   const [reportType, setReportType] = useState<string>('');
   const [formData, setFormData] = useState({ title: '', description: '' });
+  const [fieldValues, setFieldValues] = useState<ReportFieldValues>({});
   const [reportId, setReportId] = useState<string | null>(null);
   const [initializingReport, setInitializingReport] = useState(false);
   const [checklistProgress, setChecklistProgress] = useState({ completed: 0, total: 0, requiredCompleted: 0, requiredTotal: 0 });
   const [photoRequirementsMet, setPhotoRequirementsMet] = useState(true);
   const [showPhotoSection, setShowPhotoSection] = useState(true);
+  const [receivingReady, setReceivingReady] = useState(false);
   const [canSubmit, setCanSubmit] = useState(false);
 
+  const selectedType = getReportType(reportType);
+  const workflow = selectedType?.workflow;
+  const activeFields = selectedType?.fields.filter(field => field.active) || [];
+
   // Redirect if not authenticated
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -57,30 +56,67 @@ export default function CreateReportPage() {
     }
   }, [isAuthenticated, authLoading, router]);
 
+  // Continue an existing draft, e.g. a claimed scheduled stock report
+  const loadDraft = async (draftId: string) => {
+    try {
+      setInitializingReport(true);
+      const response = await reportsAPI.getReport(draftId);
+      const draft = response.data;
+      setReportId(draft.id);
+      setReportType(draft.type);
+      setFormData({ title: draft.title, description: draft.description || '' });
+      setFieldValues(parseReportMetadata(draft.metadata));
+      if (draft.outletId) setOutletId(draft.outletId);
+    } catch (error) {
+      console.error('Failed to load draft:', error);
+      showToast({
+        type: 'error',
+        title: 'Failed to load draft',
+        message: 'The report could not be found',
+        duration: 5000
+      });
+      router.push('/dashboard');
+    } finally {
+      setInitializingReport(false);
+    }
+  };
+
   // Handle URL params - set report type
   useEffect(() => {
-    if (authLoading) return;
-    const type = searchParams.get('type');
-    if (type && reportTypes[type as keyof typeof reportTypes]) {
-      setReportType(type);
-      // For STOCK reports, auto-create report so items can be saved
-      if (type === 'STOCK') {
-        initializeStockReport(type);
-      }
+    if (authLoading || reportTypesLoading) return;
+    const draftId = searchParams.get('draft');
+    if (draftId) {
+      loadDraft(draftId);
+      return;
     }
-  }, [searchParams, authLoading, isAuthenticated]);
+    const type = activeTypes.find(option => option.code === searchParams.get('type'));
+    if (type) {
+      selectReportType(type);
+    }
+  }, [searchParams, authLoading, isAuthenticated, reportTypesLoading]);
+
+  // Default the report outlet to the one selected on the dashboard
+  useEffect(() => {
+    if (!outletId && outlets.length > 0) {
+      setOutletId(selectedOutletId || outlets[0].id);
+    }
+  }, [outlets, selectedOutletId, outletId]);
 
   // Check if can submit
   useEffect(() => {
     const hasTitle = formData.title.trim().length > 0;
+    const descriptionRequirementsMet = !selectedType?.requireDescription || formData.description.trim().length > 0;
+    const fieldRequirementsMet = getMissingFields(selectedType?.fields || [], fieldValues).length === 0;
     let checklistRequirementsMet = true;
 
-    if ((reportType === 'OPENING' || reportType === 'CLOSING') && checklistProgress.requiredTotal > 0) {
+    if (selectedType?.requireChecklist && checklistProgress.requiredTotal > 0) {
       checklistRequirementsMet = checklistProgress.requiredCompleted === checklistProgress.requiredTotal;
     }
 
-    setCanSubmit(hasTitle && checklistRequirementsMet && photoRequirementsMet);
-  }, [formData.title, reportType, checklistProgress, photoRequirementsMet]);
+    const receivingRequirementsMet = workflow !== 'RECEIVING' || receivingReady;
+
+    setCanSubmit(hasTitle && descriptionRequirementsMet && fieldRequirementsMet && checklistRequirementsMet && photoRequirementsMet && receivingRequirementsMet);
+  }, [formData.title, formData.description, fieldValues, selectedType, workflow, checklistProgress, photoRequirementsMet, receivingReady]);
 
   useEffect(() => {
     if (reportType) {
@@ -89,16 +125,25 @@ export default function CreateReportPage() {
     }
   }, [reportType]);
 
+  const selectReportType = (type: ReportTypeConfig) => {
+    setReportType(type.code);
+    // Stock and receiving reports are created right away so items can be saved
+    if (type.workflow !== 'STANDARD') {
+      initializeStockReport(type);
+    }
+  };
+
   // Initialize stock report (creates report so items can be saved)
-  const initializeStockReport = async (type: string) => {
+  const initializeStockReport = async (type: ReportTypeConfig) => {
     try {
       setInitializingReport(true);
-      const defaultTitle = `${reportTypes[type as keyof typeof reportTypes].label} - ${new Date().toLocaleDateString()}`;
+      const defaultTitle = `${type.name} Report - ${new Date().toLocaleDateString()}`;
 
       const response = await reportsAPI.createReport({
-        type,
+        type: type.code,
         title: defaultTitle,
         description: '',
+        outletId: outletId || selectedOutletId || undefined,
       });
 
       setReportId(response.data.id);
@@ -124,6 +169,10 @@ export default function CreateReportPage() {
     setPhotoRequirementsMet(met);
   }, []);
 
+  const handleReceivingReadyChange = useCallback((ready: boolean) => {
+    setReceivingReady(ready);
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!reportType || !canSubmit) return;
@@ -134,14 +183,16 @@ export default function CreateReportPage() {
       let finalReportId: string;
 
       if (reportId) {
-        // Update existing report (for STOCK reports)
-        await reportsAPI.updateReport(reportId, formData);
+        // Update existing report (for stock and receiving reports)
+        await reportsAPI.updateReport(reportId, { ...formData, metadata: fieldValues });
         finalReportId = reportId;
       } else {
         // Create new report
         const response = await reportsAPI.createReport({
           type: reportType,
           ...formData,
+          metadata: fieldValues,
+          outletId: outletId || undefined,
         });
         finalReportId = response.data.id;
       }
@@ -157,12 +208,12 @@ export default function CreateReportPage() {
       });
 
       router.push('/dashboard');
-    } catch (error) {
+    } catch (error: any) {
       console.error('Failed to submit report:', error);
       showToast({
         type: 'error',
         title: 'Error',
-        message: 'Failed to submit report. Please try again.',
+        message: error.response?.data?.message || 'Failed to submit report. Please try again.',
         duration: 5000
       });
     } finally {
@@ -170,7 +221,7 @@ export default function CreateReportPage() {
     }
   };
 
-  if (authLoading || initializingReport) {
+  if (authLoading || reportTypesLoading || initializingReport) {
     return (
       <div className="min-h-screen bg-gothic-900 flex flex-col items-center justify-center">
         <LoadingSpinner size="lg" />
@@ -185,6 +236,8 @@ export default function CreateReportPage() {
     return null;
   }
 
+  const SelectedTypeIcon = getReportTypeIcon(selectedType);
+
   return (
     <div className="min-h-screen bg-gothic-900 pb-20">
       {/* Header */}
@@ -198,37 +251,41 @@ export default function CreateReportPage() {
               <ArrowLeft className="w-5 h-5 text-gothic-300" />
             </button>
             <h1 className="text-sm font-display font-semibold text-gothic-100">
-              {reportType ? reportTypes[reportType as keyof typeof reportTypes].label : 'Create Report'}
+              {selectedType ? `${selectedType.name} Report` : 'Create Report'}
             </h1>
           </div>
         </div>
       </header>
 
       <main className="mobile-container py-6">
-        {!reportType ? (
+        {!selectedType ? (
           /* Report Type Selection */
           <div className="space-y-6">
             <h2 className="text-xl font-display font-semibold text-gothic-100">
               Choose Report Type
             </h2>
+            <OutletSelector value={outletId} onChange={setOutletId} allowAll={false} />
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-              {Object.entries(reportTypes).map(([type, info]) => (
-                <button
-                  key={type}
-                  onClick={() => setReportType(type)}
-                  className="gothic-card-hover p-6 text-left group"
-                >
-                  <div className="flex items-start space-x-4">
-                    <span className="text-3xl">{info.icon}</span>
-                    <div>
-                      <h3 className="font-medium text-gothic-100 mb-2 group-hover:text-accent-400 transition-colors">
-                        {info.label}
-                      </h3>
-                      <p className="text-gothic-400 text-sm">{info.description}</p>
+              {activeTypes.map((type) => {
+                const Icon = getReportTypeIcon(type);
+                return (
+                  <button
+                    key={type.code}
+                    onClick={() => selectReportType(type)}
+                    className="gothic-card-hover p-6 text-left group"
+                  >
+                    <div className="flex items-start space-x-4">
+                      <Icon className={`w-8 h-8 flex-shrink-0 ${getReportTypeColor(type).text}`} />
+                      <div>
+                        <h3 className="font-medium text-gothic-100 mb-2 group-hover:text-accent-400 transition-colors">
+                          {type.name} Report
+                        </h3>
+                        {type.description && <p className="text-gothic-400 text-sm">{type.description}</p>}
+                      </div>
                     </div>
-                  </div>
-                </button>
-              ))}
+                  </button>
+                );
+              })}
             </div>
           </div>
         ) : (
@@ -237,14 +294,16 @@ export default function CreateReportPage() {
             {/* Header Section */}
             <div className="gothic-card p-6">
               <div className="flex items-center space-x-3 mb-4">
-                <span className="text-2xl">{reportTypes[reportType as keyof typeof reportTypes]?.icon}</span>
+                <SelectedTypeIcon className={`w-6 h-6 ${getReportTypeColor(selectedType).text}`} />
                 <h2 className="text-xl font-display font-semibold text-gothic-100">
-                  {reportTypes[reportType as keyof typeof reportTypes]?.label}
+                  {selectedType.name} Report
                 </h2>
               </div>
-              <p className="text-gothic-400 text-sm">
-                {reportTypes[reportType as keyof typeof reportTypes]?.description}
-              </p>
+              {selectedType.description && (
+                <p className="text-gothic-400 text-sm">
+                  {selectedType.description}
+                </p>
+              )}
             </div>
 
             {/* Report Details Section */}
@@ -254,6 +313,13 @@ export default function CreateReportPage() {
               </h3>
 
               <form className="space-y-4">
+                {!reportId && outlets.length > 1 && (
+                  <div className="form-group">
+                    <label className="form-label text-xs">Outlet *</label>
+                    <OutletSelector value={outletId} onChange={setOutletId} allowAll={false} />
+                  </div>
+                )}
+
                 <div className="form-group">
                   <label htmlFor="title" className="form-label text-xs">
                     Report Title *
@@ -271,25 +337,29 @@ export default function CreateReportPage() {
 
                 <div className="form-group">
                   <label htmlFor="description" className="form-label text-xs">
-                    Description
+                    Description{selectedType.requireDescription && ' *'}
                   </label>
                   <textarea
                     id="description"
                     value={formData.description}
                     onChange={(e) => setFormData({ ...formData, description: e.target.value })}
                     className="input-gothic w-full h-24 resize-none text-xs"
-                    placeholder="Enter report description (optional)"
+                    placeholder={selectedType.requireDescription ? 'Describe the report' : 'Enter report description (optional)'}
                   />
                 </div>
+
+                {activeFields.length > 0 && (
+                  <ReportFieldsForm fields={activeFields} values={fieldValues} onChange={setFieldValues} />
+                )}
               </form>
             </div>
 
-            {/* Checklist Section - Only for OPENING/CLOSING reports */}
-            {(reportType === 'OPENING' || reportType === 'CLOSING') && (
+            {/* Checklist Section - Only for types with a checklist */}
+            {selectedType.checklist && (
               <div className="gothic-card">
                 <ChecklistInterface
                   reportId={reportId || undefined}
-                  reportType={reportType as 'OPENING' | 'CLOSING'}
+                  reportType={reportType}
                   onProgressChange={handleChecklistProgress}
                   onLocalItemsChange={(items) => {
                     console.log('Local checklist items:', items);
@@ -298,8 +368,8 @@ export default function CreateReportPage() {
               </div>
             )}
 
-            {/* Stock Section - Only for STOCK reports */}
-            {reportType === 'STOCK' && reportId && (
+            {/* Stock Section - Only for the stock workflow */}
+            {workflow === 'STOCK' && reportId && (
               <div className="gothic-card p-6">
                 <h3 className="text-sm font-medium text-gothic-100 mb-4 flex items-center space-x-2">
                   <span>📦</span>
@@ -319,8 +389,22 @@ export default function CreateReportPage() {
               </div>
             )}
 
-            {/* Photo Upload Section - Not for STOCK reports */}
-            {showPhotoSection && reportType !== 'STOCK' && (
+            {/* Receiving Section - Only for the receiving workflow */}
+            {workflow === 'RECEIVING' && reportId && (
+              <div className="gothic-card p-6">
+                <h3 className="text-sm font-medium text-gothic-100 mb-4 flex items-center space-x-2">
+                  <span>🚚</span>
+                  <span>Delivery</span>
+                </h3>
+                <ReceivingReportForm
+                  reportId={reportId}
+                  onReadyChange={handleReceivingReadyChange}
+                />
+              </div>
+            )}
+
+            {/* Photo Upload Section - Only for types with photos */}
+            {showPhotoSection && selectedType.photos && (
               <div className="gothic-card p-6">
                 <PhotoUploadSection
                   reportId={reportId || undefined}
@@ -343,7 +427,7 @@ export default function CreateReportPage() {
       </main>
 
       {/* Submit Button */}
-      {reportType && (
+      {selectedType && (
         <div className="fixed bottom-0 left-0 right-0 z-50 bg-gothic-900 border-t border-gothic-800 shadow-[0_-4px_20px_rgba(0,0,0,0.5)]">
           <div className="mobile-container py-4">
             <button
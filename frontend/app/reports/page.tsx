@@ -3,14 +3,17 @@
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
 import { useEffect, useState } from 'react';
-import { Search, Filter, FileText, AlertTriangle, Package, CheckCircle, ArrowLeft, X, SlidersHorizontal, Clock, Edit, Plus } from 'lucide-react';
+import { Search, Filter, FileText, ArrowLeft, X, SlidersHorizontal, Edit, Plus } from 'lucide-react';
 import Link from 'next/link';
 import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import OutletSelector from '@/components/ui/OutletSelector';
 import { reportsAPI } from '@/lib/api';
+import { useOutlet } from '@/contexts/OutletContext';
+import { useReportTypes, getReportTypeIcon, getReportTypeColor } from '@/lib/reportTypes';
 
 interface Report {
   id: string;
-  type: 'OPENING' | 'CLOSING' | 'PROBLEM' | 'STOCK';
+  type: string;
   title: string;
   status: 'DRAFT' | 'SUBMITTED' | 'RESOLVED';
   createdAt: string;
@@ -20,21 +23,29 @@ interface Report {
     name: string;
     username: string;
   };
+  outlet?: {
+    id: string;
+    name: string;
+  } | null;
 }
 
 export default function ReportsPage() {
   const { isAuthenticated, loading: authLoading, isAdmin } = useAuth();
+  const { outlets, selectedOutletId } = useOutlet();
+  const { reportTypes, loading: reportTypesLoading, getReportType, getLabel } = useReportTypes();
   const router = useRouter();
   const [reports, setReports] = useState<Report[]>([]);
   const [loading, setLoading] = useState(true);
   const [search, setSearch] = useState('');
   const [filterType, setFilterType] = useState('');
   const [filterStatus, setFilterStatus] = useState('');
+  const [filterOutlet, setFilterOutlet] = useState('');
   const [groupedReports, setGroupedReports] = useState<{[key: string]: Report[]}>({});
   const [showFilterPopup, setShowFilterPopup] = useState(false);
   const [tempSearch, setTempSearch] = useState('');
   const [tempFilterType, setTempFilterType] = useState('');
   const [tempFilterStatus, setTempFilterStatus] = useState('');
+  const [tempFilterOutlet, setTempFilterOutlet] = useState('');
 
   useEffect(() => {
     if (!authLoading && !isAuthenticated) {
@@ -42,11 +53,17 @@ export default function ReportsPage() {
     }
   }, [isAuthenticated, authLoading, router]);
 
+  // Waits for the report types, which decide what sorts first
   useEffect(() => {
-    if (isAuthenticated) {
+    if (isAuthenticated && !reportTypesLoading) {
       fetchReports();
     }
-  }, [isAuthenticated, search, filterType, filterStatus]);
+  }, [isAuthenticated, reportTypesLoading, search, filterType, filterStatus, filterOutlet]);
+
+  // Follow the outlet picked elsewhere (e.g. on the dashboard)
+  useEffect(() => {
+    setFilterOutlet(outlets.length > 1 ? selectedOutletId : '');
+  }, [selectedOutletId, outlets.length]);
 
   const groupReportsByDate = (reports: Report[]) => {
     const grouped: {[key: string]: Report[]} = {};
@@ -78,6 +95,7 @@ export default function ReportsPage() {
     setTempSearch(search);
     setTempFilterType(filterType);
     setTempFilterStatus(filterStatus);
+    setTempFilterOutlet(filterOutlet);
     setShowFilterPopup(true);
   };
 
@@ -89,6 +107,7 @@ export default function ReportsPage() {
     setSearch(tempSearch);
     setFilterType(tempFilterType);
     setFilterStatus(tempFilterStatus);
+    setFilterOutlet(tempFilterOutlet);
     setShowFilterPopup(false);
   };
 
@@ -96,9 +115,14 @@ export default function ReportsPage() {
     setTempSearch('');
     setTempFilterType('');
     setTempFilterStatus('');
+    setTempFilterOutlet('');
   };
 
-  const hasActiveFilters = search || filterType || filterStatus;
+  const hasActiveFilters = search || filterType || filterStatus || filterOutlet;
+
+  // Submitted reports of a resolvable type, e.g. problems, wait for an admin
+  const isUnresolved = (report: Report) =>
+    Boolean(getReportType(report.type)?.resolvable) && report.status === 'SUBMITTED';
 
   const fetchReports = async () => {
     try {
@@ -107,13 +131,14 @@ export default function ReportsPage() {
       if (search) params.search = search;
       if (filterType) params.type = filterType;
       if (filterStatus) params.status = filterStatus;
+      if (filterOutlet) params.outletId = filterOutlet;
 
       const response = await reportsAPI.getReports(params);
       // Sort reports: unresolved problems first, then drafts, then by submitted date
       const sortedReports = response.data.reports.sort((a: Report, b: Report) => {
         // Unresolved problem reports go first (highest priority)
-        const aIsUnresolvedProblem = a.type === 'PROBLEM' && a.status === 'SUBMITTED';
-        const bIsUnresolvedProblem = b.type === 'PROBLEM' && b.status === 'SUBMITTED';
+        const aIsUnresolvedProblem = isUnresolved(a);
+        const bIsUnresolvedProblem = isUnresolved(b);
 
         if (aIsUnresolvedProblem && !bIsUnresolvedProblem) return -1;
         if (!aIsUnresolvedProblem && bIsUnresolvedProblem) return 1;
@@ -151,50 +176,6 @@ export default function ReportsPage() {
     return null;
   }
 
-  const reportTypeIcons = {
-    OPENING: CheckCircle,
-    CLOSING: CheckCircle,
-    PROBLEM: AlertTriangle,
-    STOCK: Package,
-  };
-
-  const reportTypeLabels = {
-    OPENING: 'Opening',
-    CLOSING: 'Closing',
-    PROBLEM: 'Problem',
-    STOCK: 'Stock',
-  };
-
-  const getReportTypeColors = (type: string) => {
-    switch (type) {
-      case 'OPENING':
-        return 'text-green-400';
-      case 'CLOSING':
-        return 'text-orange-400';
-      case 'PROBLEM':
-        return 'text-red-400';
-      case 'STOCK':
-        return 'text-blue-400';
-      default:
-        return 'text-gothic-400';
-    }
-  };
-
-  const getReportTypeBgColors = (type: string) => {
-    switch (type) {
-      case 'OPENING':
-        return 'report-opening-bg';
-      case 'CLOSING':
-        return 'report-closing-bg';
-      case 'PROBLEM':
-        return 'report-problem-bg';
-      case 'STOCK':
-        return 'report-stock-bg';
-      default:
-        return 'bg-gothic-800';
-    }
-  };
-
   const statusColors = {
     DRAFT: 'status-draft',
     SUBMITTED: 'status-submitted',
@@ -249,7 +230,7 @@ export default function ReportsPage() {
             {hasActiveFilters && (
               <div className="ml-auto flex items-center space-x-1">
                 <span className="text-xs bg-accent-500 text-white px-2 py-0.5 rounded-full">
-                  {[search, filterType, filterStatus].filter(Boolean).length}
+                  {[search, filterType, filterStatus, filterOutlet].filter(Boolean).length}
                 </span>
               </div>
             )}
@@ -275,7 +256,7 @@ export default function ReportsPage() {
             </div>
             <h3 className="text-sm font-medium text-gothic-300 mb-2">No reports found</h3>
             <p className="text-xs text-gothic-400 mb-4">
-              {search || filterType || filterStatus
+              {hasActiveFilters
                 ? 'Try adjusting your filters'
                 : 'Get started by creating your first report'
               }
@@ -288,7 +269,8 @@ export default function ReportsPage() {
         ) : (
           <div className="space-y-4">
             {reports.map((report, index) => {
-              const Icon = reportTypeIcons[report.type];
+              const reportType = getReportType(report.type);
+              const Icon = getReportTypeIcon(reportType);
 
               // Check if we need to show a date divider
               const currentDate = report.submittedAt ?
@@ -319,7 +301,7 @@ export default function ReportsPage() {
 
                   {/* Report Card - Color coded based on status and highlight unresolved problems */}
                   <div className={`mobile-card transition-all duration-200 ${
-                    report.type === 'PROBLEM' && report.status === 'SUBMITTED' ?
+                    isUnresolved(report) ?
                       'border-l-4 border-l-red-500 bg-red-500/10 ring-2 ring-red-500/20 animate-pulse-subtle' :
                     report.status === 'DRAFT' ? 'border-l-4 border-l-yellow-400/50 bg-yellow-400/5' :
                     report.status === 'SUBMITTED' ? 'border-l-4 border-l-blue-400/50' :
@@ -327,14 +309,17 @@ export default function ReportsPage() {
                   }`}>
                     <div className="flex items-start justify-between">
                       <div className="flex items-center space-x-3 flex-1 min-w-0">
-                        <div className={`w-12 h-12 rounded-full flex items-center justify-center flex-shrink-0 ${getReportTypeBgColors(report.type)}`}>
-                          <Icon className={`w-6 h-6 ${getReportTypeColors(report.type)}`} />
+                        <div className={`w-12 h-12 rounded-full flex items-center justify-center flex-shrink-0 ${getReportTypeColor(reportType).background}`}>
+                          <Icon className={`w-6 h-6 ${getReportTypeColor(reportType).text}`} />
                         </div>
                         <div className="min-w-0 flex-1">
                           <div className="flex items-center space-x-2 mb-1">
                             <h3 className="font-medium text-gothic-100 text-sm truncate">{report.title}</h3>
                           </div>
-                          <p className="text-xs text-gothic-400 mb-2">{reportTypeLabels[report.type]} • By {report.user.name}</p>
+                          <p className="text-xs text-gothic-400 mb-2">
+                            {getLabel(report.type)}
+                            {report.outlet && <> • {report.outlet.name}</>} • By {report.user.name}
+                          </p>
 
                           <div className="text-xs text-gothic-300">
                             {report.submittedAt ? (
@@ -424,10 +409,11 @@ export default function ReportsPage() {
               <div className="space-y-1">
                 {[
                   { value: '', label: 'All Types', icon: FileText },
-                  { value: 'OPENING', label: 'Opening', icon: CheckCircle },
-                  { value: 'CLOSING', label: 'Closing', icon: Clock },
-                  { value: 'PROBLEM', label: 'Problem', icon: AlertTriangle },
-                  { value: 'STOCK', label: 'Stock', icon: Package },
+                  ...reportTypes.map(reportType => ({
+                    value: reportType.code,
+                    label: reportType.name,
+                    icon: getReportTypeIcon(reportType)
+                  })),
                 ].map((option) => {
                   const Icon = option.icon;
                   return (
@@ -455,6 +441,14 @@ export default function ReportsPage() {
               </div>
             </div>
 
+            {/* Outlet */}
+            {outlets.length > 1 && (
+              <div className="filter-section">
+                <h4 className="filter-section-title">Outlet</h4>
+                <OutletSelector value={tempFilterOutlet} onChange={setTempFilterOutlet} />
+              </div>
+            )}
+
             {/* Status */}
             <div className="filter-section">
               <h4 className="filter-section-title">Status</h4>
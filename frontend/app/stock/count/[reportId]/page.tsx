@@ -0,0 +1,79 @@
+'use client';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useRouter } from 'next/navigation';
+import { useEffect } from 'react';
+import { ArrowLeft, Users } from 'lucide-react';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import StockReportForm from '@/components/reports/StockReportForm';
+
+interface StockCountPageProps {
+  params: {
+    reportId: string;
+  };
+}
+
+// Counting page for staff who joined someone else's stock count; the
+// owner keeps working from the report itself
+export default function StockCountPage({ params }: StockCountPageProps) {
+  const { isAuthenticated, loading: authLoading } = useAuth();
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, authLoading, router]);
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gothic-900 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gothic-900">
+      {/* Header */}
+      <header className="mobile-header">
+        <div className="mobile-container">
+          <div className="flex justify-between items-center h-20">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => window.history.back()}
+                  className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors"
+                >
+                  <ArrowLeft className="w-5 h-5 text-gothic-300" />
+                </button>
+                <div className="w-10 h-10 bg-blue-500/20 border border-blue-500/30 rounded-xl flex items-center justify-center">
+                  <Users className="w-6 h-6 text-blue-400" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h1 className="header-title truncate">
+                    Shared Stock Count
+                  </h1>
+                  <p className="header-subtitle truncate">
+                    Claim a zone or items and count them
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="mobile-container py-6 pb-24">
+        <StockReportForm
+          reportId={params.reportId}
+          onComplete={() => router.push('/dashboard')}
+        />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,391 @@
+'use client';
+
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/contexts/ToastContext';
+import { useOutlet } from '@/contexts/OutletContext';
+import { useRouter } from 'next/navigation';
+import { useEffect, useMemo, useState } from 'react';
+import { ArrowLeft, Trash2, Plus, Camera, CheckCircle, Image as ImageIcon } from 'lucide-react';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import OutletSelector from '@/components/ui/OutletSelector';
+import ConfirmDialog from '@/components/ui/ConfirmDialog';
+import {
+  stockAPI,
+  StockProduct,
+  StockWasteEntry,
+  WasteReasonCode,
+  WASTE_REASONS
+} from '@/lib/stockApi';
+
+const emptyForm = { productKey: '', quantity: '', reasonCode: 'EXPIRED' as WasteReasonCode, notes: '' };
+
+const productKey = (productId: string, variantId?: string | null) => `${productId}:${variantId || ''}`;
+
+export default function WastePage() {
+  const { isAuthenticated, isAdmin, user, loading: authLoading } = useAuth();
+  const { showToast } = useToast();
+  const { selectedOutletId } = useOutlet();
+  const router = useRouter();
+  const today = useMemo(() => new Date().toISOString().split('T')[0], []);
+  const [wasteDate, setWasteDate] = useState(today);
+  const [products, setProducts] = useState<StockProduct[]>([]);
+  const [entries, setEntries] = useState<StockWasteEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState(emptyForm);
+  const [photoFile, setPhotoFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [deleteEntry, setDeleteEntry] = useState<StockWasteEntry | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !isAuthenticated) {
+      router.push('/login');
+    }
+  }, [isAuthenticated, authLoading, router]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchProducts();
+    }
+  }, [isAuthenticated]);
+
+  useEffect(() => {
+    if (isAuthenticated) {
+      fetchEntries();
+    }
+  }, [isAuthenticated, selectedOutletId, wasteDate]);
+
+  const fetchProducts = async () => {
+    try {
+      setProducts(await stockAPI.getProducts());
+    } catch (error) {
+      console.error('Failed to fetch products:', error);
+    }
+  };
+
+  const fetchEntries = async () => {
+    try {
+      setLoading(true);
+      const params: { date: string; outletId?: string } = { date: wasteDate };
+      if (selectedOutletId) params.outletId = selectedOutletId;
+      setEntries(await stockAPI.getWasteEntries(params));
+    } catch (error) {
+      console.error('Failed to fetch waste entries:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load waste entries',
+        duration: 5000
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectedProduct = products.find(product => productKey(product.productId, product.variantId) === form.productKey);
+
+  const handleSubmit = async () => {
+    const quantity = parseFloat(form.quantity);
+    if (!selectedProduct || isNaN(quantity) || quantity <= 0) {
+      showToast({
+        type: 'error',
+        title: 'Missing details',
+        message: 'Pick a product and enter a quantity above zero',
+        duration: 3000
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await stockAPI.createWasteEntry({
+        productId: selectedProduct.productId,
+        variantId: selectedProduct.variantId,
+        quantity,
+        reasonCode: form.reasonCode,
+        notes: form.notes.trim() || undefined,
+        wasteDate,
+        outletId: selectedOutletId || undefined
+      }, photoFile);
+
+      setForm(emptyForm);
+      setPhotoFile(null);
+      showToast({
+        type: 'success',
+        title: 'Waste logged',
+        message: `${quantity}${selectedProduct.unit === 'gram' ? 'g' : ` ${selectedProduct.unit}`} of ${selectedProduct.name}`,
+        duration: 3000
+      });
+      fetchEntries();
+    } catch (error: any) {
+      console.error('Failed to log waste:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to log waste',
+        duration: 5000
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleteEntry) return;
+
+    try {
+      await stockAPI.deleteWasteEntry(deleteEntry.id);
+      setEntries(entries.filter(entry => entry.id !== deleteEntry.id));
+      showToast({
+        type: 'success',
+        title: 'Deleted',
+        message: 'Waste entry deleted',
+        duration: 3000
+      });
+    } catch (error: any) {
+      console.error('Failed to delete waste entry:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to delete waste entry',
+        duration: 5000
+      });
+    } finally {
+      setDeleteEntry(null);
+    }
+  };
+
+  const reasonLabel = (code: WasteReasonCode) =>
+    WASTE_REASONS.find(reason => reason.value === code)?.label || code;
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen bg-gothic-900 flex items-center justify-center">
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return null;
+  }
+
+  return (
+    <div className="min-h-screen bg-gothic-900">
+      {/* Header */}
+      <header className="mobile-header">
+        <div className="mobile-container">
+          <div className="flex justify-between items-center h-20">
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-3">
+                <button
+                  onClick={() => window.history.back()}
+                  className="w-10 h-10 bg-gothic-700 hover:bg-gothic-600 rounded-xl flex items-center justify-center transition-colors"
+                >
+                  <ArrowLeft className="w-5 h-5 text-gothic-300" />
+                </button>
+                <div className="w-10 h-10 bg-yellow-500/20 border border-yellow-500/30 rounded-xl flex items-center justify-center">
+                  <Trash2 className="w-6 h-6 text-yellow-400" />
+                </div>
+                <div className="min-w-0 flex-1">
+                  <h1 className="header-title truncate">
+                    Waste Log
+                  </h1>
+                  <p className="header-subtitle truncate">
+                    Expired, spoiled or spilled stock
+                  </p>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="mobile-container py-6 pb-24 space-y-6">
+        <OutletSelector />
+
+        {/* Add entry */}
+        <div className="gothic-card p-4 space-y-4">
+          {isAdmin ? (
+            <div>
+              <label className="block text-xs font-medium text-gothic-400 mb-1">Date</label>
+              <input
+                type="date"
+                value={wasteDate}
+                onChange={(e) => setWasteDate(e.target.value)}
+                className="input-gothic w-full text-sm"
+              />
+            </div>
+          ) : (
+            <p className="text-xs text-gothic-400">
+              Logging waste for today. It is taken into account in today&apos;s stock count.
+            </p>
+          )}
+
+          <div>
+            <label className="block text-xs font-medium text-gothic-400 mb-1">Product</label>
+            <select
+              value={form.productKey}
+              onChange={(e) => setForm({ ...form, productKey: e.target.value })}
+              className="input-gothic w-full text-sm"
+            >
+              <option value="">Select a product</option>
+              {products.map((product) => (
+                <option key={product.id} value={productKey(product.productId, product.variantId)}>
+                  {product.name}{product.variantName ? ` – ${product.variantName}` : ''}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gothic-400 mb-1">
+              Quantity{selectedProduct ? ` (${selectedProduct.unit})` : ''}
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              value={form.quantity}
+              onChange={(e) => setForm({ ...form, quantity: e.target.value })}
+              className="input-gothic w-full text-sm"
+              placeholder="0"
+            />
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gothic-400 mb-1">Reason</label>
+            <div className="grid grid-cols-3 gap-2">
+              {WASTE_REASONS.map((reason) => (
+                <button
+                  key={reason.value}
+                  onClick={() => setForm({ ...form, reasonCode: reason.value })}
+                  className={`filter-option justify-center text-xs ${
+                    form.reasonCode === reason.value ? 'filter-option-active' : 'filter-option-inactive'
+                  }`}
+                >
+                  {reason.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gothic-400 mb-1">Notes (Optional)</label>
+            <input
+              type="text"
+              value={form.notes}
+              onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              className="input-gothic w-full text-sm"
+              placeholder="What happened?"
+              maxLength={500}
+            />
+          </div>
+
+          <div>
+            <label className="flex items-center space-x-1 text-xs font-medium text-gothic-400 mb-1">
+              <Camera className="w-3 h-3" />
+              <span>Photo (Optional)</span>
+            </label>
+            <input
+              type="file"
+              accept="image/*"
+              capture="environment"
+              onChange={(e) => setPhotoFile(e.target.files?.[0] || null)}
+              className="w-full px-3 py-2 bg-gothic-800 border border-gothic-700 rounded-lg text-gothic-100 text-xs file:mr-3 file:py-1 file:px-3 file:rounded-lg file:border-0 file:text-xs file:bg-gothic-700 file:text-gothic-300 hover:file:bg-gothic-600 transition-colors"
+            />
+            {photoFile && (
+              <p className="text-xs text-green-400 mt-2 flex items-center space-x-1">
+                <CheckCircle className="w-3 h-3" />
+                <span>{photoFile.name}</span>
+              </p>
+            )}
+          </div>
+
+          <button
+            onClick={handleSubmit}
+            disabled={saving || !form.productKey || !form.quantity}
+            className="btn-primary w-full flex items-center justify-center"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : 'Log Waste'}
+          </button>
+        </div>
+
+        {/* Entries of the day */}
+        <div className="gothic-card p-4">
+          <h2 className="text-sm font-medium text-gothic-200 mb-3">
+            Logged {wasteDate === today ? 'today' : new Date(wasteDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+          </h2>
+          {loading ? (
+            <div className="flex justify-center py-6">
+              <LoadingSpinner size="md" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-xs text-gothic-500">No waste logged</p>
+          ) : (
+            <div className="space-y-2">
+              {entries.map((entry) => (
+                <div key={entry.id} className="p-3 rounded-lg bg-gothic-800 border border-gothic-700">
+                  <div className="flex items-start justify-between">
+                    <div className="min-w-0">
+                      <h4 className="text-xs font-medium text-gothic-100">
+                        {entry.productName}
+                        {entry.variantName && (
+                          <span className="text-accent-300 font-normal"> – {entry.variantName}</span>
+                        )}
+                      </h4>
+                      <p className="text-xs text-gothic-400 mt-0.5">
+                        <span className="text-yellow-400 font-medium">
+                          {entry.quantity}{entry.unit === 'gram' ? 'g' : ` ${entry.unit}`}
+                        </span>
+                        <span className="badge-small badge-warning ml-2">{reasonLabel(entry.reasonCode)}</span>
+                      </p>
+                      {entry.notes && (
+                        <p className="text-xs text-gothic-300 mt-1">{entry.notes}</p>
+                      )}
+                      <p className="text-xs text-gothic-500 mt-1">
+                        {entry.user?.name || 'Unknown'} · {new Date(entry.createdAt).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' })}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2 flex-shrink-0 ml-2">
+                      {entry.photoFilename && (
+                        <a
+                          href={stockAPI.getWastePhotoUrl(entry.id)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-gothic-400 hover:text-accent-400"
+                          title="View photo"
+                        >
+                          <ImageIcon className="w-4 h-4" />
+                        </a>
+                      )}
+                      {(isAdmin || entry.user?.id === user?.id) && (
+                        <button
+                          onClick={() => setDeleteEntry(entry)}
+                          className="text-gothic-400 hover:text-red-400"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+
+      <ConfirmDialog
+        isOpen={!!deleteEntry}
+        onConfirm={handleDelete}
+        onCancel={() => setDeleteEntry(null)}
+        title="Delete Waste Entry"
+        message="The stock report of that day will no longer account for this waste. Continue?"
+        confirmText="Delete"
+        variant="danger"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,418 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Plus, Trash2, RefreshCw, AlertTriangle, CheckCircle } from 'lucide-react';
+import LoadingSpinner from '@/components/ui/LoadingSpinner';
+import { receivingAPI } from '@/lib/api';
+import { formatCurrency, StockProduct } from '@/lib/stockApi';
+import {
+  ReceivingReport,
+  ReceivingItem,
+  DiscrepancyReason,
+  DISCREPANCY_REASONS,
+  getDiscrepancy,
+  getUnrecordedQty,
+  formatDiscrepancyReason,
+  formatQty
+} from '@/lib/receiving';
+import { useToast } from '@/contexts/ToastContext';
+
+interface ReceivingReportFormProps {
+  reportId: string;
+  onReadyChange?: (ready: boolean) => void;
+}
+
+const emptyItemForm = {
+  productKey: '',
+  orderedQty: '',
+  receivedQty: '',
+  unitPrice: '',
+  discrepancyReason: '' as DiscrepancyReason | '',
+  notes: ''
+};
+
+const productKey = (productId: string, variantId?: string | null) => `${productId}:${variantId || ''}`;
+
+const parseOptional = (value: string) => (value.trim() === '' ? null : parseFloat(value));
+
+const ReceivingReportForm: React.FC<ReceivingReportFormProps> = ({ reportId, onReadyChange }) => {
+  const { showToast } = useToast();
+  const [receiving, setReceiving] = useState<ReceivingReport | null>(null);
+  const [products, setProducts] = useState<StockProduct[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [details, setDetails] = useState({ supplierName: '', deliveryNoteNumber: '' });
+  const [itemForm, setItemForm] = useState(emptyItemForm);
+  const [savingItem, setSavingItem] = useState(false);
+  const [comparing, setComparing] = useState(false);
+
+  useEffect(() => {
+    loadReceiving();
+    loadProducts();
+  }, [reportId]);
+
+  useEffect(() => {
+    onReadyChange?.(Boolean(receiving?.supplierName && receiving.items.length > 0));
+  }, [receiving, onReadyChange]);
+
+  const loadReceiving = async () => {
+    try {
+      setLoading(true);
+      const response = await receivingAPI.getReceivingReport(reportId);
+      setReceiving(response.data);
+      setDetails({
+        supplierName: response.data.supplierName || '',
+        deliveryNoteNumber: response.data.deliveryNoteNumber || ''
+      });
+    } catch (error) {
+      console.error('Failed to load receiving report:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to load the delivery',
+        duration: 5000
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadProducts = async () => {
+    try {
+      const response = await receivingAPI.getProducts();
+      setProducts(response.data);
+    } catch (error) {
+      console.error('Failed to load products:', error);
+    }
+  };
+
+  const saveDetails = async () => {
+    if (!receiving) return;
+    if (
+      details.supplierName === (receiving.supplierName || '')
+      && details.deliveryNoteNumber === (receiving.deliveryNoteNumber || '')
+    ) {
+      return;
+    }
+
+    try {
+      const response = await receivingAPI.updateReceivingReport(reportId, details);
+      setReceiving(response.data);
+    } catch (error) {
+      console.error('Failed to save delivery details:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to save the supplier details',
+        duration: 5000
+      });
+    }
+  };
+
+  const selectedProduct = products.find(product => productKey(product.productId, product.variantId) === itemForm.productKey);
+  const orderedQty = parseOptional(itemForm.orderedQty);
+  const receivedQty = parseOptional(itemForm.receivedQty);
+  const formHasDiscrepancy = orderedQty !== null && receivedQty !== null && orderedQty !== receivedQty;
+
+  const handleAddItem = async () => {
+    if (!selectedProduct || receivedQty === null || isNaN(receivedQty) || receivedQty < 0) {
+      showToast({
+        type: 'error',
+        title: 'Missing details',
+        message: 'Pick a product and enter the received quantity',
+        duration: 3000
+      });
+      return;
+    }
+
+    if (formHasDiscrepancy && !itemForm.discrepancyReason) {
+      showToast({
+        type: 'error',
+        title: 'Reason required',
+        message: 'The received quantity differs from the order, pick a reason',
+        duration: 3000
+      });
+      return;
+    }
+
+    try {
+      setSavingItem(true);
+      const response = await receivingAPI.addItem(reportId, {
+        productId: selectedProduct.productId,
+        variantId: selectedProduct.variantId,
+        orderedQty,
+        receivedQty,
+        unitPrice: parseOptional(itemForm.unitPrice),
+        discrepancyReason: itemForm.discrepancyReason || null,
+        notes: itemForm.notes.trim() || null
+      });
+      setReceiving(prev => prev ? { ...prev, items: [...prev.items, response.data] } : prev);
+      setItemForm(emptyItemForm);
+    } catch (error: any) {
+      console.error('Failed to add line item:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: error.response?.data?.message || 'Failed to add the line item',
+        duration: 5000
+      });
+    } finally {
+      setSavingItem(false);
+    }
+  };
+
+  const handleDeleteItem = async (item: ReceivingItem) => {
+    try {
+      await receivingAPI.deleteItem(item.id);
+      setReceiving(prev => prev ? { ...prev, items: prev.items.filter(existing => existing.id !== item.id) } : prev);
+    } catch (error) {
+      console.error('Failed to delete line item:', error);
+      showToast({
+        type: 'error',
+        title: 'Error',
+        message: 'Failed to delete the line item',
+        duration: 5000
+      });
+    }
+  };
+
+  const handleCompare = async () => {
+    try {
+      setComparing(true);
+      const response = await receivingAPI.compareWithPos(reportId);
+      setReceiving(response.data);
+    } catch (error: any) {
+      console.error('Failed to compare with POS:', error);
+      showToast({
+        type: 'error',
+        title: 'Comparison failed',
+        message: error.response?.data?.message || 'Failed to compare with Olsera',
+        duration: 5000
+      });
+    } finally {
+      setComparing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-6">
+        <LoadingSpinner size="md" />
+      </div>
+    );
+  }
+
+  if (!receiving) {
+    return (
+      <p className="text-xs text-gothic-400">This report has no delivery details.</p>
+    );
+  }
+
+  const totalValue = receiving.items.reduce((sum, item) => sum + (item.unitPrice ?? 0) * item.receivedQty, 0);
+
+  return (
+    <div className="space-y-4">
+      {/* Supplier details */}
+      <div className="grid grid-cols-1 gap-3">
+        <div className="form-group">
+          <label className="form-label text-xs">Supplier *</label>
+          <input
+            type="text"
+            value={details.supplierName}
+            onChange={(e) => setDetails({ ...details, supplierName: e.target.value })}
+            onBlur={saveDetails}
+            className="input-gothic w-full text-xs"
+            placeholder="Supplier name"
+            maxLength={200}
+          />
+        </div>
+        <div className="form-group">
+          <label className="form-label text-xs">Delivery Note No.</label>
+          <input
+            type="text"
+            value={details.deliveryNoteNumber}
+            onChange={(e) => setDetails({ ...details, deliveryNoteNumber: e.target.value })}
+            onBlur={saveDetails}
+            className="input-gothic w-full text-xs"
+            placeholder="Number on the delivery note (optional)"
+            maxLength={100}
+          />
+        </div>
+      </div>
+
+      {/* Line items */}
+      <div className="space-y-2">
+        {receiving.items.length === 0 ? (
+          <p className="text-xs text-gothic-500">No line items yet</p>
+        ) : (
+          receiving.items.map((item) => {
+            const discrepancy = getDiscrepancy(item);
+            const unrecorded = getUnrecordedQty(item);
+            return (
+              <div key={item.id} className="p-3 rounded-lg bg-gothic-800 border border-gothic-700">
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <h4 className="text-xs font-medium text-gothic-100">
+                      {item.productName}
+                      {item.variantName && (
+                        <span className="text-accent-300 font-normal"> – {item.variantName}</span>
+                      )}
+                    </h4>
+                    <p className="text-xs text-gothic-400 mt-0.5">
+                      Received <span className="text-gothic-200">{formatQty(item.receivedQty, item.unit)}</span>
+                      {item.orderedQty !== null && item.orderedQty !== undefined && (
+                        <> of {formatQty(item.orderedQty, item.unit)} ordered</>
+                      )}
+                      {item.unitPrice !== null && item.unitPrice !== undefined && (
+                        <> · {formatCurrency(item.unitPrice)}/{item.unit === 'gram' ? 'g' : item.unit}</>
+                      )}
+                    </p>
+                    {discrepancy !== null && discrepancy !== 0 && (
+                      <span className={`badge-small mt-1 inline-block ${discrepancy < 0 ? 'badge-error' : 'badge-warning'}`}>
+                        {discrepancy > 0 ? '+' : ''}{formatQty(discrepancy, item.unit)}
+                        {item.discrepancyReason && ` · ${formatDiscrepancyReason(item.discrepancyReason)}`}
+                      </span>
+                    )}
+                    {(discrepancy === null || discrepancy === 0) && item.discrepancyReason && (
+                      <span className="badge-small badge-warning mt-1 inline-block">
+                        {formatDiscrepancyReason(item.discrepancyReason)}
+                      </span>
+                    )}
+                    {unrecorded !== null && unrecorded > 0 && (
+                      <span className="badge-small badge-error mt-1 ml-1 inline-block">
+                        {formatQty(unrecorded, item.unit)} not in POS
+                      </span>
+                    )}
+                    {item.notes && (
+                      <p className="text-xs text-gothic-300 mt-1">{item.notes}</p>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleDeleteItem(item)}
+                    className="text-gothic-400 hover:text-red-400 flex-shrink-0 ml-2"
+                    title="Remove"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+        {totalValue > 0 && (
+          <p className="text-xs text-gothic-400 text-right">
+            Total <span className="text-gothic-200 font-medium">{formatCurrency(totalValue)}</span>
+          </p>
+        )}
+      </div>
+
+      {/* Add line item */}
+      <div className="p-3 rounded-lg bg-gothic-900 border border-gothic-700 space-y-3">
+        <select
+          value={itemForm.productKey}
+          onChange={(e) => setItemForm({ ...itemForm, productKey: e.target.value })}
+          className="input-gothic w-full text-xs"
+        >
+          <option value="">Select a product</option>
+          {products.map((product) => (
+            <option key={product.id} value={productKey(product.productId, product.variantId)}>
+              {product.name}{product.variantName ? ` – ${product.variantName}` : ''}
+            </option>
+          ))}
+        </select>
+        <div className="grid grid-cols-3 gap-2">
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={itemForm.orderedQty}
+            onChange={(e) => setItemForm({ ...itemForm, orderedQty: e.target.value })}
+            className="input-gothic w-full text-xs"
+            placeholder="Ordered"
+          />
+          <input
+            type="number"
+            min="0"
+            step="0.1"
+            value={itemForm.receivedQty}
+            onChange={(e) => setItemForm({ ...itemForm, receivedQty: e.target.value })}
+            className="input-gothic w-full text-xs"
+            placeholder="Received *"
+          />
+          <input
+            type="number"
+            min="0"
+            step="1"
+            value={itemForm.unitPrice}
+            onChange={(e) => setItemForm({ ...itemForm, unitPrice: e.target.value })}
+            className="input-gothic w-full text-xs"
+            placeholder="Unit price"
+          />
+        </div>
+        {selectedProduct && (
+          <p className="text-xs text-gothic-500">Quantities in {selectedProduct.unit}</p>
+        )}
+        <select
+          value={itemForm.discrepancyReason}
+          onChange={(e) => setItemForm({ ...itemForm, discrepancyReason: e.target.value as DiscrepancyReason | '' })}
+          className="input-gothic w-full text-xs"
+        >
+          <option value="">{formHasDiscrepancy ? 'Reason for the discrepancy *' : 'No discrepancy'}</option>
+          {DISCREPANCY_REASONS.map((reason) => (
+            <option key={reason.value} value={reason.value}>{reason.label}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={itemForm.notes}
+          onChange={(e) => setItemForm({ ...itemForm, notes: e.target.value })}
+          className="input-gothic w-full text-xs"
+          placeholder="Notes (optional)"
+          maxLength={500}
+        />
+        <button
+          type="button"
+          onClick={handleAddItem}
+          disabled={savingItem || !itemForm.productKey || !itemForm.receivedQty}
+          className="btn-secondary w-full flex items-center justify-center text-xs"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          {savingItem ? 'Adding...' : 'Add Line Item'}
+        </button>
+      </div>
+
+      {/* POS comparison */}
+      {receiving.items.length > 0 && (
+        <div className="flex items-center justify-between">
+          <p className="text-xs text-gothic-500 flex items-center space-x-1">
+            {receiving.comparedAt ? (
+              receiving.items.some(item => (getUnrecordedQty(item) ?? 0) > 0) ? (
+                <>
+                  <AlertTriangle className="w-3 h-3 text-red-400" />
+                  <span>Some received goods are missing from the POS</span>
+                </>
+              ) : (
+                <>
+                  <CheckCircle className="w-3 h-3 text-green-400" />
+                  <span>Matches the POS incoming stock</span>
+                </>
+              )
+            ) : (
+              <span>Not compared with the POS yet</span>
+            )}
+          </p>
+          <button
+            type="button"
+            onClick={handleCompare}
+            disabled={comparing}
+            className="text-xs text-accent-400 hover:text-accent-300 flex items-center space-x-1"
+          >
+            <RefreshCw className={`w-3 h-3 ${comparing ? 'animate-spin' : ''}`} />
+            <span>Compare with POS</span>
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReceivingReportForm;
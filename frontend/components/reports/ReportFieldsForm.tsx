@@ -0,0 +1,147 @@
+'use client';
+
+import { ReportFieldConfig, ReportFieldValue, ReportFieldValues } from '@/lib/reportTypes';
+
+interface ReportFieldsFormProps {
+  fields: ReportFieldConfig[];
+  values: ReportFieldValues;
+  onChange: (values: ReportFieldValues) => void;
+}
+
+const CURRENCY = process.env.NEXT_PUBLIC_CURRENCY || 'IDR';
+
+// What the admin allowed, e.g. "2 – 8 °C" or "up to 200 characters"
+const getRangeHint = (field: ReportFieldConfig) => {
+  const hasMin = field.min !== null && field.min !== undefined;
+  const hasMax = field.max !== null && field.max !== undefined;
+  if (!hasMin && !hasMax) return null;
+
+  if (field.fieldType === 'TEXT') {
+    if (hasMin && hasMax) return `${field.min}–${field.max} characters`;
+    return hasMin ? `At least ${field.min} characters` : `Up to ${field.max} characters`;
+  }
+
+  const unit = field.fieldType === 'TEMPERATURE' ? field.unit || '°C' : field.unit || '';
+  if (hasMin && hasMax) return `${field.min} – ${field.max} ${unit}`.trim();
+  return hasMin ? `At least ${field.min} ${unit}`.trim() : `Up to ${field.max} ${unit}`.trim();
+};
+
+// Inputs for the custom fields of a report type; values are sent as report
+// metadata and converted and checked by the server
+export default function ReportFieldsForm({ fields, values, onChange }: ReportFieldsFormProps) {
+  const setValue = (key: string, value: ReportFieldValue | null) => {
+    const next = { ...values };
+    if (value === null) {
+      delete next[key];
+    } else {
+      next[key] = value;
+    }
+    onChange(next);
+  };
+
+  const renderInput = (field: ReportFieldConfig) => {
+    const value = values[field.key];
+    const inputId = `field-${field.key}`;
+
+    switch (field.fieldType) {
+      case 'BOOLEAN':
+        return (
+          <div className="flex space-x-2">
+            {[true, false].map(option => (
+              <button
+                key={String(option)}
+                type="button"
+                onClick={() => setValue(field.key, value === option ? null : option)}
+                className={`flex-1 py-2 rounded-lg border text-xs font-medium transition-colors ${
+                  value === option
+                    ? 'bg-accent-500/20 border-accent-500/50 text-accent-400'
+                    : 'bg-gothic-900 border-gothic-700 text-gothic-300 hover:border-gothic-600'
+                }`}
+              >
+                {option ? 'Yes' : 'No'}
+              </button>
+            ))}
+          </div>
+        );
+      case 'SELECT':
+        return (
+          <select
+            id={inputId}
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => setValue(field.key, e.target.value || null)}
+            className="input-gothic w-full text-xs"
+          >
+            <option value="">Select…</option>
+            {field.options.map(option => (
+              <option key={option} value={option}>{option}</option>
+            ))}
+          </select>
+        );
+      case 'TEXT':
+        return (
+          <input
+            id={inputId}
+            type="text"
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => setValue(field.key, e.target.value)}
+            maxLength={field.max ?? undefined}
+            className="input-gothic w-full text-xs"
+          />
+        );
+      case 'DATE':
+        return (
+          <input
+            id={inputId}
+            type="date"
+            value={value === undefined ? '' : String(value).slice(0, 10)}
+            onChange={(e) => setValue(field.key, e.target.value || null)}
+            className="input-gothic w-full text-xs"
+          />
+        );
+      default: {
+        const unit = field.fieldType === 'CURRENCY'
+          ? CURRENCY
+          : field.fieldType === 'TEMPERATURE' ? field.unit || '°C' : field.unit;
+        return (
+          <div className="relative">
+            <input
+              id={inputId}
+              type="number"
+              inputMode="decimal"
+              step="any"
+              min={field.min ?? undefined}
+              max={field.max ?? undefined}
+              value={value === undefined ? '' : String(value)}
+              onChange={(e) => setValue(field.key, e.target.value === '' ? null : e.target.value)}
+              className={`input-gothic w-full text-xs ${unit ? 'pr-12' : ''}`}
+            />
+            {unit && (
+              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-gothic-400">{unit}</span>
+            )}
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {fields.map(field => {
+        const hint = getRangeHint(field);
+        return (
+          <div key={field.id} className="form-group">
+            <label htmlFor={`field-${field.key}`} className="form-label text-xs">
+              {field.label}{field.required && ' *'}
+            </label>
+            {renderInput(field)}
+            {(field.helpText || hint) && (
+              <p className="text-xs text-gothic-500 mt-1">
+                {[field.helpText, hint].filter(Boolean).join(' · ')}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -2,36 +2,90 @@
 
 import React, { useState, useEffect, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import { Calendar, Package, Scale, CheckCircle, Loader2, Plus, X } from 'lucide-react';
-import { stockAPI, StockReport, StockReportItem, StockReportStats } from '@/lib/stockApi';
+import { Calendar, Package, Scale, CheckCircle, Loader2, Plus, X, RefreshCw, AlertTriangle, MapPin, Users, Hand, EyeOff, Weight, ScanLine } from 'lucide-react';
+import { stockAPI, StockReport, StockReportItem, StockReportStats, StockZone, StockContainer, formatCurrency, formatOpeningSource, getOutgoingQty } from '@/lib/stockApi';
 import { useToast } from '@/contexts/ToastContext';
 import { useAuth } from '@/contexts/AuthContext';
 import ConfirmDialog from '@/components/ui/ConfirmDialog';
+import BarcodeScanner from '@/components/ui/BarcodeScanner';
 
 interface StockReportFormProps {
   reportId: string;
   onComplete?: () => void;
 }
 
+interface ZoneGroup {
+  zone: StockZone | null;
+  items: StockReportItem[];
+  completed: number;
+}
+
+const isPendingCount = (item: StockReportItem) => !item.completed || item.recountStatus === 'REQUIRED';
+
+// Items still needing an independent count in a blind count with second counts
+const needsIndependentCount = (item: StockReportItem) =>
+  item.secondCountStatus === 'PENDING' || item.secondCountStatus === 'MISMATCH';
+
+// How often the report is reloaded to show what others have counted
+const LIVE_REFRESH_MS = 15000;
+
+// Items arrive in walking order, so consecutive items of the same zone form a group
+const groupItemsByZone = (items: StockReportItem[]): ZoneGroup[] => {
+  const groups: ZoneGroup[] = [];
+  for (const item of items) {
+    const zone = item.zone || null;
+    let group = groups[groups.length - 1];
+    if (!group || group.zone?.id !== zone?.id) {
+      group = { zone, items: [], completed: 0 };
+      groups.push(group);
+    }
+    group.items.push(item);
+    if (!isPendingCount(item)) {
+      group.completed++;
+    }
+  }
+  return groups;
+};
+
 const StockReportForm: React.FC<StockReportFormProps> = ({ reportId, onComplete }) => {
   const { showToast } = useToast();
-  const { isAdmin } = useAuth();
+  const { isAdmin, user } = useAuth();
   const today = useMemo(() => new Date().toISOString().split('T')[0], []);
   const [stockDate, setStockDate] = useState(today);
+  // Staff count today, or the past day a claimed catch-up report was scheduled for
+  const [scheduledDate, setScheduledDate] = useState<string | null>(null);
+  const staffDate = scheduledDate || today;
   const [stockReport, setStockReport] = useState<StockReport | null>(null);
   const [stats, setStats] = useState<StockReportStats | null>(null);
   const [loading, setLoading] = useState(false);
   const [initializing, setInitializing] = useState(false);
   const [editingItem, setEditingItem] = useState<string | null>(null);
   const [hasInitialized, setHasInitialized] = useState(false);
-  const hasDifferenceStats = typeof stats?.totalDifference === 'number';
+  const hasDifferenceStats = !stockReport?.blindCount && typeof stats?.totalDifference === 'number';
   const totalDifference = hasDifferenceStats ? Number(stats?.totalDifference) : 0;
   const negativeDiffCount = stats?.negativeDifferences?.length ?? 0;
   const positiveDiffCount = stats?.positiveDifferences?.length ?? 0;
+  const zoneGroups = useMemo(() => groupItemsByZone(stockReport?.items || []), [stockReport]);
+  const hasZones = zoneGroups.some(group => group.zone);
+  const isClaimedByOther = (item: StockReportItem) => !!item.claimedBy && item.claimedBy.id !== user?.id;
+  // A second count has to come from someone other than the first counter
+  const awaitsOtherCounter = (item: StockReportItem) =>
+    item.secondCountStatus === 'PENDING' && item.countedBy?.id === user?.id;
+  // The next item to count in walking order, skipping what others claimed
+  const nextItemId = stockReport?.items.find(item =>
+    isPendingCount(item) && !isClaimedByOther(item) && !awaitsOtherCounter(item)
+  )?.id;
+  const counters = stockReport?.report
+    ? [stockReport.report.user, ...(stockReport.participants || []).map(participant => participant.user)]
+    : [];
   const [showDateChangeConfirm, setShowDateChangeConfirm] = useState(false);
   const [showAddCustomItem, setShowAddCustomItem] = useState(false);
   const [customItemForm, setCustomItemForm] = useState({ productName: '', openingStock: '', expectedOut: '', unit: 'pcs' });
   const [addingCustomItem, setAddingCustomItem] = useState(false);
+  const [showScanner, setShowScanner] = useState(false);
+  const [unknownCode, setUnknownCode] = useState<string | null>(null);
+  const [resyncing, setResyncing] = useState(false);
+  const [olseraUnavailable, setOlseraUnavailable] = useState<string | null>(null);
 
   // Load existing stock report if any, or auto-initialize for new reports
   useEffect(() => {
@@ -41,11 +95,24 @@ const StockReportForm: React.FC<StockReportFormProps> = ({ reportId, onComplete
     }
   }, [reportId, hasInitialized]);
 
+  // Keep the list live while others count, but never reload under an open editor
   useEffect(() => {
-    if (!isAdmin && stockDate !== today) {
-      setStockDate(today);
+    if (!stockReport || editingItem) {
+      return;
     }
-  }, [isAdmin, stockDate, today]);
+    const timer = setInterval(() => {
+      if (document.visibilityState === 'visible') {
+        loadStockReport();
+      }
+    }, LIVE_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [stockReport, editingItem]);
+
+  useEffect(() => {
+    if (!isAdmin && stockDate !== staffDate) {
+      setStockDate(staffDate);
+    }
+  }, [isAdmin, stockDate, staffDate]);
 
   const loadOrInitializeStockReport = async () => {
     try {
@@ -54,6 +121,10 @@ const StockReportForm: React.FC<StockReportFormProps> = ({ reportId, onComplete
       const data = await stockAPI.getStockReport(reportId);
       console.log('Stock report GET response:', data);
 
+      if (data.stockReport?.scheduled) {
+        setScheduledDate(data.stockReport.stockDate.split('T')[0]);
+      }
+
       if (data.stockReport && data.stockReport.items && data.stockReport.items.length > 0) {
         // Only consider it loaded if there's actual data
         setStockReport(data.stockReport);
@@ -92,7 +163,7 @@ const StockReportForm: React.FC<StockReportFormProps> = ({ reportId, onComplete
       setInitializing(true);
       const dateToUse = selectedDate || stockDate;
       console.log('Calling stock API to initialize report:', reportId, 'with date:', dateToUse);
-      const effectiveDate = isAdmin ? dateToUse : today;
+      const effectiveDate = isAdmin ? dateToUse : staffDate;
       const response = await stockAPI.initializeStockReport(reportId, effectiveDate);
       console.log('Stock API response:', response);
 
@@ -135,6 +206,10 @@ const StockReportForm: React.FC<StockReportFormProps> = ({ reportId, onComplete
     } catch (error: any) {
       console.error('Failed to initialize stock report:', error);
       console.error('Error details:', error.response?.data);
+      if (error.response?.data?.manualEntry) {
+        setOlseraUnavailable(error.response.data.message);
+        return false;
+      }
       showToast({
         type: 'error',
         title: 'Failed to fetch stock data',
@@ -147,50 +222,178 @@ const StockReportForm: React.FC<StockReportFormProps> = ({ reportId, onComplete
     }
   };
 
-  const handleItemUpdate = async (item: StockReportItem, actualClosing: number, notes: string) => {
+  // Continue with the empty stock report and add items by hand
+  const startManualEntry = async () => {
     try {
-      await stockAPI.updateStockItem(item.id, {
-        actualClosing,
-        notes
+      const data = await stockAPI.getStockReport(reportId);
+      if (data.stockReport) {
+        setStockReport({ ...data.stockReport, items: data.stockReport.items || [] });
+        setStats(data.stats);
+        setOlseraUnavailable(null);
+      }
+    } catch (error: any) {
+      showToast({
+        type: 'error',
+        title: 'Failed to load stock report',
+        message: error.response?.data?.message || 'Please try again',
+        duration: 5000
       });
+    }
+  };
 
-      // Reload stock report
+  const handleResync = async () => {
+    try {
+      setResyncing(true);
+      const response = await stockAPI.resyncStockReport(reportId);
       await loadStockReport();
-      setEditingItem(null);
+
+      const { addedCount, updatedCount, removedCount } = response.syncLog;
+      const hasChanges = addedCount + updatedCount + removedCount > 0;
       showToast({
         type: 'success',
-        title: 'Stock item updated',
-        duration: 2000
+        title: 'Stock data re-synced',
+        message: hasChanges
+          ? `${addedCount} added, ${updatedCount} updated, ${removedCount} no longer in Olsera`
+          : 'Everything is already up to date',
+        duration: 4000
       });
     } catch (error: any) {
+      console.error('Failed to re-sync stock report:', error);
       showToast({
         type: 'error',
-        title: 'Failed to update stock item',
-        duration: 3000
+        title: 'Failed to re-sync stock data',
+        message: error.response?.data?.message || 'Please try again',
+        duration: 5000
       });
+    } finally {
+      setResyncing(false);
     }
   };
 
-  const handlePhotoUpload = async (item: StockReportItem, file: File) => {
+  const handleItemUpdate = async (item: StockReportItem, actualClosing: number, entryUnit: string, containerIds: string[], notes: string, photoFile: File | null) => {
     try {
-      const result = await stockAPI.uploadStockPhoto(item.id, file);
+      // Upload the scale photo first so the count is saved with it
+      let photoId: string | undefined;
+      if (photoFile) {
+        const result = await stockAPI.uploadStockPhoto(item.id, photoFile);
+        photoId = result.photo.id;
+      }
 
-      // Update item with photo
-      await stockAPI.updateStockItem(item.id, {
-        actualClosing: item.actualClosing || 0,
-        photoId: result.photo.id
+      const response = await stockAPI.updateStockItem(item.id, {
+        actualClosing,
+        entryUnit,
+        containerIds,
+        notes,
+        photoId,
+        version: item.version
       });
 
+      // Reload stock report
       await loadStockReport();
+      setEditingItem(null);
+
+      if (response.item?.recountStatus === 'REQUIRED') {
+        showToast({
+          type: 'warning',
+          title: 'Recount required',
+          message: 'The count is outside the allowed variance. Weigh it again, ideally by a colleague, with a new photo.',
+          duration: 6000
+        });
+      } else if (response.item?.secondCountStatus === 'MISMATCH') {
+        showToast({
+          type: 'warning',
+          title: 'Counts differ',
+          message: 'The two counts do not agree. Someone needs to count this item once more.',
+          duration: 6000
+        });
+      } else if (response.item?.secondCountStatus === 'PENDING') {
+        showToast({
+          type: 'info',
+          title: 'Count saved',
+          message: 'Someone else needs to count this item too.',
+          duration: 4000
+        });
+      } else {
+        showToast({
+          type: response.warning ? 'warning' : 'success',
+          title: 'Stock item updated',
+          message: response.warning,
+          duration: response.warning ? 4000 : 2000
+        });
+      }
+    } catch (error: any) {
+      // Someone else counted or claimed the item meanwhile; show their state
+      if (error.response?.status === 409) {
+        await loadStockReport();
+        setEditingItem(null);
+        showToast({
+          type: 'warning',
+          title: 'Item changed by someone else',
+          message: error.response.data?.message,
+          duration: 6000
+        });
+        return;
+      }
       showToast({
-        type: 'success',
-        title: 'Photo uploaded successfully',
+        type: 'error',
+        title: 'Failed to update stock item',
+        message: error.response?.data?.message,
+        duration: 3000
+      });
+    }
+  };
+
+  const openItem = (item: StockReportItem) => {
+    if (isClaimedByOther(item)) {
+      showToast({
+        type: 'info',
+        title: `${item.claimedBy?.name} is counting this item`,
+        duration: 3000
+      });
+      return;
+    }
+    if (awaitsOtherCounter(item)) {
+      showToast({
+        type: 'info',
+        title: 'Waiting for a second count',
+        message: 'Someone else has to count this item independently.',
+        duration: 3000
+      });
+      return;
+    }
+    setEditingItem(item.id);
+  };
+
+  // Open the editor of the scanned item, or offer to add it when no item matches
+  const handleScan = (code: string) => {
+    setShowScanner(false);
+    const item = stockReport?.items.find(candidate => candidate.scanCodes?.includes(code));
+    if (!item) {
+      setUnknownCode(code);
+      return;
+    }
+    openItem(item);
+    setTimeout(() => {
+      document.getElementById(`stock-item-${item.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 0);
+  };
+
+  const handleClaim = async (target: { itemIds?: string[]; zoneId?: string }, release: boolean) => {
+    try {
+      const response = release
+        ? await stockAPI.releaseItems(reportId, target)
+        : await stockAPI.claimItems(reportId, target);
+      await loadStockReport();
+      showToast({
+        type: release || response.claimed > 0 ? 'success' : 'warning',
+        title: response.message,
         duration: 2000
       });
-    } catch (error) {
+    } catch (error: any) {
       showToast({
         type: 'error',
-        title: 'Failed to upload photo',
+        title: release ? 'Failed to release items' : 'Failed to claim items',
+        message: error.response?.data?.message,
         duration: 3000
       });
     }
@@ -295,12 +498,28 @@ const StockReportForm: React.FC<StockReportFormProps> = ({ reportId, onComplete
                 value={stockDate}
                 onChange={(e) => setStockDate(e.target.value)}
                 max={today}
-                min={isAdmin ? undefined : today}
+                min={isAdmin ? undefined : staffDate}
                 disabled={!isAdmin}
                 className="w-full px-3 py-2 bg-gothic-800 border border-gothic-700 rounded-lg text-gothic-100 text-sm focus:outline-none focus:border-accent-400 transition-colors disabled:opacity-70 disabled:cursor-not-allowed"
               />
             </div>
 
+            {olseraUnavailable && (
+              <div className="bg-yellow-900/20 border border-yellow-700 rounded-lg p-3">
+                <p className="text-xs text-yellow-400 flex items-start">
+                  <AlertTriangle className="w-4 h-4 mr-2 flex-shrink-0" />
+                  {olseraUnavailable}
+                </p>
+                <button
+                  onClick={startManualEntry}
+                  className="w-full btn-secondary mt-3 flex items-center justify-center space-x-2"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>Enter Items Manually</span>
+                </button>
+              </div>
+            )}
+
             <button
               onClick={() => initializeReport(stockDate)}
               disabled={!stockDate || initializing}
@@ -353,6 +572,14 @@ const StockReportForm: React.FC<StockReportFormProps> = ({ reportId, onComplete
                   year: 'numeric'
                 })}
               </span>
+              <button
+                onClick={handleResync}
+                disabled={resyncing}
+                className="text-xs text-accent-400 hover:text-accent-300 transition-colors flex items-center space-x-1 disabled:opacity-50"
+              >
+                <RefreshCw className={`w-3 h-3 ${resyncing ? 'animate-spin' : ''}`} />
+                <span>Re-sync</span>
+              </button>
               {isAdmin && stockReport.items.every(item => !item.completed) && (
                 <button
                   onClick={() => setShowDateChangeConfirm(true)}
@@ -381,6 +608,27 @@ const StockReportForm: React.FC<StockReportFormProps> = ({ reportId, onComplete
                   style={{ width: `${stats.completionPercentage}%` }}
                 />
               </div>
+              {!!stats.recountRequired && (
+                <p className="text-xs text-yellow-400 mt-2">
+                  {stats.recountRequired} item(s) need a recount
+                </p>
+              )}
+              {!!stats.secondCountPending && (
+                <p className="text-xs text-gothic-400 mt-2">
+                  {stats.secondCountPending} item(s) waiting for a second count
+                </p>
+              )}
+              {!!stats.countMismatches && (
+                <p className="text-xs text-yellow-400 mt-2">
+                  {stats.countMismatches} item(s) need a tie-break count
+                </p>
+              )}
+              {stockReport.blindCount && (
+                <p className="text-xs text-gothic-400 mt-2 flex items-center">
+                  <EyeOff className="w-3 h-3 mr-1" />
+                  Blind count: expected stock is shown once the report is finalized
+                </p>
+              )}
             </div>
 
             {hasDifferenceStats && (
@@ -400,34 +648,128 @@ const StockReportForm: React.FC<StockReportFormProps> = ({ reportId, onComplete
                     ↑ {positiveDiffCount}
                   </span>
                 </div>
+                {stats.valuation && (
+                  <div className="mt-2 pt-2 border-t border-gothic-700 space-y-0.5 text-xs">
+                    <div className="flex justify-between">
+                      <span className="text-gothic-400">Loss</span>
+                      <span className="text-red-400">{formatCurrency(stats.valuation.lossValue)}</span>
+                    </div>
+                    <div className="flex justify-between">
+                      <span className="text-gothic-400">Gain</span>
+                      <span className="text-green-400">{formatCurrency(stats.valuation.gainValue)}</span>
+                    </div>
+                    {!!stats.valuation.wasteValue && (
+                      <div className="flex justify-between">
+                        <span className="text-gothic-400">Waste</span>
+                        <span className="text-yellow-400">{formatCurrency(stats.valuation.wasteValue)}</span>
+                      </div>
+                    )}
+                    {stats.valuation.unvaluedItems > 0 && (
+                      <p className="text-gothic-500">{stats.valuation.unvaluedItems} item(s) without cost</p>
+                    )}
+                  </div>
+                )}
               </div>
             )}
           </div>
         </div>
       )}
 
-      {/* Stock Items List */}
-      <div className="space-y-2">
-        {stockReport.items.map((item) => (
-          <div
-            key={item.id}
-            className={`gothic-card p-4 ${item.completed ? 'border-green-900' : 'border-gothic-700'
-              }`}
-          >
-            {editingItem === item.id ? (
-              <StockItemEditor
-                item={item}
-                onSave={(actualClosing, notes) => handleItemUpdate(item, actualClosing, notes)}
-                onCancel={() => setEditingItem(null)}
-                onPhotoUpload={(file) => handlePhotoUpload(item, file)}
-                showToast={showToast}
-              />
-            ) : (
-              <StockItemDisplay
-                item={item}
-                onEdit={() => setEditingItem(item.id)}
-              />
+      {/* People counting this report */}
+      {counters.length > 1 && (
+        <div className="flex items-center space-x-2 px-1 text-xs text-gothic-400">
+          <Users className="w-4 h-4 text-accent-400 flex-shrink-0" />
+          <span className="truncate">
+            Counting together: {counters.map(counter => counter.id === user?.id ? 'you' : counter.name).join(', ')}
+          </span>
+        </div>
+      )}
+
+      {/* Scan a barcode or shelf label to jump to its item */}
+      <button
+        onClick={() => setShowScanner(true)}
+        className="w-full py-3 px-4 bg-gothic-800 hover:bg-gothic-700 border border-gothic-700 rounded-xl text-gothic-200 flex items-center justify-center space-x-2 transition-colors"
+      >
+        <ScanLine className="w-4 h-4 text-accent-400" />
+        <span className="text-sm">Scan Item</span>
+      </button>
+
+      {/* Stock Items List, grouped by storage zone in walking order */}
+      <div className="space-y-4">
+        {zoneGroups.map((group, groupIndex) => (
+          <div key={group.zone?.id || `unassigned-${groupIndex}`} className="space-y-2">
+            {hasZones && (
+              <div className="flex items-center justify-between px-1">
+                <div className="flex items-center space-x-2">
+                  <MapPin className={`w-4 h-4 ${group.zone ? 'text-accent-400' : 'text-gothic-500'}`} />
+                  <h4 className="text-sm font-medium text-gothic-100">
+                    {group.zone?.name || 'Unassigned'}
+                  </h4>
+                  {group.completed === group.items.length && (
+                    <CheckCircle className="w-4 h-4 text-green-500" />
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  {group.zone && counters.length > 1 && group.completed < group.items.length && (
+                    group.items.some(item => item.claimedBy?.id === user?.id) ? (
+                      <button
+                        onClick={() => handleClaim({ zoneId: group.zone!.id }, true)}
+                        className="text-xs text-gothic-400 hover:text-accent-400 transition-colors"
+                      >
+                        Release
+                      </button>
+                    ) : (
+                      <button
+                        onClick={() => handleClaim({ zoneId: group.zone!.id }, false)}
+                        className="text-xs text-accent-400 hover:text-accent-300 transition-colors"
+                      >
+                        Claim zone
+                      </button>
+                    )
+                  )}
+                  <span className="text-xs text-gothic-400">
+                    {group.completed}/{group.items.length}
+                  </span>
+                  <div className="w-16 bg-gothic-700 rounded-full h-1.5">
+                    <div
+                      className="bg-accent-400 h-1.5 rounded-full transition-all"
+                      style={{ width: `${Math.round((group.completed / group.items.length) * 100)}%` }}
+                    />
+                  </div>
+                </div>
+              </div>
             )}
+            {group.items.map((item) => (
+              <div
+                key={item.id}
+                id={`stock-item-${item.id}`}
+                className={`gothic-card p-4 ${item.recountStatus === 'REQUIRED' ? 'border-yellow-700' :
+                  item.completed ? 'border-green-900' :
+                    item.id === nextItemId ? 'border-accent-600' : 'border-gothic-700'
+                  }`}
+              >
+                {editingItem === item.id ? (
+                  <StockItemEditor
+                    item={item}
+                    blindCount={!!stockReport.blindCount}
+                    onSave={(actualClosing, entryUnit, containerIds, notes, photoFile) => handleItemUpdate(item, actualClosing, entryUnit, containerIds, notes, photoFile)}
+                    onCancel={() => setEditingItem(null)}
+                    showToast={showToast}
+                  />
+                ) : (
+                  <StockItemDisplay
+                    item={item}
+                    blindCount={!!stockReport.blindCount}
+                    isNext={item.id === nextItemId}
+                    currentUserId={user?.id}
+                    onEdit={() => openItem(item)}
+                    onToggleClaim={counters.length > 1 && !item.completed
+                      ? () => handleClaim({ itemIds: [item.id] }, item.claimedBy?.id === user?.id)
+                      : undefined}
+                  />
+                )}
+              </div>
+            ))}
           </div>
         ))}
       </div>
@@ -545,6 +887,25 @@ const StockReportForm: React.FC<StockReportFormProps> = ({ reportId, onComplete
       )}
 
       {/* Date Change Confirmation Dialog */}
+      {showScanner && (
+        <BarcodeScanner
+          onDetected={handleScan}
+          onClose={() => setShowScanner(false)}
+        />
+      )}
+
+      <ConfirmDialog
+        isOpen={unknownCode !== null}
+        onConfirm={() => {
+          setUnknownCode(null);
+          setShowAddCustomItem(true);
+        }}
+        onCancel={() => setUnknownCode(null)}
+        title="Unknown Code"
+        message={`No item in this count matches ${unknownCode}. Add it as a custom item?`}
+        confirmText="Add Custom Item"
+      />
+
       <ConfirmDialog
         isOpen={showDateChangeConfirm}
         onConfirm={() => {
@@ -565,14 +926,23 @@ const StockReportForm: React.FC<StockReportFormProps> = ({ reportId, onComplete
 // Stock Item Display Component
 const StockItemDisplay: React.FC<{
   item: StockReportItem;
+  blindCount: boolean;
+  isNext?: boolean;
+  currentUserId?: string;
   onEdit: () => void;
-}> = ({ item, onEdit }) => {
+  onToggleClaim?: () => void;
+}> = ({ item, blindCount, isNext, currentUserId, onEdit, onToggleClaim }) => {
+  const claimedByMe = !!item.claimedBy && item.claimedBy.id === currentUserId;
   const openingStock = typeof item.openingStock === 'number' ? item.openingStock : null;
   const expectedOut = typeof item.expectedOut === 'number' ? item.expectedOut : null;
+  const incomingQty = item.incomingQty ?? 0;
+  const returnQty = item.returnQty ?? 0;
+  const wasteQty = item.wasteQty ?? 0;
   const expectedClosing = openingStock !== null && expectedOut !== null
-    ? openingStock - expectedOut
+    ? openingStock + incomingQty + returnQty - expectedOut - wasteQty
     : null;
-  const showReferenceData = openingStock !== null && expectedOut !== null && expectedClosing !== null;
+  // A blind count never shows expected figures, even if they were sent
+  const showReferenceData = !blindCount && openingStock !== null && expectedOut !== null && expectedClosing !== null;
   const hasActualClosing = item.actualClosing !== null && item.actualClosing !== undefined;
   const showDifference = showReferenceData && typeof item.difference === 'number';
 
@@ -582,11 +952,62 @@ const StockItemDisplay: React.FC<{
         <div>
           <h4 className="text-xs font-medium text-gothic-100">
             {item.productName}
+            {item.variantName && (
+              <span className="text-accent-300 font-normal"> – {item.variantName}</span>
+            )}
           </h4>
           {item.productSku && (
             <p className="text-xs text-gothic-400">SKU: {item.productSku}</p>
           )}
+          {item.removedFromSource && (
+            <span className="badge-small badge-warning mt-1 inline-block">No longer in Olsera</span>
+          )}
+          {item.recountStatus === 'REQUIRED' && (
+            <span className="badge-small badge-warning mt-1 inline-block">Recount required</span>
+          )}
+          {item.recountStatus === 'COMPLETED' && (
+            <span className="badge-small badge-secondary mt-1 inline-block">Recounted</span>
+          )}
+          {isNext && !item.completed && (
+            <span className="badge-small badge-primary mt-1 inline-block">Count next</span>
+          )}
+          {item.secondCountStatus === 'PENDING' && (
+            <span className="badge-small badge-secondary mt-1 inline-block">
+              {item.countedBy?.id === currentUserId ? 'Waiting for a second count' : 'Second count needed'}
+            </span>
+          )}
+          {item.secondCountStatus === 'MISMATCH' && (
+            <span className="badge-small badge-warning mt-1 inline-block">Counts differ, count again</span>
+          )}
+          {item.secondCountStatus === 'MATCHED' && (
+            <span className="badge-small badge-secondary mt-1 inline-block">Counts agree</span>
+          )}
+          {item.secondCountStatus === 'RESOLVED' && (
+            <span className="badge-small badge-secondary mt-1 inline-block">Tie-break counted</span>
+          )}
+          {item.claimedBy && (
+            <span className={`badge-small mt-1 ml-1 inline-block ${claimedByMe ? 'badge-primary' : 'badge-secondary'}`}>
+              {claimedByMe ? 'Claimed by you' : `${item.claimedBy.name} is counting`}
+            </span>
+          )}
+          {item.completed && item.countedBy && (
+            <p className="text-xs text-gothic-500 mt-1">
+              Counted by {item.countedBy.id === currentUserId ? 'you' : item.countedBy.name}
+            </p>
+          )}
         </div>
+        {onToggleClaim && (!item.claimedBy || claimedByMe) && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onToggleClaim();
+            }}
+            className="text-gothic-400 hover:text-accent-400 transition-colors flex-shrink-0 ml-2"
+            title={claimedByMe ? 'Release item' : 'Claim item'}
+          >
+            <Hand className={`w-4 h-4 ${claimedByMe ? 'text-accent-400' : ''}`} />
+          </button>
+        )}
         {item.completed && (
           <CheckCircle className="w-4 h-4 text-green-500" />
         )}
@@ -597,11 +1018,30 @@ const StockItemDisplay: React.FC<{
           <div>
             <span className="text-gothic-400">Opening Stock: </span>
             <span className="text-gothic-200">{openingStock}g</span>
+            <span className="text-gothic-500"> ({formatOpeningSource(item.openingSource, item.openingSourceDate)})</span>
           </div>
           <div>
-            <span className="text-gothic-400">Used (from POS): </span>
-            <span className="text-gothic-200">{expectedOut}g</span>
+            <span className="text-gothic-400">Sales (from POS): </span>
+            <span className="text-gothic-200">{item.salesQty || 0}g</span>
           </div>
+          <div>
+            <span className="text-gothic-400">Outgoing: </span>
+            <span className="text-gothic-200">{getOutgoingQty(item)}g</span>
+          </div>
+          <div>
+            <span className="text-gothic-400">Incoming: </span>
+            <span className="text-gothic-200">{incomingQty}g</span>
+          </div>
+          <div>
+            <span className="text-gothic-400">Returns: </span>
+            <span className="text-gothic-200">{returnQty}g</span>
+          </div>
+          {wasteQty > 0 && (
+            <div>
+              <span className="text-gothic-400">Waste: </span>
+              <span className="text-gothic-200">{wasteQty}g</span>
+            </div>
+          )}
           <div>
             <span className="text-gothic-400">Expected Closing: </span>
             <span className="text-gothic-200">{expectedClosing}g</span>
@@ -652,21 +1092,36 @@ const StockItemDisplay: React.FC<{
 // Stock Item Editor Component
 const StockItemEditor: React.FC<{
   item: StockReportItem;
-  onSave: (actualClosing: number, notes: string) => void;
+  blindCount: boolean;
+  onSave: (actualClosing: number, entryUnit: string, containerIds: string[], notes: string, photoFile: File | null) => void;
   onCancel: () => void;
-  onPhotoUpload: (file: File) => void;
   showToast: any;
-}> = ({ item, onSave, onCancel, onPhotoUpload, showToast }) => {
-  const [actualClosing, setActualClosing] = useState(item.actualClosing?.toString() || '');
+}> = ({ item, blindCount, onSave, onCancel, showToast }) => {
+  const isRecount = item.recountStatus === 'REQUIRED';
+  const isIndependentCount = needsIndependentCount(item);
+  // A recount, second or tie-break count starts from an empty weighing
+  const [actualClosing, setActualClosing] = useState(isRecount || isIndependentCount ? '' : item.actualClosing?.toString() || '');
   const [notes, setNotes] = useState(item.notes || '');
   const [photoFile, setPhotoFile] = useState<File | null>(null);
+  const entryUnits = item.entryUnits?.length ? item.entryUnits : [{ unit: item.unit, factor: 1 }];
+  const [entryUnit, setEntryUnit] = useState(entryUnits[0]);
+  // Containers on the scale, one entry each; the weight entered is then gross
+  const [containers, setContainers] = useState<StockContainer[]>([]);
+  const enteredValue = parseFloat(actualClosing);
+  const grossWeight = Math.round(enteredValue * entryUnit.factor * 1000) / 1000;
+  const tareWeight = containers.reduce((sum, container) => sum + container.tareWeight, 0);
+  const netWeight = Math.round((grossWeight - tareWeight) * 1000) / 1000;
 
   const openingStock = typeof item.openingStock === 'number' ? item.openingStock : null;
   const expectedOut = typeof item.expectedOut === 'number' ? item.expectedOut : null;
+  const incomingQty = item.incomingQty ?? 0;
+  const returnQty = item.returnQty ?? 0;
+  const wasteQty = item.wasteQty ?? 0;
   const expectedClosing = openingStock !== null && expectedOut !== null
-    ? openingStock - expectedOut
+    ? openingStock + incomingQty + returnQty - expectedOut - wasteQty
     : null;
-  const showReferenceData = openingStock !== null && expectedOut !== null && expectedClosing !== null;
+  // A blind count never shows expected figures, even if they were sent
+  const showReferenceData = !blindCount && openingStock !== null && expectedOut !== null && expectedClosing !== null;
 
   const handleSave = () => {
     const closingValue = parseFloat(actualClosing);
@@ -680,11 +1135,27 @@ const StockItemEditor: React.FC<{
       return;
     }
 
-    if (photoFile) {
-      onPhotoUpload(photoFile);
+    if (containers.length > 0 && netWeight < 0) {
+      showToast({
+        type: 'error',
+        title: 'Invalid gross weight',
+        message: `The weight is below the ${tareWeight} ${item.unit} tare of the containers`,
+        duration: 3000
+      });
+      return;
+    }
+
+    if (isRecount && !photoFile) {
+      showToast({
+        type: 'error',
+        title: 'Photo required',
+        message: 'Attach a new scale photo for the recount',
+        duration: 3000
+      });
+      return;
     }
 
-    onSave(closingValue, notes);
+    onSave(closingValue, entryUnit.unit, containers.map(container => container.id), notes, photoFile);
   };
 
   return (
@@ -692,6 +1163,9 @@ const StockItemEditor: React.FC<{
       <div className="bg-gothic-800 rounded-lg p-3">
         <h4 className="text-sm font-medium text-gothic-100 mb-2">
           {item.productName}
+          {item.variantName && (
+            <span className="text-accent-300 font-normal"> – {item.variantName}</span>
+          )}
         </h4>
         {showReferenceData && (
           <div className="grid grid-cols-2 gap-2 text-xs">
@@ -703,6 +1177,12 @@ const StockItemEditor: React.FC<{
               <span className="text-gothic-400">Used: </span>
               <span className="text-gothic-200 font-medium">{expectedOut}g</span>
             </div>
+            {wasteQty > 0 && (
+              <div className="col-span-2">
+                <span className="text-gothic-400">Waste logged: </span>
+                <span className="text-gothic-200 font-medium">{wasteQty}g</span>
+              </div>
+            )}
             <div className="col-span-2">
               <span className="text-gothic-400">Expected: </span>
               <span className="text-gothic-200 font-medium">{expectedClosing}g</span>
@@ -714,29 +1194,109 @@ const StockItemEditor: React.FC<{
             Enter the actual stock measured for this item.
           </p>
         )}
+        {isIndependentCount && (
+          <p className="text-xs text-gothic-400 mt-2">
+            {item.secondCountStatus === 'MISMATCH'
+              ? 'Two counts of this item did not agree. Count it once more; your count settles it.'
+              : 'Count this item on your own. It is compared with the first count automatically.'}
+          </p>
+        )}
+        {isRecount && (
+          <p className="text-xs text-yellow-400 mt-2">
+            The first count was outside the allowed variance. Weigh again, ideally by a different person, and attach a new photo.
+          </p>
+        )}
       </div>
 
       <div className="space-y-3">
         <div>
           <label className="block text-xs text-gothic-300 mb-2 flex items-center space-x-1">
             <Scale className="w-3 h-3 text-accent-400" />
-            <span>Actual Weight (from scale)</span>
+            <span>{containers.length > 0 ? 'Gross Weight (from scale)' : 'Actual Weight (from scale)'}</span>
           </label>
-          <input
-            type="number"
-            value={actualClosing}
-            onChange={(e) => setActualClosing(e.target.value)}
-            className="w-full px-3 py-2 bg-gothic-800 border border-gothic-700 rounded-lg text-gothic-100 text-sm placeholder-gothic-500 focus:outline-none focus:border-accent-400 transition-colors"
-            placeholder="Enter weight in grams"
-            min="0"
-            step="0.1"
-          />
+          <div className="flex space-x-2">
+            <input
+              type="number"
+              value={actualClosing}
+              onChange={(e) => setActualClosing(e.target.value)}
+              className="flex-1 min-w-0 px-3 py-2 bg-gothic-800 border border-gothic-700 rounded-lg text-gothic-100 text-sm placeholder-gothic-500 focus:outline-none focus:border-accent-400 transition-colors"
+              placeholder={`Enter quantity in ${entryUnit.unit}`}
+              min="0"
+              step={entryUnit.factor === 1 ? '0.1' : 'any'}
+            />
+            {entryUnits.length > 1 && (
+              <select
+                value={entryUnit.unit}
+                onChange={(e) => setEntryUnit(entryUnits.find(candidate => candidate.unit === e.target.value) || entryUnits[0])}
+                className="px-2 py-2 bg-gothic-800 border border-gothic-700 rounded-lg text-gothic-100 text-sm focus:outline-none focus:border-accent-400"
+              >
+                {entryUnits.map(candidate => (
+                  <option key={candidate.unit} value={candidate.unit}>{candidate.unit}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          {entryUnit.factor !== 1 && containers.length === 0 && !isNaN(enteredValue) && (
+            <p className="text-xs text-gothic-400 mt-1">
+              = {grossWeight} {item.unit}
+            </p>
+          )}
+          {containers.length > 0 && !isNaN(enteredValue) && (
+            <p className={`text-xs mt-1 ${netWeight < 0 ? 'text-red-400' : 'text-gothic-400'}`}>
+              {grossWeight} − {tareWeight} tare = {netWeight} {item.unit} net
+            </p>
+          )}
         </div>
 
+        {item.containers && item.containers.length > 0 && (
+          <div>
+            <label className="block text-xs text-gothic-300 mb-2 flex items-center space-x-1">
+              <Weight className="w-3 h-3 text-gothic-400" />
+              <span>Containers on the scale</span>
+            </label>
+            {containers.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-2">
+                {containers.map((container, index) => (
+                  <span
+                    key={`${container.id}-${index}`}
+                    className="inline-flex items-center px-2 py-1 bg-gothic-700 rounded text-xs text-gothic-200"
+                  >
+                    {container.name} ({container.tareWeight} {item.unit})
+                    <button
+                      type="button"
+                      onClick={() => setContainers(containers.filter((_, i) => i !== index))}
+                      className="ml-1 text-gothic-400 hover:text-red-400"
+                    >
+                      <X className="w-3 h-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <select
+              value=""
+              onChange={(e) => {
+                const container = item.containers?.find(candidate => candidate.id === e.target.value);
+                if (container) {
+                  setContainers([...containers, container]);
+                }
+              }}
+              className="w-full px-3 py-2 bg-gothic-800 border border-gothic-700 rounded-lg text-gothic-100 text-sm focus:outline-none focus:border-accent-400"
+            >
+              <option value="">{containers.length > 0 ? 'Add another container' : 'Weighed without container'}</option>
+              {item.containers.map(container => (
+                <option key={container.id} value={container.id}>
+                  {container.name} ({container.tareWeight} {item.unit})
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+
         <div>
           <label className="block text-xs text-gothic-300 mb-2 flex items-center space-x-1">
             <Package className="w-3 h-3 text-gothic-400" />
-            <span>Photo (Optional)</span>
+            <span>{isRecount ? 'Photo (Required for recount)' : 'Photo (Optional)'}</span>
           </label>
           <input
             type="file"
@@ -767,7 +1327,7 @@ const StockItemEditor: React.FC<{
         <div className="flex space-x-2 pt-2">
           <button
             onClick={handleSave}
-            disabled={!actualClosing}
+            disabled={!actualClosing || (isRecount && !photoFile)}
             className="flex-1 px-4 py-2 bg-accent-500 text-white rounded-lg text-xs font-medium hover:bg-accent-600 disabled:bg-gothic-700 disabled:text-gothic-500 disabled:cursor-not-allowed transition-colors"
           >
             Save
@@ -0,0 +1,149 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ScanLine, X } from 'lucide-react';
+
+// The Barcode Detection API is not in the TypeScript DOM library yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+
+const SCAN_FORMATS = ['qr_code', 'ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_128', 'code_39'];
+
+interface BarcodeScannerProps {
+  onDetected: (code: string) => void;
+  onClose: () => void;
+}
+
+// Camera scanner for product barcodes and QR shelf labels. Browsers without
+// barcode detection, and hardware scanners that type the code, use the
+// code field instead.
+export default function BarcodeScanner({ onDetected, onClose }: BarcodeScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  // Keeps the camera running when the parent passes a new callback
+  const onDetectedRef = useRef(onDetected);
+  onDetectedRef.current = onDetected;
+
+  useEffect(() => {
+    const Detector = (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      setCameraError('Camera scanning is not supported in this browser. Type the code or use a handheld scanner.');
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+    const detector = new Detector({ formats: SCAN_FORMATS });
+
+    const scan = async () => {
+      const video = videoRef.current;
+      if (stopped || !video) return;
+      try {
+        if (video.readyState >= 2) {
+          const [barcode] = await detector.detect(video);
+          if (barcode?.rawValue && !stopped) {
+            stopped = true;
+            onDetectedRef.current(barcode.rawValue);
+            return;
+          }
+        }
+      } catch (error) {
+        console.error('Barcode detection failed:', error);
+      }
+      timer = setTimeout(scan, 250);
+    };
+
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } })
+      .then((mediaStream) => {
+        stream = mediaStream;
+        if (stopped) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          videoRef.current.play().catch(() => undefined);
+        }
+        scan();
+      })
+      .catch((error) => {
+        console.error('Failed to open camera:', error);
+        setCameraError('The camera could not be opened. Type the code or use a handheld scanner.');
+      });
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const submitCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (code.trim()) {
+      onDetected(code.trim());
+    }
+  };
+
+  if (typeof document === 'undefined') {
+    return null;
+  }
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="relative bg-gothic-800 rounded-xl border border-gothic-700 w-full max-w-sm p-6 animate-fade-in">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 p-1 rounded-lg hover:bg-gothic-700 transition-colors"
+        >
+          <X className="w-4 h-4 text-gothic-400" />
+        </button>
+
+        <div className="flex items-center space-x-3 mb-4">
+          <div className="w-10 h-10 bg-accent-500/20 rounded-lg flex items-center justify-center">
+            <ScanLine className="w-5 h-5 text-accent-400" />
+          </div>
+          <div>
+            <h3 className="text-base font-semibold text-gothic-100">Scan Item</h3>
+            <p className="text-xs text-gothic-400">Product barcode or shelf label</p>
+          </div>
+        </div>
+
+        {cameraError ? (
+          <p className="text-xs text-yellow-400 mb-4">{cameraError}</p>
+        ) : (
+          <div className="relative mb-4 rounded-lg overflow-hidden bg-black aspect-square">
+            <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+            <div className="absolute inset-8 border-2 border-accent-400/70 rounded-lg pointer-events-none" />
+          </div>
+        )}
+
+        <form onSubmit={submitCode} className="flex space-x-2">
+          <input
+            type="text"
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Type or scan code"
+            autoFocus={Boolean(cameraError)}
+            className="flex-1 min-w-0 px-3 py-2 bg-gothic-900 border border-gothic-700 rounded-lg text-gothic-100 text-sm placeholder-gothic-500 focus:outline-none focus:border-accent-400 transition-colors"
+          />
+          <button type="submit" className="btn-primary" disabled={!code.trim()}>
+            Find
+          </button>
+        </form>
+      </div>
+    </div>,
+    document.body
+  );
+}
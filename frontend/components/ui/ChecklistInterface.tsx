@@ -18,7 +18,7 @@ interface ChecklistItem {
 
 interface ChecklistInterfaceProps {
   reportId?: string;
-  reportType: 'OPENING' | 'CLOSING';
+  reportType: string;
   onProgressChange?: (completed: number, total: number, requiredCompleted: number, requiredTotal: number) => void;
   onLocalItemsChange?: (items: any[]) => void;
   initialItems?: any[];
@@ -109,13 +109,13 @@ const ChecklistInterface: React.FC<ChecklistInterfaceProps> = ({
       { id: '3', title: 'Check and count cash register', required: true, order: 3 },
       { id: '4', title: 'Review daily schedule and assignments', required: false, order: 4 },
       { id: '5', title: 'Prepare workstations', required: false, order: 5 },
-    ] : [
+    ] : type === 'CLOSING' ? [
       { id: '1', title: 'Count and secure cash register', required: true, order: 1 },
       { id: '2', title: 'Clean and organize workspace', required: true, order: 2 },
       { id: '3', title: 'Turn off equipment and lights', required: true, order: 3 },
       { id: '4', title: 'Set alarm and lock all doors', required: true, order: 4 },
       { id: '5', title: 'Final security check', required: false, order: 5 },
-    ];
+    ] : [];
 
     return templates.map(template => ({
       id: `local-${template.id}`,
@@ -0,0 +1,52 @@
+'use client';
+
+import { Store } from 'lucide-react';
+import { useOutlet } from '@/contexts/OutletContext';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface OutletSelectorProps {
+  value?: string;
+  onChange?: (outletId: string) => void;
+  allowAll?: boolean;
+  className?: string;
+}
+
+/**
+ * Outlet dropdown bound to the shared outlet selection by default.
+ * Hidden for users who only work at a single outlet.
+ */
+const OutletSelector: React.FC<OutletSelectorProps> = ({
+  value,
+  onChange,
+  allowAll = true,
+  className = ''
+}) => {
+  const { isAdmin } = useAuth();
+  const { outlets, selectedOutletId, setSelectedOutletId } = useOutlet();
+  const currentValue = value !== undefined ? value : selectedOutletId;
+  const handleChange = onChange || setSelectedOutletId;
+
+  if (outlets.length === 0 || (!isAdmin && outlets.length === 1)) {
+    return null;
+  }
+
+  return (
+    <div className={`relative ${className}`}>
+      <Store className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gothic-400 pointer-events-none" />
+      <select
+        value={currentValue}
+        onChange={(e) => handleChange(e.target.value)}
+        className="input-gothic w-full pl-9 text-sm"
+      >
+        {allowAll && <option value="">All Outlets</option>}
+        {outlets.map((outlet) => (
+          <option key={outlet.id} value={outlet.id}>
+            {outlet.name}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+export default OutletSelector;
@@ -0,0 +1,93 @@
+'use client';
+
+export interface VariancePoint {
+  period: string;
+  difference: number;
+  value: number;
+  count: number;
+  rollingAverage: number;
+}
+
+interface VarianceChartProps {
+  points: VariancePoint[];
+  periods?: string[];
+  height?: number;
+  className?: string;
+}
+
+const WIDTH = 300;
+
+/**
+ * Variance bars per period (red below zero, green above) with the rolling
+ * average drawn as a line. Periods without a count are left empty.
+ */
+const VarianceChart: React.FC<VarianceChartProps> = ({
+  points,
+  periods,
+  height = 80,
+  className = ''
+}) => {
+  const axis = periods && periods.length > 0 ? periods : points.map(point => point.period);
+  const pointsByPeriod = new Map(points.map(point => [point.period, point]));
+
+  if (axis.length === 0) {
+    return null;
+  }
+
+  const maxAbs = Math.max(
+    1,
+    ...points.map(point => Math.abs(point.difference)),
+    ...points.map(point => Math.abs(point.rollingAverage))
+  );
+  const slot = WIDTH / axis.length;
+  const barWidth = Math.max(1, slot * 0.7);
+  const middle = height / 2;
+  const toY = (amount: number) => middle - (amount / maxAbs) * (middle - 2);
+
+  const averageLine = axis
+    .map((period, index) => {
+      const point = pointsByPeriod.get(period);
+      return point ? `${(index + 0.5) * slot},${toY(point.rollingAverage)}` : null;
+    })
+    .filter(Boolean)
+    .join(' ');
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      preserveAspectRatio="none"
+      className={`w-full ${className}`}
+      style={{ height }}
+    >
+      <line x1={0} x2={WIDTH} y1={middle} y2={middle} className="stroke-gothic-600" strokeWidth={0.5} />
+      {axis.map((period, index) => {
+        const point = pointsByPeriod.get(period);
+        if (!point || point.difference === 0) return null;
+        const y = toY(point.difference);
+        return (
+          <rect
+            key={period}
+            x={index * slot + (slot - barWidth) / 2}
+            y={Math.min(y, middle)}
+            width={barWidth}
+            height={Math.max(0.5, Math.abs(middle - y))}
+            className={point.difference < 0 ? 'fill-red-500/70' : 'fill-green-500/70'}
+          >
+            <title>{`${period}: ${point.difference.toFixed(1)} (${point.count} count(s))`}</title>
+          </rect>
+        );
+      })}
+      {averageLine && (
+        <polyline
+          points={averageLine}
+          fill="none"
+          className="stroke-accent-400"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+    </svg>
+  );
+};
+
+export default VarianceChart;
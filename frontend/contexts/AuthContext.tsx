@@ -3,11 +3,18 @@
 import React, { createContext, useContext, useEffect, useState, useMemo } from 'react';
 import { authAPI } from '@/lib/api';
 
+export interface UserOutlet {
+  id: string;
+  code: string;
+  name: string;
+}
+
 interface User {
   id: string;
   username: string;
   name: string;
   role: 'USER' | 'ADMIN';
+  outlets?: UserOutlet[];
   createdAt?: string;
   lastLogin?: string;
 }
@@ -0,0 +1,90 @@
+'use client';
+
+import React, { createContext, useContext, useEffect, useState, useCallback } from 'react';
+import { useAuth, UserOutlet } from '@/contexts/AuthContext';
+import { adminAPI } from '@/lib/api';
+
+const STORAGE_KEY = 'selectedOutletId';
+
+interface OutletContextType {
+  outlets: UserOutlet[];
+  selectedOutletId: string;
+  selectedOutlet: UserOutlet | null;
+  setSelectedOutletId: (outletId: string) => void;
+}
+
+const OutletContext = createContext<OutletContextType | undefined>(undefined);
+
+export const useOutlet = () => {
+  const context = useContext(OutletContext);
+  if (context === undefined) {
+    throw new Error('useOutlet must be used within an OutletProvider');
+  }
+  return context;
+};
+
+export const OutletProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user, isAdmin } = useAuth();
+  const [outlets, setOutlets] = useState<UserOutlet[]>([]);
+  const [selectedOutletId, setSelectedOutletIdState] = useState('');
+
+  // Admins see every outlet, users only the ones they are assigned to
+  useEffect(() => {
+    if (!user) {
+      setOutlets([]);
+      return;
+    }
+
+    if (!isAdmin) {
+      setOutlets(user.outlets || []);
+      return;
+    }
+
+    adminAPI.getOutlets()
+      .then((response) => {
+        setOutlets(
+          response.data
+            .filter((outlet: any) => outlet.active)
+            .map((outlet: any) => ({ id: outlet.id, code: outlet.code, name: outlet.name }))
+        );
+      })
+      .catch((error) => {
+        console.error('Failed to fetch outlets:', error);
+        setOutlets([]);
+      });
+  }, [user, isAdmin]);
+
+  // Restore the last selection, falling back to the only outlet a user has
+  useEffect(() => {
+    if (outlets.length === 0) {
+      setSelectedOutletIdState('');
+      return;
+    }
+
+    const stored = localStorage.getItem(STORAGE_KEY) || '';
+    if (stored && outlets.some(outlet => outlet.id === stored)) {
+      setSelectedOutletIdState(stored);
+    } else if (!isAdmin && outlets.length === 1) {
+      setSelectedOutletIdState(outlets[0].id);
+    } else {
+      setSelectedOutletIdState('');
+    }
+  }, [outlets, isAdmin]);
+
+  const setSelectedOutletId = useCallback((outletId: string) => {
+    setSelectedOutletIdState(outletId);
+    if (outletId) {
+      localStorage.setItem(STORAGE_KEY, outletId);
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  }, []);
+
+  const selectedOutlet = outlets.find(outlet => outlet.id === selectedOutletId) || null;
+
+  return (
+    <OutletContext.Provider value={{ outlets, selectedOutletId, selectedOutlet, setSelectedOutletId }}>
+      {children}
+    </OutletContext.Provider>
+  );
+};
@@ -80,6 +80,7 @@ export const authAPI = {
 };
 
 export const reportsAPI = {
+  getReportTypes: () => api.get('/reports/types'),
   getReports: (params?: any) => api.get('/reports', { params }),
   getReport: (id: string) => api.get(`/reports/${id}`),
   createReport: (data: any) => api.post('/reports', data),
@@ -109,11 +110,51 @@ export const photosAPI = {
     api.get(`/photos/categories/${reportType}`),
 };
 
+export const receivingAPI = {
+  getProducts: () => api.get('/receiving/products'),
+  getReceivingReport: (reportId: string) => api.get(`/receiving/reports/${reportId}`),
+  updateReceivingReport: (reportId: string, data: any) =>
+    api.patch(`/receiving/reports/${reportId}`, data),
+  addItem: (reportId: string, data: any) =>
+    api.post(`/receiving/reports/${reportId}/items`, data),
+  updateItem: (itemId: string, data: any) => api.patch(`/receiving/items/${itemId}`, data),
+  deleteItem: (itemId: string) => api.delete(`/receiving/items/${itemId}`),
+  compareWithPos: (reportId: string) => api.post(`/receiving/reports/${reportId}/compare`),
+};
+
 export const adminAPI = {
   getUsers: (params?: any) => api.get('/admin/users', { params }),
   createUser: (data: any) => api.post('/admin/users', data),
   updateUser: (id: string, data: any) => api.patch(`/admin/users/${id}`, data),
   deleteUser: (id: string) => api.delete(`/admin/users/${id}`),
+  getOutlets: () => api.get('/admin/outlets'),
+  createOutlet: (data: any) => api.post('/admin/outlets', data),
+  updateOutlet: (id: string, data: any) => api.patch(`/admin/outlets/${id}`, data),
+  deleteOutlet: (id: string) => api.delete(`/admin/outlets/${id}`),
+  getProducts: (params?: any) => api.get('/admin/products', { params }),
+  syncProducts: (data?: { outletId?: string | null }) => api.post('/admin/products/sync', data || {}),
+  updateProduct: (id: string, data: any) => api.patch(`/admin/products/${id}`, data),
+  getProductLabels: (params?: any) => api.get('/admin/products/labels', { params, responseType: 'blob' }),
+  getProductGroups: () => api.get('/admin/product-groups'),
+  updateProductGroup: (id: string, data: any) => api.patch(`/admin/product-groups/${id}`, data),
+  getStorageZones: () => api.get('/admin/storage-zones'),
+  createStorageZone: (data: any) => api.post('/admin/storage-zones', data),
+  updateStorageZone: (id: string, data: any) => api.patch(`/admin/storage-zones/${id}`, data),
+  deleteStorageZone: (id: string) => api.delete(`/admin/storage-zones/${id}`),
+  getContainers: () => api.get('/admin/containers'),
+  createContainer: (data: any) => api.post('/admin/containers', data),
+  updateContainer: (id: string, data: any) => api.patch(`/admin/containers/${id}`, data),
+  deleteContainer: (id: string) => api.delete(`/admin/containers/${id}`),
+  getRecipes: () => api.get('/admin/recipes'),
+  createRecipe: (data: any) => api.post('/admin/recipes', data),
+  updateRecipe: (id: string, data: any) => api.patch(`/admin/recipes/${id}`, data),
+  deleteRecipe: (id: string) => api.delete(`/admin/recipes/${id}`),
+  getTopLosses: (params?: any) => api.get('/admin/stock/top-losses', { params }),
+  getStockScheduleRuns: (params?: any) => api.get('/admin/stock/schedule/runs', { params }),
+  runStockSchedule: () => api.post('/admin/stock/schedule/run'),
+  getVarianceTrends: (params?: any) => api.get('/admin/stock/variance-trends', { params }),
+  getVarianceTrendItems: (params: any) => api.get('/admin/stock/variance-trends/items', { params }),
+  exportStock: (params: any) => api.get('/admin/stock/export', { params, responseType: 'blob' }),
   getChecklists: (params?: any) => api.get('/admin/checklists', { params }),
   createChecklist: (data: any) => api.post('/admin/checklists', data),
   updateChecklist: (id: string, data: any) =>
@@ -126,9 +167,35 @@ export const adminAPI = {
   updatePhotoCategory: (id: string, data: any) =>
     api.patch(`/admin/photo-categories/${id}`, data),
   deletePhotoCategory: (id: string) => api.delete(`/admin/photo-categories/${id}`),
+  getReportTypes: () => api.get('/admin/report-types'),
+  createReportType: (data: any) => api.post('/admin/report-types', data),
+  updateReportType: (id: string, data: any) => api.patch(`/admin/report-types/${id}`, data),
+  deleteReportType: (id: string) => api.delete(`/admin/report-types/${id}`),
+  createReportField: (reportTypeId: string, data: any) =>
+    api.post(`/admin/report-types/${reportTypeId}/fields`, data),
+  updateReportField: (id: string, data: any) => api.patch(`/admin/report-fields/${id}`, data),
+  deleteReportField: (id: string) => api.delete(`/admin/report-fields/${id}`),
   getSettings: () => api.get('/admin/settings'),
   updateSettings: (data: any) => api.put('/admin/settings', data),
   getStats: (params?: any) => api.get('/admin/stats/summary', { params }),
 };
 
+// Open the printable QR shelf labels in a new tab and bring up the print dialog
+export const printProductLabels = async (params?: { ids?: string; zoneId?: string; groupId?: string }) => {
+  // Opened before the request so popup blockers allow it
+  const labelWindow = window.open('', '_blank');
+  try {
+    const response = await adminAPI.getProductLabels(params);
+    const url = URL.createObjectURL(response.data);
+    if (labelWindow) {
+      labelWindow.location.href = url;
+      labelWindow.addEventListener('load', () => labelWindow.print());
+    }
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  } catch (error) {
+    labelWindow?.close();
+    throw error;
+  }
+};
+
 export default api;
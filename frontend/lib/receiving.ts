@@ -0,0 +1,52 @@
+export type DiscrepancyReason = 'SHORT' | 'OVER' | 'DAMAGED' | 'WRONG_ITEM' | 'QUALITY' | 'OTHER';
+
+export const DISCREPANCY_REASONS: { value: DiscrepancyReason; label: string }[] = [
+  { value: 'SHORT', label: 'Short delivery' },
+  { value: 'OVER', label: 'Over delivery' },
+  { value: 'DAMAGED', label: 'Damaged' },
+  { value: 'WRONG_ITEM', label: 'Wrong item' },
+  { value: 'QUALITY', label: 'Quality issue' },
+  { value: 'OTHER', label: 'Other' }
+];
+
+export interface ReceivingItem {
+  id: string;
+  productId: string;
+  variantId?: string | null;
+  productName: string;
+  variantName?: string | null;
+  unit: string;
+  orderedQty?: number | null;
+  receivedQty: number;
+  unitPrice?: number | null;
+  discrepancyReason?: DiscrepancyReason | null;
+  notes?: string | null;
+  posIncomingQty?: number | null;
+  dayReceivedQty?: number | null;
+  createdAt: string;
+}
+
+export interface ReceivingReport {
+  id: string;
+  reportId: string;
+  receivedDate: string;
+  supplierName?: string | null;
+  deliveryNoteNumber?: string | null;
+  comparedAt?: string | null;
+  items: ReceivingItem[];
+}
+
+// Received minus ordered; null when nothing was ordered on record
+export const getDiscrepancy = (item: ReceivingItem) =>
+  item.orderedQty === null || item.orderedQty === undefined ? null : item.receivedQty - item.orderedQty;
+
+// Received at the outlet that day but missing from the POS incoming quantity
+export const getUnrecordedQty = (item: ReceivingItem) =>
+  item.posIncomingQty === null || item.posIncomingQty === undefined || item.dayReceivedQty === null || item.dayReceivedQty === undefined
+    ? null
+    : item.dayReceivedQty - item.posIncomingQty;
+
+export const formatDiscrepancyReason = (reason?: DiscrepancyReason | null) =>
+  DISCREPANCY_REASONS.find(option => option.value === reason)?.label || reason || '';
+
+export const formatQty = (qty: number, unit: string) => `${qty}${unit === 'gram' ? 'g' : ` ${unit}`}`;
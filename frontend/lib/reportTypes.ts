@@ -0,0 +1,207 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  AlertTriangle, Camera, CheckCircle, ClipboardCheck, ClipboardList, Clock, Coffee, FileText,
+  Package, ShieldCheck, Sparkles, Thermometer, Truck, Users, Utensils, Wrench, LucideIcon
+} from 'lucide-react';
+import { reportsAPI } from './api';
+import { formatCurrency } from './stockApi';
+
+export type ReportWorkflow = 'STANDARD' | 'STOCK' | 'RECEIVING';
+
+export type ReportFieldType = 'NUMBER' | 'TEXT' | 'SELECT' | 'DATE' | 'CURRENCY' | 'TEMPERATURE' | 'BOOLEAN';
+
+export interface ReportFieldConfig {
+  id: string;
+  reportTypeId: string;
+  key: string;
+  label: string;
+  fieldType: ReportFieldType;
+  required: boolean;
+  helpText?: string | null;
+  options: string[];
+  min?: number | null;
+  max?: number | null;
+  unit?: string | null;
+  displayOrder: number;
+  active: boolean;
+}
+
+export type ReportFieldValue = string | number | boolean;
+export type ReportFieldValues = Record<string, ReportFieldValue>;
+
+export interface ReportTypeConfig {
+  id: string;
+  code: string;
+  name: string;
+  description?: string | null;
+  icon: string;
+  color: string;
+  workflow: ReportWorkflow;
+  checklist: boolean;
+  photos: boolean;
+  requireChecklist: boolean;
+  requireDescription: boolean;
+  resolvable: boolean;
+  builtIn: boolean;
+  active: boolean;
+  displayOrder: number;
+  fields: ReportFieldConfig[];
+}
+
+export const REPORT_WORKFLOWS: { value: ReportWorkflow; label: string; description: string }[] = [
+  { value: 'STANDARD', label: 'Standard', description: 'Title, description, checklist and photos' },
+  { value: 'STOCK', label: 'Stock count', description: 'Counts every product like the stock report' },
+  { value: 'RECEIVING', label: 'Receiving', description: 'Records a supplier delivery' }
+];
+
+export const REPORT_FIELD_TYPES: { value: ReportFieldType; label: string }[] = [
+  { value: 'NUMBER', label: 'Number' },
+  { value: 'TEXT', label: 'Text' },
+  { value: 'SELECT', label: 'Select' },
+  { value: 'DATE', label: 'Date' },
+  { value: 'CURRENCY', label: 'Currency' },
+  { value: 'TEMPERATURE', label: 'Temperature' },
+  { value: 'BOOLEAN', label: 'Yes/No' }
+];
+
+// Report.metadata comes as a JSON string; custom field values are keyed by field key
+export const parseReportMetadata = (metadata?: string | null): ReportFieldValues => {
+  if (!metadata) return {};
+  try {
+    const value = JSON.parse(metadata);
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : {};
+  } catch {
+    return {};
+  }
+};
+
+export const isFieldValueEmpty = (value?: ReportFieldValue | null) =>
+  value === undefined || value === null || (typeof value === 'string' && value.trim() === '');
+
+// Required active fields still without a value
+export const getMissingFields = (fields: ReportFieldConfig[], values: ReportFieldValues) =>
+  fields.filter(field => field.active && field.required && isFieldValueEmpty(values[field.key]));
+
+export const formatFieldValue = (field: ReportFieldConfig, value: ReportFieldValue) => {
+  switch (field.fieldType) {
+    case 'BOOLEAN':
+      return value === true ? 'Yes' : 'No';
+    case 'CURRENCY':
+      return formatCurrency(Number(value));
+    case 'TEMPERATURE':
+      return `${value}${field.unit || '°C'}`;
+    case 'DATE':
+      return new Date(`${String(value).slice(0, 10)}T00:00:00`).toLocaleDateString();
+    case 'NUMBER':
+      return field.unit ? `${value} ${field.unit}` : String(value);
+    default:
+      return String(value);
+  }
+};
+
+export const REPORT_TYPE_ICONS: Record<string, LucideIcon> = {
+  FileText,
+  CheckCircle,
+  Clock,
+  AlertTriangle,
+  Package,
+  Truck,
+  ClipboardList,
+  ClipboardCheck,
+  Wrench,
+  Thermometer,
+  ShieldCheck,
+  Sparkles,
+  Users,
+  Coffee,
+  Utensils,
+  Camera
+};
+
+interface ReportTypeColor {
+  label: string;
+  text: string;
+  subtleText: string;
+  background: string;
+}
+
+// Full class names so Tailwind keeps them
+export const REPORT_TYPE_COLORS: Record<string, ReportTypeColor> = {
+  accent: { label: 'Accent', text: 'text-accent-400', subtleText: 'text-accent-300', background: 'bg-accent-500/20 border-accent-500/30' },
+  green: { label: 'Green', text: 'text-green-400', subtleText: 'text-green-300', background: 'bg-green-500/20 border-green-500/30' },
+  orange: { label: 'Orange', text: 'text-orange-400', subtleText: 'text-orange-300', background: 'bg-orange-500/20 border-orange-500/30' },
+  red: { label: 'Red', text: 'text-red-400', subtleText: 'text-red-300', background: 'bg-red-500/20 border-red-500/30' },
+  blue: { label: 'Blue', text: 'text-blue-400', subtleText: 'text-blue-300', background: 'bg-blue-500/20 border-blue-500/30' },
+  purple: { label: 'Purple', text: 'text-purple-400', subtleText: 'text-purple-300', background: 'bg-purple-500/20 border-purple-500/30' },
+  yellow: { label: 'Yellow', text: 'text-yellow-400', subtleText: 'text-yellow-300', background: 'bg-yellow-500/20 border-yellow-500/30' }
+};
+
+// Reports whose type was removed or has not loaded yet
+const UNKNOWN_TYPE_COLOR: ReportTypeColor = {
+  label: 'Gray',
+  text: 'text-gothic-400',
+  subtleText: 'text-gothic-300',
+  background: 'bg-gothic-800 border-gothic-700'
+};
+
+export const getReportTypeIcon = (reportType?: ReportTypeConfig | null) =>
+  (reportType && REPORT_TYPE_ICONS[reportType.icon]) || FileText;
+
+export const getReportTypeColor = (reportType?: ReportTypeConfig | null) =>
+  (reportType && REPORT_TYPE_COLORS[reportType.color]) || UNKNOWN_TYPE_COLOR;
+
+// Shared across pages; cleared when an admin edits the types
+let reportTypesRequest: Promise<ReportTypeConfig[]> | null = null;
+
+const loadReportTypes = () => {
+  if (!reportTypesRequest) {
+    reportTypesRequest = reportsAPI.getReportTypes()
+      .then(response => response.data as ReportTypeConfig[])
+      .catch((error) => {
+        reportTypesRequest = null;
+        throw error;
+      });
+  }
+  return reportTypesRequest;
+};
+
+export const clearReportTypesCache = () => {
+  reportTypesRequest = null;
+};
+
+/**
+ * Configured report types, inactive ones included so their past reports
+ * still show a name; `activeTypes` are the ones staff can create
+ */
+export const useReportTypes = () => {
+  const [reportTypes, setReportTypes] = useState<ReportTypeConfig[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadReportTypes()
+      .then((types) => {
+        if (!cancelled) setReportTypes(types);
+      })
+      .catch((error) => console.error('Failed to load report types:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const getReportType = useCallback(
+    (code?: string | null) => reportTypes.find(reportType => reportType.code === code) || null,
+    [reportTypes]
+  );
+
+  return {
+    reportTypes,
+    activeTypes: reportTypes.filter(reportType => reportType.active),
+    loading,
+    getReportType,
+    getLabel: (code: string) => getReportType(code)?.name || code
+  };
+};
@@ -80,6 +80,16 @@ axiosInstance.interceptors.response.use(
   }
 );
 
+const CURRENCY = process.env.NEXT_PUBLIC_CURRENCY || 'IDR';
+
+// Format a variance value in the store currency
+export const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('id-ID', {
+    style: 'currency',
+    currency: CURRENCY,
+    maximumFractionDigits: 0
+  }).format(value);
+
 export const stockAPI = {
   // Initialize stock report with data from Olsera
   initializeStockReport: async (reportId: string, stockDate: string) => {
@@ -94,6 +104,54 @@ export const stockAPI = {
     return response.data;
   },
 
+  // Re-sync stock report with latest Olsera data, keeping entered counts
+  resyncStockReport: async (reportId: string) => {
+    const response = await axiosInstance.post(`/reports/${reportId}/resync`);
+    return response.data;
+  },
+
+  // Get re-sync change log (admin only)
+  getSyncLogs: async (reportId: string) => {
+    const response = await axiosInstance.get(`/reports/${reportId}/sync-logs`);
+    return response.data;
+  },
+
+  // Get scheduled stock reports nobody has claimed yet
+  getScheduledReports: async (): Promise<ScheduledStockReport[]> => {
+    const response = await axiosInstance.get('/scheduled');
+    return response.data;
+  },
+
+  // Take over a scheduled stock report
+  claimStockReport: async (reportId: string) => {
+    const response = await axiosInstance.post(`/reports/${reportId}/claim`);
+    return response.data;
+  },
+
+  // Get stock counts in progress that the user can join
+  getOpenCounts: async (): Promise<OpenStockCount[]> => {
+    const response = await axiosInstance.get('/counts/open');
+    return response.data;
+  },
+
+  // Join someone else's stock count
+  joinStockCount: async (reportId: string) => {
+    const response = await axiosInstance.post(`/reports/${reportId}/join`);
+    return response.data;
+  },
+
+  // Claim items or a whole storage zone for counting
+  claimItems: async (reportId: string, data: { itemIds?: string[]; zoneId?: string }) => {
+    const response = await axiosInstance.post(`/reports/${reportId}/claim-items`, data);
+    return response.data;
+  },
+
+  // Release own claims on items or a storage zone
+  releaseItems: async (reportId: string, data: { itemIds?: string[]; zoneId?: string }) => {
+    const response = await axiosInstance.post(`/reports/${reportId}/release-items`, data);
+    return response.data;
+  },
+
   // Get stock report with all items
   getStockReport: async (reportId: string) => {
     const response = await axiosInstance.get(`/reports/${reportId}`);
@@ -105,11 +163,39 @@ export const stockAPI = {
     actualClosing: number;
     notes?: string;
     photoId?: string;
+    version?: number;
+    entryUnit?: string;
+    containerIds?: string[];
   }) => {
     const response = await axiosInstance.patch(`/items/${itemId}`, data);
     return response.data;
   },
 
+  // Override an item's opening stock with a reason (admin only)
+  overrideOpeningStock: async (itemId: string, data: {
+    openingStock: number;
+    reason: string;
+  }) => {
+    const response = await axiosInstance.patch(`/items/${itemId}/opening`, data);
+    return response.data;
+  },
+
+  // Push the counts of a finalized stock report to Olsera (admin only)
+  pushStockReport: async (reportId: string): Promise<{
+    message: string;
+    result: StockPushResult;
+    stockReport: StockReport;
+  }> => {
+    const response = await axiosInstance.post(`/reports/${reportId}/push`);
+    return response.data;
+  },
+
+  // What a finalized blind count kept hidden (admin only)
+  getBlindCountReveal: async (reportId: string): Promise<BlindCountReveal> => {
+    const response = await axiosInstance.get(`/reports/${reportId}/reveal`);
+    return response.data;
+  },
+
   // Upload photo for stock item
   uploadStockPhoto: async (itemId: string, file: File) => {
     const formData = new FormData();
@@ -150,6 +236,58 @@ export const stockAPI = {
   getPhotoUrl: (photoId: string) => {
     const token = getAuthToken();
     return `${API_BASE_URL}/stock/photos/${photoId}?token=${token}`;
+  },
+
+  // Get counted catalog products, to log waste against
+  getProducts: async (): Promise<StockProduct[]> => {
+    const response = await axiosInstance.get('/products');
+    return response.data;
+  },
+
+  // Get waste logged for an outlet on a day
+  getWasteEntries: async (params: { date: string; outletId?: string }): Promise<StockWasteEntry[]> => {
+    const response = await axiosInstance.get('/waste', { params });
+    return response.data;
+  },
+
+  // Log waste, with an optional photo
+  createWasteEntry: async (data: {
+    productId: string;
+    variantId?: string | null;
+    quantity: number;
+    reasonCode: WasteReasonCode;
+    notes?: string;
+    wasteDate: string;
+    outletId?: string;
+  }, photo?: File | null) => {
+    const formData = new FormData();
+    Object.entries(data).forEach(([key, value]) => {
+      if (value !== undefined && value !== null && value !== '') {
+        formData.append(key, String(value));
+      }
+    });
+    if (photo) {
+      formData.append('photo', photo);
+    }
+
+    const response = await axiosInstance.post('/waste', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+    });
+    return response.data;
+  },
+
+  // Delete a waste entry
+  deleteWasteEntry: async (entryId: string) => {
+    const response = await axiosInstance.delete(`/waste/${entryId}`);
+    return response.data;
+  },
+
+  // Get waste photo URL
+  getWastePhotoUrl: (entryId: string) => {
+    const token = getAuthToken();
+    return `${API_BASE_URL}/stock/waste/${entryId}/photo?token=${token}`;
   }
 };
 
@@ -157,34 +295,375 @@ export interface StockReportItem {
   id: string;
   stockReportId: string;
   productId: string;
+  variantId?: string | null;
   productName: string;
+  variantName?: string | null;
   productSku?: string;
   unit: string;
   openingStock?: number | null;
+  openingSource?: StockOpeningSource;
+  openingSourceDate?: string | null;
+  openingSourceItemId?: string | null;
   expectedOut?: number | null;
+  incomingQty?: number | null;
+  returnQty?: number | null;
+  wasteQty?: number;
+  salesQty?: number;
+  theoreticalQty?: number | null;
   actualClosing?: number | null;
   difference?: number | null;
+  unitCost?: number | null;
+  zone?: StockZone | null;
+  entryUnits?: StockEntryUnit[];
+  containers?: StockContainer[];
+  scanCodes?: string[]; // Barcode, SKU and shelf label code of the product
+  version?: number;
+  countedBy?: StockPerson | null;
+  countedAt?: string | null;
+  claimedBy?: StockPerson | null;
+  claimedAt?: string | null;
   photoId?: string;
   notes?: string;
   completed: boolean;
+  removedFromSource?: boolean;
+  recountStatus?: 'REQUIRED' | 'COMPLETED' | null;
+  secondCountStatus?: StockSecondCountStatus | null;
+  pushStatus?: StockPushStatus | null;
+  pushedAt?: string | null;
+  pushError?: string | null;
+  olseraAdjustmentId?: string | null;
+  counts?: StockItemCount[];
+  openingOverrides?: StockOpeningOverride[];
   createdAt: string;
   updatedAt: string;
 }
 
+export interface StockPerson {
+  id: string;
+  name: string;
+}
+
+// A unit an item can be counted in; factor is the base units in one of it
+export interface StockEntryUnit {
+  unit: string;
+  factor: number;
+}
+
+// A container an item can be weighed in; tareWeight is in the item's base unit
+export interface StockContainer {
+  id: string;
+  name: string;
+  tareWeight: number;
+}
+
+export interface StockZone {
+  id: string;
+  name: string;
+  displayOrder: number;
+}
+
+export type StockPushStatus = 'PENDING' | 'PUSHED' | 'FAILED';
+
+// Blind count reconciliation: the first count waits for a second,
+// independent one; counts that differ need a tie-break count
+export type StockSecondCountStatus = 'PENDING' | 'MATCHED' | 'MISMATCH' | 'RESOLVED';
+
+export interface StockPushResult {
+  pushed: number;
+  failed: number;
+  skipped: number;
+}
+
+export type StockOpeningSource = 'PREVIOUS_COUNT' | 'OLSERA' | 'MANUAL';
+
+export interface StockOpeningOverride {
+  id: string;
+  previousValue: number;
+  previousSource: StockOpeningSource;
+  newValue: number;
+  reason: string;
+  user?: {
+    id: string;
+    username: string;
+    name: string;
+  } | null;
+  createdAt: string;
+}
+
+// Describe where an item's opening stock came from
+export const formatOpeningSource = (source?: StockOpeningSource, sourceDate?: string | null) => {
+  switch (source) {
+    case 'PREVIOUS_COUNT':
+      return sourceDate
+        ? `Counted ${new Date(sourceDate).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+        : 'Previous count';
+    case 'MANUAL':
+      return 'Set manually';
+    default:
+      return 'From Olsera';
+  }
+};
+
+// How a count weighed in containers was taken, e.g. "1250 gross − 250 tare (Tub)"
+export const formatCountWeighing = (count: StockItemCount) => {
+  if (count.grossWeight === null || count.grossWeight === undefined) {
+    return null;
+  }
+  const containers: string[] = count.containers ? JSON.parse(count.containers) : [];
+  return `${count.grossWeight} gross − ${count.tareWeight ?? 0} tare${containers.length > 0 ? ` (${containers.join(', ')})` : ''}`;
+};
+
+export interface StockConsumptionBreakdown {
+  theoretical: number;
+  recorded: number;
+  physical: number;
+  portioningVariance: number;
+  posGap: number;
+}
+
+// The non-sales part of expected out (transfers, adjustments), as the
+// backend summary and export report it
+export const getOutgoingQty = (item: { expectedOut?: number | null; salesQty?: number }) =>
+  (item.expectedOut || 0) - (item.salesQty || 0);
+
+// Split a counted ingredient's usage against its recipe usage, as the
+// backend summary does: physical above theoretical is over-portioning,
+// theoretical above recorded sales is POS movement never entered
+export const getConsumptionBreakdown = (item: {
+  openingStock?: number | null;
+  incomingQty?: number | null;
+  returnQty?: number | null;
+  expectedOut?: number | null;
+  wasteQty?: number;
+  salesQty?: number;
+  theoreticalQty?: number | null;
+  actualClosing?: number | null;
+}): StockConsumptionBreakdown | null => {
+  if (item.theoreticalQty == null || item.actualClosing == null) {
+    return null;
+  }
+
+  const recorded = item.salesQty || 0;
+  const otherOutgoing = getOutgoingQty(item);
+  const physical = (item.openingStock || 0) + (item.incomingQty || 0) + (item.returnQty || 0)
+    - (item.wasteQty || 0) - otherOutgoing - item.actualClosing;
+
+  return {
+    theoretical: item.theoreticalQty,
+    recorded,
+    physical,
+    portioningVariance: physical - item.theoreticalQty,
+    posGap: item.theoreticalQty - recorded
+  };
+};
+
+export interface StockItemCount {
+  id: string;
+  actualClosing: number;
+  difference?: number | null;
+  photoId?: string | null;
+  notes?: string | null;
+  outsideTolerance?: boolean;
+  isRecount: boolean;
+  enteredQty?: number | null;
+  enteredUnit?: string | null;
+  grossWeight?: number | null;
+  tareWeight?: number | null;
+  containers?: string | null; // JSON array of container names
+  user?: {
+    id: string;
+    username: string;
+    name: string;
+  } | null;
+  createdAt: string;
+}
+
 export interface StockReport {
   id: string;
   reportId: string;
   stockDate: string;
   syncedAt?: string;
   completedAt?: string;
+  scheduled?: boolean;
+  claimedAt?: string | null;
+  pushApprovedAt?: string | null;
+  blindCount?: boolean;
+  secondCount?: boolean;
+  report?: {
+    user: StockPerson;
+  };
+  participants?: Array<{
+    id: string;
+    userId: string;
+    joinedAt: string;
+    user: StockPerson;
+  }>;
   items: StockReportItem[];
 }
 
+export interface OpenStockCount {
+  id: string;
+  title: string;
+  user: StockPerson;
+  outlet?: {
+    id: string;
+    code: string;
+    name: string;
+  } | null;
+  stockReport: {
+    id: string;
+    stockDate: string;
+    completedItems: number;
+    participantCount: number;
+    _count: {
+      items: number;
+    };
+  };
+  joined: boolean;
+  createdAt: string;
+}
+
+export interface ScheduledStockReport {
+  id: string;
+  title: string;
+  outlet?: {
+    id: string;
+    code: string;
+    name: string;
+  } | null;
+  stockReport: {
+    id: string;
+    stockDate: string;
+    syncedAt?: string | null;
+    _count: {
+      items: number;
+    };
+  };
+  createdAt: string;
+}
+
 export interface StockReportStats {
   totalItems: number;
   completedItems: number;
+  recountRequired?: number;
+  secondCountPending?: number;
+  countMismatches?: number;
   completionPercentage: number;
   totalDifference?: number;
+  totalWaste?: number;
   negativeDifferences?: StockReportItem[];
   positiveDifferences?: StockReportItem[];
+  valuation?: StockValuation;
+}
+
+export interface BlindCountReveal {
+  stockDate: string;
+  completedAt?: string | null;
+  secondCount: boolean;
+  totals: {
+    items: number;
+    outsideTolerance: number;
+    matched: number;
+    resolved: number;
+  };
+  valuation: StockValuation;
+  items: Array<{
+    id: string;
+    productName: string;
+    variantName?: string | null;
+    unit: string;
+    expectedClosing: number;
+    actualClosing?: number | null;
+    difference?: number | null;
+    value?: number | null;
+    outsideTolerance: boolean;
+    secondCountStatus?: StockSecondCountStatus | null;
+    counts: Array<{
+      id: string;
+      actualClosing: number;
+      user?: StockPerson | null;
+      createdAt: string;
+    }>;
+  }>;
+}
+
+export interface StockValuation {
+  lossValue: number;
+  gainValue: number;
+  netValue: number;
+  unvaluedItems: number;
+  wasteValue?: number;
+}
+
+export interface StockSyncChange {
+  type: 'ADDED' | 'UPDATED' | 'RESTORED' | 'REMOVED';
+  productId: string;
+  variantId?: string | null;
+  productName: string;
+  variantName?: string | null;
+  openingStock?: number | { from: number; to: number };
+  openingSource?: StockOpeningSource | { from: StockOpeningSource; to: StockOpeningSource };
+  expectedOut?: number | { from: number; to: number };
+  incomingQty?: number | { from: number; to: number };
+  returnQty?: number | { from: number; to: number };
+  wasteQty?: number | { from: number; to: number };
+  theoreticalQty?: number | null | { from: number | null; to: number | null };
+  unitCost?: { from: number | null; to: number | null };
+}
+
+export interface StockSyncLog {
+  id: string;
+  addedCount: number;
+  updatedCount: number;
+  removedCount: number;
+  changes?: StockSyncChange[];
+  user?: {
+    id: string;
+    username: string;
+    name: string;
+  } | null;
+  createdAt: string;
+}
+
+export interface StockProduct {
+  id: string;
+  productId: string;
+  variantId?: string | null;
+  name: string;
+  variantName?: string | null;
+  sku?: string | null;
+  unit: string;
+  group?: string | null;
+}
+
+export type WasteReasonCode = 'EXPIRED' | 'SPOILED' | 'SPILLED' | 'DAMAGED' | 'PREP_ERROR' | 'OTHER';
+
+export const WASTE_REASONS: { value: WasteReasonCode; label: string }[] = [
+  { value: 'EXPIRED', label: 'Expired' },
+  { value: 'SPOILED', label: 'Spoiled' },
+  { value: 'SPILLED', label: 'Spilled' },
+  { value: 'DAMAGED', label: 'Damaged' },
+  { value: 'PREP_ERROR', label: 'Prep error' },
+  { value: 'OTHER', label: 'Other' }
+];
+
+export interface StockWasteEntry {
+  id: string;
+  outletId?: string | null;
+  wasteDate: string;
+  productId: string;
+  variantId?: string | null;
+  productName: string;
+  variantName?: string | null;
+  unit: string;
+  quantity: number;
+  reasonCode: WasteReasonCode;
+  notes?: string | null;
+  photoFilename?: string | null;
+  user?: {
+    id: string;
+    username: string;
+    name: string;
+  } | null;
+  createdAt: string;
 }